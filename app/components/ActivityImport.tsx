@@ -0,0 +1,105 @@
+import { useRef, useState } from "react";
+import {
+  ACTIVITY_FILE_ACCEPT,
+  ActivityImportError,
+  readActivityFile,
+  type ActivitySummary,
+} from "~/lib/activityFile";
+import { formatInteger, formatNumber } from "~/lib/i18n";
+import { useLocale, useMessages } from "~/lib/messages";
+import { formatDistance, type UnitSystem } from "~/lib/units";
+
+/* =========================================================
+   ACTIVITY FILE DROP ZONE
+   Reads GPX / TCX / FIT locally and hands the summary up.
+========================================================= */
+export function ActivityImport({
+  units,
+  onImport,
+}: {
+  units: UnitSystem;
+  onImport: (summary: ActivitySummary) => void;
+}) {
+  const locale = useLocale();
+  const t = useMessages().activityImport;
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [dragging, setDragging] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [summary, setSummary] = useState<ActivitySummary | null>(null);
+
+  const handle = async (file: File | undefined) => {
+    if (!file) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const s = await readActivityFile(file);
+      setSummary(s);
+      onImport(s);
+    } catch (e) {
+      setSummary(null);
+      setError(
+        e instanceof ActivityImportError ? t.errors[e.reason] : t.readError
+      );
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div>
+      <div
+        role="button"
+        tabIndex={0}
+        onClick={() => inputRef.current?.click()}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" || e.key === " ") inputRef.current?.click();
+        }}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setDragging(false);
+          handle(e.dataTransfer.files[0]);
+        }}
+        className={`cursor-pointer rounded-lg border-2 border-dashed p-4 text-center text-sm ${
+          dragging
+            ? "border-emerald-500 bg-emerald-50"
+            : "border-emerald-300 text-emerald-700"
+        }`}
+      >
+        {busy ? t.reading : t.prompt}
+        <input
+          ref={inputRef}
+          type="file"
+          accept={ACTIVITY_FILE_ACCEPT}
+          className="hidden"
+          onChange={(e) => {
+            handle(e.target.files?.[0]);
+            e.target.value = "";
+          }}
+        />
+      </div>
+      {error && <p className="mt-2 text-xs text-red-700">{error}</p>}
+      {summary && (
+        <p className="mt-2 text-xs text-emerald-700">
+          {t.imported(
+            summary.name,
+            formatDistance(summary.distanceKm, units, 2, locale),
+            formatInteger(summary.movingMinutes, locale),
+            formatInteger(summary.elevationGainM, locale),
+            formatInteger(summary.elevationLossM, locale),
+            formatNumber(summary.gradePct, locale, 1)
+          )}
+          {summary.cadence
+            ? t.cadence(formatInteger(summary.cadence, locale))
+            : ""}
+          .
+        </p>
+      )}
+    </div>
+  );
+}
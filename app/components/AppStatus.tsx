@@ -0,0 +1,61 @@
+import { useEffect, useState } from "react";
+import { useMessages } from "~/lib/messages";
+import { registerServiceWorker } from "~/lib/serviceWorker";
+
+/* =========================================================
+   APP STATUS
+   Registers the service worker, offers a reload when a new
+   build is waiting, and says so when the device is offline.
+   Nothing renders on the server or on the first client pass.
+========================================================= */
+export function AppStatus() {
+  const m = useMessages().app;
+  const [applyUpdate, setApplyUpdate] = useState<(() => void) | null>(null);
+  const [offline, setOffline] = useState(false);
+
+  useEffect(
+    () => registerServiceWorker((apply) => setApplyUpdate(() => apply)),
+    []
+  );
+
+  useEffect(() => {
+    const sync = () => setOffline(!navigator.onLine);
+    sync();
+    window.addEventListener("online", sync);
+    window.addEventListener("offline", sync);
+    return () => {
+      window.removeEventListener("online", sync);
+      window.removeEventListener("offline", sync);
+    };
+  }, []);
+
+  if (!applyUpdate && !offline) return null;
+
+  return (
+    <div
+      role="status"
+      className="fixed inset-x-0 bottom-0 z-50 flex justify-center p-3 print:hidden"
+    >
+      <div className="max-w-xl space-y-2 rounded-xl border border-emerald-300 bg-white px-4 py-3 text-sm text-emerald-900 shadow-lg">
+        {offline && <p>{m.offline}</p>}
+        {applyUpdate && (
+          <div className="flex flex-wrap items-center gap-3">
+            <span>{m.updateReady}</span>
+            <button
+              onClick={applyUpdate}
+              className="rounded-lg bg-emerald-600 px-3 py-1.5 font-medium text-white hover:bg-emerald-700"
+            >
+              {m.reload}
+            </button>
+            <button
+              onClick={() => setApplyUpdate(null)}
+              className="rounded-lg border border-emerald-300 px-3 py-1.5 text-emerald-700 hover:bg-emerald-50"
+            >
+              {m.later}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
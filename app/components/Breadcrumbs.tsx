@@ -0,0 +1,31 @@
+import { Fragment } from "react";
+import { Link } from "react-router";
+import type { Crumb } from "~/lib/seo";
+
+/* =========================================================
+   BREADCRUMBS
+   The last crumb is the current page and isn't linked.
+========================================================= */
+export function Breadcrumbs({ crumbs }: { crumbs: Crumb[] }) {
+  return (
+    <nav
+      aria-label="Breadcrumb"
+      className="w-full border-b border-emerald-100 bg-emerald-50/60"
+    >
+      <div className="mx-auto max-w-7xl px-4 py-2 text-sm text-emerald-700">
+        {crumbs.map((c, i) => (
+          <Fragment key={c.path}>
+            {i > 0 && " • "}
+            {i < crumbs.length - 1 ? (
+              <Link to={c.path} className="underline">
+                {c.name}
+              </Link>
+            ) : (
+              <span aria-current="page">{c.name}</span>
+            )}
+          </Fragment>
+        ))}
+      </div>
+    </nav>
+  );
+}
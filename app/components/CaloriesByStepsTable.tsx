@@ -0,0 +1,101 @@
+import { useEffect, useMemo, useState } from "react";
+import { Field } from "~/components/ui";
+import {
+  DEFAULT_CALCULATOR_STATE,
+  describeBody,
+  type CalculatorState,
+} from "~/lib/calculator";
+import {
+  DEFAULT_TABLE_STEPS,
+  TABLE_PACES,
+  buildCaloriesTable,
+  parseStepRows,
+} from "~/lib/caloriesTable";
+import { formatInteger } from "~/lib/i18n";
+import { useLocale, useMessages } from "~/lib/messages";
+import { loadProfileState } from "~/lib/profile";
+import { formatDistance } from "~/lib/units";
+
+/* =========================================================
+   STEPS → CALORIES TABLE
+   Server-rendered for the reference person so the content is
+   stable for crawlers; switches to the saved profile after mount.
+========================================================= */
+export function CaloriesByStepsTable() {
+  const locale = useLocale();
+  const m = useMessages();
+  const t = m.caloriesTable;
+  const fmt = (n: number) => formatInteger(n, locale);
+  const [body, setBody] = useState<CalculatorState>(DEFAULT_CALCULATOR_STATE);
+  const [hasProfile, setHasProfile] = useState(false);
+  const [rowsText, setRowsText] = useState(DEFAULT_TABLE_STEPS.join(", "));
+
+  useEffect(() => {
+    const profile = loadProfileState();
+    if (profile) {
+      setBody(profile);
+      setHasProfile(true);
+    }
+  }, []);
+
+  const rows = useMemo(() => {
+    const steps = parseStepRows(rowsText);
+    return buildCaloriesTable(body, steps.length ? steps : DEFAULT_TABLE_STEPS);
+  }, [body, rowsText]);
+
+  return (
+    <div className="space-y-3">
+      <div className="overflow-x-auto rounded-xl border border-emerald-200 bg-white shadow-sm">
+        <table className="w-full text-sm text-emerald-800">
+          <thead className="bg-emerald-100 text-emerald-900">
+            <tr>
+              <th className="p-2 text-left">{t.steps}</th>
+              <th className="p-2 text-left">{t.distance}</th>
+              {TABLE_PACES.map((p) => (
+                <th key={p} className="p-2 text-left">
+                  {m.paces[p]}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((r) => (
+              <tr key={r.steps} className="border-t border-emerald-100">
+                <td className="p-2">{fmt(r.steps)}</td>
+                <td className="p-2">
+                  {formatDistance(r.distanceKm, body.units, 2, locale)}
+                </td>
+                {TABLE_PACES.map((p) => (
+                  <td key={p} className="p-2">
+                    {fmt(r.cells[p].calories)}&nbsp;{m.common.cal}
+                    <span className="block text-xs text-emerald-600">
+                      {fmt(r.cells[p].minutes)}&nbsp;{m.common.min}
+                    </span>
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="w-full max-w-sm">
+          <Field label={t.rowsLabel} hint={t.rowsHint}>
+            <input
+              type="text"
+              inputMode="numeric"
+              value={rowsText}
+              onChange={(e) => setRowsText(e.target.value)}
+              className="w-full rounded-lg border border-emerald-300 px-3 py-2 text-emerald-900"
+            />
+          </Field>
+        </div>
+        <p className="pb-6 text-xs text-emerald-600">
+          {hasProfile
+            ? t.forProfile(describeBody(body, locale))
+            : t.forReference(describeBody(body, locale))}
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import { useRef, useState } from "react";
+import {
+  ExportImportError,
+  downloadFile,
+  exportFileName,
+  parseExportJson,
+} from "~/lib/dataExport";
+import { formatDay, formatInteger } from "~/lib/i18n";
+import { useLocale, useMessages } from "~/lib/messages";
+import { toDateKey } from "~/lib/stepLog";
+
+type Restored = ReturnType<typeof parseExportJson>;
+
+const buttonClass =
+  "rounded-lg border border-emerald-300 px-3 py-1.5 text-xs text-emerald-700 hover:bg-emerald-50 disabled:opacity-50";
+
+/* =========================================================
+   EXPORT / RESTORE BUTTONS
+   CSV + JSON downloads, plus a JSON picker that hands a parsed
+   backup to `onRestore` (which returns a message to show).
+========================================================= */
+export function DataExport({
+  kind,
+  csv,
+  json,
+  onRestore,
+  disabled,
+}: {
+  kind: string; // file-name part, e.g. "step-log"
+  csv: () => string;
+  json: () => string;
+  onRestore?: (data: Restored) => Promise<string> | string;
+  disabled?: boolean;
+}) {
+  const locale = useLocale();
+  const t = useMessages().dataExport;
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [message, setMessage] = useState<{
+    text: string;
+    error?: boolean;
+  } | null>(null);
+
+  const download = (ext: "csv" | "json") => {
+    downloadFile(
+      exportFileName(kind, ext, toDateKey(new Date())),
+      ext === "csv" ? csv() : json(),
+      ext === "csv" ? "text/csv" : "application/json"
+    );
+  };
+
+  const importMessage = (e: ExportImportError) => {
+    const m = t.errors[e.reason];
+    return typeof m === "string"
+      ? m
+      : m(formatInteger(e.entry ?? 0, locale), formatDay(e.date ?? "", locale));
+  };
+
+  const restore = async (file: File | undefined) => {
+    if (!file || !onRestore) return;
+    try {
+      setMessage({ text: await onRestore(parseExportJson(await file.text())) });
+    } catch (e) {
+      setMessage({
+        text:
+          e instanceof ExportImportError ? importMessage(e) : t.restoreError,
+        error: true,
+      });
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={() => download("csv")}
+          disabled={disabled}
+          className={buttonClass}
+        >
+          {t.csv}
+        </button>
+        <button
+          onClick={() => download("json")}
+          disabled={disabled}
+          className={buttonClass}
+        >
+          {t.json}
+        </button>
+        {onRestore && (
+          <button
+            onClick={() => inputRef.current?.click()}
+            disabled={disabled}
+            className={buttonClass}
+          >
+            {t.restore}
+          </button>
+        )}
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            restore(e.target.files?.[0]);
+            e.target.value = "";
+          }}
+        />
+      </div>
+      {message && (
+        <p
+          className={`mt-2 text-xs ${message.error ? "text-red-700" : "text-emerald-700"}`}
+        >
+          {message.text}
+        </p>
+      )}
+    </div>
+  );
+}
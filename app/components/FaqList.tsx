@@ -0,0 +1,19 @@
+import type { FaqItem } from "~/lib/faq";
+
+/* =========================================================
+   FAQ LIST
+   Renders the same items the page's FAQPage JSON-LD is built
+   from (faqPageJsonLd), so the two can't drift.
+========================================================= */
+export function FaqList({ items }: { items: FaqItem[] }) {
+  return (
+    <dl className="mt-8 space-y-8 text-emerald-800">
+      {items.map((item) => (
+        <div key={item.question}>
+          <dt className="font-semibold text-emerald-900">{item.question}</dt>
+          <dd className="mt-1">{item.answer}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
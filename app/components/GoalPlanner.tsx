@@ -0,0 +1,119 @@
+import { useEffect, useMemo, useState } from "react";
+import { Card, Field, NumberInput } from "~/components/ui";
+import {
+  DEFAULT_CALCULATOR_STATE,
+  type CalculatorState,
+} from "~/lib/calculator";
+import {
+  MAX_PLAN_WEEKS,
+  SAFE_WEEKLY_INCREASE,
+  buildGoalPlan,
+} from "~/lib/goalPlan";
+import { formatInteger } from "~/lib/i18n";
+import { useLocale, useMessages } from "~/lib/messages";
+import { loadProfileState } from "~/lib/profile";
+import { clamp } from "~/lib/utils";
+
+/* =========================================================
+   STEP-GOAL PLANNER
+========================================================= */
+export function GoalPlanner() {
+  const locale = useLocale();
+  const t = useMessages().planner;
+  const fmt = (n: number) => formatInteger(n, locale);
+  const [currentSteps, setCurrentSteps] = useState(4000);
+  const [targetSteps, setTargetSteps] = useState(8000);
+  const [maxWeeklyIncrease, setMaxWeeklyIncrease] = useState(1000);
+  const [body, setBody] = useState<CalculatorState>(DEFAULT_CALCULATOR_STATE);
+
+  // personalise calories once mounted; SSR uses the reference walker
+  useEffect(() => {
+    const profile = loadProfileState();
+    if (profile) setBody(profile);
+  }, []);
+
+  const plan = useMemo(
+    () =>
+      buildGoalPlan(
+        {
+          currentSteps: clamp(currentSteps, 0, 50000),
+          targetSteps: clamp(targetSteps, 0, 50000),
+          maxWeeklyIncrease: clamp(maxWeeklyIncrease, 50, 5000),
+        },
+        body
+      ),
+    [currentSteps, targetSteps, maxWeeklyIncrease, body]
+  );
+  const last = plan.weeks[plan.weeks.length - 1];
+
+  return (
+    <div className="grid gap-6 md:grid-cols-3">
+      <Card>
+        <h3 className="text-xl font-semibold text-emerald-900">{t.title}</h3>
+        <p className="mt-1 text-sm text-emerald-700">
+          {t.intro(fmt(SAFE_WEEKLY_INCREASE * 100))}
+        </p>
+        <div className="mt-4 space-y-4">
+          <Field label={t.current}>
+            <NumberInput
+              value={currentSteps}
+              onChange={setCurrentSteps}
+              min={0}
+              step={100}
+            />
+          </Field>
+          <Field label={t.target} hint={t.targetHint}>
+            <NumberInput
+              value={targetSteps}
+              onChange={setTargetSteps}
+              min={0}
+              step={500}
+            />
+          </Field>
+          <Field label={t.maxIncrease} hint={t.maxIncreaseHint}>
+            <NumberInput
+              value={maxWeeklyIncrease}
+              onChange={setMaxWeeklyIncrease}
+              min={50}
+              step={50}
+            />
+          </Field>
+        </div>
+        <p className="mt-4 rounded-lg bg-emerald-50 p-3 text-sm text-emerald-800">
+          {plan.reachedTarget
+            ? t.reached(fmt(last.dailySteps), last.week)
+            : t.notReached(MAX_PLAN_WEEKS, fmt(last.dailySteps))}
+        </p>
+      </Card>
+
+      <Card className="md:col-span-2">
+        <div className="max-h-[28rem] overflow-auto">
+          <table className="w-full text-sm text-emerald-800">
+            <thead className="sticky top-0 bg-emerald-100 text-emerald-900">
+              <tr>
+                <th className="p-2 text-left">{t.week}</th>
+                <th className="p-2 text-right">{t.stepsPerDay}</th>
+                <th className="p-2 text-right">{t.change}</th>
+                <th className="p-2 text-right">{t.stepsPerWeek}</th>
+                <th className="p-2 text-right">{t.caloriesPerWeek}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {plan.weeks.map((w) => (
+                <tr key={w.week} className="border-t border-emerald-100">
+                  <td className="p-2">{w.week}</td>
+                  <td className="p-2 text-right">{fmt(w.dailySteps)}</td>
+                  <td className="p-2 text-right">
+                    {w.increase ? `+${fmt(w.increase)}` : "–"}
+                  </td>
+                  <td className="p-2 text-right">{fmt(w.weeklySteps)}</td>
+                  <td className="p-2 text-right">{fmt(w.weeklyCalories)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+    </div>
+  );
+}
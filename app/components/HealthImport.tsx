@@ -0,0 +1,198 @@
+import { useMemo, useState } from "react";
+import { Rich } from "~/components/Rich";
+import { Card } from "~/components/ui";
+import type { CalculatorState } from "~/lib/calculator";
+import {
+  HEALTH_FILE_ACCEPT,
+  HealthImportError,
+  readHealthFiles,
+  withWalkMetrics,
+  type HealthImportResult,
+} from "~/lib/healthImport";
+import { formatDay, formatInteger } from "~/lib/i18n";
+import { useLocale, useMessages } from "~/lib/messages";
+import type { StepEntry } from "~/lib/stepLog";
+import { putEntries } from "~/lib/stepLogDb";
+import { formatDistance } from "~/lib/units";
+import { errorText } from "~/lib/utils";
+
+const SOURCE_LABELS = {
+  "apple-health": "Apple Health",
+  "google-fit": "Google Fit",
+} as const;
+
+/* =========================================================
+   HEALTH EXPORT IMPORTER
+   Streams an Apple Health / Google Fit export into daily totals,
+   previews distance and calories, then writes them to the step log.
+========================================================= */
+export function HealthImport({
+  base,
+  entries,
+  disabled,
+  onSaved,
+}: {
+  base: CalculatorState;
+  entries: StepEntry[];
+  disabled?: boolean;
+  onSaved: (saved: StepEntry[]) => void;
+}) {
+  const locale = useLocale();
+  const t = useMessages().healthImport;
+  const fmt = (n: number) => formatInteger(n, locale);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<HealthImportResult | null>(null);
+  const [replace, setReplace] = useState(false);
+  const [saved, setSaved] = useState<number | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const days = useMemo(
+    () => (result ? withWalkMetrics(result.days, base) : []),
+    [result, base]
+  );
+  const logged = useMemo(() => new Set(entries.map((e) => e.date)), [entries]);
+  const toWrite = replace ? days : days.filter((d) => !logged.has(d.date));
+
+  const healthMessage = (e: HealthImportError) => {
+    const m = t.errors[e.reason];
+    return typeof m === "string" ? m : m(e.fileName);
+  };
+
+  const read = async (files: File[]) => {
+    if (!files.length) return;
+    setError(null);
+    setResult(null);
+    setSaved(null);
+    setSaveError(null);
+    setProgress(0);
+    try {
+      setResult(await readHealthFiles(files, setProgress));
+    } catch (e) {
+      setError(e instanceof HealthImportError ? healthMessage(e) : t.readError);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const save = async () => {
+    if (!result || !toWrite.length) return;
+    const now = new Date().toISOString();
+    const note = t.note(SOURCE_LABELS[result.source]);
+    const list: StepEntry[] = toWrite.map((d) => ({
+      date: d.date,
+      steps: d.steps,
+      note,
+      updatedAt: now,
+    }));
+    setSaved(null);
+    setSaveError(null);
+    try {
+      await putEntries(list);
+      onSaved(list);
+      setSaved(list.length);
+    } catch (e) {
+      setSaveError(t.saveError(errorText(e)));
+    }
+  };
+
+  return (
+    <Card>
+      <h2 className="text-lg font-semibold">{t.title}</h2>
+      <p className="mt-2 text-sm text-emerald-800">
+        <Rich text={t.help} />
+      </p>
+      <input
+        type="file"
+        multiple
+        accept={HEALTH_FILE_ACCEPT}
+        disabled={disabled || progress != null}
+        onChange={(e) => {
+          read(Array.from(e.target.files ?? []));
+          e.target.value = "";
+        }}
+        className="mt-3 block text-sm text-emerald-800 file:mr-3 file:rounded-lg file:border-0 file:bg-emerald-600 file:px-3 file:py-2 file:text-white"
+      />
+
+      {progress != null && (
+        <div className="mt-3">
+          <div className="h-2 w-full overflow-hidden rounded bg-emerald-100">
+            <div
+              className="h-full bg-emerald-600"
+              style={{ width: `${Math.round(progress * 100)}%` }}
+            />
+          </div>
+          <div className="mt-1 text-xs text-emerald-700">
+            {t.reading(fmt(progress * 100))}
+          </div>
+        </div>
+      )}
+      {error && <p className="mt-3 text-sm text-red-700">{error}</p>}
+
+      {result && (
+        <div className="mt-4 space-y-3">
+          <p className="text-sm text-emerald-800">
+            {t.summary(
+              SOURCE_LABELS[result.source],
+              fmt(days.length),
+              formatDay(days[0].date, locale),
+              formatDay(days[days.length - 1].date, locale),
+              fmt(result.records),
+              fmt(days.reduce((n, d) => n + d.steps, 0))
+            )}
+          </p>
+          <div className="max-h-72 overflow-auto rounded border border-emerald-100">
+            <table className="w-full text-sm text-emerald-800">
+              <thead className="sticky top-0 bg-emerald-100 text-emerald-900">
+                <tr>
+                  <th className="p-2 text-left">{t.date}</th>
+                  <th className="p-2 text-right">{t.steps}</th>
+                  <th className="p-2 text-right">{t.distance}</th>
+                  <th className="p-2 text-right">{t.calories}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {[...days].reverse().map((d) => (
+                  <tr key={d.date} className="border-t border-emerald-100">
+                    <td className="p-2">
+                      {formatDay(d.date, locale)}
+                      {logged.has(d.date) && (
+                        <span className="ml-2 text-xs text-emerald-600">
+                          {t.alreadyLogged}
+                        </span>
+                      )}
+                    </td>
+                    <td className="p-2 text-right">{fmt(d.steps)}</td>
+                    <td className="p-2 text-right">
+                      {formatDistance(d.distanceKm, base.units, 2, locale)}
+                    </td>
+                    <td className="p-2 text-right">{fmt(d.calories)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-emerald-800">
+            <input
+              type="checkbox"
+              checked={replace}
+              onChange={(e) => setReplace(e.target.checked)}
+            />
+            {t.replace}
+          </label>
+          <button
+            onClick={save}
+            disabled={disabled || !toWrite.length}
+            className="rounded-lg bg-emerald-600 px-4 py-2 text-sm text-white disabled:opacity-50"
+          >
+            {t.add(fmt(toWrite.length))}
+          </button>
+          {saved != null && (
+            <p className="text-sm text-emerald-700">{t.saved(fmt(saved))}</p>
+          )}
+          {saveError && <p className="text-sm text-red-700">{saveError}</p>}
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,51 @@
+import { Link, useLocation } from "react-router";
+import {
+  LOCALES,
+  LOCALE_NAMES,
+  localeCookie,
+  localizePath,
+  splitLocale,
+} from "~/lib/i18n";
+import { useLocale, useMessages } from "~/lib/messages";
+
+/* =========================================================
+   LANGUAGE SWITCHER
+   Links to the same page in each locale. Choosing one is
+   remembered in a cookie so Accept-Language stops overriding it.
+========================================================= */
+export function LanguageSwitcher() {
+  const { pathname, search } = useLocation();
+  const { path } = splitLocale(pathname);
+  const current = useLocale();
+  const m = useMessages();
+
+  return (
+    <nav
+      aria-label={m.common.language}
+      className="border-t border-emerald-100 bg-emerald-50/60"
+    >
+      <ul className="mx-auto flex max-w-7xl flex-wrap justify-center gap-4 px-4 py-3 text-sm text-emerald-700">
+        {LOCALES.map((l) => (
+          <li key={l} lang={l}>
+            {l === current ? (
+              <span aria-current="page" className="font-semibold">
+                {LOCALE_NAMES[l]}
+              </span>
+            ) : (
+              <Link
+                to={localizePath(path, l) + search}
+                hrefLang={l}
+                onClick={() => {
+                  document.cookie = localeCookie(l);
+                }}
+                className="underline"
+              >
+                {LOCALE_NAMES[l]}
+              </Link>
+            )}
+          </li>
+        ))}
+      </ul>
+    </nav>
+  );
+}
@@ -0,0 +1,173 @@
+import { TABLE_PACES } from "~/lib/caloriesTable";
+import { formatDate, formatInteger, formatNumber } from "~/lib/i18n";
+import { messagesFor } from "~/lib/messages";
+import {
+  reportPlanWeeks,
+  reportProfileRows,
+  reportWalkSummary,
+  type WalkingReport,
+} from "~/lib/report";
+import { UNIT_LABELS, formatDistance, speedFromMph } from "~/lib/units";
+import { PACE } from "~/lib/walking";
+
+/** Self-contained: the report is served outside the app shell and CSS. */
+const STYLES = `
+  @page { size: letter; margin: 0.6in; }
+  * { box-sizing: border-box; }
+  body { font: 10.5pt/1.4 system-ui, -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; color: #111827; margin: 0; }
+  main { max-width: 7.3in; margin: 0 auto; padding: 0.4in 0; }
+  header { display: flex; justify-content: space-between; align-items: flex-start; border-bottom: 2px solid #047857; padding-bottom: 8pt; }
+  h1 { margin: 0; font-size: 20pt; color: #047857; }
+  h2 { margin: 16pt 0 6pt; font-size: 12pt; color: #064e3b; }
+  .brand { text-align: right; color: #047857; font-weight: 700; }
+  .muted { color: #4b5563; font-size: 9pt; font-weight: 400; }
+  dl { display: grid; grid-template-columns: auto 1fr auto 1fr; gap: 3pt 12pt; margin: 0; }
+  dt { color: #4b5563; font-size: 9pt; }
+  dd { margin: 0; }
+  .summary { font-weight: 700; margin-top: 8pt; }
+  table { width: 100%; border-collapse: collapse; font-size: 9.5pt; font-variant-numeric: tabular-nums; }
+  th { background: #d1fae5; color: #064e3b; text-align: right; padding: 4pt 6pt; }
+  td { text-align: right; padding: 3pt 6pt; border-bottom: 1px solid #a7f3d0; }
+  footer { margin-top: 18pt; color: #4b5563; font-size: 8pt; }
+  .actions { margin: 12pt 0; display: flex; gap: 8pt; }
+  .actions a, .actions button { font: inherit; font-size: 9pt; padding: 5pt 10pt; border: 1px solid #6ee7b7; border-radius: 6pt; background: #fff; color: #047857; text-decoration: none; cursor: pointer; }
+  @media print { .actions { display: none; } main { padding: 0; } }
+`;
+
+/* =========================================================
+   PRINTABLE REPORT
+   Static markup rendered by the /report resource route.
+========================================================= */
+export function ReportDocument({
+  report,
+  pdfHref,
+  calculatorHref,
+}: {
+  report: WalkingReport;
+  pdfHref: string;
+  calculatorHref: string;
+}) {
+  const { state: s, options } = report;
+  const { locale } = options;
+  const m = messagesFor(locale);
+  const t = m.report;
+  const fmt = (n: number) => formatInteger(n, locale);
+  const u = UNIT_LABELS[s.units];
+  const generated = formatDate(report.generatedAt, locale);
+
+  return (
+    <html lang={locale}>
+      <head>
+        <meta charSet="utf-8" />
+        <meta name="viewport" content="width=device-width, initial-scale=1" />
+        <meta name="robots" content="noindex" />
+        <title>{t.documentTitle(options.client)}</title>
+        <style dangerouslySetInnerHTML={{ __html: STYLES }} />
+      </head>
+      <body>
+        <main>
+          <header>
+            <div>
+              <h1>{t.title}</h1>
+              {options.client && <div>{t.preparedFor(options.client)}</div>}
+            </div>
+            <div className="brand">
+              I Love Steps
+              <div className="muted">{generated}</div>
+            </div>
+          </header>
+
+          <div className="actions">
+            <button id="print" type="button">
+              {t.print}
+            </button>
+            <a href={pdfHref}>{t.pdf}</a>
+            <a href={calculatorHref}>{t.edit}</a>
+          </div>
+
+          <h2>{t.profile}</h2>
+          <dl>
+            {reportProfileRows(report).map(([label, value]) => [
+              <dt key={`${label}-t`}>{label}</dt>,
+              <dd key={`${label}-d`}>{value}</dd>,
+            ])}
+          </dl>
+          <p className="summary">{reportWalkSummary(report)}</p>
+
+          <h2>
+            {t.table} <span className="muted">{t.tableUnits}</span>
+          </h2>
+          <table>
+            <thead>
+              <tr>
+                <th>{t.steps}</th>
+                <th>{t.distance}</th>
+                {TABLE_PACES.map((p) => (
+                  <th key={p}>
+                    {m.paceShort[p][0].toUpperCase() + m.paceShort[p].slice(1)}{" "}
+                    {formatNumber(
+                      speedFromMph(PACE[p].mph, s.units),
+                      locale,
+                      1
+                    )}{" "}
+                    {u.speed}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {report.table.map((r) => (
+                <tr key={r.steps}>
+                  <td>{fmt(r.steps)}</td>
+                  <td>{formatDistance(r.distanceKm, s.units, 2, locale)}</td>
+                  {TABLE_PACES.map((p) => (
+                    <td key={p}>
+                      {t.cell(
+                        fmt(r.cells[p].calories),
+                        fmt(r.cells[p].minutes)
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <h2>{t.ramp(fmt(options.currentSteps), fmt(options.goalSteps))}</h2>
+          <table>
+            <thead>
+              <tr>
+                <th>{t.week}</th>
+                <th>{t.dailySteps}</th>
+                <th>{t.increase}</th>
+                <th>{t.weeklySteps}</th>
+                <th>{t.weeklyKcal}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {reportPlanWeeks(report.plan).map((w) => (
+                <tr key={w.week}>
+                  <td>{w.week}</td>
+                  <td>{fmt(w.dailySteps)}</td>
+                  <td>{w.increase ? `+${fmt(w.increase)}` : "–"}</td>
+                  <td>{fmt(w.weeklySteps)}</td>
+                  <td>{fmt(w.weeklyCalories)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {!report.plan.reachedTarget && (
+            <p className="muted">{t.notReached(report.plan.weeks.length)}</p>
+          )}
+
+          <footer>{t.method}</footer>
+        </main>
+        <script
+          dangerouslySetInnerHTML={{
+            __html: `document.getElementById("print").onclick=function(){window.print()}`,
+          }}
+        />
+      </body>
+    </html>
+  );
+}
@@ -0,0 +1,39 @@
+import { Fragment } from "react";
+import { Link } from "react-router";
+
+// **bold**, *emphasis*, `code` or [text](href); links are site-relative
+const TOKEN = /\*\*(.+?)\*\*|\*(.+?)\*|`(.+?)`|\[(.+?)\]\((.+?)\)/g;
+
+/* =========================================================
+   RICH TEXT
+   Renders the small Markdown subset used in translated copy,
+   so a sentence can keep its bold words and links in every
+   language without splitting it into fragments.
+========================================================= */
+export function Rich({ text }: { text: string }) {
+  const parts: React.ReactNode[] = [];
+  let last = 0;
+  for (const m of text.matchAll(TOKEN)) {
+    const i = m.index ?? 0;
+    if (i > last) parts.push(text.slice(last, i));
+    const [, bold, em, code, label, href] = m;
+    if (bold) parts.push(<strong>{bold}</strong>);
+    else if (em) parts.push(<em>{em}</em>);
+    else if (code) parts.push(<code>{code}</code>);
+    else
+      parts.push(
+        <Link to={href} className="underline">
+          {label}
+        </Link>
+      );
+    last = i + m[0].length;
+  }
+  if (last < text.length) parts.push(text.slice(last));
+  return (
+    <>
+      {parts.map((p, i) => (
+        <Fragment key={i}>{p}</Fragment>
+      ))}
+    </>
+  );
+}
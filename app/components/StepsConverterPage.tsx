@@ -0,0 +1,356 @@
+import { useEffect, useState } from "react";
+import { Link, useSearchParams } from "react-router";
+import { Breadcrumbs } from "~/components/Breadcrumbs";
+import { FaqList } from "~/components/FaqList";
+import { Rich } from "~/components/Rich";
+import { Card, Field, NumberInput } from "~/components/ui";
+import {
+  DEFAULT_CALCULATOR_STATE,
+  convertUnits,
+  toCalculatorParams,
+} from "~/lib/calculator";
+import { formatInteger, formatNumber, localizePath } from "~/lib/i18n";
+import { useLocale, useMessages } from "~/lib/messages";
+import { loadProfileState } from "~/lib/profile";
+import {
+  CONVERTERS,
+  HEIGHT_ROWS_CM,
+  LANDING_STEP_COUNTS,
+  MAX_LANDING_STEPS,
+  REFERENCE_HEIGHT_CM,
+  STEPS_QUERY_KEY,
+  TABLE_STEP_COUNTS,
+  converterSeo,
+  converterStrideCm,
+  distanceToSteps,
+  stepsPerUnit,
+  stepsToDistance,
+  type DistanceUnit,
+} from "~/lib/stepConversion";
+import {
+  UNIT_LABELS,
+  formatLength,
+  lengthFromCm,
+  lengthToCm,
+  roundTo,
+} from "~/lib/units";
+import { clamp } from "~/lib/utils";
+import type { SexKey } from "~/lib/walking";
+
+/* =========================================================
+   STEPS ⇄ DISTANCE PAGE
+   Shared by /steps-to-miles and /steps-to-km (and their
+   /:steps landing pages); `unit` picks the wording and units.
+========================================================= */
+export function StepsConverterPage({
+  unit,
+  steps: landingSteps,
+}: {
+  unit: DistanceUnit;
+  steps: number | null;
+}) {
+  const locale = useLocale();
+  const m = useMessages();
+  const t = m.converter;
+  const c = CONVERTERS[unit];
+  const other = CONVERTERS[c.other];
+  const w = t.units[unit];
+  const ow = t.units[c.other];
+  const seo = converterSeo(unit, landingSteps, locale);
+  const heightLabel = UNIT_LABELS[c.units].height;
+  const fmt = (n: number) => formatInteger(n, locale);
+  const fmt2 = (n: number) => formatNumber(n, locale, 2);
+  const len = (cm: number, units = c.units) => formatLength(cm, units, locale);
+  const pagePath = (path: string) => localizePath(path, locale);
+
+  const toHeight = (cm: number) =>
+    roundTo(lengthFromCm(cm, c.units), c.units === "metric" ? 0 : 1);
+  const [height, setHeight] = useState(toHeight(REFERENCE_HEIGHT_CM));
+  const [sex, setSex] = useState<SexKey>(DEFAULT_CALCULATOR_STATE.sex);
+  const [steps, setSteps] = useState(landingSteps ?? 10000);
+  const [searchParams] = useSearchParams();
+
+  const strideCm = converterStrideCm(lengthToCm(height, c.units), sex);
+  const [distance, setDistance] = useState(() =>
+    roundTo(stepsToDistance(steps, strideCm, unit), 2)
+  );
+  // the field last typed in keeps its value; the other one follows it
+  const [edited, setEdited] = useState<"steps" | "distance">("steps");
+
+  // landing pages link to each other client-side; follow the new count
+  useEffect(() => {
+    if (landingSteps) {
+      setEdited("steps");
+      setSteps(landingSteps);
+    }
+  }, [landingSteps]);
+
+  // a count without its own page arrives as ?steps=N (read after mount,
+  // since the prerendered page can't see the query)
+  useEffect(() => {
+    const n = Number(searchParams.get(STEPS_QUERY_KEY));
+    if (landingSteps || !(n > 0)) return;
+    setEdited("steps");
+    setSteps(clamp(Math.round(n), 0, MAX_LANDING_STEPS));
+  }, [searchParams, landingSteps]);
+
+  // personal height once mounted, if the calculator saved one
+  useEffect(() => {
+    const profile = loadProfileState();
+    if (!profile) return;
+    setHeight(toHeight(lengthToCm(profile.height, profile.units)));
+    setSex(profile.sex);
+  }, [unit]);
+
+  useEffect(() => {
+    if (edited === "steps") {
+      setDistance(roundTo(stepsToDistance(steps, strideCm, unit), 2));
+    } else {
+      setSteps(distanceToSteps(distance, strideCm, unit));
+    }
+  }, [edited, steps, distance, strideCm, unit]);
+
+  const onSteps = (n: number) => {
+    setEdited("steps");
+    setSteps(n);
+  };
+
+  const onDistance = (d: number) => {
+    setEdited("distance");
+    setDistance(d);
+  };
+
+  const calculatorHref = `${pagePath("/")}?${toCalculatorParams({
+    ...convertUnits(DEFAULT_CALCULATOR_STATE, c.units),
+    height,
+    sex,
+    steps,
+  })}#calculator`;
+
+  return (
+    <main className="bg-emerald-50/20 text-emerald-900">
+      <script
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{ __html: JSON.stringify(seo.jsonLd) }}
+      />
+      <Breadcrumbs crumbs={seo.breadcrumbs} />
+
+      <section className="mx-auto max-w-7xl px-4 py-6 space-y-6">
+        <div>
+          <h1 className="text-3xl font-extrabold tracking-tight">{seo.h1}</h1>
+          <p className="mt-2 text-emerald-800">
+            <Rich
+              text={
+                landingSteps
+                  ? t.landingLead(
+                      w,
+                      fmt(landingSteps),
+                      fmt2(stepsToDistance(landingSteps, strideCm, unit)),
+                      len(lengthToCm(height, c.units)),
+                      sex,
+                      len(strideCm)
+                    )
+                  : t.indexLead(w, fmt(stepsPerUnit(strideCm, unit)))
+              }
+            />
+          </p>
+        </div>
+
+        <div className="grid gap-6 md:grid-cols-3">
+          {/* ---------- Converter ---------- */}
+          <Card className="md:col-span-2">
+            <h2 className="text-lg font-semibold">{t.convert}</h2>
+            <div className="mt-4 grid gap-4 sm:grid-cols-2">
+              <Field label={t.steps}>
+                <NumberInput
+                  value={steps}
+                  onChange={onSteps}
+                  min={0}
+                  step={100}
+                />
+              </Field>
+              <Field label={t.distance(w)}>
+                <NumberInput
+                  value={distance}
+                  onChange={onDistance}
+                  min={0}
+                  step={0.1}
+                />
+              </Field>
+              <Field label={t.height(heightLabel)}>
+                <NumberInput value={height} onChange={setHeight} min={0} />
+              </Field>
+              <Field label={t.sex}>
+                <div className="flex gap-2">
+                  {(["male", "female", "unspecified"] as SexKey[]).map((k) => (
+                    <button
+                      key={k}
+                      onClick={() => setSex(k)}
+                      className={`rounded-lg border px-3 py-2 text-sm ${
+                        sex === k
+                          ? "border-emerald-600 bg-emerald-600 text-white"
+                          : "border-emerald-300 text-emerald-700"
+                      }`}
+                    >
+                      {m.common.sexButton[k]}
+                    </button>
+                  ))}
+                </div>
+              </Field>
+            </div>
+            <ul className="mt-4 space-y-1 text-sm text-emerald-800">
+              <li>
+                {t.stride}: {len(strideCm)}
+              </li>
+              <li>
+                {t.stepsPer(
+                  w,
+                  fmt(stepsPerUnit(strideCm, unit)),
+                  ow,
+                  fmt(stepsPerUnit(strideCm, other.unit))
+                )}
+              </li>
+              <li>
+                {t.stepsEqual(
+                  fmt(steps),
+                  fmt2(stepsToDistance(steps, strideCm, other.unit)),
+                  ow
+                )}
+              </li>
+            </ul>
+            <Link
+              to={calculatorHref}
+              className="mt-4 inline-block text-sm font-medium text-emerald-700 underline"
+            >
+              {t.seeCalories(fmt(steps))}
+            </Link>
+          </Card>
+
+          <Card>
+            <h2 className="text-lg font-semibold">{t.howItWorks}</h2>
+            <p className="mt-2 text-sm text-emerald-800">{t.howItWorksText}</p>
+            <p className="mt-3 text-sm text-emerald-800">
+              {t.prefer(ow)}{" "}
+              <Link
+                to={pagePath(
+                  landingSteps ? `${other.path}/${landingSteps}` : other.path
+                )}
+                className="underline"
+              >
+                {t.stepsTo(ow)}
+              </Link>
+            </p>
+          </Card>
+        </div>
+
+        {/* ---------- By height (landing pages) ---------- */}
+        {landingSteps && (
+          <Card>
+            <h2 className="text-lg font-semibold">
+              {t.byHeight(fmt(landingSteps), w)}
+            </h2>
+            <div className="mt-3 overflow-x-auto">
+              <table className="w-full text-sm text-emerald-800">
+                <thead className="bg-emerald-100 text-emerald-900">
+                  <tr>
+                    <th className="p-2 text-left">{t.heightColumn}</th>
+                    <th className="p-2 text-right">{t.women}</th>
+                    <th className="p-2 text-right">{t.men}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {HEIGHT_ROWS_CM.map((cm) => (
+                    <tr key={cm} className="border-t border-emerald-100">
+                      <td className="p-2">
+                        {len(cm, "imperial")} ({len(cm, "metric")})
+                      </td>
+                      {(["female", "male"] as SexKey[]).map((k) => (
+                        <td key={k} className="p-2 text-right">
+                          {fmt2(
+                            stepsToDistance(
+                              landingSteps,
+                              converterStrideCm(cm, k),
+                              unit
+                            )
+                          )}{" "}
+                          {unit}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </Card>
+        )}
+
+        {/* ---------- Conversion table ---------- */}
+        <Card>
+          <h2 className="text-lg font-semibold">{t.tableHeading(w)}</h2>
+          <p className="mt-1 text-xs text-emerald-600">
+            {t.tableFor(len(lengthToCm(height, c.units)), sex, len(strideCm))}
+          </p>
+          <div className="mt-3 overflow-x-auto">
+            <table className="w-full text-sm text-emerald-800">
+              <thead className="bg-emerald-100 text-emerald-900">
+                <tr>
+                  <th className="p-2 text-left">{t.steps}</th>
+                  <th className="p-2 text-right">{w.plural}</th>
+                  <th className="p-2 text-right">{ow.plural}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {TABLE_STEP_COUNTS.map((n) => (
+                  <tr key={n} className="border-t border-emerald-100">
+                    <td className="p-2">
+                      {LANDING_STEP_COUNTS.includes(n) ? (
+                        <Link
+                          to={pagePath(`${c.path}/${n}`)}
+                          className="underline"
+                        >
+                          {fmt(n)}
+                        </Link>
+                      ) : (
+                        fmt(n)
+                      )}
+                    </td>
+                    <td className="p-2 text-right">
+                      {fmt2(stepsToDistance(n, strideCm, unit))}
+                    </td>
+                    <td className="p-2 text-right">
+                      {fmt2(stepsToDistance(n, strideCm, other.unit))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </Card>
+
+        {seo.faq.length > 0 && (
+          <section>
+            <h2 className="text-lg font-semibold">{t.questions}</h2>
+            <FaqList items={seo.faq} />
+          </section>
+        )}
+
+        {/* ---------- Popular conversions ---------- */}
+        <nav aria-label={t.popular}>
+          <h2 className="text-lg font-semibold">{t.popular}</h2>
+          <ul className="mt-2 flex flex-wrap gap-2 text-sm">
+            {LANDING_STEP_COUNTS.filter((n) => n !== landingSteps).map((n) => (
+              <li key={n}>
+                <Link
+                  to={pagePath(`${c.path}/${n}`)}
+                  className="inline-block rounded-full border border-emerald-300 px-3 py-1 text-emerald-700 hover:bg-emerald-50"
+                >
+                  {t.popularLink(fmt(n), w)}
+                </Link>
+              </li>
+            ))}
+          </ul>
+        </nav>
+      </section>
+    </main>
+  );
+}
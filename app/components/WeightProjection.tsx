@@ -0,0 +1,226 @@
+import { useEffect, useMemo, useState } from "react";
+import { Rich } from "~/components/Rich";
+import { Card, Field, NumberInput } from "~/components/ui";
+import {
+  DEFAULT_CALCULATOR_STATE,
+  type CalculatorState,
+} from "~/lib/calculator";
+import { formatInteger, formatNumber } from "~/lib/i18n";
+import { useLocale, useMessages } from "~/lib/messages";
+import { loadProfileState } from "~/lib/profile";
+import { UNIT_LABELS } from "~/lib/units";
+import { clamp } from "~/lib/utils";
+import { PACE, type PaceKey } from "~/lib/walking";
+import {
+  MAX_PROJECTION_WEEKS,
+  MIN_PROJECTION_WEEKS,
+  projectWeightLoss,
+  type ProjectionPoint,
+} from "~/lib/weightProjection";
+
+/* =========================================================
+   CHART
+========================================================= */
+function WeightChart({
+  points,
+  unit,
+}: {
+  points: ProjectionPoint[];
+  unit: string;
+}) {
+  const locale = useLocale();
+  const t = useMessages().projection;
+  const W = 600;
+  const H = 220;
+  const pad = { top: 12, right: 12, bottom: 28, left: 48 };
+  const weights = points.map((p) => p.weight);
+  const max = Math.max(...weights);
+  const min = Math.min(...weights);
+  const span = Math.max(1, max - min);
+  const lastWeek = points[points.length - 1].week || 1;
+
+  const x = (week: number) =>
+    pad.left + (week / lastWeek) * (W - pad.left - pad.right);
+  const y = (w: number) =>
+    pad.top + ((max - w) / span) * (H - pad.top - pad.bottom);
+  const path = points.map((p) => `${x(p.week)},${y(p.weight)}`).join(" ");
+  const ticks = [max, min + span / 2, min];
+
+  return (
+    <svg
+      viewBox={`0 0 ${W} ${H}`}
+      className="w-full"
+      role="img"
+      aria-label={t.chartLabel(
+        `${formatInteger(max, locale)} ${unit}`,
+        `${formatInteger(min, locale)} ${unit}`,
+        lastWeek
+      )}
+    >
+      {ticks.map((tick, i) => (
+        <g key={i}>
+          <line
+            x1={pad.left}
+            x2={W - pad.right}
+            y1={y(tick)}
+            y2={y(tick)}
+            className="stroke-emerald-100"
+          />
+          <text
+            x={pad.left - 6}
+            y={y(tick) + 4}
+            textAnchor="end"
+            className="fill-emerald-700 text-[11px]"
+          >
+            {formatNumber(tick, locale, 1)}
+          </text>
+        </g>
+      ))}
+      {[0, Math.round(lastWeek / 2), lastWeek].map((wk, i) => (
+        <text
+          key={i}
+          x={x(wk)}
+          y={H - 8}
+          textAnchor="middle"
+          className="fill-emerald-700 text-[11px]"
+        >
+          {t.weekTick(wk)}
+        </text>
+      ))}
+      <polyline
+        points={path}
+        fill="none"
+        strokeWidth={3}
+        className="stroke-emerald-600"
+      />
+    </svg>
+  );
+}
+
+/* =========================================================
+   WEIGHT-LOSS PROJECTION
+========================================================= */
+export function WeightProjection() {
+  const locale = useLocale();
+  const m = useMessages();
+  const t = m.projection;
+  const fmt1 = (n: number) => formatNumber(n, locale, 1);
+  const [body, setBody] = useState<CalculatorState>(DEFAULT_CALCULATOR_STATE);
+  const [dailySteps, setDailySteps] = useState(8000);
+  const [daysPerWeek, setDaysPerWeek] = useState(5);
+  const [deficitKcal, setDeficitKcal] = useState(0);
+  const [weeks, setWeeks] = useState(12);
+
+  useEffect(() => {
+    const profile = loadProfileState();
+    if (profile) setBody(profile);
+  }, []);
+
+  const points = useMemo(
+    () =>
+      projectWeightLoss(
+        {
+          dailySteps: clamp(dailySteps, 0, 100000),
+          daysPerWeek,
+          deficitKcal: clamp(deficitKcal, 0, 1500),
+          weeks,
+        },
+        body
+      ),
+    [body, dailySteps, daysPerWeek, deficitKcal, weeks]
+  );
+  const last = points[points.length - 1];
+  const unit = UNIT_LABELS[body.units].weight;
+
+  return (
+    <div className="grid gap-6 md:grid-cols-3">
+      <Card>
+        <h3 className="text-xl font-semibold text-emerald-900">{t.title}</h3>
+        <div className="mt-4 space-y-4">
+          <Field label={t.startingWeight(unit)}>
+            <NumberInput
+              value={body.weight}
+              onChange={(v) => setBody((b) => ({ ...b, weight: v }))}
+            />
+          </Field>
+          <Field label={t.stepsPerDay}>
+            <NumberInput
+              value={dailySteps}
+              onChange={setDailySteps}
+              step={500}
+            />
+          </Field>
+          <Field label={t.pace}>
+            <select
+              value={body.pace}
+              onChange={(e) =>
+                setBody((b) => ({
+                  ...b,
+                  pace: e.target.value as CalculatorState["pace"],
+                }))
+              }
+              className="w-full rounded border border-emerald-300 px-2 py-2"
+            >
+              {(Object.keys(PACE) as PaceKey[]).map((k) => (
+                <option key={k} value={k}>
+                  {m.paces[k]}
+                </option>
+              ))}
+              {body.pace === "custom" && (
+                <option value="custom">
+                  {t.yourSpeed(
+                    `${fmt1(body.speed)} ${UNIT_LABELS[body.units].speed}`
+                  )}
+                </option>
+              )}
+            </select>
+          </Field>
+          <Field label={t.daysPerWeek(daysPerWeek)}>
+            <input
+              type="range"
+              min={1}
+              max={7}
+              value={daysPerWeek}
+              onChange={(e) => setDaysPerWeek(Number(e.target.value))}
+              className="w-full accent-emerald-600"
+            />
+          </Field>
+          <Field label={t.deficit} hint={t.deficitHint}>
+            <NumberInput
+              value={deficitKcal}
+              onChange={setDeficitKcal}
+              min={0}
+              step={50}
+            />
+          </Field>
+          <Field label={t.length(weeks)}>
+            <input
+              type="range"
+              min={MIN_PROJECTION_WEEKS}
+              max={MAX_PROJECTION_WEEKS}
+              value={weeks}
+              onChange={(e) => setWeeks(Number(e.target.value))}
+              className="w-full accent-emerald-600"
+            />
+          </Field>
+        </div>
+      </Card>
+
+      <Card className="md:col-span-2">
+        <p className="text-emerald-800">
+          <Rich
+            text={t.summary(
+              last.week,
+              `${fmt1(last.weight)} ${unit}`,
+              `${fmt1(last.totalLost)} ${unit}`
+            )}
+          />
+        </p>
+        <div className="mt-4">
+          <WeightChart points={points} unit={unit} />
+        </div>
+        <p className="mt-3 text-xs text-emerald-600">{t.assumptions}</p>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import { toNumber } from "~/lib/utils";
+
+/* =========================================================
+   SHARED UI
+========================================================= */
+export const Card = ({
+  children,
+  className = "",
+}: {
+  children: React.ReactNode;
+  className?: string;
+}) => (
+  <div
+    className={`rounded-2xl border border-emerald-200 bg-white p-5 shadow-sm ${className}`}
+  >
+    {children}
+  </div>
+);
+
+export const Field = ({
+  label,
+  children,
+  hint,
+}: {
+  label: string;
+  children: React.ReactNode;
+  hint?: string;
+}) => (
+  <label className="block">
+    <div className="text-sm font-medium text-emerald-900">{label}</div>
+    <div className="mt-1">{children}</div>
+    {hint ? <div className="mt-1 text-xs text-emerald-600">{hint}</div> : null}
+  </label>
+);
+
+export const NumberInput = ({
+  value,
+  onChange,
+  min,
+  step = 1,
+}: {
+  value: number | string;
+  onChange: (v: number) => void;
+  min?: number;
+  step?: number;
+}) => (
+  <input
+    type="number"
+    value={value}
+    min={min}
+    step={step}
+    onChange={(e) => onChange(toNumber(e.target.value))}
+    className="w-full rounded-lg border border-emerald-300 px-3 py-2 text-emerald-900 focus:outline-none focus:ring-2 focus:ring-emerald-300"
+  />
+);
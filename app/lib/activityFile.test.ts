@@ -0,0 +1,133 @@
+// @vitest-environment jsdom
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { describe, expect, it } from "vitest";
+import {
+  ActivityImportError,
+  detectFormat,
+  elevationChange,
+  parseFit,
+  parseGpx,
+  parseTcx,
+  stepsPerMinute,
+  summarizeTrack,
+} from "./activityFile";
+
+// The same 1 km, 10 minute walk in each format: 11 points 100 m apart,
+// +20 m then −25 m, cadence recorded per foot.
+const fixture = (name: string) =>
+  readFileSync(resolve("app/lib/fixtures", name));
+const text = (name: string) => fixture(name).toString("utf8");
+const buffer = (name: string) => {
+  const b = fixture(name);
+  return b.buffer.slice(b.byteOffset, b.byteOffset + b.byteLength);
+};
+
+describe.each([
+  { format: "gpx", parse: () => parseGpx(text("walk.gpx"), "walk") },
+  { format: "tcx", parse: () => parseTcx(text("walk.tcx"), "walk") },
+  { format: "fit", parse: () => parseFit(buffer("walk.fit"), "walk") },
+])("sample $format walk", ({ format, parse }) => {
+  const s = parse();
+
+  it("reads the track", () => {
+    expect(s.format).toBe(format);
+    expect(s.points).toBe(11);
+    expect(s.startTime).toBe("2026-05-02T07:00:00.000Z");
+  });
+
+  it("finds distance and time", () => {
+    expect(s.distanceKm).toBeCloseTo(1, 2);
+    expect(s.movingMinutes).toBeCloseTo(10, 5);
+    expect(s.elapsedMinutes).toBeCloseTo(10, 5);
+  });
+
+  it("counts the climb and the descent, and a climbing grade", () => {
+    expect(s.elevationGainM).toBeCloseTo(20, 5);
+    expect(s.elevationLossM).toBeCloseTo(25, 5);
+    expect(s.gradePct).toBeCloseTo(2, 2);
+  });
+});
+
+describe("grade", () => {
+  // 2 km out and back along the equator: up 40 m, then down again
+  const eles = [0, 10, 20, 30, 40, 40, 30, 20, 10, 0, 0];
+  const lons = [0, 1, 2, 3, 4, 5, 4, 3, 2, 1, 0].map((i) => i * 0.0018);
+  const loop = eles.map((ele, i) => ({ lat: 0, lon: lons[i], ele }));
+
+  it("prices a hilly loop by its climb, not as flat", () => {
+    const s = summarizeTrack("gpx", "loop", loop);
+    expect(s.elevationGainM).toBe(40);
+    expect(s.elevationLossM).toBe(40);
+    expect(s.distanceKm).toBeCloseTo(2, 1);
+    expect(s.gradePct).toBeCloseTo(2, 1);
+  });
+
+  it("is zero on flat ground", () => {
+    const flat = loop.map((p) => ({ ...p, ele: 100 }));
+    expect(summarizeTrack("gpx", "flat", flat).gradePct).toBe(0);
+  });
+});
+
+describe("cadence", () => {
+  it("doubles per-foot values from every format", () => {
+    expect(parseGpx(text("walk.gpx"), "walk").cadence).toBe(96);
+    expect(parseTcx(text("walk.tcx"), "walk").cadence).toBe(114);
+    // 55 + 64/128 strides/min in the FIT session
+    expect(parseFit(buffer("walk.fit"), "walk").cadence).toBe(111);
+  });
+
+  it("doubles whatever the value", () => {
+    expect(stepsPerMinute(40)).toBe(80);
+    expect(stepsPerMinute(110)).toBe(220);
+    expect(stepsPerMinute(undefined)).toBeUndefined();
+  });
+
+  it("is null when nothing was recorded", () => {
+    const s = summarizeTrack("gpx", "walk", [{ lat: 0, lon: 0 }]);
+    expect(s.cadence).toBeNull();
+  });
+});
+
+describe("names", () => {
+  it("takes the file's own name", () => {
+    expect(parseGpx(text("walk.gpx"), "walk").name).toBe("Morning Walk");
+    expect(parseTcx(text("walk.tcx"), "walk").name).toBe(
+      "2026-05-02T07:00:00Z"
+    );
+    expect(parseFit(buffer("walk.fit"), "walk").name).toBe("walk");
+  });
+});
+
+describe("bad input", () => {
+  it("rejects broken XML", () => {
+    expect(() => parseGpx("<gpx><trk>", "x")).toThrow(ActivityImportError);
+  });
+
+  it("rejects a file that isn't FIT", () => {
+    const bytes = new TextEncoder().encode("not a fit file at all");
+    expect(() => parseFit(bytes.buffer, "x")).toThrow(ActivityImportError);
+  });
+
+  it("knows formats by extension only", () => {
+    expect(detectFormat("Walk.GPX")).toBe("gpx");
+    expect(detectFormat("walk.fit")).toBe("fit");
+    expect(detectFormat("walk.csv")).toBeNull();
+  });
+});
+
+describe("elevationChange", () => {
+  it("ignores jitter under 3 m", () => {
+    expect(elevationChange([100, 101, 99, 102, 100])).toEqual({
+      gain: 0,
+      loss: 0,
+    });
+  });
+
+  it("sums real climbs and drops", () => {
+    expect(elevationChange([100, 110, 104, 120, 90])).toEqual({
+      gain: 26,
+      loss: 36,
+    });
+  });
+});
@@ -0,0 +1,291 @@
+/* =========================================================
+   ACTIVITY FILE IMPORT
+   GPX / TCX / FIT → one summary the calculator can use:
+   distance, moving time, elevation gain, grade and cadence.
+   Browser-only (DOMParser, File); nothing is uploaded.
+========================================================= */
+import { decodeFit, FitParseError } from "./fitDecoder";
+
+export type ActivityFormat = "gpx" | "tcx" | "fit";
+
+export type TrackPoint = {
+  time?: number; // ms since epoch
+  lat?: number;
+  lon?: number;
+  ele?: number; // m
+  distM?: number; // cumulative, when the device recorded it
+  cadence?: number; // steps/min
+};
+
+/** Device-computed totals; preferred over our own estimates when present. */
+export type ActivityTotals = {
+  distanceM?: number;
+  movingSeconds?: number;
+  elapsedSeconds?: number;
+  elevationGainM?: number;
+  elevationLossM?: number;
+  cadence?: number; // steps/min
+};
+
+export type ActivitySummary = {
+  format: ActivityFormat;
+  name: string;
+  startTime: string | null; // ISO
+  distanceKm: number;
+  movingMinutes: number;
+  elapsedMinutes: number;
+  elevationGainM: number;
+  elevationLossM: number;
+  gradePct: number;
+  cadence: number | null; // steps/min
+  points: number;
+};
+
+/** `reason` lets the page word the problem in its own language. */
+export class ActivityImportError extends Error {
+  constructor(
+    message: string,
+    readonly reason: "format" | "xml" | "fit" | "empty"
+  ) {
+    super(message);
+  }
+}
+
+export const ACTIVITY_FILE_ACCEPT = ".gpx,.tcx,.fit";
+
+const EARTH_RADIUS_M = 6371008.8;
+const STOPPED_MS = 0.3; // below this speed a gap counts as stopped
+const MAX_GAP_S = 120; // longer gaps are pauses, not movement
+const ELE_NOISE_M = 3; // GPS altitude jitter ignored when summing climbs
+
+/* ---------- Geometry ---------- */
+export function haversineM(
+  a: { lat: number; lon: number },
+  b: { lat: number; lon: number }
+) {
+  const rad = Math.PI / 180;
+  const dLat = (b.lat - a.lat) * rad;
+  const dLon = (b.lon - a.lon) * rad;
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(a.lat * rad) * Math.cos(b.lat * rad) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/** Climb and descent with a hysteresis band so GPS jitter isn't counted. */
+export function elevationChange(elevations: number[]) {
+  let gain = 0;
+  let loss = 0;
+  let anchor = elevations[0];
+  for (const e of elevations.slice(1)) {
+    const d = e - anchor;
+    if (d >= ELE_NOISE_M) {
+      gain += d;
+      anchor = e;
+    } else if (d <= -ELE_NOISE_M) {
+      loss -= d;
+      anchor = e;
+    }
+  }
+  return { gain, loss };
+}
+
+/**
+ * GPX `cad`, TCX `RunCadence` / `Cadence` and FIT `cadence` all count one
+ * foot (strides/min, "rpm" in their specs), so the step rate is twice the
+ * recorded value at any speed.
+ */
+export function stepsPerMinute(stridesPerMin: number | undefined) {
+  return stridesPerMin != null ? stridesPerMin * 2 : undefined;
+}
+
+/* ---------- Summary ---------- */
+export function summarizeTrack(
+  format: ActivityFormat,
+  name: string,
+  points: TrackPoint[],
+  totals: ActivityTotals = {}
+): ActivitySummary {
+  let distM = 0;
+  let movingS = 0;
+  const cumulative = points.filter((p) => p.distM != null);
+
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1];
+    const b = points[i];
+    let d = 0;
+    if (a.distM != null && b.distM != null) d = Math.max(0, b.distM - a.distM);
+    else if (a.lat != null && a.lon != null && b.lat != null && b.lon != null)
+      d = haversineM(
+        a as { lat: number; lon: number },
+        b as { lat: number; lon: number }
+      );
+    distM += d;
+
+    if (a.time != null && b.time != null) {
+      const dt = (b.time - a.time) / 1000;
+      if (dt > 0 && dt <= MAX_GAP_S && d / dt >= STOPPED_MS) movingS += dt;
+    }
+  }
+  if (cumulative.length > 1) {
+    distM = cumulative[cumulative.length - 1].distM! - cumulative[0].distM!;
+  }
+
+  const times = points.flatMap((p) => (p.time != null ? [p.time] : []));
+  const elapsedS =
+    times.length > 1 ? (times[times.length - 1] - times[0]) / 1000 : 0;
+  const { gain, loss } = elevationChange(
+    points.flatMap((p) => (p.ele != null ? [p.ele] : []))
+  );
+  const cads = points.flatMap((p) => (p.cadence ? [p.cadence] : []));
+  const cadence =
+    totals.cadence ??
+    (cads.length ? cads.reduce((a, b) => a + b, 0) / cads.length : null);
+
+  const distanceM = totals.distanceM ?? distM;
+  const elevationGainM = totals.elevationGainM ?? gain;
+  const elevationLossM = totals.elevationLossM ?? loss;
+  return {
+    format,
+    name,
+    startTime: times.length ? new Date(times[0]).toISOString() : null,
+    distanceKm: distanceM / 1000,
+    movingMinutes: (totals.movingSeconds ?? movingS) / 60,
+    elapsedMinutes: (totals.elapsedSeconds ?? elapsedS) / 60,
+    elevationGainM,
+    elevationLossM,
+    // climbing grade: the climb spread over the whole walk, so a hilly loop
+    // that ends where it started isn't priced as flat
+    gradePct: distanceM > 0 ? (elevationGainM / distanceM) * 100 : 0,
+    cadence,
+    points: points.length,
+  };
+}
+
+/* ---------- XML formats ---------- */
+function parseXml(text: string) {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length) {
+    throw new ActivityImportError("The file isn't valid XML.", "xml");
+  }
+  return doc;
+}
+
+/** First descendant by local name, ignoring namespace prefixes. */
+function child(el: Element, localName: string): Element | undefined {
+  return Array.from(el.getElementsByTagNameNS("*", localName))[0];
+}
+
+function num(el: Element | undefined) {
+  const n = el?.textContent ? parseFloat(el.textContent) : NaN;
+  return Number.isFinite(n) ? n : undefined;
+}
+
+function time(el: Element | undefined) {
+  const t = el?.textContent ? Date.parse(el.textContent) : NaN;
+  return Number.isFinite(t) ? t : undefined;
+}
+
+export function parseGpx(text: string, fallbackName: string) {
+  const doc = parseXml(text);
+  const pts = Array.from(doc.getElementsByTagNameNS("*", "trkpt"));
+  const route = pts.length
+    ? pts
+    : Array.from(doc.getElementsByTagNameNS("*", "rtept"));
+  const attr = (p: Element, name: string) => {
+    const n = parseFloat(p.getAttribute(name) ?? "");
+    return Number.isFinite(n) ? n : undefined;
+  };
+  const points: TrackPoint[] = route.map((p) => ({
+    lat: attr(p, "lat"),
+    lon: attr(p, "lon"),
+    ele: num(child(p, "ele")),
+    time: time(child(p, "time")),
+    cadence: stepsPerMinute(num(child(p, "cad"))),
+  }));
+  const name = child(doc.documentElement, "name")?.textContent?.trim();
+  return summarizeTrack("gpx", name || fallbackName, points);
+}
+
+export function parseTcx(text: string, fallbackName: string) {
+  const doc = parseXml(text);
+  const points: TrackPoint[] = Array.from(
+    doc.getElementsByTagNameNS("*", "Trackpoint")
+  ).map((p) => {
+    const pos = child(p, "Position");
+    return {
+      time: time(child(p, "Time")),
+      lat: pos ? num(child(pos, "LatitudeDegrees")) : undefined,
+      lon: pos ? num(child(pos, "LongitudeDegrees")) : undefined,
+      ele: num(child(p, "AltitudeMeters")),
+      distM: num(child(p, "DistanceMeters")),
+      cadence: stepsPerMinute(
+        num(child(p, "RunCadence")) ?? num(child(p, "Cadence"))
+      ),
+    };
+  });
+
+  // Lap totals are the device's own numbers
+  const laps = Array.from(doc.getElementsByTagNameNS("*", "Lap"));
+  const sum = (tag: string) =>
+    laps.reduce((acc, lap) => {
+      const direct = Array.from(lap.children).find((c) => c.localName === tag);
+      return acc + (num(direct) ?? 0);
+    }, 0);
+  const totals: ActivityTotals = laps.length
+    ? {
+        distanceM: sum("DistanceMeters"),
+        movingSeconds: sum("TotalTimeSeconds"),
+      }
+    : {};
+
+  const name = child(doc.documentElement, "Id")?.textContent?.trim();
+  return summarizeTrack("tcx", name || fallbackName, points, totals);
+}
+
+export function parseFit(buffer: ArrayBuffer, fallbackName: string) {
+  try {
+    const { points, totals } = decodeFit(buffer);
+    return summarizeTrack(
+      "fit",
+      fallbackName,
+      points.map((p) => ({ ...p, cadence: stepsPerMinute(p.cadence) })),
+      { ...totals, cadence: stepsPerMinute(totals.cadence) }
+    );
+  } catch (e) {
+    throw new ActivityImportError(
+      e instanceof FitParseError ? e.message : "The FIT file is corrupt.",
+      "fit"
+    );
+  }
+}
+
+/* ---------- Entry point ---------- */
+export function detectFormat(fileName: string): ActivityFormat | null {
+  const ext = fileName.toLowerCase().split(".").pop();
+  return ext === "gpx" || ext === "tcx" || ext === "fit" ? ext : null;
+}
+
+export async function readActivityFile(file: File): Promise<ActivitySummary> {
+  const format = detectFormat(file.name);
+  const name = file.name.replace(/\.[^.]+$/, "");
+  if (!format) {
+    throw new ActivityImportError(
+      "Choose a .gpx, .tcx or .fit file.",
+      "format"
+    );
+  }
+  const summary =
+    format === "fit"
+      ? parseFit(await file.arrayBuffer(), name)
+      : format === "gpx"
+        ? parseGpx(await file.text(), name)
+        : parseTcx(await file.text(), name);
+  if (summary.points === 0 && summary.distanceKm === 0) {
+    throw new ActivityImportError(
+      "No track points were found in this file.",
+      "empty"
+    );
+  }
+  return summary;
+}
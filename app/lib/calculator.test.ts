@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_CALCULATOR_STATE,
+  parseCalculatorParams,
+  toCalculatorParams,
+  validateCalculatorInput,
+  type CalculatorState,
+} from "./calculator";
+
+const parse = (query: string) =>
+  parseCalculatorParams(new URLSearchParams(query));
+
+describe("shared links", () => {
+  it("opens a bare URL with the defaults", () => {
+    expect(parse("")).toEqual(DEFAULT_CALCULATOR_STATE);
+    expect(toCalculatorParams(DEFAULT_CALCULATOR_STATE).toString()).toBe("");
+  });
+
+  it.each(["steps=8000", "weight=82&pace=power", "units=imperial&height=70"])(
+    "reads a link from before the unspecified option as male (%s)",
+    (query) => {
+      expect(parse(query).sex).toBe("male");
+    }
+  );
+
+  it("keeps an explicit sex", () => {
+    expect(parse("steps=8000&sex=female").sex).toBe("female");
+    expect(parse("sex=unspecified&steps=8000").sex).toBe("unspecified");
+  });
+
+  it.each<Partial<CalculatorState>>([
+    { steps: 8000 },
+    { steps: 8000, sex: "male" },
+    { sex: "male" },
+    { sex: "female", pace: "jog" },
+    { weight: 82, height: 181 },
+    { pace: "custom", speed: 6.2 },
+    { useCustomStride: true, customStride: 74 },
+  ])("round-trips %o", (changes) => {
+    const state = { ...DEFAULT_CALCULATOR_STATE, ...changes };
+    expect(parseCalculatorParams(toCalculatorParams(state))).toEqual(state);
+  });
+
+  it("always writes sex next to other fields", () => {
+    const params = toCalculatorParams({
+      ...DEFAULT_CALCULATOR_STATE,
+      steps: 8000,
+    });
+    expect(params.get("sex")).toBe("unspecified");
+  });
+});
+
+describe("API input", () => {
+  it("leaves a missing sex unspecified, unlike an old link", () => {
+    expect(validateCalculatorInput({}).state.sex).toBe("unspecified");
+    expect(validateCalculatorInput({ steps: 8000 }).state.sex).toBe(
+      "unspecified"
+    );
+    expect(
+      validateCalculatorInput(new URLSearchParams("steps=8000&sex=female"))
+        .state.sex
+    ).toBe("female");
+  });
+
+  it("rejects an unknown sex", () => {
+    const { errors } = validateCalculatorInput({ sex: "other" });
+    expect(errors).toEqual([
+      { field: "sex", message: "Must be one of: female, male, unspecified." },
+    ]);
+  });
+});
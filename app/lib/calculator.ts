@@ -0,0 +1,393 @@
+/* =========================================================
+   CALCULATOR STATE
+   The inputs behind CaloriesCalculator, expressed in the visitor's
+   unit system, and how they map onto the walking engine.
+========================================================= */
+import {
+  UNIT_SYSTEMS,
+  type UnitSystem,
+  distanceFromKm,
+  distanceToKm,
+  formatLength,
+  formatWeight,
+  lengthFromCm,
+  lengthToCm,
+  roundTo,
+  speedFromMph,
+  speedToMph,
+  weightFromKg,
+  weightToKg,
+} from "./units";
+import { DEFAULT_LOCALE, type Locale } from "./i18n";
+import { messagesFor } from "./messages";
+import { loadGradeCalories, mphToMs } from "./terrain";
+import { clamp } from "./utils";
+import {
+  PACE,
+  STRIDE_FACTORS,
+  calculateWalk,
+  type InputMode,
+  type PaceKey,
+  type SexKey,
+  type WalkAmount,
+  type WalkingInput,
+} from "./walking";
+
+export type CalculatorState = {
+  mode: InputMode;
+  units: UnitSystem;
+  weight: number; // kg | lb
+  height: number; // cm | in
+  steps: number;
+  distance: number; // km | mi
+  timeMin: number;
+  pace: PaceKey | "custom";
+  speed: number; // km/h | mph, used when pace is "custom"
+  sex: SexKey;
+  useCustomStride: boolean;
+  customStride: number; // cm | in
+  grade: number; // %, negative = downhill
+  load: number; // carried kg | lb
+};
+
+/**
+ * Also the reference person: server-rendered content (tables, copy)
+ * is computed for this body so it stays stable for every visitor.
+ */
+export const DEFAULT_CALCULATOR_STATE: CalculatorState = {
+  mode: "steps",
+  units: "metric",
+  weight: 70,
+  height: 170,
+  steps: 5000,
+  distance: 4,
+  timeMin: 40,
+  pace: "brisk",
+  speed: 5.6,
+  sex: "unspecified",
+  useCustomStride: false,
+  customStride: 0,
+  grade: 0,
+  load: 0,
+};
+
+export function toWalkingInput(s: CalculatorState): WalkingInput {
+  return {
+    weightKg: weightToKg(s.weight, s.units),
+    heightCm: lengthToCm(s.height, s.units),
+    sex: s.sex,
+    speedMph:
+      s.pace === "custom" ? speedToMph(s.speed, s.units) : PACE[s.pace].mph,
+    customStrideCm: s.useCustomStride ? lengthToCm(s.customStride, s.units) : 0,
+  };
+}
+
+export function toWalkAmount(s: CalculatorState): WalkAmount {
+  if (s.mode === "distance")
+    return { mode: "distance", distanceKm: distanceToKm(s.distance, s.units) };
+  if (s.mode === "time") return { mode: "time", minutes: s.timeMin };
+  return { mode: "steps", steps: s.steps };
+}
+
+/**
+ * Flat-ground MET result plus the Pandolf grade/load estimate for the
+ * same walk, so both can be shown side by side.
+ */
+export function calculateFromState(s: CalculatorState) {
+  const input = toWalkingInput(s);
+  const r = calculateWalk(input, toWalkAmount(s));
+  return {
+    ...r,
+    loadGradeCalories: loadGradeCalories(
+      {
+        bodyKg: input.weightKg,
+        loadKg: weightToKg(s.load, s.units),
+        speedMs: mphToMs(r.mph),
+        gradePct: s.grade,
+      },
+      r.minutes
+    ),
+  };
+}
+
+/** "70 kg, 170 cm adult" in the state's own units and the locale's words. */
+export function describeBody(
+  s: CalculatorState,
+  locale: Locale = DEFAULT_LOCALE
+) {
+  const weight = formatWeight(weightToKg(s.weight, s.units), s.units, locale);
+  const height = formatLength(lengthToCm(s.height, s.units), s.units, locale);
+  const { common } = messagesFor(locale);
+  return common.body(weight, height, common.sex[s.sex]);
+}
+
+/** Re-expresses every unit-bearing field so the same body/walk is described. */
+export function convertUnits(
+  s: CalculatorState,
+  units: UnitSystem
+): CalculatorState {
+  if (s.units === units) return s;
+  return {
+    ...s,
+    units,
+    weight: roundTo(weightFromKg(weightToKg(s.weight, s.units), units)),
+    height: roundTo(lengthFromCm(lengthToCm(s.height, s.units), units)),
+    distance: roundTo(
+      distanceFromKm(distanceToKm(s.distance, s.units), units),
+      2
+    ),
+    customStride: roundTo(
+      lengthFromCm(lengthToCm(s.customStride, s.units), units)
+    ),
+    speed: roundTo(speedFromMph(speedToMph(s.speed, s.units), units)),
+    load: roundTo(weightFromKg(weightToKg(s.load, s.units), units)),
+  };
+}
+
+/* ---------- URL search params ---------- */
+type NumericKey =
+  | "weight"
+  | "height"
+  | "steps"
+  | "distance"
+  | "timeMin"
+  | "speed"
+  | "grade"
+  | "load";
+
+/** Accepted [min, max] per field, in the state's own unit system. */
+export const INPUT_LIMITS: Record<
+  UnitSystem,
+  Record<NumericKey | "customStride", [number, number]>
+> = {
+  metric: {
+    weight: [20, 300],
+    height: [90, 250],
+    steps: [0, 200000],
+    distance: [0, 200],
+    timeMin: [0, 1440],
+    speed: [1, 20],
+    customStride: [20, 200],
+    grade: [-25, 25],
+    load: [0, 60],
+  },
+  imperial: {
+    weight: [44, 660],
+    height: [36, 100],
+    steps: [0, 200000],
+    distance: [0, 125],
+    timeMin: [0, 1440],
+    speed: [0.6, 12.5],
+    customStride: [8, 80],
+    grade: [-25, 25],
+    load: [0, 130],
+  },
+};
+
+/** Query keys; keep them stable so links already shared keep working. */
+const PARAM_KEYS: Record<
+  Exclude<keyof CalculatorState, "useCustomStride">,
+  string
+> = {
+  mode: "mode",
+  units: "units",
+  weight: "weight",
+  height: "height",
+  steps: "steps",
+  distance: "distance",
+  timeMin: "time",
+  pace: "pace",
+  speed: "speed",
+  sex: "sex",
+  customStride: "stride",
+  grade: "grade",
+  load: "load",
+};
+
+const PACE_KEYS = Object.keys(PACE) as PaceKey[];
+const SEX_KEYS = Object.keys(STRIDE_FACTORS) as SexKey[];
+
+/**
+ * Links from before "unspecified" existed left `sex` out when it was the
+ * old default, male. So a query that sets other calculator fields but not
+ * `sex` still means male; toCalculatorParams always writes `sex` next to
+ * other fields, and only an empty query takes today's default. The API
+ * never had the old default, so validateCalculatorInput doesn't use this.
+ */
+const LEGACY_SEX: SexKey = "male";
+
+function defaultSex(has: (key: string) => boolean): SexKey {
+  return Object.values(PARAM_KEYS).some(has)
+    ? LEGACY_SEX
+    : DEFAULT_CALCULATOR_STATE.sex;
+}
+
+function pick<T extends string>(
+  value: string | null,
+  allowed: readonly T[],
+  fallback: T
+): T {
+  return allowed.includes(value as T) ? (value as T) : fallback;
+}
+
+/**
+ * Reads calculator state from a query string. Unknown or malformed values
+ * fall back to defaults; numbers are clamped to INPUT_LIMITS.
+ */
+export function parseCalculatorParams(
+  params: URLSearchParams
+): CalculatorState {
+  const d = DEFAULT_CALCULATOR_STATE;
+  const units = pick(params.get(PARAM_KEYS.units), UNIT_SYSTEMS, d.units);
+  const limits = INPUT_LIMITS[units];
+  const base = convertUnits(d, units);
+
+  const num = (key: NumericKey | "customStride") => {
+    const raw = params.get(PARAM_KEYS[key]);
+    const n = raw === null || raw.trim() === "" ? NaN : Number(raw);
+    return Number.isFinite(n) ? clamp(n, ...limits[key]) : base[key];
+  };
+
+  const hasStride = params.has(PARAM_KEYS.customStride);
+  const hasSpeed = params.has(PARAM_KEYS.speed);
+  return {
+    mode: pick(
+      params.get(PARAM_KEYS.mode),
+      ["steps", "distance", "time"],
+      d.mode
+    ),
+    units,
+    weight: num("weight"),
+    height: num("height"),
+    steps: Math.round(num("steps")),
+    distance: num("distance"),
+    timeMin: num("timeMin"),
+    pace: hasSpeed
+      ? "custom"
+      : pick(params.get(PARAM_KEYS.pace), PACE_KEYS, d.pace),
+    speed: hasSpeed ? num("speed") : base.speed,
+    sex: pick(
+      params.get(PARAM_KEYS.sex),
+      SEX_KEYS,
+      defaultSex((k) => params.has(k))
+    ),
+    useCustomStride: hasStride,
+    customStride: hasStride ? num("customStride") : base.customStride,
+    grade: num("grade"),
+    load: num("load"),
+  };
+}
+
+/**
+ * Serializes only the fields that differ from the defaults, plus `sex`
+ * whenever anything else is written (see LEGACY_SEX).
+ */
+export function toCalculatorParams(s: CalculatorState): URLSearchParams {
+  const base = {
+    ...convertUnits(DEFAULT_CALCULATOR_STATE, s.units),
+    units: DEFAULT_CALCULATOR_STATE.units,
+  };
+  const params = new URLSearchParams();
+  for (const [field, key] of Object.entries(PARAM_KEYS) as [
+    keyof typeof PARAM_KEYS,
+    string,
+  ][]) {
+    // implied by, or only meaningful with, their toggles; sex comes last
+    if (
+      field === "customStride" ||
+      field === "speed" ||
+      field === "pace" ||
+      field === "sex"
+    )
+      continue;
+    if (s[field] !== base[field]) params.set(key, String(s[field]));
+  }
+  if (s.pace === "custom") params.set(PARAM_KEYS.speed, String(s.speed));
+  else if (s.pace !== base.pace) params.set(PARAM_KEYS.pace, s.pace);
+  if (s.useCustomStride && s.customStride > 0)
+    params.set(PARAM_KEYS.customStride, String(s.customStride));
+  if (params.toString() || s.sex !== base.sex)
+    params.set(PARAM_KEYS.sex, s.sex);
+  return params;
+}
+
+/* ---------- Strict validation (API) ---------- */
+export type FieldError = { field: string; message: string };
+
+/**
+ * Like parseCalculatorParams, but reports bad values instead of repairing
+ * them. Missing fields still take their defaults; a missing `sex` is
+ * "unspecified" even next to other fields, since the legacy-link reading
+ * is for shared URLs only. Accepts query params or a parsed JSON body
+ * keyed by the same names.
+ */
+export function validateCalculatorInput(
+  source: URLSearchParams | Record<string, unknown>
+): { state: CalculatorState; errors: FieldError[] } {
+  const get = (key: string): unknown =>
+    source instanceof URLSearchParams
+      ? (source.get(key) ?? undefined)
+      : source[key];
+  const isBlank = (v: unknown) => v === undefined || v === null || v === "";
+  const errors: FieldError[] = [];
+  const d = DEFAULT_CALCULATOR_STATE;
+
+  const choice = <T extends string>(
+    key: string,
+    allowed: readonly T[],
+    fallback: T
+  ): T => {
+    const v = get(key);
+    if (isBlank(v)) return fallback;
+    if (allowed.includes(v as T)) return v as T;
+    errors.push({
+      field: key,
+      message: `Must be one of: ${allowed.join(", ")}.`,
+    });
+    return fallback;
+  };
+
+  const units = choice(PARAM_KEYS.units, UNIT_SYSTEMS, d.units);
+  const limits = INPUT_LIMITS[units];
+  const base = convertUnits(d, units);
+
+  const num = (field: NumericKey | "customStride") => {
+    const key = PARAM_KEYS[field];
+    const v = get(key);
+    if (isBlank(v)) return base[field];
+    const n = typeof v === "number" ? v : Number(v);
+    const [min, max] = limits[field];
+    if (typeof v === "boolean" || !Number.isFinite(n)) {
+      errors.push({ field: key, message: "Must be a number." });
+      return base[field];
+    }
+    if (n < min || n > max) {
+      errors.push({
+        field: key,
+        message: `Must be between ${min} and ${max} (${units}).`,
+      });
+      return clamp(n, min, max);
+    }
+    return n;
+  };
+
+  const hasStride = !isBlank(get(PARAM_KEYS.customStride));
+  const hasSpeed = !isBlank(get(PARAM_KEYS.speed));
+  const state: CalculatorState = {
+    mode: choice(PARAM_KEYS.mode, ["steps", "distance", "time"], d.mode),
+    units,
+    weight: num("weight"),
+    height: num("height"),
+    steps: Math.round(num("steps")),
+    distance: num("distance"),
+    timeMin: num("timeMin"),
+    pace: hasSpeed ? "custom" : choice(PARAM_KEYS.pace, PACE_KEYS, d.pace),
+    speed: hasSpeed ? num("speed") : base.speed,
+    sex: choice(PARAM_KEYS.sex, SEX_KEYS, d.sex),
+    useCustomStride: hasStride,
+    customStride: hasStride ? num("customStride") : base.customStride,
+    grade: num("grade"),
+    load: num("load"),
+  };
+  return { state, errors };
+}
@@ -0,0 +1,70 @@
+/* =========================================================
+   STEPS → CALORIES TABLE
+   Rows of step counts × every PACE preset, computed by the
+   engine for one body. Shared by the home page and the report.
+========================================================= */
+import { calculateFromState, type CalculatorState } from "./calculator";
+import { PACE, type PaceKey } from "./walking";
+
+export const DEFAULT_TABLE_STEPS = [2000, 5000, 7500, 10000, 15000];
+export const MAX_TABLE_ROWS = 12;
+export const TABLE_PACES = Object.keys(PACE) as PaceKey[];
+
+export type CaloriesTableCell = { calories: number; minutes: number };
+
+export type CaloriesTableRow = {
+  steps: number;
+  distanceKm: number; // at `body`'s own pace and stride
+  cells: Record<PaceKey, CaloriesTableCell>;
+};
+
+/**
+ * One row per step count (deduplicated, ascending, at most
+ * MAX_TABLE_ROWS). Custom speed and grade/load are ignored: each column
+ * is its preset pace on flat ground.
+ */
+export function buildCaloriesTable(
+  body: CalculatorState,
+  stepRows: number[] = DEFAULT_TABLE_STEPS
+): CaloriesTableRow[] {
+  const steps = [...new Set(stepRows.map((n) => Math.round(n)))]
+    .filter((n) => n > 0)
+    .sort((a, b) => a - b)
+    .slice(0, MAX_TABLE_ROWS);
+
+  return steps.map((n) => {
+    const cells = {} as Record<PaceKey, CaloriesTableCell>;
+    for (const pace of TABLE_PACES) {
+      const r = calculateFromState({
+        ...body,
+        mode: "steps",
+        steps: n,
+        pace,
+        grade: 0,
+        load: 0,
+      });
+      cells[pace] = { calories: r.calories, minutes: r.minutes };
+    }
+    const { distanceKm } = calculateFromState({
+      ...body,
+      mode: "steps",
+      steps: n,
+    });
+    return { steps: n, distanceKm, cells };
+  });
+}
+
+/** "2000 5,000; 7500,10000" → [2000, 5000, 7500, 10000]; junk is dropped. */
+export function parseStepRows(text: string): number[] {
+  return text
+    .split(/[\s;]+/)
+    .flatMap((token) =>
+      // "5,000" is a thousands separator; "5000,7500" is a list
+      /^\d{1,3}(,\d{3})+$/.test(token)
+        ? [token.replace(/,/g, "")]
+        : token.split(",")
+    )
+    .map(Number)
+    .filter((n) => Number.isFinite(n) && n > 0 && n <= 200000)
+    .map(Math.round);
+}
@@ -0,0 +1,95 @@
+/* =========================================================
+   AUDIO & VIBRATION CUES
+   Short beeps synthesised with Web Audio (nothing to
+   download, works offline) and navigator.vibrate where the
+   device has it. Browser-only. Browsers only allow audio
+   after a tap, so call unlockAudio() from a click handler
+   before the first cue.
+========================================================= */
+export type CueKind = "faster" | "slower" | "done";
+
+type Tone = [hz: number, ms: number];
+
+const CUES: Record<CueKind, { tones: Tone[]; vibrate: number[] }> = {
+  // rising pair: speed up
+  faster: {
+    tones: [
+      [660, 150],
+      [880, 250],
+    ],
+    vibrate: [150, 80, 300],
+  },
+  // falling pair: ease off
+  slower: {
+    tones: [
+      [880, 150],
+      [520, 250],
+    ],
+    vibrate: [400],
+  },
+  done: {
+    tones: [
+      [880, 150],
+      [880, 150],
+      [1175, 400],
+    ],
+    vibrate: [200, 100, 200, 100, 500],
+  },
+};
+
+const GAP_MS = 70;
+
+let context: AudioContext | null = null;
+
+/** The page's shared AudioContext, created on first use. */
+export function audioContext(): AudioContext | null {
+  if (!context && typeof window !== "undefined" && "AudioContext" in window) {
+    context = new AudioContext();
+  }
+  return context;
+}
+
+/** Creates or resumes the audio context; call from a user gesture. */
+export function unlockAudio() {
+  const ctx = audioContext();
+  if (ctx?.state === "suspended") void ctx.resume();
+}
+
+/**
+ * A short sine beep at `at` (AudioContext time), with soft edges. Returns
+ * the oscillator so a beep scheduled ahead can still be cancelled.
+ */
+export function beep(ctx: AudioContext, hz: number, at: number, ms: number) {
+  const osc = ctx.createOscillator();
+  const gain = ctx.createGain();
+  const end = at + ms / 1000;
+  osc.frequency.value = hz;
+  gain.gain.setValueAtTime(0, at);
+  gain.gain.linearRampToValueAtTime(0.4, at + 0.01);
+  gain.gain.setValueAtTime(0.4, end - 0.03);
+  gain.gain.linearRampToValueAtTime(0, end);
+  osc.connect(gain).connect(ctx.destination);
+  osc.start(at);
+  osc.stop(end);
+  return osc;
+}
+
+/** A cue's tones from `at` (AudioContext time), oscillators returned. */
+export function scheduleCue(ctx: AudioContext, kind: CueKind, at: number) {
+  return CUES[kind].tones.map(([hz, ms]) => {
+    const osc = beep(ctx, hz, at, ms);
+    at += (ms + GAP_MS) / 1000;
+    return osc;
+  });
+}
+
+export function playCue(
+  kind: CueKind,
+  { sound = true, vibrate = true }: { sound?: boolean; vibrate?: boolean } = {}
+) {
+  const ctx = sound ? audioContext() : null;
+  if (ctx) scheduleCue(ctx, kind, ctx.currentTime + 0.02);
+  if (vibrate && typeof navigator !== "undefined" && "vibrate" in navigator) {
+    navigator.vibrate(CUES[kind].vibrate);
+  }
+}
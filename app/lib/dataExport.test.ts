@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_CALCULATOR_STATE,
+  parseCalculatorParams,
+  toCalculatorParams,
+  type CalculatorState,
+} from "./calculator";
+import { ExportImportError, parseExportJson, toExportJson } from "./dataExport";
+import type { StepEntry } from "./stepLog";
+
+const restore = (calculator: CalculatorState) =>
+  parseExportJson(toExportJson({ calculator })).calculator;
+
+describe("calculator backup", () => {
+  it.each<Partial<CalculatorState>>([
+    {},
+    { mode: "distance", distance: 7.5, weight: 82, sex: "female" },
+    { units: "imperial", weight: 180, height: 70, pace: "jog" },
+    { pace: "custom", speed: 6.2, grade: 4, load: 10 },
+    // switched-off fields keep their values
+    { pace: "brisk", speed: 7.3, useCustomStride: false, customStride: 81 },
+    { useCustomStride: true, customStride: 0 },
+  ])("restores %o exactly", (changes) => {
+    const state = { ...DEFAULT_CALCULATOR_STATE, ...changes };
+    expect(restore(state)).toEqual(state);
+  });
+
+  it("restores edge values the way the calculator's link does", () => {
+    const state: CalculatorState = {
+      ...DEFAULT_CALCULATOR_STATE,
+      weight: 0,
+      pace: "custom",
+      speed: 0,
+      load: 500,
+    };
+    expect(restore(state)).toEqual(
+      parseCalculatorParams(toCalculatorParams(state))
+    );
+  });
+
+  it("repairs unknown values instead of rejecting the file", () => {
+    const file = JSON.parse(
+      toExportJson({ calculator: DEFAULT_CALCULATOR_STATE })
+    );
+    file.calculator.input.mode = "sprint";
+    file.calculator.input.weight = "heavy";
+    const restored = parseExportJson(JSON.stringify(file)).calculator;
+    expect(restored?.mode).toBe(DEFAULT_CALCULATOR_STATE.mode);
+    expect(restored?.weight).toBe(DEFAULT_CALCULATOR_STATE.weight);
+  });
+});
+
+describe("step log backup", () => {
+  const log: StepEntry[] = [
+    { date: "2026-10-18", steps: 9120, updatedAt: "2026-10-18T20:00:00.000Z" },
+    {
+      date: "2026-10-19",
+      steps: 4300,
+      note: "rain",
+      updatedAt: "2026-10-19T12:30:00.000Z",
+    },
+  ];
+
+  it("round-trips", () => {
+    expect(parseExportJson(toExportJson({ stepLog: log })).stepLog).toEqual(
+      log
+    );
+  });
+
+  it("names the entry and reason of a problem", () => {
+    const text = toExportJson({ stepLog: [...log, log[0]] });
+    expect(() => parseExportJson(text)).toThrow(ExportImportError);
+    expect(() => parseExportJson(text)).toThrow(
+      expect.objectContaining({
+        reason: "entryRepeat",
+        entry: 3,
+        date: "2026-10-18",
+      })
+    );
+  });
+});
+
+describe("bad files", () => {
+  it.each([
+    ["not json", "json"],
+    ['{"format":"other"}', "format"],
+    ['{"format":"ilovesteps-export","version":99}', "version"],
+  ])("rejects %s", (text, reason) => {
+    expect(() => parseExportJson(text)).toThrow(
+      expect.objectContaining({ reason })
+    );
+  });
+});
@@ -0,0 +1,306 @@
+/* =========================================================
+   DATA EXPORT
+   CSV and JSON downloads of the calculator result and the step
+   log, and the JSON backup reader that restores them.
+   CSV columns are always SI (kg / cm / km), whatever the page
+   shows, and carry their unit in the header. Dates are ISO 8601.
+========================================================= */
+import {
+  DEFAULT_CALCULATOR_STATE,
+  calculateFromState,
+  parseCalculatorParams,
+  toCalculatorParams,
+  type CalculatorState,
+} from "./calculator";
+import { isDateKey, sortEntries, type StepEntry } from "./stepLog";
+import { lengthToCm, speedFromMph, weightToKg } from "./units";
+
+export const EXPORT_FORMAT = "ilovesteps-export";
+export const EXPORT_VERSION = 1;
+
+export type CalculatorExport = {
+  input: CalculatorState;
+  result: ReturnType<typeof calculateFromState>;
+};
+
+export type ExportFile = {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string; // ISO timestamp
+  calculator?: CalculatorExport;
+  stepLog?: StepEntry[];
+};
+
+export type ExportImportReason =
+  | "json"
+  | "format"
+  | "version"
+  | "calculator"
+  | "stepLog"
+  | "entryDate"
+  | "entryRepeat"
+  | "entrySteps"
+  | "entryNote"
+  | "entryUpdatedAt";
+
+/**
+ * `reason` lets the page word the problem in its own language; entry
+ * problems also carry the entry's 1-based position and, once known, date.
+ */
+export class ExportImportError extends Error {
+  constructor(
+    message: string,
+    readonly reason: ExportImportReason,
+    readonly entry?: number,
+    readonly date?: string
+  ) {
+    super(message);
+  }
+}
+
+/* ---------- CSV ---------- */
+function csvCell(v: string | number | boolean | undefined) {
+  if (v === undefined) return "";
+  const s = typeof v === "number" ? String(roundCsv(v)) : String(v);
+  return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+function roundCsv(n: number) {
+  return Number.isInteger(n) ? n : Math.round(n * 1000) / 1000;
+}
+
+function toCsv(
+  columns: readonly string[],
+  rows: (string | number | boolean | undefined)[][]
+) {
+  return (
+    [columns, ...rows].map((r) => r.map(csvCell).join(",")).join("\r\n") +
+    "\r\n"
+  );
+}
+
+/**
+ * One row describing the current calculation.
+ * exported_at: ISO timestamp · mode: steps|distance|time ·
+ * pace: easy|brisk|power|jog|custom · sex: female|male|unspecified ·
+ * stride_cm: the stride actually used (custom or estimated) ·
+ * calories_kcal: flat-ground MET estimate ·
+ * load_grade_calories_kcal: Pandolf estimate with grade and load.
+ */
+export const RESULT_CSV_COLUMNS = [
+  "exported_at",
+  "mode",
+  "weight_kg",
+  "height_cm",
+  "sex",
+  "pace",
+  "speed_kmh",
+  "stride_cm",
+  "stride_custom",
+  "grade_pct",
+  "load_kg",
+  "steps",
+  "distance_km",
+  "distance_mi",
+  "duration_min",
+  "cadence_steps_per_min",
+  "mets",
+  "calories_kcal",
+  "load_grade_calories_kcal",
+] as const;
+
+export function resultToCsv(s: CalculatorState, exportedAt = new Date()) {
+  const r = calculateFromState(s);
+  return toCsv(RESULT_CSV_COLUMNS, [
+    [
+      exportedAt.toISOString(),
+      s.mode,
+      weightToKg(s.weight, s.units),
+      lengthToCm(s.height, s.units),
+      s.sex,
+      s.pace,
+      speedFromMph(r.mph, "metric"),
+      r.strideCm,
+      s.useCustomStride && s.customStride > 0,
+      s.grade,
+      weightToKg(s.load, s.units),
+      Math.round(r.steps),
+      r.distanceKm,
+      r.distanceMi,
+      r.minutes,
+      r.cadence,
+      r.mets,
+      r.calories,
+      r.loadGradeCalories,
+    ],
+  ]);
+}
+
+/**
+ * One row per logged day, oldest first.
+ * date: YYYY-MM-DD (local day) · distance_km / calories_kcal: from
+ * `body` (the saved profile, or the default walker) ·
+ * updated_at: ISO timestamp of the last edit.
+ */
+export const STEP_LOG_CSV_COLUMNS = [
+  "date",
+  "steps",
+  "distance_km",
+  "calories_kcal",
+  "note",
+  "updated_at",
+] as const;
+
+export function stepLogToCsv(entries: StepEntry[], body: CalculatorState) {
+  const rows = sortEntries(entries)
+    .reverse()
+    .map((e) => {
+      const r = calculateFromState({ ...body, mode: "steps", steps: e.steps });
+      return [e.date, e.steps, r.distanceKm, r.calories, e.note, e.updatedAt];
+    });
+  return toCsv(STEP_LOG_CSV_COLUMNS, rows);
+}
+
+/* ---------- JSON ---------- */
+export function toExportJson(
+  data: { calculator?: CalculatorState; stepLog?: StepEntry[] },
+  exportedAt = new Date()
+) {
+  const file: ExportFile = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    ...(data.calculator && {
+      calculator: {
+        input: data.calculator,
+        result: calculateFromState(data.calculator),
+      },
+    }),
+    ...(data.stepLog && { stepLog: data.stepLog }),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+const isRecord = (v: unknown): v is Record<string, unknown> =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+
+const isHiddenNumber = (v: unknown): v is number =>
+  typeof v === "number" && Number.isFinite(v) && v >= 0;
+
+function restoreCalculator(raw: unknown): CalculatorState {
+  if (!isRecord(raw)) {
+    throw new ExportImportError("Calculator data is missing.", "calculator");
+  }
+  const custom = raw.pace === "custom";
+  const ownStride = raw.useCustomStride === true;
+  // Read like the calculator's own link, so anything the page can hold
+  // comes back: unknown values fall back and numbers are clamped the same
+  // way. Speed and stride only count when switched on.
+  const state = parseCalculatorParams(
+    toCalculatorParams({
+      ...DEFAULT_CALCULATOR_STATE,
+      ...raw,
+    } as CalculatorState)
+  );
+  // keep the values of switched-off fields too, so a restore is exact
+  return {
+    ...state,
+    speed: !custom && isHiddenNumber(raw.speed) ? raw.speed : state.speed,
+    useCustomStride: ownStride,
+    customStride:
+      !state.useCustomStride && isHiddenNumber(raw.customStride)
+        ? raw.customStride
+        : state.customStride,
+  };
+}
+
+function restoreStepLog(raw: unknown): StepEntry[] {
+  if (!Array.isArray(raw)) {
+    throw new ExportImportError("Step log is missing.", "stepLog");
+  }
+  const seen = new Set<string>();
+  return raw.map((e, i) => {
+    const where = `Step log entry ${i + 1}`;
+    if (!isRecord(e) || !isDateKey(e.date)) {
+      throw new ExportImportError(
+        `${where} has no valid date.`,
+        "entryDate",
+        i + 1
+      );
+    }
+    const date = e.date;
+    const fail = (message: string, reason: ExportImportReason) =>
+      new ExportImportError(`${where} ${message}`, reason, i + 1, date);
+    if (seen.has(date)) throw fail(`repeats ${date}.`, "entryRepeat");
+    seen.add(date);
+    if (
+      typeof e.steps !== "number" ||
+      !Number.isInteger(e.steps) ||
+      e.steps < 0
+    ) {
+      throw fail("has an invalid step count.", "entrySteps");
+    }
+    if (e.note !== undefined && typeof e.note !== "string") {
+      throw fail("has an invalid note.", "entryNote");
+    }
+    if (typeof e.updatedAt !== "string" || isNaN(Date.parse(e.updatedAt))) {
+      throw fail("has an invalid updatedAt.", "entryUpdatedAt");
+    }
+    return {
+      date: e.date,
+      steps: e.steps,
+      ...(e.note !== undefined && { note: e.note }),
+      updatedAt: e.updatedAt,
+    };
+  });
+}
+
+/**
+ * Reads a JSON file written by toExportJson. Sections absent from the
+ * file are absent from the result; the stored `result` is ignored and
+ * recomputed from the input.
+ */
+export function parseExportJson(text: string): {
+  calculator?: CalculatorState;
+  stepLog?: StepEntry[];
+} {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new ExportImportError("The file isn't valid JSON.", "json");
+  }
+  if (!isRecord(raw) || raw.format !== EXPORT_FORMAT) {
+    throw new ExportImportError("This isn't an I Love Steps export.", "format");
+  }
+  if (typeof raw.version !== "number" || raw.version > EXPORT_VERSION) {
+    throw new ExportImportError(
+      "This export was made by a newer version of the site.",
+      "version"
+    );
+  }
+  const calculator = isRecord(raw.calculator)
+    ? restoreCalculator(raw.calculator.input)
+    : undefined;
+  const stepLog =
+    raw.stepLog !== undefined ? restoreStepLog(raw.stepLog) : undefined;
+  return {
+    ...(calculator && { calculator }),
+    ...(stepLog && { stepLog }),
+  };
+}
+
+/* ---------- Download (browser-only) ---------- */
+export function downloadFile(fileName: string, text: string, mime: string) {
+  const url = URL.createObjectURL(new Blob([text], { type: mime }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/** "ilovesteps-step-log-2024-03-05.csv" */
+export function exportFileName(kind: string, ext: "csv" | "json", day: string) {
+  return `ilovesteps-${kind}-${day}.${ext}`;
+}
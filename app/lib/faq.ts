@@ -0,0 +1,242 @@
+/* =========================================================
+   FAQ
+   One source for the visible FAQ and its FAQPage JSON-LD, so
+   the structured data always matches what's on the page.
+   Answers are plain text: they're rendered and serialized as-is.
+========================================================= */
+import type { Locale } from "./i18n";
+
+export type FaqItem = { question: string; answer: string };
+
+const HOME_FAQ_EN: FaqItem[] = [
+  {
+    question: "How accurate is the walking calories calculator?",
+    answer:
+      "It uses MET formulas and your weight, height, sex, and pace to estimate energy burned. While not a medical measurement, it provides a reliable planning estimate for most adults.",
+  },
+  {
+    question: "How many calories does walking burn per 1,000 steps?",
+    answer:
+      "Most people burn about 30–60 calories per 1,000 steps depending on pace, body weight, and terrain. Brisk walking or hills burn more.",
+  },
+  {
+    question: "How many steps are in one mile?",
+    answer:
+      "Roughly 2,000 steps ≈ 1 mile (≈ 1.6 km), but taller people take fewer steps due to longer stride length. Our calculator adjusts automatically for your height.",
+  },
+  {
+    question: "How many steps per day should I aim for?",
+    answer:
+      "Research shows 7,000–9,000 steps/day offer strong heart and longevity benefits. Beginners can start with 4,000–6,000 per day and gradually increase over time.",
+  },
+  {
+    question: "Is walking good for weight loss?",
+    answer:
+      "Yes. A brisk 30-minute walk most days burns 120–200 calories and is easy to sustain. Pair walking with healthier food choices for the best long-term results.",
+  },
+  {
+    question: "What burns more calories: walking, jogging, or jump rope?",
+    answer:
+      "Jogging and jump rope burn more calories per minute, but brisk walking is lower-impact and easier to maintain consistently. All three improve heart health and stamina.",
+  },
+  {
+    question: "Are treadmill steps the same as outdoor steps?",
+    answer:
+      "Yes, calories burned are comparable at equal pace. Hills and wind outside can increase energy cost. Treadmills help with consistency in bad weather.",
+  },
+  {
+    question: "Can walking improve mental health?",
+    answer:
+      "Studies show daily walking reduces stress and improves sleep, mood, productivity, and cognitive function by boosting blood flow and reducing cortisol.",
+  },
+  {
+    question: "Do I need special shoes for walking?",
+    answer:
+      "Supportive sneakers with cushioning and good arch support prevent foot strain and knee issues on longer walks. Replace shoes every 500 miles.",
+  },
+  {
+    question: "Should I focus more on speed or total steps?",
+    answer:
+      "Both matter, but consistency beats intensity. Step streaks build habit strength; occasional fast walks boost calorie burn and heart fitness.",
+  },
+];
+
+const HOME_FAQ_ES: FaqItem[] = [
+  {
+    question: "¿Qué precisión tiene la calculadora de calorías al caminar?",
+    answer:
+      "Usa fórmulas MET y tu peso, altura, sexo y ritmo para estimar la energía gastada. No es una medición médica, pero ofrece una estimación fiable para planificar en la mayoría de los adultos.",
+  },
+  {
+    question: "¿Cuántas calorías se queman cada 1000 pasos?",
+    answer:
+      "La mayoría de las personas quema entre 30 y 60 calorías cada 1000 pasos, según el ritmo, el peso corporal y el terreno. Caminar a paso ligero o en cuesta quema más.",
+  },
+  {
+    question: "¿Cuántos pasos tiene un kilómetro?",
+    answer:
+      "Aproximadamente 1250–1400 pasos ≈ 1 km (unos 2000 pasos por milla), aunque las personas altas dan menos pasos por su zancada más larga. Nuestra calculadora se ajusta automáticamente a tu altura.",
+  },
+  {
+    question: "¿Cuántos pasos al día debería dar?",
+    answer:
+      "Los estudios muestran que 7000–9000 pasos al día aportan grandes beneficios para el corazón y la longevidad. Si empiezas, prueba con 4000–6000 al día y ve aumentando poco a poco.",
+  },
+  {
+    question: "¿Caminar ayuda a perder peso?",
+    answer:
+      "Sí. Una caminata a paso ligero de 30 minutos casi todos los días quema 120–200 calorías y es fácil de mantener. Combínala con una alimentación más saludable para obtener los mejores resultados a largo plazo.",
+  },
+  {
+    question: "¿Qué quema más calorías: caminar, trotar o saltar a la comba?",
+    answer:
+      "Trotar y saltar a la comba queman más calorías por minuto, pero caminar a paso ligero tiene menos impacto y es más fácil de mantener. Los tres mejoran la salud del corazón y la resistencia.",
+  },
+  {
+    question: "¿Los pasos en cinta cuentan igual que los de la calle?",
+    answer:
+      "Sí, al mismo ritmo las calorías quemadas son comparables. Las cuestas y el viento al aire libre pueden aumentar el gasto. La cinta ayuda a mantener la constancia cuando hace mal tiempo.",
+  },
+  {
+    question: "¿Caminar mejora la salud mental?",
+    answer:
+      "Los estudios muestran que caminar a diario reduce el estrés y mejora el sueño, el ánimo, la productividad y la función cognitiva al aumentar el flujo sanguíneo y reducir el cortisol.",
+  },
+  {
+    question: "¿Necesito calzado especial para caminar?",
+    answer:
+      "Unas zapatillas con buena amortiguación y sujeción del arco evitan molestias en pies y rodillas en caminatas largas. Cámbialas cada 800 km aproximadamente.",
+  },
+  {
+    question: "¿Es mejor centrarse en la velocidad o en el total de pasos?",
+    answer:
+      "Ambos importan, pero la constancia supera a la intensidad. Las rachas de pasos refuerzan el hábito y las caminatas rápidas ocasionales aumentan el gasto calórico y la forma cardiovascular.",
+  },
+];
+
+const HOME_FAQ_DE: FaqItem[] = [
+  {
+    question: "Wie genau ist der Kalorienrechner fürs Gehen?",
+    answer:
+      "Er schätzt den Energieverbrauch mit MET-Formeln aus Gewicht, Größe, Geschlecht und Tempo. Das ist keine medizinische Messung, aber für die meisten Erwachsenen eine verlässliche Planungsgrundlage.",
+  },
+  {
+    question: "Wie viele Kalorien verbrennt man pro 1.000 Schritte?",
+    answer:
+      "Die meisten Menschen verbrennen etwa 30–60 Kalorien pro 1.000 Schritte, abhängig von Tempo, Körpergewicht und Gelände. Zügiges Gehen oder Steigungen verbrennen mehr.",
+  },
+  {
+    question: "Wie viele Schritte hat ein Kilometer?",
+    answer:
+      "Etwa 1.250–1.400 Schritte ≈ 1 km (rund 2.000 Schritte pro Meile), wobei größere Menschen wegen ihrer längeren Schritte weniger brauchen. Unser Rechner berücksichtigt deine Größe automatisch.",
+  },
+  {
+    question: "Wie viele Schritte sollte ich pro Tag anstreben?",
+    answer:
+      "Studien zeigen, dass 7.000–9.000 Schritte am Tag deutliche Vorteile für Herz und Lebenserwartung bringen. Einsteiger beginnen mit 4.000–6.000 pro Tag und steigern sich allmählich.",
+  },
+  {
+    question: "Hilft Gehen beim Abnehmen?",
+    answer:
+      "Ja. 30 Minuten zügiges Gehen an den meisten Tagen verbrennen 120–200 Kalorien und lassen sich leicht beibehalten. Kombiniere das Gehen mit gesünderer Ernährung für die besten langfristigen Ergebnisse.",
+  },
+  {
+    question: "Was verbrennt mehr Kalorien: Gehen, Joggen oder Seilspringen?",
+    answer:
+      "Joggen und Seilspringen verbrennen pro Minute mehr, doch zügiges Gehen ist gelenkschonender und leichter regelmäßig durchzuhalten. Alle drei verbessern Herzgesundheit und Ausdauer.",
+  },
+  {
+    question: "Zählen Schritte auf dem Laufband genauso wie draußen?",
+    answer:
+      "Ja, bei gleichem Tempo ist der Kalorienverbrauch vergleichbar. Steigungen und Wind draußen können ihn erhöhen. Das Laufband hilft, bei schlechtem Wetter dranzubleiben.",
+  },
+  {
+    question: "Kann Gehen die psychische Gesundheit verbessern?",
+    answer:
+      "Studien zeigen, dass tägliches Gehen Stress senkt und Schlaf, Stimmung, Produktivität und Denkvermögen verbessert, weil es die Durchblutung fördert und den Cortisolspiegel senkt.",
+  },
+  {
+    question: "Brauche ich spezielle Schuhe zum Gehen?",
+    answer:
+      "Stützende Sneaker mit guter Dämpfung und Fußgewölbestütze beugen Fuß- und Knieproblemen auf längeren Strecken vor. Ersetze sie etwa alle 800 km.",
+  },
+  {
+    question: "Sollte ich mehr auf Tempo oder auf die Schrittzahl achten?",
+    answer:
+      "Beides zählt, aber Regelmäßigkeit schlägt Intensität. Schritt-Serien festigen die Gewohnheit; gelegentliche schnelle Runden steigern Kalorienverbrauch und Herzfitness.",
+  },
+];
+
+const HOME_FAQ_FR: FaqItem[] = [
+  {
+    question: "Quelle est la précision du calculateur de calories de marche ?",
+    answer:
+      "Il utilise des formules MET ainsi que votre poids, votre taille, votre sexe et votre allure pour estimer l’énergie dépensée. Ce n’est pas une mesure médicale, mais une estimation fiable pour planifier chez la plupart des adultes.",
+  },
+  {
+    question: "Combien de calories brûle-t-on pour 1 000 pas ?",
+    answer:
+      "La plupart des gens brûlent environ 30 à 60 calories pour 1 000 pas selon l’allure, le poids et le terrain. La marche rapide ou les côtes en brûlent davantage.",
+  },
+  {
+    question: "Combien de pas y a-t-il dans un kilomètre ?",
+    answer:
+      "Environ 1 250 à 1 400 pas ≈ 1 km (environ 2 000 pas par mile), mais les personnes plus grandes font moins de pas grâce à une foulée plus longue. Notre calculateur s’ajuste automatiquement à votre taille.",
+  },
+  {
+    question: "Combien de pas par jour devrais-je viser ?",
+    answer:
+      "Les études montrent que 7 000 à 9 000 pas par jour apportent de vrais bénéfices pour le cœur et la longévité. Les débutants peuvent commencer par 4 000 à 6 000 pas par jour et augmenter progressivement.",
+  },
+  {
+    question: "La marche aide-t-elle à perdre du poids ?",
+    answer:
+      "Oui. Une marche rapide de 30 minutes la plupart des jours brûle 120 à 200 calories et se maintient facilement. Associez la marche à une alimentation plus saine pour de meilleurs résultats à long terme.",
+  },
+  {
+    question:
+      "Qu’est-ce qui brûle le plus de calories : la marche, le jogging ou la corde à sauter ?",
+    answer:
+      "Le jogging et la corde à sauter brûlent plus de calories par minute, mais la marche rapide est plus douce pour les articulations et plus facile à pratiquer régulièrement. Les trois améliorent la santé cardiaque et l’endurance.",
+  },
+  {
+    question: "Les pas sur tapis de course valent-ils ceux en extérieur ?",
+    answer:
+      "Oui, à allure égale les calories brûlées sont comparables. Les côtes et le vent en extérieur peuvent augmenter la dépense. Le tapis aide à rester régulier par mauvais temps.",
+  },
+  {
+    question: "La marche améliore-t-elle la santé mentale ?",
+    answer:
+      "Les études montrent que marcher chaque jour réduit le stress et améliore le sommeil, l’humeur, la productivité et les fonctions cognitives en stimulant la circulation sanguine et en réduisant le cortisol.",
+  },
+  {
+    question: "Faut-il des chaussures spéciales pour marcher ?",
+    answer:
+      "Des baskets bien amorties avec un bon maintien de la voûte plantaire évitent les douleurs aux pieds et aux genoux sur les longues marches. Remplacez-les environ tous les 800 km.",
+  },
+  {
+    question:
+      "Vaut-il mieux se concentrer sur la vitesse ou sur le nombre de pas ?",
+    answer:
+      "Les deux comptent, mais la régularité l’emporte sur l’intensité. Les séries de jours actifs renforcent l’habitude ; des marches rapides ponctuelles augmentent la dépense calorique et la forme cardiaque.",
+  },
+];
+
+/** The home page FAQ in each language. */
+export const HOME_FAQ: Record<Locale, FaqItem[]> = {
+  en: HOME_FAQ_EN,
+  es: HOME_FAQ_ES,
+  de: HOME_FAQ_DE,
+  fr: HOME_FAQ_FR,
+};
+
+export function faqPageJsonLd(items: FaqItem[]) {
+  return {
+    "@type": "FAQPage",
+    mainEntity: items.map((item) => ({
+      "@type": "Question",
+      name: item.question,
+      acceptedAnswer: { "@type": "Answer", text: item.answer },
+    })),
+  };
+}
@@ -0,0 +1,171 @@
+/* =========================================================
+   FIT DECODER
+   Minimal reader for Garmin/ANT FIT activity files: just enough of
+   the protocol to pull `record` (track points) and `session`
+   (device totals) messages. No dependencies; runs in the browser.
+   Spec: https://developer.garmin.com/fit/protocol/
+========================================================= */
+import type { ActivityTotals, TrackPoint } from "./activityFile";
+
+const MSG_SESSION = 18;
+const MSG_RECORD = 20;
+const FIT_EPOCH_S = 631065600; // 1989-12-31T00:00:00Z in Unix seconds
+const SEMICIRCLE_TO_DEG = 180 / 2 ** 31;
+
+type FieldDef = { num: number; size: number; baseType: number };
+type MessageDef = {
+  globalNum: number;
+  littleEndian: boolean;
+  fields: FieldDef[];
+  devSize: number;
+};
+
+export class FitParseError extends Error {}
+
+/** Reads one numeric field; returns null for FIT's "invalid" sentinels. */
+function readValue(
+  view: DataView,
+  offset: number,
+  { size, baseType }: FieldDef,
+  le: boolean
+): number | null {
+  const type = baseType & 0x1f;
+  const zeroInvalid = type === 0x0a || type === 0x0b || type === 0x0c;
+  let v: number;
+  if (size === 1 && (type === 0x00 || type === 0x02 || type === 0x0a)) {
+    v = view.getUint8(offset);
+    if (v === 0xff) return null;
+  } else if (size === 1 && type === 0x01) {
+    v = view.getInt8(offset);
+    if (v === 0x7f) return null;
+  } else if (size === 2 && (type === 0x04 || type === 0x0b)) {
+    v = view.getUint16(offset, le);
+    if (v === 0xffff) return null;
+  } else if (size === 2 && type === 0x03) {
+    v = view.getInt16(offset, le);
+    if (v === 0x7fff) return null;
+  } else if (size === 4 && (type === 0x06 || type === 0x0c)) {
+    v = view.getUint32(offset, le);
+    if (v === 0xffffffff) return null;
+  } else if (size === 4 && type === 0x05) {
+    v = view.getInt32(offset, le);
+    if (v === 0x7fffffff) return null;
+  } else {
+    return null; // strings, arrays, 64-bit: not needed here
+  }
+  return zeroInvalid && v === 0 ? null : v;
+}
+
+/** Whole strides/min plus the 1/128 fraction FIT keeps in a second field. */
+function cadence(whole: number | null | undefined, fraction?: number | null) {
+  return whole != null ? whole + (fraction ?? 0) / 128 : undefined;
+}
+
+/** Cadence comes back as recorded, in strides/min. */
+export function decodeFit(buffer: ArrayBuffer): {
+  points: TrackPoint[];
+  totals: ActivityTotals;
+} {
+  const view = new DataView(buffer);
+  if (buffer.byteLength < 12) throw new FitParseError("File is too short.");
+  const headerSize = view.getUint8(0);
+  const dataSize = view.getUint32(4, true);
+  const magic = String.fromCharCode(...new Uint8Array(buffer.slice(8, 12)));
+  if (magic !== ".FIT") throw new FitParseError("Not a FIT file.");
+
+  const end = Math.min(buffer.byteLength, headerSize + dataSize);
+  const defs = new Map<number, MessageDef>();
+  const points: TrackPoint[] = [];
+  const totals: ActivityTotals = {};
+  let lastTimestamp = 0;
+  let pos = headerSize;
+
+  while (pos < end) {
+    const header = view.getUint8(pos++);
+
+    // compressed-timestamp data message
+    if (header & 0x80) {
+      const local = (header >> 5) & 0x03;
+      const offset = header & 0x1f;
+      let ts = (lastTimestamp & ~0x1f) + offset;
+      if (offset < (lastTimestamp & 0x1f)) ts += 0x20;
+      lastTimestamp = ts;
+      pos = readData(local, ts);
+      continue;
+    }
+
+    const local = header & 0x0f;
+    if (header & 0x40) {
+      // definition message
+      const littleEndian = view.getUint8(pos + 1) === 0;
+      const globalNum = view.getUint16(pos + 2, littleEndian);
+      const count = view.getUint8(pos + 4);
+      pos += 5;
+      const fields: FieldDef[] = [];
+      for (let i = 0; i < count; i++, pos += 3) {
+        fields.push({
+          num: view.getUint8(pos),
+          size: view.getUint8(pos + 1),
+          baseType: view.getUint8(pos + 2),
+        });
+      }
+      let devSize = 0;
+      if (header & 0x20) {
+        const devCount = view.getUint8(pos++);
+        for (let i = 0; i < devCount; i++, pos += 3) {
+          devSize += view.getUint8(pos + 1);
+        }
+      }
+      defs.set(local, { globalNum, littleEndian, fields, devSize });
+    } else {
+      pos = readData(local, null);
+    }
+  }
+
+  function readData(local: number, compressedTs: number | null) {
+    const def = defs.get(local);
+    if (!def) throw new FitParseError("Corrupt FIT file (missing definition).");
+    const values = new Map<number, number | null>();
+    let p = pos;
+    for (const f of def.fields) {
+      values.set(f.num, readValue(view, p, f, def.littleEndian));
+      p += f.size;
+    }
+    p += def.devSize;
+
+    const ts = values.get(253) ?? compressedTs;
+    if (values.get(253) != null) lastTimestamp = values.get(253)!;
+
+    if (def.globalNum === MSG_RECORD) {
+      const lat = values.get(0);
+      const lon = values.get(1);
+      const alt = values.get(78) ?? values.get(2);
+      const dist = values.get(5);
+      const cad = cadence(values.get(4), values.get(53));
+      points.push({
+        time: ts != null ? (ts + FIT_EPOCH_S) * 1000 : undefined,
+        lat: lat != null ? lat * SEMICIRCLE_TO_DEG : undefined,
+        lon: lon != null ? lon * SEMICIRCLE_TO_DEG : undefined,
+        ele: alt != null ? alt / 5 - 500 : undefined,
+        distM: dist != null ? dist / 100 : undefined,
+        cadence: cad,
+      });
+    } else if (def.globalNum === MSG_SESSION) {
+      const timer = values.get(8);
+      const elapsed = values.get(7);
+      const dist = values.get(9);
+      const ascent = values.get(22);
+      const descent = values.get(23);
+      const cad = cadence(values.get(18), values.get(41));
+      if (timer != null) totals.movingSeconds = timer / 1000;
+      if (elapsed != null) totals.elapsedSeconds = elapsed / 1000;
+      if (dist != null) totals.distanceM = dist / 100;
+      if (ascent != null) totals.elevationGainM = ascent;
+      if (descent != null) totals.elevationLossM = descent;
+      if (cad != null) totals.cadence = cad;
+    }
+    return p;
+  }
+
+  return { points, totals };
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_CALCULATOR_STATE } from "./calculator";
+import {
+  MAX_PLAN_WEEKS,
+  SAFE_WEEKLY_INCREASE,
+  buildGoalPlan,
+  safeIncrease,
+} from "./goalPlan";
+
+const plan = (currentSteps: number, targetSteps: number, cap = 1000) =>
+  buildGoalPlan(
+    { currentSteps, targetSteps, maxWeeklyIncrease: cap },
+    DEFAULT_CALCULATOR_STATE
+  );
+
+describe("safeIncrease", () => {
+  it.each([
+    { daily: 4000, cap: 1000, increase: 400 },
+    { daily: 8000, cap: 500, increase: 500 },
+    { daily: 6789, cap: 1000, increase: 650 },
+    { daily: 499, cap: 1000, increase: 40 },
+    { daily: 300, cap: 1000, increase: 30 },
+    { daily: 123, cap: 1000, increase: 10 },
+    { daily: 10, cap: 1000, increase: 1 },
+    { daily: 0, cap: 1000, increase: 1 },
+  ])(
+    "adds $increase to $daily with a cap of $cap",
+    ({ daily, cap, increase }) => {
+      expect(safeIncrease(daily, cap)).toBe(increase);
+    }
+  );
+});
+
+describe("buildGoalPlan", () => {
+  it.each([100, 300, 499, 2000, 4000, 9000])(
+    "never steps up more than 10%% from %s steps/day",
+    (start) => {
+      const { weeks } = plan(start, 12000);
+      weeks.slice(1).forEach((w, i) => {
+        expect(w.increase).toBeGreaterThan(0);
+        expect(w.increase).toBeLessThanOrEqual(
+          weeks[i].dailySteps * SAFE_WEEKLY_INCREASE
+        );
+      });
+    }
+  );
+
+  it("keeps round numbers once the cap allows", () => {
+    const { weeks } = plan(4000, 10000);
+    for (const w of weeks) expect(w.dailySteps % 50).toBe(0);
+  });
+
+  it("stops at the target", () => {
+    const p = plan(4000, 5000);
+    expect(p.reachedTarget).toBe(true);
+    expect(p.weeks.map((w) => w.dailySteps)).toEqual([4000, 4400, 4800, 5000]);
+  });
+
+  it("gives up after a year", () => {
+    const p = plan(20, 10000);
+    expect(p.reachedTarget).toBe(false);
+    expect(p.weeks).toHaveLength(MAX_PLAN_WEEKS);
+  });
+});
@@ -0,0 +1,84 @@
+/* =========================================================
+   STEP-GOAL PLANNER
+   Week-by-week ramp from a current daily average to a target,
+   never increasing more than SAFE_WEEKLY_INCREASE (the "10% per
+   week" rule from the safety guide) or the user's own cap.
+========================================================= */
+import { calculateFromState, type CalculatorState } from "./calculator";
+
+export const SAFE_WEEKLY_INCREASE = 0.1;
+export const MAX_PLAN_WEEKS = 52;
+/** Steps to round increases to, coarsest first; see safeIncrease. */
+const ROUNDING = [50, 10, 1];
+
+export type GoalPlanInput = {
+  currentSteps: number;
+  targetSteps: number;
+  maxWeeklyIncrease: number;
+};
+
+export type PlanWeek = {
+  week: number;
+  dailySteps: number;
+  increase: number;
+  weeklySteps: number;
+  weeklyCalories: number;
+};
+
+export type GoalPlan = {
+  weeks: PlanWeek[];
+  reachedTarget: boolean;
+};
+
+/**
+ * Largest safe step-up from `daily`, rounded down to the coarsest of
+ * ROUNDING that fits under the cap, so the schedule stays readable
+ * without breaking the 10% rule on low baselines. Under 10 steps/day,
+ * where 10% is less than a step, it still adds one.
+ */
+export function safeIncrease(daily: number, maxWeeklyIncrease: number) {
+  const cap = Math.min(maxWeeklyIncrease, daily * SAFE_WEEKLY_INCREASE);
+  const step = ROUNDING.find((r) => cap >= r);
+  return step ? Math.floor(cap / step) * step : 1;
+}
+
+/**
+ * Week 1 starts at the current average. Each following week adds the
+ * largest safe increase until the target is reached or MAX_PLAN_WEEKS
+ * runs out. Calories use `body` (units, weight, stride, pace).
+ */
+export function buildGoalPlan(
+  { currentSteps, targetSteps, maxWeeklyIncrease }: GoalPlanInput,
+  body: CalculatorState
+): GoalPlan {
+  const start = Math.max(0, Math.round(currentSteps));
+  const target = Math.max(0, Math.round(targetSteps));
+  const cap = Math.max(ROUNDING[0], maxWeeklyIncrease);
+
+  const weeks: PlanWeek[] = [];
+  let daily = start;
+  let increase = 0;
+  for (let week = 1; week <= MAX_PLAN_WEEKS; week++) {
+    const weeklySteps = daily * 7;
+    weeks.push({
+      week,
+      dailySteps: daily,
+      increase,
+      weeklySteps,
+      weeklyCalories: calculateFromState({
+        ...body,
+        mode: "steps",
+        steps: weeklySteps,
+      }).calories,
+    });
+    if (daily >= target) break;
+    const next = Math.min(target, daily + safeIncrease(daily, cap));
+    increase = next - daily;
+    daily = next;
+  }
+
+  return {
+    weeks,
+    reachedTarget: weeks[weeks.length - 1].dailySteps >= target,
+  };
+}
@@ -0,0 +1,105 @@
+/* =========================================================
+   GUIDE CONTENT
+   Markdown files in app/content/guides, one per guide. The
+   file name is the slug; the frontmatter carries the title,
+   description and `updated` date (YYYY-MM-DD). Translations sit
+   beside the original as `<slug>.<locale>.md`; a guide without
+   one is served in English.
+========================================================= */
+import { marked } from "marked";
+import type { Guide, GuideMeta } from "./guides";
+import { DEFAULT_LOCALE, LOCALES, isLocale, type Locale } from "./i18n";
+
+const SOURCES = import.meta.glob<string>("../content/guides/*.md", {
+  query: "?raw",
+  import: "default",
+  eager: true,
+});
+
+const REQUIRED_FIELDS = ["title", "description", "updated"] as const;
+
+/** `---` fenced `key: value` lines; values may be quoted. */
+function parseFrontmatter(source: string, file: string) {
+  const m = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/.exec(source);
+  if (!m) throw new Error(`${file}: missing frontmatter`);
+
+  const fields: Record<string, string> = {};
+  for (const line of m[1].split(/\r?\n/)) {
+    if (!line.trim()) continue;
+    const kv = /^(\w+):\s*(.*)$/.exec(line);
+    if (!kv) throw new Error(`${file}: bad frontmatter line "${line}"`);
+    fields[kv[1]] = kv[2].trim().replace(/^(["'])(.*)\1$/, "$2");
+  }
+  for (const key of REQUIRED_FIELDS) {
+    if (!fields[key]) throw new Error(`${file}: frontmatter needs "${key}"`);
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(fields.updated)) {
+    throw new Error(`${file}: "updated" must be YYYY-MM-DD`);
+  }
+  return { fields, body: source.slice(m[0].length) };
+}
+
+/** "shoes.de.md" → { slug: "shoes", locale: "de" }. */
+function parseFileName(file: string) {
+  const [slug, ...rest] = file
+    .replace(/^.*\//, "")
+    .replace(/\.md$/, "")
+    .split(".");
+  const locale = rest.length ? rest[0] : DEFAULT_LOCALE;
+  if (rest.length > 1 || !isLocale(locale)) {
+    throw new Error(`${file}: expected <slug>.md or <slug>.<locale>.md`);
+  }
+  return { slug, locale };
+}
+
+// Parsed once at module load so a malformed file fails the build/dev
+// server instead of a single request.
+const PARSED: Guide[] = Object.entries(SOURCES).map(([file, source]) => {
+  const { slug, locale } = parseFileName(file);
+  const { fields, body } = parseFrontmatter(source, file);
+  return {
+    slug,
+    locale,
+    title: fields.title,
+    description: fields.description,
+    updated: fields.updated,
+    html: marked.parse(body, { async: false }),
+  };
+});
+
+const ORIGINALS = PARSED.filter((g) => g.locale === DEFAULT_LOCALE);
+for (const g of PARSED) {
+  if (!ORIGINALS.some((o) => o.slug === g.slug)) {
+    throw new Error(`guides: ${g.slug}.${g.locale}.md has no English original`);
+  }
+}
+
+/** Every guide in each locale, translated where a translation exists. */
+const GUIDES = Object.fromEntries(
+  LOCALES.map((locale) => [
+    locale,
+    ORIGINALS.map(
+      (o) => PARSED.find((g) => g.slug === o.slug && g.locale === locale) ?? o
+    ).sort((a, b) => a.title.localeCompare(b.title, locale)),
+  ])
+) as Record<Locale, Guide[]>;
+
+/** Index listing, alphabetical by title. */
+export function listGuides(locale: Locale = DEFAULT_LOCALE): GuideMeta[] {
+  return GUIDES[locale].map(({ html, ...meta }) => meta);
+}
+
+/** Most recent `updated` across one locale's guides. */
+export function latestGuideUpdate(locale: Locale = DEFAULT_LOCALE) {
+  return GUIDES[locale].reduce(
+    (max, g) => (g.updated > max ? g.updated : max),
+    ""
+  );
+}
+
+export function getGuide(
+  slug: string,
+  locale: Locale = DEFAULT_LOCALE
+): Guide | null {
+  return GUIDES[locale].find((g) => g.slug === slug) ?? null;
+}
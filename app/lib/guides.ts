@@ -0,0 +1,134 @@
+/* =========================================================
+   GUIDES
+   Paths and SEO for the /guides pages. The Markdown itself is
+   read in guides.server.ts so it stays out of the client bundle.
+   Paths are unprefixed; `locale` picks the /es, /de… variant.
+========================================================= */
+import {
+  DEFAULT_LOCALE,
+  alternateLinks,
+  formatDate,
+  localizePath,
+  type Locale,
+} from "./i18n";
+import { messagesFor } from "./messages";
+import {
+  SITE_NAME,
+  SITE_URL,
+  absoluteUrl,
+  breadcrumbJsonLd,
+  type Crumb,
+} from "./seo";
+
+export type GuideMeta = {
+  slug: string;
+  locale: Locale; // language of the text (English when untranslated)
+  title: string;
+  description: string;
+  updated: string;
+};
+
+export type Guide = GuideMeta & { html: string };
+
+export const GUIDES_PATH = "/guides";
+
+export function guidePath(slug: string) {
+  return `${GUIDES_PATH}/${slug}`;
+}
+
+/** "October 19, 2026" / "19. Oktober 2026" for an `updated` date. */
+export function formatUpdated(updated: string, locale: Locale) {
+  return formatDate(`${updated}T00:00:00Z`, locale);
+}
+
+/* ---------- SEO ---------- */
+export function guidesIndexCrumbs(locale: Locale): Crumb[] {
+  return [
+    { name: SITE_NAME, path: localizePath("/", locale) },
+    {
+      name: messagesFor(locale).guides.indexTitle,
+      path: localizePath(GUIDES_PATH, locale),
+    },
+  ];
+}
+
+export function guideCrumbs(guide: GuideMeta, locale: Locale): Crumb[] {
+  return [
+    ...guidesIndexCrumbs(locale),
+    { name: guide.title, path: localizePath(guidePath(guide.slug), locale) },
+  ];
+}
+
+const PUBLISHER = {
+  "@type": "Organization",
+  name: SITE_NAME,
+  url: `${SITE_URL}/`,
+};
+
+export function guideJsonLd(guide: GuideMeta, locale: Locale) {
+  const url = absoluteUrl(localizePath(guidePath(guide.slug), locale));
+  return {
+    "@context": "https://schema.org",
+    "@graph": [
+      {
+        "@type": "Article",
+        headline: guide.title,
+        description: guide.description,
+        dateModified: guide.updated,
+        inLanguage: guide.locale,
+        url,
+        mainEntityOfPage: url,
+        author: PUBLISHER,
+        publisher: PUBLISHER,
+      },
+      breadcrumbJsonLd(guideCrumbs(guide, locale)),
+    ],
+  };
+}
+
+export function guidesIndexJsonLd(guides: GuideMeta[], locale: Locale) {
+  const { indexTitle, indexDescription } = messagesFor(locale).guides;
+  return {
+    "@context": "https://schema.org",
+    "@graph": [
+      {
+        "@type": "CollectionPage",
+        name: indexTitle,
+        description: indexDescription,
+        url: absoluteUrl(localizePath(GUIDES_PATH, locale)),
+        inLanguage: locale,
+        hasPart: guides.map((g) => ({
+          "@type": "Article",
+          headline: g.title,
+          dateModified: g.updated,
+          url: absoluteUrl(localizePath(guidePath(g.slug), locale)),
+          author: PUBLISHER,
+        })),
+      },
+      breadcrumbJsonLd(guidesIndexCrumbs(locale)),
+    ],
+  };
+}
+
+/** meta() descriptors for a guide or the index; `path` is unprefixed. */
+export function guideMeta(
+  title: string,
+  description: string,
+  path: string,
+  type: "article" | "website",
+  locale: Locale = DEFAULT_LOCALE
+) {
+  const url = absoluteUrl(localizePath(path, locale));
+  const fullTitle = `${title} | ${SITE_NAME}`;
+  return [
+    { title: fullTitle },
+    { name: "description", content: description },
+    { property: "og:title", content: fullTitle },
+    { property: "og:description", content: description },
+    { property: "og:type", content: type },
+    { property: "og:url", content: url },
+    { name: "twitter:card", content: "summary" },
+    { tagName: "link", rel: "canonical", href: url },
+    ...alternateLinks(path),
+  ];
+}
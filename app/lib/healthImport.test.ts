@@ -0,0 +1,145 @@
+import { describe, expect, it } from "vitest";
+import {
+  HealthImportError,
+  readHealthFiles,
+  splitCsvLine,
+} from "./healthImport";
+
+const STEPS = "HKQuantityTypeIdentifierStepCount";
+
+const record = (source: string, start: string, value: number, type = STEPS) =>
+  `<Record type="${type}" sourceName="${source}" unit="count" startDate="${start} -0500" endDate="${start} -0500" value="${value}"/>`;
+
+/** An export.xml; `chunk` splits it into parts the stream reads one by one. */
+function appleExport(records: string[], chunk = Infinity) {
+  const bytes = new TextEncoder().encode(
+    `<?xml version="1.0"?>\n<HealthData>\n${records.join("\n")}\n</HealthData>`
+  );
+  const parts: BlobPart[] = [];
+  for (let i = 0; i < bytes.length; i += chunk) {
+    parts.push(bytes.slice(i, i + chunk));
+  }
+  return new File(parts, "export.xml");
+}
+
+describe("Apple Health", () => {
+  it("takes each day's largest source instead of adding phone and watch", async () => {
+    const { days, records } = await readHealthFiles([
+      appleExport([
+        record("Ana’s iPhone", "2026-03-05 08:00:00", 3000),
+        record("Ana’s iPhone", "2026-03-05 18:00:00", 2000),
+        record("Ana’s Apple Watch", "2026-03-05 08:00:00", 4500),
+        record("Ana’s Apple Watch", "2026-03-06 09:00:00", 800),
+        record("Ana’s iPhone", "2026-03-06 09:00:00", 1200),
+      ]),
+    ]);
+    expect(days).toEqual([
+      { date: "2026-03-05", steps: 5000 },
+      { date: "2026-03-06", steps: 1200 },
+    ]);
+    expect(records).toBe(5);
+  });
+
+  it("skips other record types", async () => {
+    const { days } = await readHealthFiles([
+      appleExport([
+        record("Phone", "2026-03-05 08:00:00", 900),
+        record(
+          "Phone",
+          "2026-03-05 08:00:00",
+          12,
+          "HKQuantityTypeIdentifierFlightsClimbed"
+        ),
+      ]),
+    ]);
+    expect(days).toEqual([{ date: "2026-03-05", steps: 900 }]);
+  });
+
+  it("streams a large export in chunks without losing split tags", async () => {
+    // odd-sized chunks, so tags and the 3-byte "’" straddle chunk edges
+    const perDay = 20;
+    const list = Array.from({ length: 30 * perDay }, (_, i) =>
+      record(
+        "Ana’s iPhone",
+        `2026-04-${String(1 + (i % 30)).padStart(2, "0")} 08:00:00`,
+        10
+      )
+    );
+    const progress: number[] = [];
+    const { days } = await readHealthFiles([appleExport(list, 4099)], (f) =>
+      progress.push(f)
+    );
+    expect(days).toHaveLength(30);
+    expect(days.every((d) => d.steps === perDay * 10)).toBe(true);
+    expect(progress.length).toBeGreaterThan(1);
+    expect(progress).toEqual([...progress].sort((a, b) => a - b));
+    expect(progress.at(-1)).toBe(1);
+  });
+});
+
+describe("Google Fit", () => {
+  it("reads the daily metrics file", async () => {
+    const csv = [
+      "Date,Move Minutes count,Step count,Distance (m)",
+      "2026-03-05,45,8123,6100.5",
+      "2026-03-06,12,,900",
+      "2026-03-07,30,4000,3000",
+    ].join("\r\n");
+    const { source, days } = await readHealthFiles([
+      new File([csv], "Daily activity metrics.csv"),
+    ]);
+    expect(source).toBe("google-fit");
+    expect(days).toEqual([
+      { date: "2026-03-05", steps: 8123 },
+      { date: "2026-03-07", steps: 4000 },
+    ]);
+  });
+
+  it("dates per-day files by their name", async () => {
+    const csv =
+      "Start time,End time,Step count\n08:00,08:15,900\n08:15,08:30,600\n";
+    const { days } = await readHealthFiles([
+      new File([csv], "2026-03-05.csv"),
+      new File([csv], "2026-03-06.csv"),
+    ]);
+    expect(days).toEqual([
+      { date: "2026-03-05", steps: 1500 },
+      { date: "2026-03-06", steps: 1500 },
+    ]);
+  });
+
+  it("names a file without a step column", async () => {
+    const files = [new File(["Date,Calories\n2026-03-05,2000\n"], "other.csv")];
+    await expect(readHealthFiles(files)).rejects.toMatchObject({
+      reason: "stepColumn",
+      fileName: "other.csv",
+    });
+  });
+});
+
+describe("file choice", () => {
+  it.each([
+    { files: [], reason: "noFile" },
+    { files: [new File([""], "steps.json")], reason: "format" },
+    {
+      files: [new File([""], "export.xml"), new File([""], "a.csv")],
+      reason: "mixed",
+    },
+    { files: [appleExport([])], reason: "noSteps" },
+  ])("rejects with $reason", async ({ files, reason }) => {
+    const read = readHealthFiles(files);
+    await expect(read).rejects.toBeInstanceOf(HealthImportError);
+    await expect(read).rejects.toMatchObject({ reason });
+  });
+});
+
+describe("splitCsvLine", () => {
+  it("keeps quoted commas and quotes", () => {
+    expect(splitCsvLine('a,"b, c","say ""hi""",')).toEqual([
+      "a",
+      "b, c",
+      'say "hi"',
+      "",
+    ]);
+  });
+});
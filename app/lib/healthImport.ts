@@ -0,0 +1,280 @@
+/* =========================================================
+   HEALTH EXPORT IMPORT
+   Apple Health `export.xml` and Google Fit Takeout CSVs → daily
+   step totals. Files are read as a stream in chunks, so a
+   multi-hundred-MB export never sits in memory as one string.
+   Browser-only (File.stream); nothing is uploaded.
+========================================================= */
+import { calculateFromState, type CalculatorState } from "./calculator";
+import { isDateKey } from "./stepLog";
+
+export type HealthSource = "apple-health" | "google-fit";
+
+export type DailySteps = { date: string; steps: number };
+
+export type DailyWalk = DailySteps & { distanceKm: number; calories: number };
+
+export type HealthImportResult = {
+  source: HealthSource;
+  days: DailySteps[]; // oldest first
+  records: number; // step rows/records read
+};
+
+/**
+ * `reason` lets the page word the problem in its own language; a file
+ * problem also carries the file's name.
+ */
+export class HealthImportError extends Error {
+  constructor(
+    message: string,
+    readonly reason:
+      | "noFile"
+      | "format"
+      | "mixed"
+      | "stepColumn"
+      | "dateColumn"
+      | "noSteps",
+    readonly fileName = ""
+  ) {
+    super(message);
+  }
+}
+
+export const HEALTH_FILE_ACCEPT = ".xml,.csv";
+
+const APPLE_STEP_TYPE = "HKQuantityTypeIdentifierStepCount";
+
+/**
+ * Per-day, per-source sums. Apple Health keeps a phone's and a watch's
+ * counts side by side, so adding every record would double-count; the
+ * day's total is the largest single source instead (what the Health
+ * app itself shows when one device is preferred).
+ */
+class DayTotals {
+  private days = new Map<string, Map<string, number>>();
+  records = 0;
+
+  add(date: string, source: string, steps: number) {
+    if (!isDateKey(date) || !(steps > 0)) return;
+    const bySource = this.days.get(date) ?? new Map<string, number>();
+    bySource.set(source, (bySource.get(source) ?? 0) + steps);
+    this.days.set(date, bySource);
+    this.records++;
+  }
+
+  toDays(): DailySteps[] {
+    return Array.from(this.days, ([date, bySource]) => ({
+      date,
+      steps: Math.round(Math.max(...bySource.values())),
+    })).sort((a, b) => a.date.localeCompare(b.date));
+  }
+}
+
+/* ---------- Streaming ---------- */
+/** Feeds the file to `onText` in decoded chunks; reports bytes read. */
+async function streamText(
+  file: File,
+  onText: (text: string) => void,
+  onProgress?: (bytesRead: number) => void
+) {
+  const reader = file.stream().getReader();
+  const decoder = new TextDecoder();
+  let bytes = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    bytes += value.byteLength;
+    onText(decoder.decode(value, { stream: true }));
+    onProgress?.(bytes);
+  }
+  onText(decoder.decode());
+}
+
+/* ---------- Apple Health ---------- */
+const RECORD_TAG_RE = /<Record\b[^>]*>/g;
+const ATTR_RE = /(\w+)="([^"]*)"/g;
+
+function attributes(tag: string) {
+  const out: Record<string, string> = {};
+  for (const [, key, value] of tag.matchAll(ATTR_RE)) out[key] = value;
+  return out;
+}
+
+async function importAppleHealth(
+  file: File,
+  totals: DayTotals,
+  onProgress?: (bytesRead: number) => void
+) {
+  let pending = "";
+  await streamText(
+    file,
+    (text) => {
+      pending += text;
+      // keep any half-read tag for the next chunk
+      const cut = pending.lastIndexOf(">") + 1;
+      const ready = pending.slice(0, cut);
+      pending = pending.slice(cut);
+      for (const [tag] of ready.matchAll(RECORD_TAG_RE)) {
+        if (!tag.includes(APPLE_STEP_TYPE)) continue;
+        const a = attributes(tag);
+        if (a.type !== APPLE_STEP_TYPE) continue;
+        // "2024-03-05 08:12:00 -0500": the prefix is the local calendar day
+        totals.add(
+          (a.startDate ?? "").slice(0, 10),
+          a.sourceName ?? "",
+          parseFloat(a.value)
+        );
+      }
+    },
+    onProgress
+  );
+}
+
+/* ---------- Google Fit Takeout ---------- */
+/** Splits one CSV line; handles quoted fields with embedded commas. */
+export function splitCsvLine(line: string) {
+  const out: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const c = line[i];
+    if (quoted) {
+      if (c === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') quoted = false;
+      else field += c;
+    } else if (c === '"') quoted = true;
+    else if (c === ",") {
+      out.push(field);
+      field = "";
+    } else field += c;
+  }
+  out.push(field);
+  return out;
+}
+
+/**
+ * Takeout writes "Daily activity metrics.csv" (one row per day, with a
+ * Date column) and one "YYYY-MM-DD.csv" per day in 15-minute rows
+ * (no Date column; the day is the file name). Both are accepted.
+ */
+async function importGoogleFit(
+  file: File,
+  totals: DayTotals,
+  onProgress?: (bytesRead: number) => void
+) {
+  const fileDay = file.name.match(/(\d{4}-\d{2}-\d{2})\.csv$/i)?.[1];
+  let pending = "";
+  let dateCol = -1;
+  let stepCol = -1;
+  let header = true;
+
+  const line = (raw: string) => {
+    const cells = splitCsvLine(raw.replace(/\r$/, ""));
+    if (header) {
+      header = false;
+      const names = cells.map((c) => c.trim().toLowerCase());
+      dateCol = names.indexOf("date");
+      stepCol = names.indexOf("step count");
+      if (stepCol < 0) {
+        throw new HealthImportError(
+          `“${file.name}” has no “Step count” column.`,
+          "stepColumn",
+          file.name
+        );
+      }
+      if (dateCol < 0 && !fileDay) {
+        throw new HealthImportError(
+          `“${file.name}” has no Date column or date in its name.`,
+          "dateColumn",
+          file.name
+        );
+      }
+      return;
+    }
+    const date = dateCol >= 0 ? cells[dateCol]?.trim() : fileDay!;
+    totals.add(date ?? "", file.name, parseFloat(cells[stepCol] ?? ""));
+  };
+
+  await streamText(
+    file,
+    (text) => {
+      pending += text;
+      const lines = pending.split("\n");
+      pending = lines.pop() ?? "";
+      for (const l of lines) if (l.trim()) line(l);
+    },
+    onProgress
+  );
+  if (pending.trim()) line(pending);
+}
+
+/* ---------- Entry point ---------- */
+export function detectHealthSource(fileName: string): HealthSource | null {
+  const name = fileName.toLowerCase();
+  if (name.endsWith(".xml")) return "apple-health";
+  if (name.endsWith(".csv")) return "google-fit";
+  return null;
+}
+
+/**
+ * Reads one Apple Health export.xml, or any number of Google Fit
+ * Takeout CSVs, into daily totals. `onProgress` gets 0–1 over all files.
+ */
+export async function readHealthFiles(
+  files: File[],
+  onProgress?: (fraction: number) => void
+): Promise<HealthImportResult> {
+  if (!files.length) {
+    throw new HealthImportError("Choose a file to import.", "noFile");
+  }
+  const sources = new Set(files.map((f) => detectHealthSource(f.name)));
+  if (sources.has(null)) {
+    throw new HealthImportError(
+      "Choose Apple Health’s export.xml or Google Fit .csv files (unzip the export first).",
+      "format"
+    );
+  }
+  if (sources.size > 1) {
+    throw new HealthImportError(
+      "Import Apple Health and Google Fit files separately.",
+      "mixed"
+    );
+  }
+  const source = [...sources][0]!;
+
+  const totalBytes = files.reduce((n, f) => n + f.size, 0) || 1;
+  let doneBytes = 0;
+  const totals = new DayTotals();
+  for (const file of files) {
+    const progress = (read: number) =>
+      onProgress?.(Math.min(1, (doneBytes + read) / totalBytes));
+    if (source === "apple-health") {
+      await importAppleHealth(file, totals, progress);
+    } else {
+      await importGoogleFit(file, totals, progress);
+    }
+    doneBytes += file.size;
+  }
+
+  const days = totals.toDays();
+  if (!days.length) {
+    throw new HealthImportError(
+      "No step counts were found in this export.",
+      "noSteps"
+    );
+  }
+  return { source, days, records: totals.records };
+}
+
+/** Distance and calories for each day, through the calculator's own engine. */
+export function withWalkMetrics(
+  days: DailySteps[],
+  body: CalculatorState
+): DailyWalk[] {
+  return days.map((d) => {
+    const r = calculateFromState({ ...body, mode: "steps", steps: d.steps });
+    return { ...d, distanceKm: r.distanceKm, calories: r.calories };
+  });
+}
@@ -0,0 +1,185 @@
+/* =========================================================
+   I18N
+   Supported locales, locale-prefixed paths (/es/guides…),
+   Accept-Language negotiation and Intl formatting. English is
+   the default and lives at unprefixed paths.
+========================================================= */
+import { SITE_URL } from "./seo";
+
+export const LOCALES = ["en", "es", "de", "fr"] as const;
+export type Locale = (typeof LOCALES)[number];
+export const DEFAULT_LOCALE: Locale = "en";
+
+/** Each locale's name in its own language, for the switcher. */
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: "English",
+  es: "Español",
+  de: "Deutsch",
+  fr: "Français",
+};
+
+/** BCP 47 tags handed to Intl. */
+const INTL_TAGS: Record<Locale, string> = {
+  en: "en-US",
+  es: "es-ES",
+  de: "de-DE",
+  fr: "fr-FR",
+};
+
+/** Cookie holding an explicit choice from the language switcher. */
+export const LOCALE_COOKIE = "lang";
+
+/** Unprefixed translated pages differ by these request headers. */
+export const LOCALE_VARY = "Accept-Language, Cookie";
+
+export function isLocale(v: unknown): v is Locale {
+  return typeof v === "string" && (LOCALES as readonly string[]).includes(v);
+}
+
+/* ---------- Paths ---------- */
+/** "/es/guides" → { locale: "es", path: "/guides" }; no prefix → null. */
+export function splitLocale(pathname: string) {
+  const m = /^\/([a-z]{2})(?=\/|$)(.*)$/.exec(pathname);
+  if (m && isLocale(m[1]) && m[1] !== DEFAULT_LOCALE) {
+    return { locale: m[1], path: m[2] || "/" };
+  }
+  return { locale: null, path: pathname };
+}
+
+/** Prefix a site path for `locale`; English stays unprefixed. */
+export function localizePath(path: string, locale: Locale) {
+  if (locale === DEFAULT_LOCALE) return path;
+  return path === "/" ? `/${locale}` : `/${locale}${path}`;
+}
+
+/** Locale of a route's `:lang?` param (absent → English). */
+export function localeFromParam(lang: string | undefined): Locale {
+  return isLocale(lang) ? lang : DEFAULT_LOCALE;
+}
+
+/**
+ * Paths (unprefixed) that have translated versions. Only these are
+ * redirected by Accept-Language and get hreflang alternates.
+ */
+const LOCALIZED_PATHS = [
+  /^\/$/,
+  /^\/steps-to-(miles|km)(\/|$)/,
+  /^\/guides(\/|$)/,
+  /^\/(step-log|walk-timer|metronome|stride-calibration)$/,
+];
+
+export function isLocalizedPath(path: string) {
+  return LOCALIZED_PATHS.some((re) => re.test(path));
+}
+
+/* ---------- Negotiation ---------- */
+/**
+ * Best supported locale for an Accept-Language header, honouring
+ * q-values ("de-CH,de;q=0.9,en;q=0.8" → "de").
+ */
+export function negotiateLocale(header: string | null): Locale {
+  if (!header) return DEFAULT_LOCALE;
+  const ranked = header
+    .split(",")
+    .map((part, i) => {
+      const [tag, ...params] = part.trim().split(";");
+      const q = params.map((p) => /^\s*q=([\d.]+)\s*$/.exec(p)).find(Boolean);
+      return { tag: tag.toLowerCase(), q: q ? Number(q[1]) : 1, i };
+    })
+    .filter((r) => r.tag && r.q > 0)
+    .sort((a, b) => b.q - a.q || a.i - b.i);
+  for (const { tag } of ranked) {
+    const base = tag.split("-")[0];
+    if (isLocale(base)) return base;
+  }
+  return DEFAULT_LOCALE;
+}
+
+export function readCookie(header: string | null, name: string) {
+  const m = new RegExp(`(?:^|;\\s*)${name}=([^;]*)`).exec(header ?? "");
+  return m ? decodeURIComponent(m[1]) : null;
+}
+
+/** document.cookie value remembering a switcher choice for a year. */
+export function localeCookie(locale: Locale) {
+  return `${LOCALE_COOKIE}=${locale}; Path=/; Max-Age=31536000; SameSite=Lax`;
+}
+
+/* ---------- Formatting ---------- */
+const numberFormats = new Map<string, Intl.NumberFormat>();
+
+/** Locale-grouped number with a fixed number of decimals. */
+export function formatNumber(n: number, locale: Locale, digits = 0) {
+  const key = `${locale}:${digits}`;
+  let f = numberFormats.get(key);
+  if (!f) {
+    f = new Intl.NumberFormat(INTL_TAGS[locale], {
+      minimumFractionDigits: digits,
+      maximumFractionDigits: digits,
+    });
+    numberFormats.set(key, f);
+  }
+  return f.format(n);
+}
+
+/** Rounded whole number: "10,000" / "10.000" / "10 000". */
+export function formatInteger(n: number, locale: Locale) {
+  return formatNumber(Math.round(n), locale, 0);
+}
+
+/**
+ * A date in UTC so server and browser render the same string
+ * (no hydration mismatch from the visitor's time zone).
+ */
+export function formatDate(
+  date: string | Date,
+  locale: Locale,
+  options: Intl.DateTimeFormatOptions = { dateStyle: "long" }
+) {
+  return new Intl.DateTimeFormat(INTL_TAGS[locale], {
+    ...options,
+    timeZone: "UTC",
+  }).format(typeof date === "string" ? new Date(date) : date);
+}
+
+/** A step-log day key ("2024-03-05") as a date, whatever the time zone. */
+export function formatDay(
+  key: string,
+  locale: Locale,
+  options: Intl.DateTimeFormatOptions = { dateStyle: "medium" }
+) {
+  return formatDate(`${key}T00:00:00Z`, locale, options);
+}
+
+/**
+ * A moment in the visitor's own time zone. Only for values rendered
+ * in the browser after mount (saved walks and strides).
+ */
+export function formatLocalDate(
+  date: string | Date,
+  locale: Locale,
+  options: Intl.DateTimeFormatOptions = { dateStyle: "medium" }
+) {
+  return new Intl.DateTimeFormat(INTL_TAGS[locale], options).format(
+    typeof date === "string" ? new Date(date) : date
+  );
+}
+
+/* ---------- SEO ---------- */
+/** hreflang alternates (plus x-default) for an unprefixed localized path. */
+export function alternateLinks(path: string) {
+  return [
+    ...LOCALES.map((l) => ({
+      tagName: "link" as const,
+      rel: "alternate",
+      hrefLang: l,
+      href: `${SITE_URL}${localizePath(path, l)}`,
+    })),
+    {
+      tagName: "link" as const,
+      rel: "alternate",
+      hrefLang: "x-default",
+      href: `${SITE_URL}${path}`,
+    },
+  ];
+}
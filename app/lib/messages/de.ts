@@ -0,0 +1,701 @@
+/* =========================================================
+   GERMAN MESSAGES
+========================================================= */
+import type { Messages, UnitWords } from "./en";
+
+const person = (sex: string) =>
+  sex === "female"
+    ? "eine Frau"
+    : sex === "male"
+      ? "einen Mann"
+      : "eine Person";
+
+export const de: Messages = {
+  common: {
+    calories: "Kalorien",
+    cal: "kcal",
+    min: "Min.",
+    stepsPerMin: "Schritte/Min.",
+    sex: { male: "Mann", female: "Frau", unspecified: "Person" },
+    sexButton: { male: "Mann", female: "Frau", unspecified: "Keine Angabe" },
+    unitSystems: { metric: "metrisch", imperial: "imperial" },
+    body: (weight, height, sex) => `${sex}, ${weight}, ${height}`,
+    language: "Sprache",
+    footer: "Kostenlose Tools zum Gehen und Joggen",
+  },
+
+  paces: {
+    easy: "Gemütlich (~4 km/h / 2,5 mph)",
+    brisk: "Zügig (~5,6 km/h / 3,5 mph)",
+    power: "Power-Walking (~6,9 km/h / 4,3 mph)",
+    jog: "Leichtes Joggen (~8 km/h / 5 mph)",
+  },
+  paceShort: {
+    easy: "gemütlich",
+    brisk: "zügig",
+    power: "power",
+    jog: "joggen",
+  },
+
+  /* ---------- Home page ---------- */
+  home: {
+    title:
+      "I Love Steps | Kalorienrechner fürs Gehen, Schritte-in-Kilometer-Umrechner und Tipps",
+    description:
+      "Berechne, wie viele Kalorien du beim Gehen verbrennst – nach Schritten, Tempo, Gewicht und Größe. Rechne Schritte in Kilometer und Meilen um. Erfahre, wie viele Kalorien Gehen verbraucht, wie du Schrittziele setzt und eine tägliche Gehgewohnheit aufbaust. Kostenlos, mobilfreundlich, ohne Anmeldung.",
+    siteDescription:
+      "Tools rund ums Gehen: Kalorienrechner, Schritte-Umrechner und Ratgeber für eine gesunde Gehgewohnheit.",
+    topBar: (date) => `Kostenlose Geh-Tools • Zuletzt aktualisiert am ${date}`,
+    heroTitle: "Schritte zählen. Kalorien verbrennen. Besser fühlen.",
+    heroIntro:
+      "Schätze mit dem kostenlosen Rechner die **verbrannten Kalorien** aus Schritten, Tempo und Gewicht. Rechne **Schritte in Kilometer** automatisch um. Entdecke praktische Tipps für eine Gewohnheit, die bleibt.",
+    ctaCalculate: "Kalorienverbrauch berechnen",
+    ctaBenefits: "Vorteile des Gehens",
+    ctaLog: "Tägliche Schritte eintragen",
+    glanceTitle: "Auf einen Blick",
+    glance: [
+      "Kalorienverbrauch nach Schritten & Tempo",
+      "Schritte ⇆ Meilen ⇆ Kilometer",
+      "Schrittlänge automatisch aus Größe & Tempo",
+      "Zügiges vs. gemütliches Gehen im Vergleich",
+    ],
+    calculatorHeading: "Kalorienverbrauch beim Gehen und Joggen",
+    relatedHeading:
+      "Weitere kostenlose Tools für Gesundheit, Gehen & Wohlbefinden",
+    related: {
+      weightLoss:
+        "Tipps und Rechner zum Abnehmen: Kalorien beim Gehen verbrennen, Fortschritte verfolgen und täglich motiviert bleiben.",
+      fitness:
+        "Vom Kalorienverbrauch bis zu TDEE- und BMI-Rechnern: plane klügere Ziele auf deinem Weg.",
+      habits:
+        "Baue eine beständige Schrittroutine auf und verfolge Serien, die zu echten Ergebnissen führen.",
+      timers:
+        "Intervall- und Trainingstimer, ideal für Spaziergänge oder Cardio-Pausen zu Hause.",
+      typing:
+        "Trainiere an Ruhetagen den Kopf: Tipp-Lektionen mit ergonomischer Haltung gegen müde Handgelenke.",
+      wordGames:
+        "Halte dein Gehirn aktiv: Worträtsel passen gut zu einer gesunden Schrittroutine.",
+      morse:
+        "Wandle Text in Morsecode um – ein spaßiges Rätsel für die Gehpause.",
+      textConverters:
+        "Praktische Alltagstools für Textformatierung und schnelle Umrechnungen.",
+    },
+    benefitsHeading: "Vorteile des Gehens",
+    benefits: [
+      "Gehen ist einfach und wirkungsvoll: Es stärkt das Herz, verbessert den Blutzucker, kräftigt Gelenke und Muskeln, hebt Stimmung und Schlaf und hilft bei der Gewichtskontrolle – ganz ohne Ausrüstung.",
+      "Regelmäßigkeit schlägt Intensität: 20–30 Minuten Gehen an den meisten Tagen verbrennen übers Jahr Tausende Kalorien bei minimalem Verletzungsrisiko.",
+    ],
+    benefitsList: [
+      "Unterstützt Herz und Lunge",
+      "Verbessert die Insulinsensitivität",
+      "Fördert Gleichgewicht & Beweglichkeit",
+      "Baut Stress und Ängste ab",
+    ],
+    guidesHeading: "Ratgeber, Tipps & Strategien für Schrittziele",
+    guidesIntro:
+      "Ob du gerade mit einer **täglichen Gehroutine** beginnst oder ein neues **Schrittziel** erreichen willst: Der richtige Ansatz macht Gehen sicherer, angenehmer und wirksamer beim Kalorienverbrennen. Hier findest du die meistgesuchten Themen, die dir helfen, *Regelmäßigkeit, Ausdauer und Abnehmerfolge* zu verbessern.",
+    browseGuides: "Alle Ratgeber zum Gehen →",
+    guidesOutro:
+      "Gehen ist eines der zugänglichsten **gelenkschonenden Ausdauertrainings** – ideal für Einsteiger, Senioren und alle, die nach einer Verletzung wieder anfangen. Starte langsam, steigere dich schrittweise und verfolge deine *verbrannten Kalorien*, um motiviert zu bleiben.",
+    plannerHeading: "Plane deine Schrittziel-Steigerung",
+    plannerIntro:
+      "Gib deinen aktuellen Tagesdurchschnitt und ein Ziel ein und erhalte einen sicheren Wochenplan samt Kalorien pro Woche.",
+    byStepsHeading: "Kalorienverbrauch nach Schritten, Strecke & Tempo",
+    byStepsReference: (body, easy, jog) =>
+      `Unsere Referenzperson (${body}) verbrennt etwa **${easy} Kalorien pro 1.000 Schritte** im gemütlichen Tempo und **${jog} Kalorien** beim leichten Joggen. Der genaue Wert hängt von Körpergewicht, Gelände und Geschwindigkeit ab.`,
+    byStepsCalculator:
+      "Mit unserem kostenlosen **Kalorienrechner fürs Gehen** passt du die Werte an dein Gewicht und Tempo an. Je schneller du gehst oder je steiler es bergauf geht, desto mehr Kalorien verbrennst du pro Schritt. Sobald du dort ein Profil speicherst, wird diese Tabelle für dich neu berechnet.",
+    byStepsTerrain:
+      "Diese Schätzungen gelten für ebenes Gelände. Steigungen oder ein Rucksack können den Verbrauch um 10–20 % erhöhen.",
+    howManyHeading: "Wie viele Kalorien verbrennt Gehen?",
+    howMany: [
+      "Wie viele Kalorien du beim Gehen verbrennst, hängt von Körpergewicht, Tempo, Gelände, Strecke und Schrittzahl ab. Zügiges Gehen mit 5,6 km/h verbrennt bei 70 kg etwa **250–350 Kalorien pro Stunde**. Power-Walking oder leichtes Joggen kann das auf über 400 Kalorien pro Stunde steigern.",
+      "Unser Rechner verwendet standardisierte **MET-Werte** (metabolische Äquivalente) für verschiedene Tempi und berücksichtigt automatisch die Schrittlänge anhand von Körpergröße und Tempo. Dadurch sind Strecke und Kalorien genauer als Faustregeln wie „2.000 Schritte = 1 Meile“.",
+    ],
+    distanceHeading: "Schritte in Kilometer: Ratgeber zur Strecke",
+    distance: [
+      "Schritte in Strecke umzurechnen hilft dir, realistische Tagesziele zu setzen. Für die meisten Erwachsenen gilt **2.000 Schritte ≈ 1 Meile** (≈ 1,6 km), doch die Schrittlänge hängt von Größe und Gangart ab. Größere Menschen legen pro Schritt meist mehr Strecke zurück.",
+      "I Love Steps schätzt deine Schrittlänge automatisch aus Größe und Gehtempo (bei höherem Tempo werden die Schritte länger), damit die angezeigten Kilometer oder Meilen zu deinem echten Gehverhalten passen. Kennst du deine genaue Schrittlänge, kannst du sie auch selbst eingeben.",
+    ],
+    converterLinks: (miles, km, tenK) =>
+      `Für eine schnelle Antwort ohne Kalorien nutze den Umrechner [Schritte in Kilometer](${km}) oder [Schritte in Meilen](${miles}) – mit Tabellen nach Körpergröße für gängige Werte wie [10.000 Schritte](${tenK}).`,
+    weightLossHeading: "Gehen zum Abnehmen und für die Gesundheit",
+    weightLoss: [
+      "Regelmäßiges Gehen ist einer der einfachsten Wege, das Gewicht zu halten, Stress abzubauen und die Ausdauer zu verbessern – ohne Ausrüstung. Studien zeigen, dass **30 Minuten zügiges Gehen an den meisten Tagen** hilft, einen gesunden Body-Mass-Index (BMI) zu halten und zusammen mit ausgewogener Ernährung allmählich Fett abzubauen.",
+      "Ob dein Ziel **10.000 Schritte am Tag** sind oder einfach ein 15-minütiger Spaziergang nach dem Essen: Kleine Gewohnheiten summieren sich zu messbaren Gesundheitsgewinnen. Unser kostenloser Rechner zeigt dir genau, wie viele Kalorien jeder Spaziergang zu deinem Wochenziel beiträgt.",
+    ],
+    projectionHeading: "Berechne deinen Gewichtsverlust durch Gehen",
+    faqHeading: "Häufige Fragen",
+    disclaimer:
+      "**Hinweis:** I Love Steps bietet Informationsinhalte und allgemeine Wellness-Tools, mit denen du mehr über Gehen, Schrittzählen, Kalorienverbrauch und gesunde Bewegungsgewohnheiten erfährst. Alle Rechner verwenden anerkannte MET-Formeln und Schätzungen der Schrittlänge und dienen nur der Information. Die Ergebnisse sind nicht exakt; der Energieverbrauch variiert je nach Alter, Fitness, Biomechanik, Gelände, Schuhwerk und allgemeiner Gesundheit. Nichts auf dieser Website soll eine Diagnose stellen, behandeln oder ärztlichen bzw. trainingsfachlichen Rat ersetzen. Wenn du Vorerkrankungen hast, schwanger bist, dich von einer Verletzung erholst oder mit einem neuen Training beginnst, sprich bitte vorher mit qualifiziertem Gesundheits- oder Fitnessfachpersonal.",
+  },
+
+  /* ---------- Calories calculator ---------- */
+  calculator: {
+    title: "Kalorienrechner für Gehen & Joggen",
+    intro:
+      "Gib ein, was du weißt – Schritte, Strecke oder Zeit – sowie deine Körperdaten, um den Kalorienverbrauch zu schätzen.",
+    modes: { steps: "Schritte", distance: "Strecke", time: "Zeit" },
+    weight: (unit) => `Gewicht (${unit})`,
+    height: (unit) => `Größe (${unit}, für die Schrittlänge)`,
+    steps: "Schritte",
+    distance: (unit) => `Strecke (${unit})`,
+    time: "Zeit (Minuten)",
+    pace: "Tempo",
+    speed: (unit) => `Geschwindigkeit (${unit})`,
+    paceDecimal: (unit) => `Pace (${unit}, Dezimalminuten)`,
+    sex: "Geschlecht (für die Schrittlänge)",
+    customStride: "Eigene Schrittlänge verwenden",
+    strideLength: (unit) => `Schrittlänge (${unit})`,
+    autoStride: (stride) => `Automatische Schrittlänge ≈ ${stride}`,
+    useCalibrated: "Meine kalibrierte Schrittlänge verwenden",
+    calibratedStride: (stride) =>
+      `Gemessene Schrittlänge für dieses Tempo: ${stride}`,
+    calibrate: "Schrittlänge messen",
+    hills: "Steigung & Rucksack (optional)",
+    incline: (grade) => `Steigung: ${grade} %`,
+    inclineHint:
+      "Negative Werte bedeuten bergab. Eine steile Straße hat ~10 %.",
+    load: (unit) => `Zusatzgewicht (${unit})`,
+    remember: "Mein Profil auf diesem Gerät speichern",
+    rememberHint:
+      "Speichert Einheiten, Gewicht, Größe, Geschlecht, Schrittlänge und Tempo nur in diesem Browser. Es wird nichts an einen Server gesendet.",
+    linkKeepsProfile:
+      "Diese Seite zeigt die Werte eines geteilten Links, dein gespeichertes Profil bleibt deshalb unverändert. Setze das Häkchen, um stattdessen diese Werte zu speichern.",
+    clearProfile: "Gespeichertes Profil löschen",
+    reset: "Zurücksetzen",
+    copied: "Link kopiert!",
+    copyLink: "Link zum Teilen kopieren",
+    report: "Einseitiger Bericht für Kunden:",
+    reportPage: "Druckansicht",
+    results: "Ergebnis",
+    flatGround: "Ebenes Gelände (MET)",
+    withGradeLoad: "Mit Steigung & Last (Pandolf)",
+    vsFlat: (pct) => `${pct} % ggü. eben`,
+    resultSteps: "Schritte",
+    resultDistance: "Strecke",
+    resultDuration: "Dauer",
+    resultSpeed: "Geschwindigkeit",
+    resultMets: "Verwendete MET",
+    metsSource: (source) => `(Compendium of Physical Activities, ${source})`,
+    yourSpeed: "deine Geschwindigkeit",
+    preset: (pace) => `Voreinstellung „${pace}“`,
+    resultCadence: "Kadenz",
+    practiceCadence: "Diese Kadenz üben",
+    resultStride: "Verwendete Schrittlänge",
+    resultWeight: "Körpergewicht",
+    exportTitle: "Dieses Ergebnis exportieren",
+    exportHint:
+      "CSV für Tabellenkalkulationen (metrische Spalten); JSON stellt genau diese Eingaben später wieder her.",
+    noCalculatorData: "Diese Datei enthält keine Rechnerdaten.",
+    restored: "Rechner wiederhergestellt.",
+    quickReference: "Kurzübersicht",
+    quickMetric: "~1.250 Schritte ≈ 1 km",
+    quickImperial: "~2.000 Schritte ≈ 1 Meile",
+    quickBrisk: "Zügiges Gehen ≈ 100–120 Schritte/Min.",
+    quickConsistency: "Regelmäßigkeit schlägt Intensität",
+  },
+
+  /* ---------- Steps → calories table ---------- */
+  caloriesTable: {
+    steps: "Schritte",
+    distance: "Strecke",
+    rowsLabel: "Angezeigte Schrittzahlen",
+    rowsHint: "Mit Kommas oder Leerzeichen trennen, z. B. 3000, 6000, 12000.",
+    forProfile: (body) => `Für dein gespeichertes Profil: ${body}.`,
+    forReference: (body) =>
+      `Für die Referenzperson: ${body}. Speichere dein Profil im Rechner, um die Tabelle anzupassen.`,
+  },
+
+  /* ---------- Step-goal planner ---------- */
+  planner: {
+    title: "Schrittziel-Planer",
+    intro: (pct) =>
+      `Steigere dich schrittweise: Jede Woche kommt höchstens deine gewählte Steigerung hinzu und nie mehr als ${pct} % gegenüber der Vorwoche.`,
+    current: "Aktueller Durchschnitt (Schritte/Tag)",
+    target: "Ziel (Schritte/Tag)",
+    targetHint:
+      "7.000–9.000 Schritte/Tag bringen bereits die meisten Vorteile.",
+    maxIncrease: "Max. Steigerung pro Woche (Schritte/Tag)",
+    maxIncreaseHint: "Üblich sind 500–1.000.",
+    reached: (steps, week) =>
+      `${steps} Schritte/Tag in Woche ${week} erreicht.`,
+    notReached: (weeks, steps) =>
+      `Nach ${weeks} Wochen wärst du bei ${steps} Schritten/Tag. Wähle eine größere Steigerung oder ein näheres Ziel.`,
+    week: "Woche",
+    stepsPerDay: "Schritte / Tag",
+    change: "Änderung",
+    stepsPerWeek: "Schritte / Woche",
+    caloriesPerWeek: "Kalorien / Woche",
+  },
+
+  /* ---------- Weight-loss projection ---------- */
+  projection: {
+    title: "Prognose zum Gewichtsverlust",
+    startingWeight: (unit) => `Startgewicht (${unit})`,
+    stepsPerDay: "Schritte pro Gehtag",
+    pace: "Tempo",
+    yourSpeed: (speed) => `Deine Geschwindigkeit (${speed})`,
+    daysPerWeek: (days) => `Gehtage pro Woche: ${days}`,
+    deficit: "Kaloriendefizit durch Ernährung (Kalorien/Tag, optional)",
+    deficitHint:
+      "Ein moderates Defizit von 250–500 Kalorien/Tag ist für die meisten Erwachsenen gut durchzuhalten.",
+    length: (weeks) => `Prognosezeitraum: ${weeks} Wochen`,
+    summary: (weeks, weight, lost) =>
+      `Nach **${weeks} Wochen**: **${weight}** (${lost} weniger)`,
+    chartLabel: (from, to, weeks) =>
+      `Prognostiziertes Gewicht von ${from} auf ${to} in ${weeks} Wochen`,
+    weekTick: (week) => `Wo. ${week}`,
+    assumptions:
+      "Annahme: ~7.700 Kalorien pro kg (3.500 pro lb) abgebautem Fett. Die Kalorien fürs Gehen werden jede Woche mit dem niedrigeren Gewicht neu berechnet, daher flacht die Kurve ab. Echte Ergebnisse hängen von Appetit, Wassereinlagerung und Stoffwechselanpassung ab.",
+  },
+
+  /* ---------- Activity file import ---------- */
+  activityImport: {
+    reading: "Aktivität wird gelesen…",
+    prompt:
+      "GPX-, TCX- oder FIT-Datei von Uhr oder App hierher ziehen oder klicken, um eine auszuwählen",
+    readError: "Die Datei konnte nicht gelesen werden.",
+    errors: {
+      format: "Wähle eine .gpx-, .tcx- oder .fit-Datei.",
+      xml: "Die Datei ist kein gültiges XML.",
+      fit: "Die FIT-Datei ist beschädigt.",
+      empty: "In dieser Datei wurden keine Trackpunkte gefunden.",
+    },
+    imported: (name, distance, minutes, climb, descent, grade) =>
+      `„${name}“ importiert: ${distance} in ${minutes} Min. Bewegungszeit, +${climb} m / −${descent} m (${grade} % Anstieg)`,
+    cadence: (cadence) => `, Kadenz ${cadence} Schritte/Min.`,
+  },
+
+  /* ---------- Export / restore ---------- */
+  dataExport: {
+    csv: "CSV herunterladen",
+    json: "JSON herunterladen",
+    restore: "Aus JSON wiederherstellen",
+    restoreError: "Die Datei konnte nicht wiederhergestellt werden.",
+    errors: {
+      json: "Die Datei ist kein gültiges JSON.",
+      format: "Das ist kein Export von I Love Steps.",
+      version: "Dieser Export stammt aus einer neueren Version der Website.",
+      calculator: "Die Rechnerdaten fehlen.",
+      stepLog: "Das Schritt-Tagebuch fehlt.",
+      entryDate: (entry) =>
+        `Eintrag ${entry} im Tagebuch hat kein gültiges Datum.`,
+      entryRepeat: (entry, date) =>
+        `Eintrag ${entry} im Tagebuch wiederholt den ${date}.`,
+      entrySteps: (entry) =>
+        `Eintrag ${entry} im Tagebuch hat eine ungültige Schrittzahl.`,
+      entryNote: (entry) =>
+        `Eintrag ${entry} im Tagebuch hat eine ungültige Notiz.`,
+      entryUpdatedAt: (entry) =>
+        `Eintrag ${entry} im Tagebuch hat einen ungültigen Bearbeitungszeitpunkt.`,
+    },
+  },
+
+  /* ---------- Step log ---------- */
+  stepLog: {
+    title: "Schritt-Tagebuch & Serien-Tracker | I Love Steps",
+    description:
+      "Trage deine täglichen Schritte ein, verfolge deine aktuelle und längste Serie und sieh Wochen- und Monatssummen samt Kalorienverbrauch. Privat auf deinem Gerät gespeichert.",
+    crumb: "Schritt-Tagebuch",
+    heading: "Schritt-Tagebuch",
+    intro:
+      "Trage jeden Tag deine Schritte ein, halte deine Serie am Leben und sieh zu, wie die Wochensummen wachsen. Die Einträge bleiben auf diesem Gerät und funktionieren offline.",
+    unsupported:
+      "Dieser Browser unterstützt keinen Offline-Speicher (IndexedDB), daher ist das Schritt-Tagebuch nicht verfügbar.",
+    storageError:
+      "Der Speicher des Schritt-Tagebuchs konnte nicht geöffnet werden. Private Fenster blockieren ihn manchmal.",
+    saveError: (reason) =>
+      `Der Eintrag konnte auf diesem Gerät nicht gespeichert werden: ${reason}`,
+    deleteError: (reason) =>
+      `Der Eintrag konnte auf diesem Gerät nicht gelöscht werden: ${reason}`,
+    currentStreak: "Aktuelle Serie",
+    longestStreak: "Längste Serie",
+    days: (days) => (days === 1 ? "1 Tag" : `${days} Tage`),
+    thisWeek: "Diese Woche",
+    thisMonth: "Dieser Monat",
+    aboutCalories: (calories) => `≈ ${calories} Kalorien`,
+    addSteps: "Schritte eintragen",
+    editEntry: "Eintrag bearbeiten",
+    date: "Datum",
+    steps: "Schritte",
+    replaces: (steps) =>
+      `Ersetzt die ${steps} Schritte, die für diesen Tag schon eingetragen sind.`,
+    note: "Notiz (optional)",
+    logSteps: "Schritte eintragen",
+    saveChanges: "Änderungen speichern",
+    cancel: "Abbrechen",
+    profileCalories:
+      "Die Kalorien beruhen auf dem im Rechner gespeicherten Profil.",
+    referenceCalories: (href) =>
+      `Die Kalorien gelten für eine Person mit 70 kg und 170 cm bei zügigem Tempo. [Speichere dein Profil](${href}) für persönliche Werte.`,
+    history: "Verlauf",
+    noStepLog: "Diese Datei enthält kein Schritt-Tagebuch.",
+    restored: (days) =>
+      `${days} Tage wiederhergestellt. Die Sicherung hat das Tagebuch auf diesem Gerät ersetzt.`,
+    empty:
+      "Noch keine Einträge. Trage die heutigen Schritte ein, um eine Serie zu beginnen.",
+    calories: "Kalorien",
+    noteColumn: "Notiz",
+    edit: "Bearbeiten",
+    delete: "Löschen",
+    weeklyTotals: "Wochensummen",
+    weekOf: (date) => `Woche ab ${date}`,
+    monthlyTotals: "Monatssummen",
+    total: (steps, calories) => `${steps} Schritte • ${calories} kcal`,
+  },
+
+  /* ---------- Health export import ---------- */
+  healthImport: {
+    title: "Aus Apple Health oder Google Fit importieren",
+    help: "Apple Health: Profil → Alle Gesundheitsdaten exportieren, entpacken und `export.xml` wählen. Google Fit: Lade dein Takeout herunter und wähle `Daily activity metrics.csv` (oder die CSV-Dateien pro Tag). Die Datei wird auf diesem Gerät gelesen und nie hochgeladen.",
+    readError: "Der Export konnte nicht gelesen werden.",
+    errors: {
+      noFile: "Wähle eine Datei zum Importieren.",
+      format:
+        "Wähle die export.xml von Apple Health oder .csv-Dateien von Google Fit (entpacke den Export zuerst).",
+      mixed: "Importiere Dateien von Apple Health und Google Fit getrennt.",
+      stepColumn: (file) => `„${file}“ hat keine Spalte „Step count“.`,
+      dateColumn: (file) =>
+        `„${file}“ hat weder eine Datumsspalte noch ein Datum im Namen.`,
+      noSteps: "In diesem Export wurden keine Schrittzahlen gefunden.",
+    },
+    reading: (pct) => `Wird gelesen… ${pct} %`,
+    summary: (source, days, from, to, records, steps) =>
+      `${source}: ${days} Tage vom ${from} bis ${to} (${records} Datensätze), insgesamt ${steps} Schritte.`,
+    date: "Datum",
+    steps: "Schritte",
+    distance: "Strecke",
+    calories: "Kalorien",
+    alreadyLogged: "bereits eingetragen",
+    replace: "Bereits eingetragene Tage ersetzen",
+    add: (days) => `${days} Tage ins Schritt-Tagebuch übernehmen`,
+    saved: (days) => `${days} Tage gespeichert.`,
+    saveError: (reason) =>
+      `Die Tage konnten auf diesem Gerät nicht gespeichert werden: ${reason}`,
+    note: (source) => `Importiert aus ${source}`,
+  },
+
+  /* ---------- Walk timer ---------- */
+  walkTimer: {
+    title: "Geh-Timer: Intervall-, Dauer- und Steigerungsläufe | I Love Steps",
+    description:
+      "Ein kostenloser Intervall-Timer fürs Gehen mit Ton- und Vibrationssignalen bei jedem Tempowechsel, Live-Strecke, Schritten und Kalorien sowie einem privaten Verlauf deiner Runden.",
+    crumb: "Geh-Timer",
+    heading: "Geh-Timer",
+    intro:
+      "Wähle ein Programm und drücke auf Start. Ein steigender Ton sagt dir, wann du schneller wirst, ein fallender, wann du locker lässt – Strecke und Kalorien zählen unterwegs mit.",
+    programs: {
+      intervals: {
+        name: "Intervalle",
+        blurb:
+          "Schnelle und lockere Abschnitte im Wechsel, zwischen Aufwärmen und Auslaufen.",
+      },
+      steady: { name: "Gleichmäßig", blurb: "Ein Tempo für die ganze Runde." },
+      ramp: {
+        name: "Steigerung",
+        blurb:
+          "Locker beginnen und in gleich langen Blöcken durch die Tempi steigern.",
+      },
+    },
+    program: "Programm",
+    rounds: "Runden",
+    fastPace: "Schnelles Tempo",
+    fastSeconds: "Schnell (Sekunden)",
+    easyPace: "Lockeres Tempo",
+    easySeconds: "Locker (Sekunden)",
+    warmup: "Aufwärmen und Auslaufen (je Minuten)",
+    warmupHint: "Im lockeren Tempo gegangen.",
+    pace: "Tempo",
+    minutes: "Minuten",
+    topPace: "Höchstes Tempo",
+    sound: "Tonsignale",
+    vibrate: "Vibration (auf Handys, die das unterstützen)",
+    planned: (time, distance, steps, calories) =>
+      `${time} insgesamt • ≈ ${distance} • ${steps} Schritte • ${calories} Kalorien`,
+    finished: "Fertig",
+    ready: "Bereit",
+    next: (pace, time) => `Als Nächstes: ${pace} für ${time}`,
+    lastStretch: "Letzter Abschnitt",
+    elapsed: (time) => `${time} vergangen`,
+    left: (time) => `noch ${time}`,
+    distance: "Strecke",
+    steps: "Schritte",
+    calories: "Kalorien",
+    start: "Start",
+    resume: "Weiter",
+    pause: "Pause",
+    finishNow: "Jetzt beenden",
+    newWalk: "Neue Runde",
+    discard: "Verwerfen",
+    saved: "Gespeichert.",
+    addedToLog: (steps, href) =>
+      `${steps} Schritte wurden zum [heutigen Schritt-Tagebuch](${href}) hinzugefügt.`,
+    saveWalk: "Runde speichern",
+    addToLog: (steps) => `${steps} Schritte ins Schritt-Tagebuch übernehmen`,
+    noStorage:
+      "Dieser Browser kann keine Runden speichern (IndexedDB ist nicht verfügbar).",
+    saveError: (reason) =>
+      `Die Runde konnte auf diesem Gerät nicht gespeichert werden: ${reason}`,
+    deleteError: (reason) =>
+      `Die Runde konnte auf diesem Gerät nicht gelöscht werden: ${reason}`,
+    estimates: (body, saved) =>
+      `Die Schätzungen nutzen Geschwindigkeit und MET der Voreinstellung jedes Abschnitts für ${saved ? "dein gespeichertes Profil" : "die Referenzperson"} (${body}). Lass diese Seite geöffnet: Der Bildschirm bleibt an, solange der Timer läuft, und Signale können sich verspäten, wenn das Handy sperrt.`,
+    recent: "Letzte Runden",
+    started: "Gestartet",
+    time: "Zeit",
+    delete: "Löschen",
+  },
+
+  /* ---------- Cadence metronome ---------- */
+  metronome: {
+    title: "Kadenz-Metronom fürs Gehen (Schritte pro Minute) | I Love Steps",
+    description:
+      "Ein kostenloses Schritte-pro-Minute-Metronom für Gehende. Stelle den Takt über Tempo oder Geschwindigkeit und deine Schrittlänge ein, steigere ihn allmählich und sieh, welche Geschwindigkeit jede Kadenz ergibt.",
+    crumb: "Kadenz-Metronom",
+    heading: "Kadenz-Metronom",
+    intro:
+      "Setze bei jedem Klick einen Schritt. Stelle den Takt über Tempo oder Geschwindigkeit und deine Schrittlänge ein oder gib direkt eine Kadenz ein. Zügiges Gehen liegt für die meisten Erwachsenen bei etwa 100–120 Schritten pro Minute.",
+    tempo: "Takt",
+    sources: {
+      pace: "Tempo-Voreinstellung",
+      speed: "Geschwindigkeit",
+      cadence: "Kadenz",
+    },
+    pace: "Tempo",
+    speed: (unit) => `Geschwindigkeit (${unit})`,
+    cadence: "Kadenz (Schritte/Min.)",
+    withStride: (stride, bpm) =>
+      `Mit ${stride} Schrittlänge sind das **${bpm} Schritte/Min.**`,
+    ramp: "Takt steigern",
+    finishAt: "Ende bei (Schritte/Min.)",
+    over: "Über (Minuten)",
+    strideFrom: {
+      strides: "deinen gemessenen Schrittlängen",
+      link: "dem Rechner-Link",
+      profile: "deinem gespeicherten Profil",
+      reference: "der Referenzperson",
+    },
+    changeStride: (source, calculator, calibrate) =>
+      `Schrittlänge aus ${source}. Zum Ändern [im Rechner bearbeiten](${calculator}) oder [messen](${calibrate}).`,
+    rampLine: (from, to, minutes) => `${from} → ${to} über ${minutes} Min.`,
+    start: "Start",
+    stop: "Stopp",
+    unsupported: "Dieser Browser kann kein Web Audio abspielen.",
+    speedHeading: "Welche Geschwindigkeit ergibt diese Kadenz?",
+    speedLine: (bpm, stride, speed, pace, preset) =>
+      `${bpm} Schritte/Min. × ${stride} ≈ **${speed}** (${pace}), am nächsten an der Voreinstellung „${preset}“.`,
+    background:
+      "Die Klicks halten auch in einem Hintergrund-Tab den Takt. Änderungen während des Abspielens gelten ab dem nächsten Klick, und eine Steigerung beginnt von vorn.",
+  },
+
+  /* ---------- Stride calibration ---------- */
+  strideCalibration: {
+    title: "Schrittlänge messen: Kalibrierungs-Assistent | I Love Steps",
+    description:
+      "Finde deine echte Schrittlänge: Gehe eine Bahnrunde, einen 20-m-Flur oder eine aufgezeichnete GPX-Strecke und zähle deine Schritte. Speichere eine Schrittlänge pro Tempo, und der Rechner verwendet sie.",
+    crumb: "Schrittlänge kalibrieren",
+    heading: "Miss deine Schrittlänge",
+    intro: (stride, pace) =>
+      `Der Rechner schätzt deine Schrittlänge aus Körpergröße und Gehgeschwindigkeit (${stride} bei Tempo „${pace}“ für dich). Eine bekannte Strecke zu gehen und die Schritte zu zählen ist weit genauer. Die Schrittlänge wächst mit dem Tempo, also miss jedes Tempo, in dem du gehst.`,
+    methods: {
+      track: {
+        name: "Bahnrunde",
+        blurb: "Eine normale 400-m-Laufbahn.",
+        steps: [
+          "Geh auf der Innenbahn (Bahn 1), die 400 m lang ist.",
+          "Starte ein paar Schritte vor der Linie, damit du beim Überqueren schon dein Tempo hast.",
+          "Zähle jeden Schritt, bis du die Linie wieder überquerst. Zwei Runden halbieren den Zählfehler.",
+        ],
+      },
+      hallway: {
+        name: "Flur",
+        blurb: "Jede gerade Strecke, die du messen kannst, ab 20 m.",
+        steps: [
+          "Miss eine gerade Strecke mit einem Maßband aus und markiere beide Enden.",
+          "Starte ein paar Schritte vor der ersten Markierung und geh über die zweite hinaus, damit du dazwischen weder beschleunigst noch bremst.",
+          "Zähle deine Schritte zwischen den Markierungen. Geh die Strecke mehrmals und addiere die Zahlen.",
+        ],
+      },
+      route: {
+        name: "GPX-Strecke",
+        blurb: "Eine mit Handy oder Uhr aufgezeichnete Runde.",
+        steps: [
+          "Zeichne mindestens 1 km in einem gleichmäßigen Tempo auf, auf offenem Gelände mit gutem GPS-Empfang.",
+          "Notiere den Schrittzähler von Pedometer oder Handy am Anfang und am Ende.",
+          "Lade die GPX-Datei hoch (TCX und FIT gehen auch) und gib die Schritte ein.",
+        ],
+      },
+    },
+    pickDistance: "1. Strecke wählen",
+    walkAndCount: "2. Gehen und zählen",
+    paceWalked: "Gegangenes Tempo",
+    laps: "Runden",
+    inTotal: (distance) => `${distance} insgesamt.`,
+    hallLength: (unit) => `Länge zwischen den Markierungen (${unit})`,
+    timesWalked: "Anzahl Durchgänge",
+    routeFile: "Streckendatei",
+    chooseFile: "GPX-Datei wählen",
+    readError: "Die Datei konnte nicht gelesen werden.",
+    stepsCounted: "Gezählte Schritte",
+    calculate: "Schrittlänge berechnen",
+    errors: {
+      distance: "Gib die gegangene Strecke ein.",
+      steps: "Gib die Zahl der gezählten Schritte ein.",
+      range: (stride, min, max) =>
+        `Das ergibt eine Schrittlänge von ${stride} cm, also außerhalb von ${min}–${max} cm. Prüfe Strecke und Schrittzahl.`,
+    },
+    saveIt: "3. Speichern",
+    result: (distance, steps, stride, pace) =>
+      `${distance} m ÷ ${steps} Schritte = **${stride}** bei Tempo „${pace}“.`,
+    longer: (diff) =>
+      `Das sind ${diff} mehr als die Schätzung für deine Körpergröße.`,
+    shorter: (diff) =>
+      `Das sind ${diff} weniger als die Schätzung für deine Körpergröße.`,
+    saved: (href) =>
+      `Auf diesem Gerät gespeichert. Der [Rechner](${href}) verwendet sie jetzt, wenn dieses Tempo gewählt ist.`,
+    save: "Für dieses Tempo speichern",
+    yours: "Deine kalibrierten Schrittlängen",
+    pace: "Tempo",
+    stride: "Schrittlänge",
+    measured: "Gemessen",
+    measuredWith: (method, steps, date) =>
+      `${method}, ${steps} Schritte, ${date}`,
+    delete: "Löschen",
+    between:
+      "Für ein nicht gemessenes Tempo nimmt der Rechner einen Wert zwischen den benachbarten Tempi oder das nächstgelegene gemessene.",
+    none: "Noch keine. Bis du eine speicherst, schätzt der Rechner deine Schrittlänge aus Größe und Geschwindigkeit.",
+  },
+
+  /* ---------- Printable / PDF report ---------- */
+  report: {
+    title: "Geh-Bericht",
+    documentTitle: (client) =>
+      client
+        ? `Geh-Bericht für ${client} | I Love Steps`
+        : "Geh-Bericht | I Love Steps",
+    preparedFor: (client) => `Erstellt für ${client}`,
+    print: "Drucken",
+    pdf: "PDF herunterladen",
+    edit: "Im Rechner bearbeiten",
+    profile: "Profil & Tempo",
+    weight: "Gewicht",
+    height: "Größe",
+    sex: "Geschlecht",
+    stride: "Schrittlänge",
+    measured: "gemessen",
+    estimated: "aus Größe und Geschwindigkeit geschätzt",
+    pace: "Tempo",
+    customSpeed: "Eigene Geschwindigkeit",
+    paceValue: (name, speed, pace) => `${name}: ${speed} (${pace})`,
+    cadence: "Kadenz",
+    grade: "Steigung",
+    load: "Zusatzgewicht",
+    walk: (steps, distance, minutes, calories) =>
+      `${steps} Schritte ≈ ${distance} in ${minutes} Min. verbrauchen etwa ${calories} kcal`,
+    withHills: (calories) =>
+      ` auf ebenem Gelände, ${calories} kcal mit Steigung und Last.`,
+    table: "Schritte → Kalorien",
+    tableUnits: "(kcal · Minuten)",
+    steps: "Schritte",
+    distance: "Strecke",
+    cell: (calories, minutes) => `${calories} · ${minutes} Min.`,
+    ramp: (from, to) => `Steigerungsplan: ${from} → ${to} Schritte/Tag`,
+    week: "Woche",
+    dailySteps: "Schritte/Tag",
+    increase: "Steigerung",
+    weeklySteps: "Schritte/Woche",
+    weeklyKcal: "kcal/Woche",
+    notReached: (weeks) =>
+      `Das Ziel wird mit dieser Steigerung in ${weeks} Wochen nicht erreicht.`,
+    method:
+      "Die Schätzungen nutzen MET-Werte aus dem Compendium of Physical Activities (kcal = MET × 3,5 × kg × Min. / 200), eine aus Größe und Gehgeschwindigkeit geschätzte (oder deine gemessene) Schrittlänge und die Pandolf-Gleichung für Steigung und Last. Wöchentliche Steigerungen sind auf 10 % begrenzt. Zur Planung, keine medizinische Beratung. ilovesteps.com",
+  },
+
+  /* ---------- Steps ⇄ distance converters ---------- */
+  converter: {
+    units: {
+      mi: {
+        singular: "Meile",
+        plural: "Meilen",
+        Singular: "Meile",
+        Plural: "Meilen",
+      },
+      km: {
+        singular: "Kilometer",
+        plural: "Kilometer",
+        Singular: "Kilometer",
+        Plural: "Kilometer",
+      },
+    } satisfies Record<"mi" | "km", UnitWords>,
+    inches: "Zoll",
+    toolName: (w) => `Schritte-in-${w.Plural}-Umrechner`,
+    landingTitle: (w, steps) => `Wie viele ${w.Plural} sind ${steps} Schritte?`,
+    indexTitle: (tool, w) =>
+      `${tool}: Wie viele Schritte hat ${w.singular === "Meile" ? "eine" : "ein"} ${w.Singular}?`,
+    landingDescription: (w, steps, distance) =>
+      `${steps} Schritte sind für Erwachsene im Schnitt etwa ${distance} ${w.plural}. Sieh dir die Strecke für deine Größe an, dazu eine Umrechnungstabelle Schritte in ${w.plural}.`,
+    indexDescription: (w, perUnit) =>
+      `Rechne Schritte in ${w.plural} und ${w.plural} in Schritte um – mit einer aus deiner Größe geschätzten Schrittlänge bei zügigem Gehen. Ein durchschnittlicher Erwachsener braucht etwa ${perUnit} Schritte pro ${w.singular}. Kostenlose Umrechnungstabelle.`,
+    landingH1: (w, steps) => `Wie viele ${w.plural} sind ${steps} Schritte?`,
+    stepsCrumb: (steps) => `${steps} Schritte`,
+    reference: (height, stride) =>
+      `einen ${height} großen Erwachsenen mit ${stride} Schrittlänge`,
+    faqDistanceAnswer: (w, steps, distance, reference) =>
+      `${steps} Schritte sind etwa ${distance} ${w.plural} für ${reference}. Größere Menschen legen pro Schritt mehr Strecke zurück.`,
+    faqPerUnitQuestion: (w) =>
+      `Wie viele Schritte hat ${w.singular === "Meile" ? "eine" : "ein"} ${w.singular}?`,
+    faqPerUnitAnswer: (perUnit, reference, unitLength) =>
+      `Etwa ${perUnit} Schritte für ${reference}. Teile ${unitLength} durch deine Schrittlänge, um deinen eigenen Wert zu erhalten.`,
+    landingLead: (w, steps, distance, height, sex, stride) =>
+      `**${steps} Schritte ≈ ${distance} ${w.plural}** für ${person(sex)} mit ${height} Körpergröße und ${stride} Schrittlänge. Passe die Größe unten an, um deinen eigenen Wert zu sehen.`,
+    indexLead: (w, perUnit) =>
+      `Bei deiner Größe ergeben etwa **${perUnit} Schritte ${w.singular === "Meile" ? "eine" : "einen"} ${w.singular}**. Gib Schritte oder eine Strecke ein; die andere Seite wird mit deiner Schrittlänge bei zügigem Gehen berechnet.`,
+    convert: "Umrechnen",
+    steps: "Schritte",
+    distance: (w) => `Strecke (${w.plural})`,
+    height: (unit) => `Größe (${unit})`,
+    sex: "Geschlecht (für die Schrittlänge)",
+    stride: "Schrittlänge",
+    stepsPer: (w, perUnit, other, perOther) =>
+      `Schritte pro ${w.singular}: ${perUnit} · pro ${other.singular}: ${perOther}`,
+    stepsEqual: (steps, distance, w) =>
+      `${steps} Schritte = ${distance} ${w.plural}`,
+    seeCalories: (steps) => `Kalorienverbrauch für ${steps} Schritte ansehen →`,
+    howItWorks: "So funktioniert’s",
+    howItWorksText:
+      "Die Schrittlänge wird aus deiner Größe bei zügigem Gehen (5,6 km/h / 3,5 mph) geschätzt, mit demselben Modell wie im Rechner: etwa 45–48 % der Körpergröße, bei Männern etwas mehr. Strecke = Schritte × Schrittlänge. Je schneller du gehst, desto länger wird der Schritt; für ein anderes Tempo oder eine gemessene Schrittlänge nutze den vollständigen Rechner.",
+    prefer: (w) => `Lieber ${w.plural}?`,
+    stepsTo: (w) => `Schritte in ${w.plural}`,
+    byHeight: (steps, w) => `${steps} Schritte in ${w.plural} nach Körpergröße`,
+    heightColumn: "Größe",
+    women: "Frauen",
+    men: "Männer",
+    tableHeading: (w) => `Umrechnungstabelle Schritte in ${w.plural}`,
+    tableFor: (height, sex, stride) =>
+      `Für ${person(sex)} mit ${height} Körpergröße (${stride} Schrittlänge).`,
+    questions: "Fragen",
+    popular: "Beliebte Umrechnungen",
+    popularLink: (steps, w) => `${steps} Schritte in ${w.plural}`,
+  },
+
+  /* ---------- Guides ---------- */
+  guides: {
+    indexTitle: "Ratgeber zum Gehen",
+    indexDescription:
+      "Praktische Ratgeber zum Gehen: tägliche Gewohnheit aufbauen, Schrittziele, Schuhe, Wetter, Sicherheit, Indoor-Training sowie Gehen vs. Joggen.",
+    updated: "Aktualisiert",
+    notFound: "Ratgeber nicht gefunden",
+    more: "Weitere Ratgeber zum Gehen",
+    all: "Alle Ratgeber →",
+  },
+
+  /* ---------- App updates & offline ---------- */
+  app: {
+    updateReady: "Eine neue Version von I Love Steps ist bereit.",
+    reload: "Neu laden",
+    later: "Später",
+    offline:
+      "Du bist offline. Rechner und Schritt-Tagebuch funktionieren weiter; andere Seiten öffnen sich, sobald du wieder online bist.",
+  },
+};
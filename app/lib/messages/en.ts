@@ -0,0 +1,755 @@
+/* =========================================================
+   ENGLISH MESSAGES
+   The source catalog: its shape is the `Messages` type every
+   other locale must match. Numbers arrive pre-formatted for the
+   locale. Strings rendered with <Rich> may use **bold**,
+   *emphasis*, `code` and [links](/path).
+========================================================= */
+import type { SexKey } from "../walking";
+
+/** "male walker", or just "walker" when sex isn't given. */
+const walker = (sex: SexKey) =>
+  sex === "unspecified" ? "walker" : `${sex} walker`;
+
+/** Unit words used inside converter sentences. */
+export type UnitWords = {
+  singular: string;
+  plural: string;
+  Singular: string; // title case, for headings
+  Plural: string;
+};
+
+export const en = {
+  common: {
+    calories: "calories",
+    cal: "cal",
+    min: "min",
+    stepsPerMin: "steps/min",
+    sex: { male: "male", female: "female", unspecified: "adult" },
+    sexButton: { male: "Male", female: "Female", unspecified: "Not specified" },
+    unitSystems: { metric: "metric", imperial: "imperial" },
+    body: (weight: string, height: string, sex: string) =>
+      `${weight}, ${height} ${sex}`,
+    language: "Language",
+    footer: "Free walking & jogging tools",
+  },
+
+  paces: {
+    easy: "Easy Walk (~2.5 mph / 4 kph)",
+    brisk: "Brisk Walk (~3.5 mph / 5.6 kph)",
+    power: "Power Walk (~4.3 mph / 6.9 kph)",
+    jog: "Light Jog (~5 mph / 8 kph)",
+  },
+  paceShort: { easy: "easy", brisk: "brisk", power: "power", jog: "jog" },
+
+  /* ---------- Home page ---------- */
+  home: {
+    title:
+      "I Love Steps | Walking Calories Burned Calculator, Step-to-Mile Converter, and Walking Tips",
+    description:
+      "Track walking calories burned by steps, pace, weight, and height. Convert steps to miles and kilometers. Learn how many calories walking burns, how to set step goals, and build a daily walking habit. Free, mobile-friendly, no sign-up.",
+    siteDescription:
+      "Walking tools: calories-burned calculator, step-to-mile converter, and guides for building a healthy walking habit.",
+    topBar: (date: string) => `Free walking tools • Last updated ${date}`,
+    heroTitle: "Track Your Steps. Burn Calories. Feel Better.",
+    heroIntro:
+      "Use the free calculator to estimate **calories burned** from your steps, pace, and weight. Convert **steps to miles** automatically. Explore practical walking tips to build a habit you’ll keep.",
+    ctaCalculate: "Calculate Calories Burned",
+    ctaBenefits: "See Walking Benefits",
+    ctaLog: "Log Your Daily Steps",
+    glanceTitle: "At a Glance",
+    glance: [
+      "Calories burned by steps & pace",
+      "Steps ⇆ miles ⇆ kilometers",
+      "Auto stride from height & pace",
+      "Brisk vs. easy walk comparisons",
+    ],
+    calculatorHeading: "Walking / Jogging Calories Burned",
+    relatedHeading: "More Free Health, Walking & Wellness Tools",
+    related: {
+      weightLoss:
+        "Weight-loss tips and calculators to help you burn calories by walking, track progress, and stay motivated daily.",
+      fitness:
+        "From calories burned to TDEE and BMI tools, plan smarter goals along your walking journey.",
+      habits:
+        "Build a consistent step-count routine and track streaks that lead to real results.",
+      timers:
+        "Interval and workout timers perfect for walking sessions or home cardio breaks.",
+      typing:
+        "Sharpen your mind on break days, typing lessons with posture-friendly technique to avoid wrist fatigue.",
+      wordGames:
+        "Keep your brain active: word puzzles pair well with a healthy step routine.",
+      morse: "Convert text to Morse code, try a fun puzzle on your walk break.",
+      textConverters:
+        "Handy everyday tools for text formatting and quick conversions.",
+    },
+    benefitsHeading: "Benefits of Walking",
+    benefits: [
+      "Walking is simple yet powerful: supports heart health, improves blood sugar, strengthens joints and muscles, boosts mood and sleep, and helps with weight control-no equipment needed.",
+      "Consistency beats intensity: a 20–30 min walk most days can burn thousands of calories over a year with minimal injury risk.",
+    ],
+    benefitsList: [
+      "Supports heart & lung function",
+      "Improves insulin sensitivity",
+      "Enhances balance & flexibility",
+      "Reduces stress and anxiety",
+    ],
+    guidesHeading: "Walking Guides, Tips & Step-Goal Strategies",
+    guidesIntro:
+      "Whether you are just starting a **daily walking routine** or trying to hit a new **step-count milestone**, the right approach makes walking safer, more enjoyable, and more effective for burning calories. Below are some of the most-searched walking topics designed to help you improve *consistency, endurance, and weight-loss outcomes*.",
+    browseGuides: "Browse all walking guides →",
+    guidesOutro:
+      "Walking is one of the most accessible **low-impact cardio exercises**, ideal for beginners, seniors, and anyone returning after injury. Start slow, aim for gradual increases, and track your *calories burned* to stay encouraged on your fitness journey.",
+    plannerHeading: "Plan Your Step-Goal Ramp",
+    plannerIntro:
+      "Enter your current daily average and a target to get a safe, week-by-week schedule with the calories each week adds up to.",
+    byStepsHeading: "Calories Burned by Steps, Distance & Pace",
+    byStepsReference: (body: string, easy: string, jog: string) =>
+      `Our reference walker (${body}) burns about **${easy} calories per 1,000 steps** at an easy pace and **${jog} calories** at a light jog. The exact number varies by body weight, terrain, and speed.`,
+    byStepsCalculator:
+      "Use our free **walking calories calculator** to adjust for your weight and pace. The faster you walk or the steeper the hill, the higher the calorie burn per step. Once you save a profile there, this table is recalculated for you.",
+    byStepsTerrain:
+      "These estimates assume level ground. Adding hills or carrying a backpack can raise calorie expenditure by 10–20%.",
+    howManyHeading: "How Many Calories Does Walking Burn?",
+    howMany: [
+      "The calories you burn while walking depend on your body weight, walking pace, terrain, distance, and total steps. In general, a brisk 3.5 mph (5.6 kph) walk burns about **250–350 calories per hour** for someone weighing 70 kg. A faster power-walk or light jog can raise that to 400 + calories per hour.",
+      "Our calculator above uses standard **METS** (metabolic equivalents) to estimate calories for different paces and automatically adjusts stride length for your height and speed. This means the distance and calories shown will be more accurate than simple “2 000 steps = 1 mile” rules of thumb.",
+    ],
+    distanceHeading: "Steps-to-Miles & Distance Guide",
+    distance: [
+      "Converting steps to distance helps you set practical daily goals. For most adults, **2 000 steps ≈ 1 mile** (≈ 1.6 km), but stride length varies with height and walking style. Taller walkers usually cover more ground per step.",
+      "I Love Steps estimates your stride automatically from your height and walking speed (stride lengthens as you speed up) so the miles or kilometers shown match your real-world walking pattern. You can also enable a custom stride length for extra precision if you know your exact gait.",
+    ],
+    converterLinks: (miles: string, km: string, tenK: string) =>
+      `For a quick answer without the calories, use the [steps to miles](${miles}) or [steps to kilometers](${km}) converter, with tables by height for common counts like [10,000 steps](${tenK}).`,
+    weightLossHeading: "Walking for Weight-Loss & Health",
+    weightLoss: [
+      "Consistent walking is one of the easiest ways to manage weight, lower stress, and improve cardiovascular fitness without equipment. Studies show that adding **30 minutes of brisk walking most days** can help maintain a healthy body-mass index (BMI) and support gradual fat loss when paired with balanced nutrition.",
+      "Whether your goal is **10 000 steps per day** or simply adding a 15-minute stroll after meals, small habits compound into measurable health gains. Our free calculator lets you see exactly how many calories each walk contributes toward your weekly activity target.",
+    ],
+    projectionHeading: "Project Your Weight Loss from Walking",
+    faqHeading: "Frequently Asked Questions",
+    disclaimer:
+      "**Disclaimer:** I Love Steps provides educational content and general wellness tools designed to help users learn about walking, step-tracking, calories burned, and healthy movement habits. All calculators use widely accepted MET formulas and stride-length estimates, which are intended for informational purposes only. Results are not exact, and energy expenditure can differ by age, fitness level, biomechanics, terrain, footwear, and overall health. Nothing on this site is intended to diagnose, treat, or replace professional medical advice or physical training guidance. If you have underlying health conditions, are pregnant, recovering from injury, or starting a new exercise routine, please consult a qualified healthcare or fitness professional before making lifestyle changes.",
+  },
+
+  /* ---------- Calories calculator ---------- */
+  calculator: {
+    title: "Walking & Jogging Calories-Burned Calculator",
+    intro:
+      "Enter what you know - steps, distance, or time - plus your body metrics to estimate calories burned.",
+    modes: { steps: "steps", distance: "distance", time: "time" },
+    weight: (unit: string) => `Weight (${unit})`,
+    height: (unit: string) => `Height (${unit}, for stride)`,
+    steps: "Steps",
+    distance: (unit: string) => `Distance (${unit})`,
+    time: "Time (minutes)",
+    pace: "Pace",
+    speed: (unit: string) => `Speed (${unit})`,
+    paceDecimal: (unit: string) => `Pace (${unit}, decimal minutes)`,
+    sex: "Sex (for stride)",
+    customStride: "Use custom stride",
+    strideLength: (unit: string) => `Stride length (${unit})`,
+    autoStride: (stride: string) => `Default auto-stride ≈ ${stride}`,
+    useCalibrated: "Use my calibrated stride",
+    calibratedStride: (stride: string) =>
+      `Measured stride for this pace: ${stride}`,
+    calibrate: "Measure your stride",
+    hills: "Hills & backpack (optional)",
+    incline: (grade: string) => `Incline: ${grade}% grade`,
+    inclineHint: "Negative values are downhill. A steep street is ~10%.",
+    load: (unit: string) => `Carried load (${unit})`,
+    remember: "Remember my profile on this device",
+    rememberHint:
+      "Saves units, weight, height, sex, stride and pace in this browser only. Nothing is sent to a server.",
+    linkKeepsProfile:
+      "This page shows a shared link’s values, so your saved profile is left as it is. Tick the box to save these values instead.",
+    clearProfile: "Clear saved profile",
+    reset: "Reset to defaults",
+    copied: "Link copied!",
+    copyLink: "Copy share link",
+    report: "One-page report for clients:",
+    reportPage: "printable page",
+    results: "Results",
+    flatGround: "Flat ground (METs)",
+    withGradeLoad: "With grade & load (Pandolf)",
+    vsFlat: (pct: string) => `${pct}% vs. flat`,
+    resultSteps: "Steps",
+    resultDistance: "Distance",
+    resultDuration: "Duration",
+    resultSpeed: "Speed",
+    resultMets: "METs used",
+    metsSource: (source: string) =>
+      `(Compendium of Physical Activities, ${source})`,
+    yourSpeed: "your speed",
+    preset: (pace: string) => `${pace} preset`,
+    resultCadence: "Cadence",
+    practiceCadence: "Practice this cadence",
+    resultStride: "Stride used",
+    resultWeight: "Body weight",
+    exportTitle: "Export this result",
+    exportHint:
+      "CSV for spreadsheets (metric columns); JSON restores these exact inputs later.",
+    noCalculatorData: "That file has no calculator data.",
+    restored: "Calculator restored.",
+    quickReference: "Quick Reference",
+    quickMetric: "~1 250 steps ≈ 1 km",
+    quickImperial: "~2 000 steps ≈ 1 mile",
+    quickBrisk: "Brisk walk ≈ 100 – 120 steps / min",
+    quickConsistency: "Consistency beats intensity",
+  },
+
+  /* ---------- Steps → calories table ---------- */
+  caloriesTable: {
+    steps: "Steps",
+    distance: "Distance",
+    rowsLabel: "Step counts to show",
+    rowsHint: "Separate with commas or spaces, e.g. 3000, 6000, 12000.",
+    forProfile: (body: string) => `For your saved profile: ${body}.`,
+    forReference: (body: string) =>
+      `For the reference walker: ${body}. Save your profile in the calculator to personalize.`,
+  },
+
+  /* ---------- Step-goal planner ---------- */
+  planner: {
+    title: "Step-Goal Planner",
+    intro: (pct: string) =>
+      `Build up gradually: each week adds at most your chosen increase and never more than ${pct}% over the week before.`,
+    current: "Current average (steps/day)",
+    target: "Target (steps/day)",
+    targetHint: "7,000–9,000 steps/day already delivers most benefits.",
+    maxIncrease: "Max increase per week (steps/day)",
+    maxIncreaseHint: "500–1,000 is typical.",
+    reached: (steps: string, week: number) =>
+      `Reach ${steps} steps/day in week ${week}.`,
+    notReached: (weeks: number, steps: string) =>
+      `After ${weeks} weeks you'd be at ${steps} steps/day. Try a larger weekly increase or a nearer target.`,
+    week: "Week",
+    stepsPerDay: "Steps / day",
+    change: "Change",
+    stepsPerWeek: "Steps / week",
+    caloriesPerWeek: "Calories / week",
+  },
+
+  /* ---------- Weight-loss projection ---------- */
+  projection: {
+    title: "Weight-Loss Projection",
+    startingWeight: (unit: string) => `Starting weight (${unit})`,
+    stepsPerDay: "Steps per walking day",
+    pace: "Pace",
+    yourSpeed: (speed: string) => `Your speed (${speed})`,
+    daysPerWeek: (days: number) => `Walking days per week: ${days}`,
+    deficit: "Dietary deficit (calories/day, optional)",
+    deficitHint:
+      "A modest 250–500 calories/day is sustainable for most adults.",
+    length: (weeks: number) => `Projection length: ${weeks} weeks`,
+    summary: (weeks: number, weight: string, lost: string) =>
+      `After **${weeks} weeks**: **${weight}** (${lost} lost)`,
+    chartLabel: (from: string, to: string, weeks: number) =>
+      `Projected weight from ${from} to ${to} over ${weeks} weeks`,
+    weekTick: (week: number) => `wk ${week}`,
+    assumptions:
+      "Assumes ~7,700 calories per kg (3,500 per lb) of fat lost. Walking calories are recalculated each week at the lower body weight, so the curve flattens over time. Real results vary with appetite, water weight and metabolic adaptation.",
+  },
+
+  /* ---------- Activity file import ---------- */
+  activityImport: {
+    reading: "Reading activity…",
+    prompt:
+      "Drop a GPX, TCX or FIT file from your watch or app, or click to choose one",
+    readError: "Couldn’t read that file.",
+    errors: {
+      format: "Choose a .gpx, .tcx or .fit file.",
+      xml: "The file isn’t valid XML.",
+      fit: "The FIT file is corrupt.",
+      empty: "No track points were found in this file.",
+    },
+    imported: (
+      name: string,
+      distance: string,
+      minutes: string,
+      climb: string,
+      descent: string,
+      grade: string
+    ) =>
+      `Imported “${name}”: ${distance} in ${minutes} min moving, +${climb} m / −${descent} m (${grade}% climbing grade)`,
+    cadence: (cadence: string) => `, ${cadence} steps/min cadence`,
+  },
+
+  /* ---------- Export / restore ---------- */
+  dataExport: {
+    csv: "Download CSV",
+    json: "Download JSON",
+    restore: "Restore from JSON",
+    restoreError: "Couldn’t restore that file.",
+    errors: {
+      json: "The file isn’t valid JSON.",
+      format: "This isn’t an I Love Steps export.",
+      version: "This export was made by a newer version of the site.",
+      calculator: "Calculator data is missing.",
+      stepLog: "Step log is missing.",
+      entryDate: (entry: string) =>
+        `Step log entry ${entry} has no valid date.`,
+      entryRepeat: (entry: string, date: string) =>
+        `Step log entry ${entry} repeats ${date}.`,
+      entrySteps: (entry: string) =>
+        `Step log entry ${entry} has an invalid step count.`,
+      entryNote: (entry: string) =>
+        `Step log entry ${entry} has an invalid note.`,
+      entryUpdatedAt: (entry: string) =>
+        `Step log entry ${entry} has an invalid edit time.`,
+    },
+  },
+
+  /* ---------- Step log ---------- */
+  stepLog: {
+    title: "Daily Step Log & Streak Tracker | I Love Steps",
+    description:
+      "Log your daily steps, track current and longest walking streaks, and see weekly and monthly step totals with calories burned. Stored privately on your device.",
+    crumb: "Step Log",
+    heading: "Daily Step Log",
+    intro:
+      "Record your steps each day, keep your streak alive, and watch weekly totals climb. Entries are stored on this device and work offline.",
+    unsupported:
+      "This browser doesn’t support offline storage (IndexedDB), so the step log is unavailable.",
+    storageError:
+      "Couldn’t open the step log storage. Private browsing modes sometimes block it.",
+    saveError: (reason: string) =>
+      `Couldn’t save the entry on this device: ${reason}`,
+    deleteError: (reason: string) =>
+      `Couldn’t delete the entry on this device: ${reason}`,
+    currentStreak: "Current streak",
+    longestStreak: "Longest streak",
+    days: (days: number) => (days === 1 ? "1 day" : `${days} days`),
+    thisWeek: "This week",
+    thisMonth: "This month",
+    aboutCalories: (calories: string) => `≈ ${calories} calories`,
+    addSteps: "Add steps",
+    editEntry: "Edit entry",
+    date: "Date",
+    steps: "Steps",
+    replaces: (steps: string) =>
+      `Replaces the ${steps} steps already logged for this day.`,
+    note: "Note (optional)",
+    logSteps: "Log steps",
+    saveChanges: "Save changes",
+    cancel: "Cancel",
+    profileCalories: "Calories use the profile saved in the calculator.",
+    referenceCalories: (href: string) =>
+      `Calories assume a 70 kg / 170 cm walker at a brisk pace. [Save your profile](${href}) for personal numbers.`,
+    history: "History",
+    noStepLog: "That file has no step log.",
+    restored: (days: string) =>
+      `Restored ${days} days. The backup replaced the log on this device.`,
+    empty: "No entries yet. Log today’s steps to start a streak.",
+    calories: "Calories",
+    noteColumn: "Note",
+    edit: "Edit",
+    delete: "Delete",
+    weeklyTotals: "Weekly totals",
+    weekOf: (date: string) => `Week of ${date}`,
+    monthlyTotals: "Monthly totals",
+    total: (steps: string, calories: string) =>
+      `${steps} steps • ${calories} cal`,
+  },
+
+  /* ---------- Health export import ---------- */
+  healthImport: {
+    title: "Import from Apple Health or Google Fit",
+    help: "Apple Health: Profile → Export All Health Data, unzip, and choose `export.xml`. Google Fit: download your Takeout, and choose `Daily activity metrics.csv` (or the per-day CSVs). The file is read on this device and never uploaded.",
+    readError: "Couldn’t read that export.",
+    errors: {
+      noFile: "Choose a file to import.",
+      format:
+        "Choose Apple Health’s export.xml or Google Fit .csv files (unzip the export first).",
+      mixed: "Import Apple Health and Google Fit files separately.",
+      stepColumn: (file: string) => `“${file}” has no “Step count” column.`,
+      dateColumn: (file: string) =>
+        `“${file}” has no Date column or date in its name.`,
+      noSteps: "No step counts were found in this export.",
+    },
+    reading: (pct: string) => `Reading… ${pct}%`,
+    summary: (
+      source: string,
+      days: string,
+      from: string,
+      to: string,
+      records: string,
+      steps: string
+    ) =>
+      `${source}: ${days} days from ${from} to ${to} (${records} records), ${steps} steps in all.`,
+    date: "Date",
+    steps: "Steps",
+    distance: "Distance",
+    calories: "Calories",
+    alreadyLogged: "already logged",
+    replace: "Replace days I’ve already logged",
+    add: (days: string) => `Add ${days} days to my step log`,
+    saved: (days: string) => `Saved ${days} days.`,
+    saveError: (reason: string) =>
+      `Couldn’t save the days on this device: ${reason}`,
+    note: (source: string) => `Imported from ${source}`,
+  },
+
+  /* ---------- Walk timer ---------- */
+  walkTimer: {
+    title: "Walk Timer: Interval, Steady & Ramp Walks | I Love Steps",
+    description:
+      "A free walking interval timer with sound and vibration cues at every pace change, live distance, steps and calories, and a private history of your walks.",
+    crumb: "Walk Timer",
+    heading: "Walk Timer",
+    intro:
+      "Pick a program and press start. You’ll hear a rising beep when it’s time to speed up and a falling one to ease off, and distance and calories add up as you go.",
+    programs: {
+      intervals: {
+        name: "Intervals",
+        blurb:
+          "Alternate fast and easy stretches between a warm-up and cool-down.",
+      },
+      steady: { name: "Steady", blurb: "One pace for the whole walk." },
+      ramp: {
+        name: "Ramp",
+        blurb: "Start easy and step up through the paces in equal blocks.",
+      },
+    },
+    program: "Program",
+    rounds: "Rounds",
+    fastPace: "Fast pace",
+    fastSeconds: "Fast (seconds)",
+    easyPace: "Easy pace",
+    easySeconds: "Easy (seconds)",
+    warmup: "Warm-up and cool-down (minutes each)",
+    warmupHint: "Walked at the easy pace.",
+    pace: "Pace",
+    minutes: "Minutes",
+    topPace: "Top pace",
+    sound: "Sound cues",
+    vibrate: "Vibrate (on phones that support it)",
+    planned: (
+      time: string,
+      distance: string,
+      steps: string,
+      calories: string
+    ) =>
+      `${time} in total • ≈ ${distance} • ${steps} steps • ${calories} calories`,
+    finished: "Finished",
+    ready: "Ready",
+    next: (pace: string, time: string) => `Next: ${pace} for ${time}`,
+    lastStretch: "Last stretch",
+    elapsed: (time: string) => `${time} elapsed`,
+    left: (time: string) => `${time} left`,
+    distance: "Distance",
+    steps: "Steps",
+    calories: "Calories",
+    start: "Start",
+    resume: "Resume",
+    pause: "Pause",
+    finishNow: "Finish now",
+    newWalk: "New walk",
+    discard: "Discard",
+    saved: "Saved.",
+    addedToLog: (steps: string, href: string) =>
+      `${steps} steps were added to [today’s step log](${href}).`,
+    saveWalk: "Save walk",
+    addToLog: (steps: string) => `Add ${steps} steps to the step log`,
+    noStorage: "This browser can’t store walks (IndexedDB is unavailable).",
+    saveError: (reason: string) =>
+      `Couldn’t save the walk on this device: ${reason}`,
+    deleteError: (reason: string) =>
+      `Couldn’t delete the walk on this device: ${reason}`,
+    estimates: (body: string, saved: boolean) =>
+      `Estimates use each stretch’s preset speed and METs for ${saved ? "your saved profile" : "the reference walker"} (${body}). Keep this page open: the screen stays on while the timer runs, and cues may be late if the phone locks.`,
+    recent: "Recent walks",
+    started: "Started",
+    time: "Time",
+    delete: "Delete",
+  },
+
+  /* ---------- Cadence metronome ---------- */
+  metronome: {
+    title: "Walking Cadence Metronome (Steps per Minute) | I Love Steps",
+    description:
+      "A free steps-per-minute metronome for walkers. Set the beat from a pace or speed and your stride, ramp the tempo up gradually, and see what speed any cadence gives you.",
+    crumb: "Cadence Metronome",
+    heading: "Cadence Metronome",
+    intro:
+      "Step on every click. Set the beat from a pace or speed and your stride, or type a cadence directly. Brisk walking is about 100–120 steps per minute for most adults.",
+    tempo: "Tempo",
+    sources: { pace: "Pace preset", speed: "Speed", cadence: "Cadence" },
+    pace: "Pace",
+    speed: (unit: string) => `Speed (${unit})`,
+    cadence: "Cadence (steps/min)",
+    withStride: (stride: string, bpm: string) =>
+      `With a ${stride} stride that’s **${bpm} steps/min**.`,
+    ramp: "Ramp the tempo",
+    finishAt: "Finish at (steps/min)",
+    over: "Over (minutes)",
+    strideFrom: {
+      strides: "your measured strides",
+      link: "the calculator link",
+      profile: "your saved profile",
+      reference: "the reference walker",
+    },
+    changeStride: (source: string, calculator: string, calibrate: string) =>
+      `Stride from ${source}. To change it, [edit it in the calculator](${calculator}) or [measure it](${calibrate}).`,
+    rampLine: (from: string, to: string, minutes: string) =>
+      `${from} → ${to} over ${minutes} min`,
+    start: "Start",
+    stop: "Stop",
+    unsupported: "This browser can’t play Web Audio.",
+    speedHeading: "What speed is this cadence?",
+    speedLine: (
+      bpm: string,
+      stride: string,
+      speed: string,
+      pace: string,
+      preset: string
+    ) =>
+      `${bpm} steps/min × ${stride} ≈ **${speed}** (${pace}), closest to the ${preset} preset.`,
+    background:
+      "Clicks keep time in a background tab. Changes made while it plays start from the next click, and a ramp starts over.",
+  },
+
+  /* ---------- Stride calibration ---------- */
+  strideCalibration: {
+    title: "Measure Your Stride Length: Calibration Wizard | I Love Steps",
+    description:
+      "Find your real stride length by walking a track lap, a 20 m hallway or a recorded GPX route and counting your steps. Save a stride for each pace and the calculator uses it.",
+    crumb: "Stride Calibration",
+    heading: "Measure Your Stride",
+    intro: (stride: string, pace: string) =>
+      `The calculator estimates your stride from your height and walking speed (${stride} at ${pace} pace for you). Walking a known distance and counting your steps is far more accurate. Stride gets longer as you speed up, so measure each pace you walk at.`,
+    methods: {
+      track: {
+        name: "Track lap",
+        blurb: "A standard 400 m running track.",
+        steps: [
+          "Walk in the inside lane (lane 1), which is 400 m long.",
+          "Start a few steps before the line so you’re already at pace when you cross it.",
+          "Count every step until you cross the line again. Two laps halve the counting error.",
+        ],
+      },
+      hallway: {
+        name: "Hallway",
+        blurb: "Any straight stretch you can measure, 20 m or more.",
+        steps: [
+          "Measure a straight stretch with a tape and mark both ends.",
+          "Start a few steps before the first mark and keep going past the second, so you don’t speed up or slow down inside it.",
+          "Count your steps between the marks. Walk it several times and add the counts.",
+        ],
+      },
+      route: {
+        name: "GPX route",
+        blurb: "A walk recorded by your phone or watch.",
+        steps: [
+          "Record a walk of at least 1 km at one steady pace, on open ground where GPS is accurate.",
+          "Note your step count from a pedometer or phone at the start and the end.",
+          "Upload the GPX file (TCX and FIT work too) and enter the steps.",
+        ],
+      },
+    },
+    pickDistance: "1. Pick a distance",
+    walkAndCount: "2. Walk it and count",
+    paceWalked: "Pace you walked at",
+    laps: "Laps",
+    inTotal: (distance: string) => `${distance} in total.`,
+    hallLength: (unit: string) => `Length between the marks (${unit})`,
+    timesWalked: "Times walked",
+    routeFile: "Route file",
+    chooseFile: "Choose a .gpx file",
+    readError: "That file couldn’t be read.",
+    stepsCounted: "Steps counted",
+    calculate: "Work out my stride",
+    errors: {
+      distance: "Enter the distance you walked.",
+      steps: "Enter the number of steps you counted.",
+      range: (stride: string, min: string, max: string) =>
+        `That works out to a ${stride} cm stride, which is outside ${min}–${max} cm. Check the distance and the step count.`,
+    },
+    saveIt: "3. Save it",
+    result: (distance: string, steps: string, stride: string, pace: string) =>
+      `${distance} m ÷ ${steps} steps = **${stride}** at ${pace} pace.`,
+    longer: (diff: string) =>
+      `That’s ${diff} longer than the estimate for your height.`,
+    shorter: (diff: string) =>
+      `That’s ${diff} shorter than the estimate for your height.`,
+    saved: (href: string) =>
+      `Saved on this device. The [calculator](${href}) now uses it when this pace is selected.`,
+    save: "Save for this pace",
+    yours: "Your calibrated strides",
+    pace: "Pace",
+    stride: "Stride",
+    measured: "Measured",
+    measuredWith: (method: string, steps: string, date: string) =>
+      `${method}, ${steps} steps, ${date}`,
+    delete: "Delete",
+    between:
+      "For a pace you haven’t measured, the calculator uses a value between the paces around it, or the nearest one you have.",
+    none: "None yet. Until you save one, the calculator estimates your stride from your height and speed.",
+  },
+
+  /* ---------- Printable / PDF report ---------- */
+  report: {
+    title: "Walking Report",
+    documentTitle: (client: string) =>
+      client
+        ? `Walking Report for ${client} | I Love Steps`
+        : "Walking Report | I Love Steps",
+    preparedFor: (client: string) => `Prepared for ${client}`,
+    print: "Print",
+    pdf: "Download PDF",
+    edit: "Edit in calculator",
+    profile: "Profile & pace",
+    weight: "Weight",
+    height: "Height",
+    sex: "Sex",
+    stride: "Stride",
+    measured: "measured",
+    estimated: "estimated from height and speed",
+    pace: "Pace",
+    customSpeed: "Custom speed",
+    paceValue: (name: string, speed: string, pace: string) =>
+      `${name}: ${speed} (${pace})`,
+    cadence: "Cadence",
+    grade: "Grade",
+    load: "Carried load",
+    walk: (
+      steps: string,
+      distance: string,
+      minutes: string,
+      calories: string
+    ) =>
+      `${steps} steps ≈ ${distance} in ${minutes} min burns about ${calories} kcal`,
+    withHills: (calories: string) =>
+      ` on flat ground, ${calories} kcal with the grade and load.`,
+    table: "Steps → calories",
+    tableUnits: "(kcal · minutes)",
+    steps: "Steps",
+    distance: "Distance",
+    cell: (calories: string, minutes: string) => `${calories} · ${minutes} min`,
+    ramp: (from: string, to: string) => `Goal ramp: ${from} → ${to} steps/day`,
+    week: "Week",
+    dailySteps: "Daily steps",
+    increase: "Increase",
+    weeklySteps: "Weekly steps",
+    weeklyKcal: "Weekly kcal",
+    notReached: (weeks: number) =>
+      `The goal isn’t reached within ${weeks} weeks at this ramp.`,
+    method:
+      "Estimates use METs from the Compendium of Physical Activities (kcal = METs × 3.5 × kg × min / 200), a stride estimated from height and walking speed (or your measured one), and the Pandolf equation for grade and load. Weekly step-ups are capped at 10%. For planning, not medical advice. ilovesteps.com",
+  },
+
+  /* ---------- Steps ⇄ distance converters ---------- */
+  converter: {
+    units: {
+      mi: {
+        singular: "mile",
+        plural: "miles",
+        Singular: "Mile",
+        Plural: "Miles",
+      },
+      km: {
+        singular: "kilometer",
+        plural: "kilometers",
+        Singular: "Kilometer",
+        Plural: "Kilometers",
+      },
+    } satisfies Record<"mi" | "km", UnitWords>,
+    inches: "inches",
+    toolName: (w: UnitWords) => `Steps to ${w.Plural} Converter`,
+    landingTitle: (w: UnitWords, steps: string) =>
+      `How Many ${w.Plural} Is ${steps} Steps?`,
+    indexTitle: (tool: string, w: UnitWords) =>
+      `${tool}: How Many Steps in a ${w.Singular}?`,
+    landingDescription: (w: UnitWords, steps: string, distance: string) =>
+      `${steps} steps is about ${distance} ${w.plural} for an average adult. See the distance for your height, plus a steps-to-${w.plural} table.`,
+    indexDescription: (w: UnitWords, perUnit: string) =>
+      `Convert steps to ${w.plural} and ${w.plural} to steps using a stride estimated from your height at a brisk walk. About ${perUnit} steps make a ${w.singular} for an average adult. Free conversion table.`,
+    landingH1: (w: UnitWords, steps: string) =>
+      `How many ${w.plural} is ${steps} steps?`,
+    stepsCrumb: (steps: string) => `${steps} steps`,
+    reference: (height: string, stride: string) =>
+      `a ${height} adult with a ${stride} stride`,
+    faqDistanceAnswer: (
+      w: UnitWords,
+      steps: string,
+      distance: string,
+      reference: string
+    ) =>
+      `${steps} steps is about ${distance} ${w.plural} for ${reference}. Taller walkers cover more ground per step.`,
+    faqPerUnitQuestion: (w: UnitWords) =>
+      `How many steps are in a ${w.singular}?`,
+    faqPerUnitAnswer: (
+      perUnit: string,
+      reference: string,
+      unitLength: string
+    ) =>
+      `About ${perUnit} steps for ${reference}. Divide ${unitLength} by your stride length for your own number.`,
+    landingLead: (
+      w: UnitWords,
+      steps: string,
+      distance: string,
+      height: string,
+      sex: SexKey,
+      stride: string
+    ) =>
+      `**${steps} steps ≈ ${distance} ${w.plural}** for a ${height} ${walker(sex)} with a ${stride} stride. Adjust the height below for your own number.`,
+    indexLead: (w: UnitWords, perUnit: string) =>
+      `About **${perUnit} steps make one ${w.singular}** at your height. Enter steps or a distance; the other side updates using your stride at a brisk walk.`,
+    convert: "Convert",
+    steps: "Steps",
+    distance: (w: UnitWords) => `Distance (${w.plural})`,
+    height: (unit: string) => `Height (${unit})`,
+    sex: "Sex (for stride)",
+    stride: "Stride",
+    stepsPer: (
+      w: UnitWords,
+      perUnit: string,
+      other: UnitWords,
+      perOther: string
+    ) =>
+      `Steps per ${w.singular}: ${perUnit} · per ${other.singular}: ${perOther}`,
+    stepsEqual: (steps: string, distance: string, w: UnitWords) =>
+      `${steps} steps = ${distance} ${w.plural}`,
+    seeCalories: (steps: string) => `See calories burned for ${steps} steps →`,
+    howItWorks: "How it works",
+    howItWorksText:
+      "Stride length is estimated from your height at a brisk walk (3.5 mph / 5.6 km/h) with the same model as the calculator: about 45–48% of height, slightly longer for men. Distance is steps × stride. Your stride grows as you speed up; for another pace or a measured stride, use the full calculator.",
+    prefer: (w: UnitWords) => `Prefer ${w.plural}?`,
+    stepsTo: (w: UnitWords) => `Steps to ${w.plural}`,
+    byHeight: (steps: string, w: UnitWords) =>
+      `${steps} steps in ${w.plural} by height`,
+    heightColumn: "Height",
+    women: "Women",
+    men: "Men",
+    tableHeading: (w: UnitWords) => `Steps to ${w.plural} conversion table`,
+    tableFor: (height: string, sex: SexKey, stride: string) =>
+      `For a ${height} ${walker(sex)} (${stride} stride).`,
+    questions: "Questions",
+    popular: "Popular conversions",
+    popularLink: (steps: string, w: UnitWords) =>
+      `${steps} steps to ${w.plural}`,
+  },
+
+  /* ---------- Guides ---------- */
+  guides: {
+    indexTitle: "Walking Guides",
+    indexDescription:
+      "Practical walking guides: building a daily habit, step goals, shoes, weather, safety, indoor workouts and walking vs. jogging.",
+    updated: "Updated",
+    notFound: "Guide not found",
+    more: "More walking guides",
+    all: "All guides →",
+  },
+
+  /* ---------- App updates & offline ---------- */
+  app: {
+    updateReady: "A new version of I Love Steps is ready.",
+    reload: "Reload",
+    later: "Later",
+    offline:
+      "You’re offline. The calculator and your step log still work; other pages open once you’re back online.",
+  },
+};
+
+export type Messages = typeof en;
@@ -0,0 +1,697 @@
+/* =========================================================
+   SPANISH MESSAGES
+========================================================= */
+import type { Messages, UnitWords } from "./en";
+
+// "milla" is feminine: una milla / cuántas millas
+const feminine = (w: UnitWords) => w.singular === "milla";
+const a = (w: UnitWords) => (feminine(w) ? "una" : "un");
+const person = (sex: string) =>
+  sex === "female" ? "una mujer" : sex === "male" ? "un hombre" : "una persona";
+
+export const es: Messages = {
+  common: {
+    calories: "calorías",
+    cal: "kcal",
+    min: "min",
+    stepsPerMin: "pasos/min",
+    sex: { male: "hombre", female: "mujer", unspecified: "persona adulta" },
+    sexButton: {
+      male: "Hombre",
+      female: "Mujer",
+      unspecified: "Sin especificar",
+    },
+    unitSystems: { metric: "métrico", imperial: "imperial" },
+    body: (weight, height, sex) => `${sex}, ${weight}, ${height}`,
+    language: "Idioma",
+    footer: "Herramientas gratuitas para caminar y trotar",
+  },
+
+  paces: {
+    easy: "Paseo suave (~4 km/h / 2,5 mph)",
+    brisk: "Paso ligero (~5,6 km/h / 3,5 mph)",
+    power: "Marcha rápida (~6,9 km/h / 4,3 mph)",
+    jog: "Trote suave (~8 km/h / 5 mph)",
+  },
+  paceShort: { easy: "suave", brisk: "ligero", power: "rápido", jog: "trote" },
+
+  /* ---------- Home page ---------- */
+  home: {
+    title:
+      "I Love Steps | Calculadora de calorías al caminar, conversor de pasos a kilómetros y consejos",
+    description:
+      "Calcula las calorías que quemas caminando según tus pasos, ritmo, peso y altura. Convierte pasos a kilómetros y millas. Aprende cuántas calorías quema caminar, cómo fijar metas de pasos y crear el hábito de caminar a diario. Gratis, adaptado al móvil y sin registro.",
+    siteDescription:
+      "Herramientas para caminar: calculadora de calorías quemadas, conversor de pasos a distancia y guías para crear un hábito saludable.",
+    topBar: (date) =>
+      `Herramientas gratuitas para caminar • Actualizado el ${date}`,
+    heroTitle: "Cuenta tus pasos. Quema calorías. Siéntete mejor.",
+    heroIntro:
+      "Usa la calculadora gratuita para estimar las **calorías quemadas** según tus pasos, ritmo y peso. Convierte **pasos a kilómetros** automáticamente. Descubre consejos prácticos para crear un hábito que mantendrás.",
+    ctaCalculate: "Calcular calorías quemadas",
+    ctaBenefits: "Ver beneficios de caminar",
+    ctaLog: "Registrar tus pasos diarios",
+    glanceTitle: "De un vistazo",
+    glance: [
+      "Calorías quemadas según pasos y ritmo",
+      "Pasos ⇆ millas ⇆ kilómetros",
+      "Zancada automática según altura y ritmo",
+      "Comparativa entre paso ligero y suave",
+    ],
+    calculatorHeading: "Calorías quemadas al caminar o trotar",
+    relatedHeading: "Más herramientas gratuitas de salud, caminata y bienestar",
+    related: {
+      weightLoss:
+        "Consejos y calculadoras para perder peso: quema calorías caminando, sigue tu progreso y mantén la motivación cada día.",
+      fitness:
+        "Desde calorías quemadas hasta TDEE e IMC: planifica metas más inteligentes en tu camino.",
+      habits:
+        "Crea una rutina de pasos constante y sigue rachas que llevan a resultados reales.",
+      timers:
+        "Temporizadores de intervalos y entrenamiento, perfectos para caminatas o pausas de cardio en casa.",
+      typing:
+        "Ejercita la mente en los días de descanso: clases de mecanografía con una postura que evita la fatiga de muñeca.",
+      wordGames:
+        "Mantén el cerebro activo: los pasatiempos de palabras combinan bien con una rutina de pasos saludable.",
+      morse:
+        "Convierte texto a código Morse: un acertijo divertido para tu pausa al caminar.",
+      textConverters:
+        "Herramientas prácticas para dar formato a textos y hacer conversiones rápidas.",
+    },
+    benefitsHeading: "Beneficios de caminar",
+    benefits: [
+      "Caminar es sencillo pero eficaz: cuida el corazón, mejora el azúcar en sangre, fortalece articulaciones y músculos, mejora el ánimo y el sueño y ayuda a controlar el peso, sin ningún equipo.",
+      "La constancia supera a la intensidad: caminar 20–30 minutos casi todos los días puede quemar miles de calorías al año con un riesgo mínimo de lesión.",
+    ],
+    benefitsList: [
+      "Favorece la función cardíaca y pulmonar",
+      "Mejora la sensibilidad a la insulina",
+      "Mejora el equilibrio y la flexibilidad",
+      "Reduce el estrés y la ansiedad",
+    ],
+    guidesHeading: "Guías, consejos y estrategias para tus metas de pasos",
+    guidesIntro:
+      "Tanto si empiezas una **rutina diaria de caminata** como si buscas un nuevo **récord de pasos**, el enfoque adecuado hace que caminar sea más seguro, agradable y eficaz para quemar calorías. Estos son algunos de los temas más buscados para mejorar tu *constancia, resistencia y pérdida de peso*.",
+    browseGuides: "Ver todas las guías para caminar →",
+    guidesOutro:
+      "Caminar es uno de los **ejercicios cardiovasculares de bajo impacto** más accesibles, ideal para principiantes, personas mayores y quien vuelve tras una lesión. Empieza despacio, aumenta poco a poco y registra tus *calorías quemadas* para mantener la motivación.",
+    plannerHeading: "Planifica tu progresión de pasos",
+    plannerIntro:
+      "Introduce tu media diaria actual y un objetivo para obtener un plan seguro semana a semana, con las calorías que suma cada semana.",
+    byStepsHeading: "Calorías quemadas según pasos, distancia y ritmo",
+    byStepsReference: (body, easy, jog) =>
+      `Nuestra persona de referencia (${body}) quema unas **${easy} calorías por cada 1000 pasos** a ritmo suave y **${jog} calorías** trotando suave. La cifra exacta depende del peso corporal, el terreno y la velocidad.`,
+    byStepsCalculator:
+      "Usa nuestra **calculadora de calorías al caminar** para ajustar el cálculo a tu peso y ritmo. Cuanto más rápido camines o más empinada sea la cuesta, más calorías quemas por paso. Si guardas tu perfil allí, esta tabla se recalcula para ti.",
+    byStepsTerrain:
+      "Estas estimaciones suponen terreno llano. Las cuestas o llevar mochila pueden aumentar el gasto calórico entre un 10 y un 20 %.",
+    howManyHeading: "¿Cuántas calorías quema caminar?",
+    howMany: [
+      "Las calorías que quemas al caminar dependen de tu peso, ritmo, terreno, distancia y número de pasos. En general, caminar a paso ligero a 5,6 km/h quema unas **250–350 calorías por hora** en una persona de 70 kg. Una marcha rápida o un trote suave puede superar las 400 calorías por hora.",
+      "Nuestra calculadora usa los **MET** estándar (equivalentes metabólicos) para estimar las calorías de cada ritmo y ajusta automáticamente la zancada según la altura y la velocidad. Así, la distancia y las calorías son más precisas que la regla de «2000 pasos = 1 milla».",
+    ],
+    distanceHeading: "Guía de pasos a kilómetros y distancia",
+    distance: [
+      "Convertir pasos en distancia ayuda a fijar metas diarias realistas. Para la mayoría de los adultos, **2000 pasos ≈ 1 milla** (≈ 1,6 km), pero la zancada varía según la altura y la forma de caminar. Las personas altas suelen recorrer más distancia por paso.",
+      "I Love Steps estima tu zancada automáticamente a partir de tu altura y tu velocidad (la zancada se alarga al ir más rápido), para que los kilómetros o millas coincidan con tu forma real de caminar. También puedes indicar una zancada personalizada si conoces la tuya con exactitud.",
+    ],
+    converterLinks: (miles, km, tenK) =>
+      `Para una respuesta rápida sin calorías, usa el conversor de [pasos a kilómetros](${km}) o de [pasos a millas](${miles}), con tablas por altura para cifras habituales como [10 000 pasos](${tenK}).`,
+    weightLossHeading: "Caminar para perder peso y ganar salud",
+    weightLoss: [
+      "Caminar con regularidad es una de las formas más sencillas de controlar el peso, reducir el estrés y mejorar la forma cardiovascular sin equipo. Los estudios muestran que sumar **30 minutos de caminata a paso ligero casi todos los días** ayuda a mantener un índice de masa corporal (IMC) saludable y a perder grasa gradualmente junto a una alimentación equilibrada.",
+      "Tanto si tu meta son **10 000 pasos al día** como un paseo de 15 minutos después de comer, los pequeños hábitos se suman en mejoras de salud medibles. Nuestra calculadora gratuita te muestra cuántas calorías aporta cada caminata a tu objetivo semanal.",
+    ],
+    projectionHeading: "Calcula cuánto peso puedes perder caminando",
+    faqHeading: "Preguntas frecuentes",
+    disclaimer:
+      "**Aviso:** I Love Steps ofrece contenido educativo y herramientas de bienestar general para aprender sobre caminar, contar pasos, calorías quemadas y hábitos de movimiento saludables. Todas las calculadoras usan fórmulas MET ampliamente aceptadas y estimaciones de zancada, solo con fines informativos. Los resultados no son exactos y el gasto energético varía con la edad, la forma física, la biomecánica, el terreno, el calzado y la salud general. Nada en este sitio pretende diagnosticar, tratar ni sustituir el consejo médico o de entrenamiento profesional. Si tienes problemas de salud, estás embarazada, te recuperas de una lesión o empiezas una rutina de ejercicio nueva, consulta a un profesional sanitario o del deporte antes de cambiar tus hábitos.",
+  },
+
+  /* ---------- Calories calculator ---------- */
+  calculator: {
+    title: "Calculadora de calorías al caminar y trotar",
+    intro:
+      "Introduce lo que sepas (pasos, distancia o tiempo) y tus datos corporales para estimar las calorías quemadas.",
+    modes: { steps: "pasos", distance: "distancia", time: "tiempo" },
+    weight: (unit) => `Peso (${unit})`,
+    height: (unit) => `Altura (${unit}, para la zancada)`,
+    steps: "Pasos",
+    distance: (unit) => `Distancia (${unit})`,
+    time: "Tiempo (minutos)",
+    pace: "Ritmo",
+    speed: (unit) => `Velocidad (${unit})`,
+    paceDecimal: (unit) => `Ritmo (${unit}, minutos decimales)`,
+    sex: "Sexo (para la zancada)",
+    customStride: "Usar zancada personalizada",
+    strideLength: (unit) => `Longitud de zancada (${unit})`,
+    autoStride: (stride) => `Zancada automática ≈ ${stride}`,
+    useCalibrated: "Usar mi zancada calibrada",
+    calibratedStride: (stride) => `Zancada medida para este ritmo: ${stride}`,
+    calibrate: "Mide tu zancada",
+    hills: "Cuestas y mochila (opcional)",
+    incline: (grade) => `Pendiente: ${grade} %`,
+    inclineHint:
+      "Los valores negativos son cuesta abajo. Una calle empinada tiene ~10 %.",
+    load: (unit) => `Carga transportada (${unit})`,
+    remember: "Recordar mi perfil en este dispositivo",
+    rememberHint:
+      "Guarda unidades, peso, altura, sexo, zancada y ritmo solo en este navegador. No se envía nada a ningún servidor.",
+    linkKeepsProfile:
+      "Esta página muestra los valores de un enlace compartido, así que tu perfil guardado no cambia. Marca la casilla para guardar estos valores en su lugar.",
+    clearProfile: "Borrar perfil guardado",
+    reset: "Restablecer valores",
+    copied: "¡Enlace copiado!",
+    copyLink: "Copiar enlace",
+    report: "Informe de una página para clientes:",
+    reportPage: "página imprimible",
+    results: "Resultados",
+    flatGround: "Terreno llano (MET)",
+    withGradeLoad: "Con pendiente y carga (Pandolf)",
+    vsFlat: (pct) => `${pct} % frente a llano`,
+    resultSteps: "Pasos",
+    resultDistance: "Distancia",
+    resultDuration: "Duración",
+    resultSpeed: "Velocidad",
+    resultMets: "MET usados",
+    metsSource: (source) => `(Compendio de Actividades Físicas, ${source})`,
+    yourSpeed: "tu velocidad",
+    preset: (pace) => `ritmo ${pace}`,
+    resultCadence: "Cadencia",
+    practiceCadence: "Practicar esta cadencia",
+    resultStride: "Zancada usada",
+    resultWeight: "Peso corporal",
+    exportTitle: "Exportar este resultado",
+    exportHint:
+      "CSV para hojas de cálculo (columnas métricas); JSON restaura estos mismos datos más tarde.",
+    noCalculatorData: "Ese archivo no contiene datos de la calculadora.",
+    restored: "Calculadora restaurada.",
+    quickReference: "Referencia rápida",
+    quickMetric: "~1250 pasos ≈ 1 km",
+    quickImperial: "~2000 pasos ≈ 1 milla",
+    quickBrisk: "Paso ligero ≈ 100–120 pasos/min",
+    quickConsistency: "La constancia supera a la intensidad",
+  },
+
+  /* ---------- Steps → calories table ---------- */
+  caloriesTable: {
+    steps: "Pasos",
+    distance: "Distancia",
+    rowsLabel: "Cantidades de pasos a mostrar",
+    rowsHint: "Sepáralas con comas o espacios, p. ej. 3000, 6000, 12000.",
+    forProfile: (body) => `Para tu perfil guardado: ${body}.`,
+    forReference: (body) =>
+      `Para la persona de referencia: ${body}. Guarda tu perfil en la calculadora para personalizarla.`,
+  },
+
+  /* ---------- Step-goal planner ---------- */
+  planner: {
+    title: "Planificador de metas de pasos",
+    intro: (pct) =>
+      `Aumenta poco a poco: cada semana suma como máximo el incremento elegido y nunca más de un ${pct} % sobre la semana anterior.`,
+    current: "Media actual (pasos/día)",
+    target: "Objetivo (pasos/día)",
+    targetHint: "Con 7000–9000 pasos/día ya obtienes la mayoría de beneficios.",
+    maxIncrease: "Aumento máximo por semana (pasos/día)",
+    maxIncreaseHint: "Lo habitual es 500–1000.",
+    reached: (steps, week) =>
+      `Llegarás a ${steps} pasos/día en la semana ${week}.`,
+    notReached: (weeks, steps) =>
+      `Tras ${weeks} semanas estarías en ${steps} pasos/día. Prueba un aumento semanal mayor o un objetivo más cercano.`,
+    week: "Semana",
+    stepsPerDay: "Pasos / día",
+    change: "Cambio",
+    stepsPerWeek: "Pasos / semana",
+    caloriesPerWeek: "Calorías / semana",
+  },
+
+  /* ---------- Weight-loss projection ---------- */
+  projection: {
+    title: "Proyección de pérdida de peso",
+    startingWeight: (unit) => `Peso inicial (${unit})`,
+    stepsPerDay: "Pasos por día de caminata",
+    pace: "Ritmo",
+    yourSpeed: (speed) => `Tu velocidad (${speed})`,
+    daysPerWeek: (days) => `Días de caminata por semana: ${days}`,
+    deficit: "Déficit en la dieta (calorías/día, opcional)",
+    deficitHint:
+      "Un déficit moderado de 250–500 calorías/día es sostenible para la mayoría de los adultos.",
+    length: (weeks) => `Duración de la proyección: ${weeks} semanas`,
+    summary: (weeks, weight, lost) =>
+      `Tras **${weeks} semanas**: **${weight}** (${lost} menos)`,
+    chartLabel: (from, to, weeks) =>
+      `Peso previsto de ${from} a ${to} en ${weeks} semanas`,
+    weekTick: (week) => `sem. ${week}`,
+    assumptions:
+      "Supone ~7700 calorías por kg (3500 por lb) de grasa perdida. Las calorías de la caminata se recalculan cada semana con el nuevo peso, por lo que la curva se aplana con el tiempo. Los resultados reales varían según el apetito, el agua retenida y la adaptación metabólica.",
+  },
+
+  /* ---------- Activity file import ---------- */
+  activityImport: {
+    reading: "Leyendo actividad…",
+    prompt:
+      "Arrastra un archivo GPX, TCX o FIT de tu reloj o app, o haz clic para elegirlo",
+    readError: "No se pudo leer ese archivo.",
+    errors: {
+      format: "Elige un archivo .gpx, .tcx o .fit.",
+      xml: "El archivo no es un XML válido.",
+      fit: "El archivo FIT está dañado.",
+      empty: "No se encontraron puntos de recorrido en este archivo.",
+    },
+    imported: (name, distance, minutes, climb, descent, grade) =>
+      `Importado «${name}»: ${distance} en ${minutes} min en movimiento, +${climb} m / −${descent} m (${grade} % de pendiente de subida)`,
+    cadence: (cadence) => `, cadencia de ${cadence} pasos/min`,
+  },
+
+  /* ---------- Export / restore ---------- */
+  dataExport: {
+    csv: "Descargar CSV",
+    json: "Descargar JSON",
+    restore: "Restaurar desde JSON",
+    restoreError: "No se pudo restaurar ese archivo.",
+    errors: {
+      json: "El archivo no es un JSON válido.",
+      format: "No es una exportación de I Love Steps.",
+      version:
+        "Esta exportación se hizo con una versión más reciente del sitio.",
+      calculator: "Faltan los datos de la calculadora.",
+      stepLog: "Falta el registro de pasos.",
+      entryDate: (entry) =>
+        `La entrada ${entry} del registro no tiene una fecha válida.`,
+      entryRepeat: (entry, date) =>
+        `La entrada ${entry} del registro repite el ${date}.`,
+      entrySteps: (entry) =>
+        `La entrada ${entry} del registro tiene un número de pasos no válido.`,
+      entryNote: (entry) =>
+        `La entrada ${entry} del registro tiene una nota no válida.`,
+      entryUpdatedAt: (entry) =>
+        `La entrada ${entry} del registro tiene una hora de edición no válida.`,
+    },
+  },
+
+  /* ---------- Step log ---------- */
+  stepLog: {
+    title: "Registro diario de pasos y rachas | I Love Steps",
+    description:
+      "Anota tus pasos diarios, sigue tu racha actual y la más larga, y consulta los totales semanales y mensuales con las calorías quemadas. Se guarda de forma privada en tu dispositivo.",
+    crumb: "Registro de pasos",
+    heading: "Registro diario de pasos",
+    intro:
+      "Anota tus pasos cada día, mantén viva tu racha y mira cómo crecen los totales semanales. Las entradas se guardan en este dispositivo y funcionan sin conexión.",
+    unsupported:
+      "Este navegador no admite almacenamiento sin conexión (IndexedDB), así que el registro de pasos no está disponible.",
+    storageError:
+      "No se pudo abrir el almacenamiento del registro de pasos. La navegación privada a veces lo bloquea.",
+    saveError: (reason) =>
+      `No se pudo guardar el registro en este dispositivo: ${reason}`,
+    deleteError: (reason) =>
+      `No se pudo borrar el registro en este dispositivo: ${reason}`,
+    currentStreak: "Racha actual",
+    longestStreak: "Racha más larga",
+    days: (days) => (days === 1 ? "1 día" : `${days} días`),
+    thisWeek: "Esta semana",
+    thisMonth: "Este mes",
+    aboutCalories: (calories) => `≈ ${calories} calorías`,
+    addSteps: "Añadir pasos",
+    editEntry: "Editar entrada",
+    date: "Fecha",
+    steps: "Pasos",
+    replaces: (steps) =>
+      `Sustituye los ${steps} pasos ya registrados para este día.`,
+    note: "Nota (opcional)",
+    logSteps: "Registrar pasos",
+    saveChanges: "Guardar cambios",
+    cancel: "Cancelar",
+    profileCalories: "Las calorías usan el perfil guardado en la calculadora.",
+    referenceCalories: (href) =>
+      `Las calorías suponen una persona de 70 kg y 170 cm a paso ligero. [Guarda tu perfil](${href}) para obtener tus propias cifras.`,
+    history: "Historial",
+    noStepLog: "Ese archivo no tiene registro de pasos.",
+    restored: (days) =>
+      `Se restauraron ${days} días. La copia sustituyó el registro de este dispositivo.`,
+    empty:
+      "Aún no hay entradas. Registra los pasos de hoy para empezar una racha.",
+    calories: "Calorías",
+    noteColumn: "Nota",
+    edit: "Editar",
+    delete: "Eliminar",
+    weeklyTotals: "Totales semanales",
+    weekOf: (date) => `Semana del ${date}`,
+    monthlyTotals: "Totales mensuales",
+    total: (steps, calories) => `${steps} pasos • ${calories} kcal`,
+  },
+
+  /* ---------- Health export import ---------- */
+  healthImport: {
+    title: "Importar desde Apple Health o Google Fit",
+    help: "Apple Health: Perfil → Exportar todos los datos de salud, descomprime y elige `export.xml`. Google Fit: descarga tu Takeout y elige `Daily activity metrics.csv` (o los CSV por día). El archivo se lee en este dispositivo y nunca se sube.",
+    readError: "No se pudo leer esa exportación.",
+    errors: {
+      noFile: "Elige un archivo para importar.",
+      format:
+        "Elige el export.xml de Apple Health o archivos .csv de Google Fit (descomprime la exportación primero).",
+      mixed:
+        "Importa los archivos de Apple Health y de Google Fit por separado.",
+      stepColumn: (file) => `«${file}» no tiene columna «Step count».`,
+      dateColumn: (file) =>
+        `«${file}» no tiene columna de fecha ni fecha en el nombre.`,
+      noSteps: "No se encontraron recuentos de pasos en esta exportación.",
+    },
+    reading: (pct) => `Leyendo… ${pct} %`,
+    summary: (source, days, from, to, records, steps) =>
+      `${source}: ${days} días del ${from} al ${to} (${records} registros), ${steps} pasos en total.`,
+    date: "Fecha",
+    steps: "Pasos",
+    distance: "Distancia",
+    calories: "Calorías",
+    alreadyLogged: "ya registrado",
+    replace: "Sustituir los días que ya he registrado",
+    add: (days) => `Añadir ${days} días a mi registro de pasos`,
+    saved: (days) => `Se guardaron ${days} días.`,
+    saveError: (reason) =>
+      `No se pudieron guardar los días en este dispositivo: ${reason}`,
+    note: (source) => `Importado de ${source}`,
+  },
+
+  /* ---------- Walk timer ---------- */
+  walkTimer: {
+    title:
+      "Temporizador para caminar: intervalos, ritmo constante y progresivo | I Love Steps",
+    description:
+      "Un temporizador de intervalos gratuito para caminar, con avisos de sonido y vibración en cada cambio de ritmo, distancia, pasos y calorías en directo y un historial privado de tus caminatas.",
+    crumb: "Temporizador",
+    heading: "Temporizador para caminar",
+    intro:
+      "Elige un programa y pulsa empezar. Oirás un pitido ascendente cuando toque acelerar y uno descendente para aflojar, y la distancia y las calorías se suman sobre la marcha.",
+    programs: {
+      intervals: {
+        name: "Intervalos",
+        blurb:
+          "Alterna tramos rápidos y suaves entre un calentamiento y una vuelta a la calma.",
+      },
+      steady: { name: "Constante", blurb: "Un solo ritmo toda la caminata." },
+      ramp: {
+        name: "Progresivo",
+        blurb: "Empieza suave y sube de ritmo en bloques iguales.",
+      },
+    },
+    program: "Programa",
+    rounds: "Rondas",
+    fastPace: "Ritmo rápido",
+    fastSeconds: "Rápido (segundos)",
+    easyPace: "Ritmo suave",
+    easySeconds: "Suave (segundos)",
+    warmup: "Calentamiento y vuelta a la calma (minutos cada uno)",
+    warmupHint: "Se camina al ritmo suave.",
+    pace: "Ritmo",
+    minutes: "Minutos",
+    topPace: "Ritmo máximo",
+    sound: "Avisos de sonido",
+    vibrate: "Vibrar (en los móviles que lo admiten)",
+    planned: (time, distance, steps, calories) =>
+      `${time} en total • ≈ ${distance} • ${steps} pasos • ${calories} calorías`,
+    finished: "Terminado",
+    ready: "Listo",
+    next: (pace, time) => `Siguiente: ${pace} durante ${time}`,
+    lastStretch: "Último tramo",
+    elapsed: (time) => `${time} transcurrido`,
+    left: (time) => `quedan ${time}`,
+    distance: "Distancia",
+    steps: "Pasos",
+    calories: "Calorías",
+    start: "Empezar",
+    resume: "Reanudar",
+    pause: "Pausa",
+    finishNow: "Terminar ya",
+    newWalk: "Nueva caminata",
+    discard: "Descartar",
+    saved: "Guardada.",
+    addedToLog: (steps, href) =>
+      `Se añadieron ${steps} pasos al [registro de pasos de hoy](${href}).`,
+    saveWalk: "Guardar caminata",
+    addToLog: (steps) => `Añadir ${steps} pasos al registro de pasos`,
+    noStorage:
+      "Este navegador no puede guardar caminatas (IndexedDB no está disponible).",
+    saveError: (reason) =>
+      `No se pudo guardar la caminata en este dispositivo: ${reason}`,
+    deleteError: (reason) =>
+      `No se pudo borrar la caminata en este dispositivo: ${reason}`,
+    estimates: (body, saved) =>
+      `Las estimaciones usan la velocidad y los MET predefinidos de cada tramo para ${saved ? "tu perfil guardado" : "la persona de referencia"} (${body}). Mantén esta página abierta: la pantalla sigue encendida mientras corre el temporizador, y los avisos pueden retrasarse si el móvil se bloquea.`,
+    recent: "Caminatas recientes",
+    started: "Inicio",
+    time: "Tiempo",
+    delete: "Eliminar",
+  },
+
+  /* ---------- Cadence metronome ---------- */
+  metronome: {
+    title:
+      "Metrónomo de cadencia para caminar (pasos por minuto) | I Love Steps",
+    description:
+      "Un metrónomo de pasos por minuto gratuito para caminantes. Fija el ritmo a partir de un paso o una velocidad y tu zancada, súbelo poco a poco y descubre qué velocidad da cada cadencia.",
+    crumb: "Metrónomo de cadencia",
+    heading: "Metrónomo de cadencia",
+    intro:
+      "Da un paso en cada clic. Fija el ritmo a partir de un paso o una velocidad y tu zancada, o escribe la cadencia directamente. Caminar a paso ligero son unos 100–120 pasos por minuto para la mayoría de los adultos.",
+    tempo: "Tempo",
+    sources: {
+      pace: "Ritmo predefinido",
+      speed: "Velocidad",
+      cadence: "Cadencia",
+    },
+    pace: "Ritmo",
+    speed: (unit) => `Velocidad (${unit})`,
+    cadence: "Cadencia (pasos/min)",
+    withStride: (stride, bpm) =>
+      `Con una zancada de ${stride} son **${bpm} pasos/min**.`,
+    ramp: "Subir el tempo",
+    finishAt: "Terminar en (pasos/min)",
+    over: "Durante (minutos)",
+    strideFrom: {
+      strides: "tus zancadas medidas",
+      link: "el enlace de la calculadora",
+      profile: "tu perfil guardado",
+      reference: "la persona de referencia",
+    },
+    changeStride: (source, calculator, calibrate) =>
+      `Zancada tomada de ${source}. Para cambiarla, [edítala en la calculadora](${calculator}) o [mídela](${calibrate}).`,
+    rampLine: (from, to, minutes) => `${from} → ${to} en ${minutes} min`,
+    start: "Empezar",
+    stop: "Parar",
+    unsupported: "Este navegador no puede reproducir Web Audio.",
+    speedHeading: "¿Qué velocidad da esta cadencia?",
+    speedLine: (bpm, stride, speed, pace, preset) =>
+      `${bpm} pasos/min × ${stride} ≈ **${speed}** (${pace}), lo más cercano al ritmo «${preset}».`,
+    background:
+      "Los clics siguen el ritmo en una pestaña en segundo plano. Los cambios hechos mientras suena se aplican desde el siguiente clic, y una subida vuelve a empezar.",
+  },
+
+  /* ---------- Stride calibration ---------- */
+  strideCalibration: {
+    title: "Mide tu zancada: asistente de calibración | I Love Steps",
+    description:
+      "Averigua tu zancada real recorriendo una vuelta de pista, un pasillo de 20 m o una ruta GPX grabada y contando tus pasos. Guarda una zancada para cada ritmo y la calculadora la usará.",
+    crumb: "Calibrar la zancada",
+    heading: "Mide tu zancada",
+    intro: (stride, pace) =>
+      `La calculadora estima tu zancada a partir de tu altura y tu velocidad (${stride} a ritmo ${pace} en tu caso). Recorrer una distancia conocida contando los pasos es mucho más preciso. La zancada se alarga al acelerar, así que mide cada ritmo al que caminas.`,
+    methods: {
+      track: {
+        name: "Vuelta de pista",
+        blurb: "Una pista de atletismo estándar de 400 m.",
+        steps: [
+          "Camina por la calle interior (calle 1), que mide 400 m.",
+          "Empieza unos pasos antes de la línea para llegar a ella ya a tu ritmo.",
+          "Cuenta cada paso hasta volver a cruzar la línea. Dos vueltas reducen a la mitad el error de conteo.",
+        ],
+      },
+      hallway: {
+        name: "Pasillo",
+        blurb: "Cualquier tramo recto que puedas medir, de 20 m o más.",
+        steps: [
+          "Mide un tramo recto con una cinta y marca los dos extremos.",
+          "Empieza unos pasos antes de la primera marca y sigue más allá de la segunda, para no acelerar ni frenar entre ellas.",
+          "Cuenta tus pasos entre las marcas. Recórrelo varias veces y suma los conteos.",
+        ],
+      },
+      route: {
+        name: "Ruta GPX",
+        blurb: "Una caminata grabada con el móvil o el reloj.",
+        steps: [
+          "Graba una caminata de al menos 1 km a un ritmo constante, en terreno abierto donde el GPS sea preciso.",
+          "Anota los pasos del podómetro o del móvil al principio y al final.",
+          "Sube el archivo GPX (también sirven TCX y FIT) e introduce los pasos.",
+        ],
+      },
+    },
+    pickDistance: "1. Elige una distancia",
+    walkAndCount: "2. Recórrela y cuenta",
+    paceWalked: "Ritmo al que caminaste",
+    laps: "Vueltas",
+    inTotal: (distance) => `${distance} en total.`,
+    hallLength: (unit) => `Longitud entre las marcas (${unit})`,
+    timesWalked: "Veces recorrido",
+    routeFile: "Archivo de la ruta",
+    chooseFile: "Elige un archivo .gpx",
+    readError: "No se pudo leer ese archivo.",
+    stepsCounted: "Pasos contados",
+    calculate: "Calcular mi zancada",
+    errors: {
+      distance: "Introduce la distancia que recorriste.",
+      steps: "Introduce el número de pasos que contaste.",
+      range: (stride, min, max) =>
+        `Eso da una zancada de ${stride} cm, fuera del rango de ${min}–${max} cm. Revisa la distancia y el número de pasos.`,
+    },
+    saveIt: "3. Guárdala",
+    result: (distance, steps, stride, pace) =>
+      `${distance} m ÷ ${steps} pasos = **${stride}** a ritmo ${pace}.`,
+    longer: (diff) => `Son ${diff} más que la estimación para tu altura.`,
+    shorter: (diff) => `Son ${diff} menos que la estimación para tu altura.`,
+    saved: (href) =>
+      `Guardada en este dispositivo. La [calculadora](${href}) la usa ahora cuando eliges este ritmo.`,
+    save: "Guardar para este ritmo",
+    yours: "Tus zancadas calibradas",
+    pace: "Ritmo",
+    stride: "Zancada",
+    measured: "Medida",
+    measuredWith: (method, steps, date) => `${method}, ${steps} pasos, ${date}`,
+    delete: "Eliminar",
+    between:
+      "Para un ritmo que no has medido, la calculadora usa un valor entre los ritmos vecinos, o el más cercano que tengas.",
+    none: "Todavía ninguna. Hasta que guardes una, la calculadora estima tu zancada a partir de tu altura y tu velocidad.",
+  },
+
+  /* ---------- Printable / PDF report ---------- */
+  report: {
+    title: "Informe de caminata",
+    documentTitle: (client) =>
+      client
+        ? `Informe de caminata para ${client} | I Love Steps`
+        : "Informe de caminata | I Love Steps",
+    preparedFor: (client) => `Preparado para ${client}`,
+    print: "Imprimir",
+    pdf: "Descargar PDF",
+    edit: "Editar en la calculadora",
+    profile: "Perfil y ritmo",
+    weight: "Peso",
+    height: "Altura",
+    sex: "Sexo",
+    stride: "Zancada",
+    measured: "medida",
+    estimated: "estimada por altura y velocidad",
+    pace: "Ritmo",
+    customSpeed: "Velocidad personalizada",
+    paceValue: (name, speed, pace) => `${name}: ${speed} (${pace})`,
+    cadence: "Cadencia",
+    grade: "Pendiente",
+    load: "Carga",
+    walk: (steps, distance, minutes, calories) =>
+      `${steps} pasos ≈ ${distance} en ${minutes} min queman unas ${calories} kcal`,
+    withHills: (calories) =>
+      ` en llano, ${calories} kcal con la pendiente y la carga.`,
+    table: "Pasos → calorías",
+    tableUnits: "(kcal · minutos)",
+    steps: "Pasos",
+    distance: "Distancia",
+    cell: (calories, minutes) => `${calories} · ${minutes} min`,
+    ramp: (from, to) => `Plan progresivo: ${from} → ${to} pasos/día`,
+    week: "Semana",
+    dailySteps: "Pasos/día",
+    increase: "Aumento",
+    weeklySteps: "Pasos/semana",
+    weeklyKcal: "kcal/semana",
+    notReached: (weeks) =>
+      `Con este ritmo de aumento no se llega a la meta en ${weeks} semanas.`,
+    method:
+      "Las estimaciones usan los MET del Compendium of Physical Activities (kcal = MET × 3,5 × kg × min / 200), una zancada estimada por altura y velocidad (o la tuya medida) y la ecuación de Pandolf para pendiente y carga. Los aumentos semanales se limitan al 10 %. Para planificar, no es consejo médico. ilovesteps.com",
+  },
+
+  /* ---------- Steps ⇄ distance converters ---------- */
+  converter: {
+    units: {
+      mi: {
+        singular: "milla",
+        plural: "millas",
+        Singular: "milla",
+        Plural: "millas",
+      },
+      km: {
+        singular: "kilómetro",
+        plural: "kilómetros",
+        Singular: "kilómetro",
+        Plural: "kilómetros",
+      },
+    } satisfies Record<"mi" | "km", UnitWords>,
+    inches: "pulgadas",
+    toolName: (w) => `Conversor de pasos a ${w.Plural}`,
+    landingTitle: (w, steps) =>
+      `¿${feminine(w) ? "Cuántas" : "Cuántos"} ${w.Plural} son ${steps} pasos?`,
+    indexTitle: (tool, w) =>
+      `${tool}: ¿cuántos pasos tiene ${a(w)} ${w.Singular}?`,
+    landingDescription: (w, steps, distance) =>
+      `${steps} pasos son unos ${distance} ${w.plural} para un adulto medio. Consulta la distancia según tu altura y una tabla de pasos a ${w.plural}.`,
+    indexDescription: (w, perUnit) =>
+      `Convierte pasos a ${w.plural} y ${w.plural} a pasos con una zancada estimada a partir de tu altura a paso ligero. Un adulto medio necesita unos ${perUnit} pasos por ${w.singular}. Tabla de conversión gratuita.`,
+    landingH1: (w, steps) =>
+      `¿${feminine(w) ? "Cuántas" : "Cuántos"} ${w.plural} son ${steps} pasos?`,
+    stepsCrumb: (steps) => `${steps} pasos`,
+    reference: (height, stride) =>
+      `un adulto de ${height} con una zancada de ${stride}`,
+    faqDistanceAnswer: (w, steps, distance, reference) =>
+      `${steps} pasos son unos ${distance} ${w.plural} para ${reference}. Las personas más altas recorren más distancia por paso.`,
+    faqPerUnitQuestion: (w) => `¿Cuántos pasos tiene ${a(w)} ${w.singular}?`,
+    faqPerUnitAnswer: (perUnit, reference, unitLength) =>
+      `Unos ${perUnit} pasos para ${reference}. Divide ${unitLength} entre la longitud de tu zancada para obtener tu cifra.`,
+    landingLead: (w, steps, distance, height, sex, stride) =>
+      `**${steps} pasos ≈ ${distance} ${w.plural}** para ${person(sex)} de ${height} con una zancada de ${stride}. Ajusta la altura abajo para obtener tu cifra.`,
+    indexLead: (w, perUnit) =>
+      `Con tu altura, **${perUnit} pasos equivalen a ${a(w)} ${w.singular}**. Introduce pasos o una distancia; el otro campo se actualiza con tu zancada a paso ligero.`,
+    convert: "Convertir",
+    steps: "Pasos",
+    distance: (w) => `Distancia (${w.plural})`,
+    height: (unit) => `Altura (${unit})`,
+    sex: "Sexo (para la zancada)",
+    stride: "Zancada",
+    stepsPer: (w, perUnit, other, perOther) =>
+      `Pasos por ${w.singular}: ${perUnit} · por ${other.singular}: ${perOther}`,
+    stepsEqual: (steps, distance, w) =>
+      `${steps} pasos = ${distance} ${w.plural}`,
+    seeCalories: (steps) => `Ver calorías quemadas con ${steps} pasos →`,
+    howItWorks: "Cómo funciona",
+    howItWorksText:
+      "La zancada se estima a partir de tu altura a paso ligero (5,6 km/h / 3,5 mph) con el mismo modelo que la calculadora: entre el 45 % y el 48 % de la altura, algo más en hombres. La distancia es pasos × zancada. La zancada se alarga al acelerar; para otro ritmo o una zancada medida, usa la calculadora completa.",
+    prefer: (w) => `¿Prefieres ${w.plural}?`,
+    stepsTo: (w) => `Pasos a ${w.plural}`,
+    byHeight: (steps, w) => `${steps} pasos en ${w.plural} según la altura`,
+    heightColumn: "Altura",
+    women: "Mujeres",
+    men: "Hombres",
+    tableHeading: (w) => `Tabla de conversión de pasos a ${w.plural}`,
+    tableFor: (height, sex, stride) =>
+      `Para ${person(sex)} de ${height} (zancada de ${stride}).`,
+    questions: "Preguntas",
+    popular: "Conversiones populares",
+    popularLink: (steps, w) => `${steps} pasos a ${w.plural}`,
+  },
+
+  /* ---------- Guides ---------- */
+  guides: {
+    indexTitle: "Guías para caminar",
+    indexDescription:
+      "Guías prácticas para caminar: crear el hábito diario, metas de pasos, calzado, clima, seguridad, entrenamientos en interior y caminar frente a trotar.",
+    updated: "Actualizado",
+    notFound: "Guía no encontrada",
+    more: "Más guías para caminar",
+    all: "Todas las guías →",
+  },
+
+  /* ---------- App updates & offline ---------- */
+  app: {
+    updateReady: "Hay una nueva versión de I Love Steps.",
+    reload: "Recargar",
+    later: "Más tarde",
+    offline:
+      "Estás sin conexión. La calculadora y tu registro de pasos siguen funcionando; las demás páginas se abrirán cuando vuelvas a tener conexión.",
+  },
+};
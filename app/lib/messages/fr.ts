@@ -0,0 +1,698 @@
+/* =========================================================
+   FRENCH MESSAGES
+========================================================= */
+import type { Messages, UnitWords } from "./en";
+
+// "mile" is masculine in French, like "kilomètre": un mile, un kilomètre
+const person = (sex: string) =>
+  sex === "female" ? "une femme" : sex === "male" ? "un homme" : "une personne";
+
+export const fr: Messages = {
+  common: {
+    calories: "calories",
+    cal: "kcal",
+    min: "min",
+    stepsPerMin: "pas/min",
+    sex: { male: "homme", female: "femme", unspecified: "adulte" },
+    sexButton: { male: "Homme", female: "Femme", unspecified: "Non précisé" },
+    unitSystems: { metric: "métrique", imperial: "impérial" },
+    body: (weight, height, sex) => `${sex}, ${weight}, ${height}`,
+    language: "Langue",
+    footer: "Outils gratuits pour la marche et le jogging",
+  },
+
+  paces: {
+    easy: "Marche tranquille (~4 km/h / 2,5 mph)",
+    brisk: "Marche rapide (~5,6 km/h / 3,5 mph)",
+    power: "Marche sportive (~6,9 km/h / 4,3 mph)",
+    jog: "Footing léger (~8 km/h / 5 mph)",
+  },
+  paceShort: {
+    easy: "tranquille",
+    brisk: "rapide",
+    power: "sportive",
+    jog: "footing",
+  },
+
+  /* ---------- Home page ---------- */
+  home: {
+    title:
+      "I Love Steps | Calculateur de calories brûlées en marchant, convertisseur pas-kilomètres et conseils",
+    description:
+      "Calculez les calories brûlées en marchant selon vos pas, votre allure, votre poids et votre taille. Convertissez vos pas en kilomètres et en miles. Découvrez combien de calories brûle la marche, comment fixer vos objectifs de pas et prendre l’habitude de marcher chaque jour. Gratuit, adapté au mobile, sans inscription.",
+    siteDescription:
+      "Outils de marche : calculateur de calories brûlées, convertisseur de pas en distance et guides pour une habitude de marche saine.",
+    topBar: (date) => `Outils de marche gratuits • Mis à jour le ${date}`,
+    heroTitle: "Comptez vos pas. Brûlez des calories. Sentez-vous mieux.",
+    heroIntro:
+      "Utilisez le calculateur gratuit pour estimer les **calories brûlées** selon vos pas, votre allure et votre poids. Convertissez automatiquement vos **pas en kilomètres**. Découvrez des conseils pratiques pour une habitude qui dure.",
+    ctaCalculate: "Calculer les calories brûlées",
+    ctaBenefits: "Bienfaits de la marche",
+    ctaLog: "Noter vos pas du jour",
+    glanceTitle: "En bref",
+    glance: [
+      "Calories brûlées selon les pas et l’allure",
+      "Pas ⇆ miles ⇆ kilomètres",
+      "Foulée calculée d’après la taille et l’allure",
+      "Comparaison marche rapide / tranquille",
+    ],
+    calculatorHeading: "Calories brûlées en marchant ou en courant",
+    relatedHeading:
+      "Autres outils gratuits de santé, de marche et de bien-être",
+    related: {
+      weightLoss:
+        "Conseils et calculateurs minceur pour brûler des calories en marchant, suivre vos progrès et rester motivé au quotidien.",
+      fitness:
+        "Des calories brûlées au TDEE et à l’IMC : planifiez des objectifs plus malins au fil de vos marches.",
+      habits:
+        "Installez une routine de pas régulière et suivez des séries qui mènent à de vrais résultats.",
+      timers:
+        "Minuteurs d’intervalles et d’entraînement, parfaits pour vos marches ou vos pauses cardio à la maison.",
+      typing:
+        "Entraînez votre esprit les jours de repos : cours de dactylographie avec une posture qui ménage les poignets.",
+      wordGames:
+        "Gardez le cerveau actif : les jeux de mots vont de pair avec une routine de pas saine.",
+      morse:
+        "Convertissez du texte en morse : une énigme amusante pour votre pause marche.",
+      textConverters:
+        "Des outils pratiques pour mettre en forme du texte et faire des conversions rapides.",
+    },
+    benefitsHeading: "Les bienfaits de la marche",
+    benefits: [
+      "La marche est simple mais efficace : elle renforce le cœur, améliore la glycémie, fortifie articulations et muscles, favorise l’humeur et le sommeil et aide à contrôler le poids, sans aucun équipement.",
+      "La régularité l’emporte sur l’intensité : 20 à 30 minutes de marche la plupart des jours peuvent brûler des milliers de calories sur un an, avec un risque de blessure minime.",
+    ],
+    benefitsList: [
+      "Soutient le cœur et les poumons",
+      "Améliore la sensibilité à l’insuline",
+      "Renforce l’équilibre et la souplesse",
+      "Réduit le stress et l’anxiété",
+    ],
+    guidesHeading: "Guides, conseils et stratégies pour vos objectifs de pas",
+    guidesIntro:
+      "Que vous commenciez une **routine de marche quotidienne** ou visiez un nouveau **palier de pas**, la bonne approche rend la marche plus sûre, plus agréable et plus efficace pour brûler des calories. Voici quelques-uns des sujets les plus recherchés pour améliorer votre *régularité, votre endurance et votre perte de poids*.",
+    browseGuides: "Voir tous les guides de marche →",
+    guidesOutro:
+      "La marche est l’un des **exercices cardio à faible impact** les plus accessibles, idéal pour les débutants, les seniors et toute personne qui reprend après une blessure. Commencez doucement, progressez par étapes et suivez vos *calories brûlées* pour rester motivé.",
+    plannerHeading: "Planifiez la progression de vos pas",
+    plannerIntro:
+      "Saisissez votre moyenne quotidienne actuelle et un objectif pour obtenir un programme sûr, semaine par semaine, avec les calories de chaque semaine.",
+    byStepsHeading: "Calories brûlées selon les pas, la distance et l’allure",
+    byStepsReference: (body, easy, jog) =>
+      `Notre marcheur de référence (${body}) brûle environ **${easy} calories pour 1 000 pas** à allure tranquille et **${jog} calories** en footing léger. Le chiffre exact dépend du poids, du terrain et de la vitesse.`,
+    byStepsCalculator:
+      "Utilisez notre **calculateur de calories de marche** gratuit pour l’adapter à votre poids et à votre allure. Plus vous marchez vite ou plus la pente est raide, plus vous brûlez de calories par pas. Une fois votre profil enregistré, ce tableau est recalculé pour vous.",
+    byStepsTerrain:
+      "Ces estimations supposent un terrain plat. Les côtes ou un sac à dos peuvent augmenter la dépense de 10 à 20 %.",
+    howManyHeading: "Combien de calories brûle la marche ?",
+    howMany: [
+      "Les calories brûlées en marchant dépendent de votre poids, de votre allure, du terrain, de la distance et du nombre de pas. En général, une marche rapide à 5,6 km/h brûle environ **250 à 350 calories par heure** pour une personne de 70 kg. Une marche sportive ou un footing léger peut dépasser 400 calories par heure.",
+      "Notre calculateur utilise les **MET** standard (équivalents métaboliques) pour estimer les calories à chaque allure et ajuste automatiquement la foulée selon la taille et la vitesse. La distance et les calories affichées sont donc plus précises que la règle « 2 000 pas = 1 mile ».",
+    ],
+    distanceHeading: "Guide des pas en kilomètres et de la distance",
+    distance: [
+      "Convertir ses pas en distance aide à se fixer des objectifs quotidiens réalistes. Pour la plupart des adultes, **2 000 pas ≈ 1 mile** (≈ 1,6 km), mais la foulée varie selon la taille et la façon de marcher. Les personnes plus grandes couvrent généralement plus de terrain à chaque pas.",
+      "I Love Steps estime automatiquement votre foulée à partir de votre taille et de votre vitesse de marche (la foulée s’allonge quand on accélère), pour que les kilomètres ou miles affichés correspondent à votre marche réelle. Vous pouvez aussi saisir une foulée personnalisée si vous la connaissez précisément.",
+    ],
+    converterLinks: (miles, km, tenK) =>
+      `Pour une réponse rapide sans les calories, utilisez le convertisseur [pas en kilomètres](${km}) ou [pas en miles](${miles}), avec des tableaux par taille pour des valeurs courantes comme [10 000 pas](${tenK}).`,
+    weightLossHeading: "Marcher pour maigrir et pour la santé",
+    weightLoss: [
+      "Marcher régulièrement est l’un des moyens les plus simples de gérer son poids, de réduire le stress et d’améliorer sa forme cardiovasculaire sans équipement. Les études montrent que **30 minutes de marche rapide la plupart des jours** aident à maintenir un indice de masse corporelle (IMC) sain et à perdre progressivement de la graisse avec une alimentation équilibrée.",
+      "Que votre objectif soit **10 000 pas par jour** ou simplement une balade de 15 minutes après les repas, les petites habitudes s’additionnent en bénéfices mesurables. Notre calculateur gratuit vous montre exactement combien de calories chaque marche apporte à votre objectif hebdomadaire.",
+    ],
+    projectionHeading: "Estimez votre perte de poids grâce à la marche",
+    faqHeading: "Questions fréquentes",
+    disclaimer:
+      "**Avertissement :** I Love Steps propose du contenu éducatif et des outils de bien-être général pour en apprendre davantage sur la marche, le comptage des pas, les calories brûlées et les habitudes de mouvement saines. Tous les calculateurs utilisent des formules MET reconnues et des estimations de foulée, à titre purement informatif. Les résultats ne sont pas exacts et la dépense énergétique varie selon l’âge, la condition physique, la biomécanique, le terrain, les chaussures et l’état de santé général. Rien sur ce site ne vise à diagnostiquer, traiter ou remplacer l’avis d’un professionnel de santé ou d’un entraîneur. Si vous avez des problèmes de santé, êtes enceinte, vous remettez d’une blessure ou commencez un nouveau programme d’exercice, consultez un professionnel qualifié avant de modifier vos habitudes.",
+  },
+
+  /* ---------- Calories calculator ---------- */
+  calculator: {
+    title: "Calculateur de calories brûlées (marche et jogging)",
+    intro:
+      "Indiquez ce que vous savez – pas, distance ou durée – ainsi que vos mensurations pour estimer les calories brûlées.",
+    modes: { steps: "pas", distance: "distance", time: "durée" },
+    weight: (unit) => `Poids (${unit})`,
+    height: (unit) => `Taille (${unit}, pour la foulée)`,
+    steps: "Pas",
+    distance: (unit) => `Distance (${unit})`,
+    time: "Durée (minutes)",
+    pace: "Allure",
+    speed: (unit) => `Vitesse (${unit})`,
+    paceDecimal: (unit) => `Allure (${unit}, minutes décimales)`,
+    sex: "Sexe (pour la foulée)",
+    customStride: "Utiliser une foulée personnalisée",
+    strideLength: (unit) => `Longueur de foulée (${unit})`,
+    autoStride: (stride) => `Foulée automatique ≈ ${stride}`,
+    useCalibrated: "Utiliser ma foulée calibrée",
+    calibratedStride: (stride) =>
+      `Foulée mesurée pour cette allure : ${stride}`,
+    calibrate: "Mesurer ma foulée",
+    hills: "Dénivelé et sac à dos (facultatif)",
+    incline: (grade) => `Pente : ${grade} %`,
+    inclineHint:
+      "Les valeurs négatives correspondent à une descente. Une rue raide fait ~10 %.",
+    load: (unit) => `Charge portée (${unit})`,
+    remember: "Mémoriser mon profil sur cet appareil",
+    rememberHint:
+      "Enregistre unités, poids, taille, sexe, foulée et allure dans ce navigateur uniquement. Rien n’est envoyé à un serveur.",
+    linkKeepsProfile:
+      "Cette page affiche les valeurs d’un lien partagé : votre profil enregistré reste donc inchangé. Cochez la case pour enregistrer ces valeurs à la place.",
+    clearProfile: "Effacer le profil enregistré",
+    reset: "Valeurs par défaut",
+    copied: "Lien copié !",
+    copyLink: "Copier le lien de partage",
+    report: "Rapport d’une page pour vos clients :",
+    reportPage: "version imprimable",
+    results: "Résultats",
+    flatGround: "Terrain plat (MET)",
+    withGradeLoad: "Avec pente et charge (Pandolf)",
+    vsFlat: (pct) => `${pct} % par rapport au plat`,
+    resultSteps: "Pas",
+    resultDistance: "Distance",
+    resultDuration: "Durée",
+    resultSpeed: "Vitesse",
+    resultMets: "MET utilisés",
+    metsSource: (source) => `(Compendium des activités physiques, ${source})`,
+    yourSpeed: "votre vitesse",
+    preset: (pace) => `allure « ${pace} »`,
+    resultCadence: "Cadence",
+    practiceCadence: "S’entraîner à cette cadence",
+    resultStride: "Foulée utilisée",
+    resultWeight: "Poids corporel",
+    exportTitle: "Exporter ce résultat",
+    exportHint:
+      "CSV pour les tableurs (colonnes métriques) ; JSON restaure ces mêmes valeurs plus tard.",
+    noCalculatorData: "Ce fichier ne contient pas de données du calculateur.",
+    restored: "Calculateur restauré.",
+    quickReference: "Repères rapides",
+    quickMetric: "~1 250 pas ≈ 1 km",
+    quickImperial: "~2 000 pas ≈ 1 mile",
+    quickBrisk: "Marche rapide ≈ 100 à 120 pas/min",
+    quickConsistency: "La régularité l’emporte sur l’intensité",
+  },
+
+  /* ---------- Steps → calories table ---------- */
+  caloriesTable: {
+    steps: "Pas",
+    distance: "Distance",
+    rowsLabel: "Nombres de pas à afficher",
+    rowsHint: "Séparez par des virgules ou des espaces, ex. 3000, 6000, 12000.",
+    forProfile: (body) => `Pour votre profil enregistré : ${body}.`,
+    forReference: (body) =>
+      `Pour le marcheur de référence : ${body}. Enregistrez votre profil dans le calculateur pour personnaliser.`,
+  },
+
+  /* ---------- Step-goal planner ---------- */
+  planner: {
+    title: "Planificateur d’objectif de pas",
+    intro: (pct) =>
+      `Progressez en douceur : chaque semaine ajoute au plus l’augmentation choisie, et jamais plus de ${pct} % par rapport à la semaine précédente.`,
+    current: "Moyenne actuelle (pas/jour)",
+    target: "Objectif (pas/jour)",
+    targetHint:
+      "7 000 à 9 000 pas/jour apportent déjà l’essentiel des bienfaits.",
+    maxIncrease: "Augmentation max. par semaine (pas/jour)",
+    maxIncreaseHint: "500 à 1 000 est courant.",
+    reached: (steps, week) =>
+      `Vous atteindrez ${steps} pas/jour la semaine ${week}.`,
+    notReached: (weeks, steps) =>
+      `Après ${weeks} semaines, vous seriez à ${steps} pas/jour. Essayez une augmentation plus forte ou un objectif plus proche.`,
+    week: "Semaine",
+    stepsPerDay: "Pas / jour",
+    change: "Variation",
+    stepsPerWeek: "Pas / semaine",
+    caloriesPerWeek: "Calories / semaine",
+  },
+
+  /* ---------- Weight-loss projection ---------- */
+  projection: {
+    title: "Projection de perte de poids",
+    startingWeight: (unit) => `Poids de départ (${unit})`,
+    stepsPerDay: "Pas par jour de marche",
+    pace: "Allure",
+    yourSpeed: (speed) => `Votre vitesse (${speed})`,
+    daysPerWeek: (days) => `Jours de marche par semaine : ${days}`,
+    deficit: "Déficit alimentaire (calories/jour, facultatif)",
+    deficitHint:
+      "Un déficit modéré de 250 à 500 calories/jour est tenable pour la plupart des adultes.",
+    length: (weeks) => `Durée de la projection : ${weeks} semaines`,
+    summary: (weeks, weight, lost) =>
+      `Après **${weeks} semaines** : **${weight}** (${lost} en moins)`,
+    chartLabel: (from, to, weeks) =>
+      `Poids prévu de ${from} à ${to} en ${weeks} semaines`,
+    weekTick: (week) => `sem. ${week}`,
+    assumptions:
+      "Hypothèse : ~7 700 calories par kg (3 500 par lb) de graisse perdue. Les calories de marche sont recalculées chaque semaine avec le poids plus bas, d’où une courbe qui s’aplatit. Les résultats réels varient selon l’appétit, la rétention d’eau et l’adaptation métabolique.",
+  },
+
+  /* ---------- Activity file import ---------- */
+  activityImport: {
+    reading: "Lecture de l’activité…",
+    prompt:
+      "Déposez un fichier GPX, TCX ou FIT de votre montre ou appli, ou cliquez pour en choisir un",
+    readError: "Impossible de lire ce fichier.",
+    errors: {
+      format: "Choisissez un fichier .gpx, .tcx ou .fit.",
+      xml: "Ce fichier n’est pas un XML valide.",
+      fit: "Le fichier FIT est endommagé.",
+      empty: "Aucun point de trace n’a été trouvé dans ce fichier.",
+    },
+    imported: (name, distance, minutes, climb, descent, grade) =>
+      `« ${name} » importé : ${distance} en ${minutes} min de déplacement, +${climb} m / −${descent} m (pente de montée ${grade} %)`,
+    cadence: (cadence) => `, cadence de ${cadence} pas/min`,
+  },
+
+  /* ---------- Export / restore ---------- */
+  dataExport: {
+    csv: "Télécharger en CSV",
+    json: "Télécharger en JSON",
+    restore: "Restaurer depuis un JSON",
+    restoreError: "Impossible de restaurer ce fichier.",
+    errors: {
+      json: "Ce fichier n’est pas un JSON valide.",
+      format: "Ce n’est pas un export I Love Steps.",
+      version: "Cet export provient d’une version plus récente du site.",
+      calculator: "Les données du calculateur sont absentes.",
+      stepLog: "Le journal de pas est absent.",
+      entryDate: (entry) =>
+        `L’entrée ${entry} du journal n’a pas de date valide.`,
+      entryRepeat: (entry, date) =>
+        `L’entrée ${entry} du journal répète le ${date}.`,
+      entrySteps: (entry) =>
+        `L’entrée ${entry} du journal a un nombre de pas invalide.`,
+      entryNote: (entry) => `L’entrée ${entry} du journal a une note invalide.`,
+      entryUpdatedAt: (entry) =>
+        `L’entrée ${entry} du journal a une heure de modification invalide.`,
+    },
+  },
+
+  /* ---------- Step log ---------- */
+  stepLog: {
+    title: "Journal de pas quotidien et séries | I Love Steps",
+    description:
+      "Notez vos pas chaque jour, suivez votre série en cours et la plus longue, et consultez vos totaux hebdomadaires et mensuels avec les calories brûlées. Enregistré en privé sur votre appareil.",
+    crumb: "Journal de pas",
+    heading: "Journal de pas quotidien",
+    intro:
+      "Notez vos pas chaque jour, entretenez votre série et regardez vos totaux hebdomadaires grimper. Les entrées restent sur cet appareil et fonctionnent hors ligne.",
+    unsupported:
+      "Ce navigateur ne prend pas en charge le stockage hors ligne (IndexedDB) : le journal de pas n’est pas disponible.",
+    storageError:
+      "Impossible d’ouvrir le stockage du journal de pas. La navigation privée le bloque parfois.",
+    saveError: (reason) =>
+      `Impossible d’enregistrer l’entrée sur cet appareil : ${reason}`,
+    deleteError: (reason) =>
+      `Impossible de supprimer l’entrée sur cet appareil : ${reason}`,
+    currentStreak: "Série en cours",
+    longestStreak: "Plus longue série",
+    days: (days) => (days <= 1 ? `${days} jour` : `${days} jours`),
+    thisWeek: "Cette semaine",
+    thisMonth: "Ce mois-ci",
+    aboutCalories: (calories) => `≈ ${calories} calories`,
+    addSteps: "Ajouter des pas",
+    editEntry: "Modifier l’entrée",
+    date: "Date",
+    steps: "Pas",
+    replaces: (steps) => `Remplace les ${steps} pas déjà notés pour ce jour.`,
+    note: "Note (facultatif)",
+    logSteps: "Noter les pas",
+    saveChanges: "Enregistrer",
+    cancel: "Annuler",
+    profileCalories:
+      "Les calories utilisent le profil enregistré dans le calculateur.",
+    referenceCalories: (href) =>
+      `Les calories supposent un marcheur de 70 kg et 170 cm à allure rapide. [Enregistrez votre profil](${href}) pour des chiffres personnalisés.`,
+    history: "Historique",
+    noStepLog: "Ce fichier ne contient pas de journal de pas.",
+    restored: (days) =>
+      `${days} jours restaurés. La sauvegarde a remplacé le journal de cet appareil.`,
+    empty:
+      "Aucune entrée pour l’instant. Notez les pas du jour pour lancer une série.",
+    calories: "Calories",
+    noteColumn: "Note",
+    edit: "Modifier",
+    delete: "Supprimer",
+    weeklyTotals: "Totaux hebdomadaires",
+    weekOf: (date) => `Semaine du ${date}`,
+    monthlyTotals: "Totaux mensuels",
+    total: (steps, calories) => `${steps} pas • ${calories} kcal`,
+  },
+
+  /* ---------- Health export import ---------- */
+  healthImport: {
+    title: "Importer depuis Apple Santé ou Google Fit",
+    help: "Apple Santé : Profil → Exporter toutes les données de santé, décompressez et choisissez `export.xml`. Google Fit : téléchargez votre Takeout et choisissez `Daily activity metrics.csv` (ou les CSV par jour). Le fichier est lu sur cet appareil et n’est jamais envoyé.",
+    readError: "Impossible de lire cet export.",
+    errors: {
+      noFile: "Choisissez un fichier à importer.",
+      format:
+        "Choisissez le fichier export.xml d’Apple Santé ou des fichiers .csv de Google Fit (décompressez l’export d’abord).",
+      mixed: "Importez séparément les fichiers d’Apple Santé et de Google Fit.",
+      stepColumn: (file) => `« ${file} » n’a pas de colonne « Step count ».`,
+      dateColumn: (file) =>
+        `« ${file} » n’a ni colonne de date ni date dans son nom.`,
+      noSteps: "Aucun nombre de pas n’a été trouvé dans cet export.",
+    },
+    reading: (pct) => `Lecture… ${pct} %`,
+    summary: (source, days, from, to, records, steps) =>
+      `${source} : ${days} jours du ${from} au ${to} (${records} enregistrements), ${steps} pas au total.`,
+    date: "Date",
+    steps: "Pas",
+    distance: "Distance",
+    calories: "Calories",
+    alreadyLogged: "déjà noté",
+    replace: "Remplacer les jours déjà notés",
+    add: (days) => `Ajouter ${days} jours à mon journal de pas`,
+    saved: (days) => `${days} jours enregistrés.`,
+    saveError: (reason) =>
+      `Impossible d’enregistrer les jours sur cet appareil : ${reason}`,
+    note: (source) => `Importé depuis ${source}`,
+  },
+
+  /* ---------- Walk timer ---------- */
+  walkTimer: {
+    title:
+      "Minuteur de marche : fractionné, allure constante et progressif | I Love Steps",
+    description:
+      "Un minuteur de marche fractionnée gratuit, avec signaux sonores et vibrations à chaque changement d’allure, distance, pas et calories en direct, et un historique privé de vos marches.",
+    crumb: "Minuteur de marche",
+    heading: "Minuteur de marche",
+    intro:
+      "Choisissez un programme et appuyez sur Démarrer. Un bip montant vous dit d’accélérer, un bip descendant de ralentir, et la distance et les calories s’additionnent au fil de la marche.",
+    programs: {
+      intervals: {
+        name: "Fractionné",
+        blurb:
+          "Alternez portions rapides et tranquilles entre un échauffement et un retour au calme.",
+      },
+      steady: {
+        name: "Constant",
+        blurb: "Une seule allure pour toute la marche.",
+      },
+      ramp: {
+        name: "Progressif",
+        blurb: "Commencez tranquillement et montez d’allure par blocs égaux.",
+      },
+    },
+    program: "Programme",
+    rounds: "Séries",
+    fastPace: "Allure rapide",
+    fastSeconds: "Rapide (secondes)",
+    easyPace: "Allure tranquille",
+    easySeconds: "Tranquille (secondes)",
+    warmup: "Échauffement et retour au calme (minutes chacun)",
+    warmupHint: "Marchés à l’allure tranquille.",
+    pace: "Allure",
+    minutes: "Minutes",
+    topPace: "Allure maximale",
+    sound: "Signaux sonores",
+    vibrate: "Vibrer (sur les téléphones compatibles)",
+    planned: (time, distance, steps, calories) =>
+      `${time} au total • ≈ ${distance} • ${steps} pas • ${calories} calories`,
+    finished: "Terminé",
+    ready: "Prêt",
+    next: (pace, time) => `Ensuite : ${pace} pendant ${time}`,
+    lastStretch: "Dernière portion",
+    elapsed: (time) => `${time} écoulé`,
+    left: (time) => `${time} restant`,
+    distance: "Distance",
+    steps: "Pas",
+    calories: "Calories",
+    start: "Démarrer",
+    resume: "Reprendre",
+    pause: "Pause",
+    finishNow: "Terminer maintenant",
+    newWalk: "Nouvelle marche",
+    discard: "Abandonner",
+    saved: "Enregistrée.",
+    addedToLog: (steps, href) =>
+      `${steps} pas ont été ajoutés au [journal de pas du jour](${href}).`,
+    saveWalk: "Enregistrer la marche",
+    addToLog: (steps) => `Ajouter ${steps} pas au journal de pas`,
+    noStorage:
+      "Ce navigateur ne peut pas enregistrer de marches (IndexedDB n’est pas disponible).",
+    saveError: (reason) =>
+      `Impossible d’enregistrer la marche sur cet appareil : ${reason}`,
+    deleteError: (reason) =>
+      `Impossible de supprimer la marche sur cet appareil : ${reason}`,
+    estimates: (body, saved) =>
+      `Les estimations utilisent la vitesse et les MET prédéfinis de chaque portion pour ${saved ? "votre profil enregistré" : "le marcheur de référence"} (${body}). Gardez cette page ouverte : l’écran reste allumé pendant le minuteur, et les signaux peuvent être en retard si le téléphone se verrouille.`,
+    recent: "Marches récentes",
+    started: "Début",
+    time: "Durée",
+    delete: "Supprimer",
+  },
+
+  /* ---------- Cadence metronome ---------- */
+  metronome: {
+    title:
+      "Métronome de cadence pour la marche (pas par minute) | I Love Steps",
+    description:
+      "Un métronome pas par minute gratuit pour les marcheurs. Réglez le tempo d’après une allure ou une vitesse et votre foulée, accélérez-le progressivement et voyez quelle vitesse donne chaque cadence.",
+    crumb: "Métronome de cadence",
+    heading: "Métronome de cadence",
+    intro:
+      "Faites un pas à chaque clic. Réglez le tempo d’après une allure ou une vitesse et votre foulée, ou saisissez directement une cadence. La marche rapide correspond à environ 100–120 pas par minute pour la plupart des adultes.",
+    tempo: "Tempo",
+    sources: {
+      pace: "Allure prédéfinie",
+      speed: "Vitesse",
+      cadence: "Cadence",
+    },
+    pace: "Allure",
+    speed: (unit) => `Vitesse (${unit})`,
+    cadence: "Cadence (pas/min)",
+    withStride: (stride, bpm) =>
+      `Avec une foulée de ${stride}, cela fait **${bpm} pas/min**.`,
+    ramp: "Accélérer le tempo",
+    finishAt: "Finir à (pas/min)",
+    over: "Sur (minutes)",
+    strideFrom: {
+      strides: "vos foulées mesurées",
+      link: "le lien du calculateur",
+      profile: "votre profil enregistré",
+      reference: "le marcheur de référence",
+    },
+    changeStride: (source, calculator, calibrate) =>
+      `Foulée tirée de ${source}. Pour la changer, [modifiez-la dans le calculateur](${calculator}) ou [mesurez-la](${calibrate}).`,
+    rampLine: (from, to, minutes) => `${from} → ${to} sur ${minutes} min`,
+    start: "Démarrer",
+    stop: "Arrêter",
+    unsupported: "Ce navigateur ne peut pas lire le Web Audio.",
+    speedHeading: "Quelle vitesse donne cette cadence ?",
+    speedLine: (bpm, stride, speed, pace, preset) =>
+      `${bpm} pas/min × ${stride} ≈ **${speed}** (${pace}), le plus proche de l’allure « ${preset} ».`,
+    background:
+      "Les clics gardent le tempo dans un onglet en arrière-plan. Les changements faits pendant la lecture s’appliquent au clic suivant, et une accélération repart du début.",
+  },
+
+  /* ---------- Stride calibration ---------- */
+  strideCalibration: {
+    title: "Mesurer sa foulée : assistant de calibrage | I Love Steps",
+    description:
+      "Trouvez votre vraie longueur de foulée en marchant un tour de piste, un couloir de 20 m ou un parcours GPX enregistré et en comptant vos pas. Enregistrez une foulée par allure et le calculateur l’utilise.",
+    crumb: "Calibrage de la foulée",
+    heading: "Mesurez votre foulée",
+    intro: (stride, pace) =>
+      `Le calculateur estime votre foulée d’après votre taille et votre vitesse de marche (${stride} à allure ${pace} pour vous). Marcher une distance connue en comptant ses pas est bien plus précis. La foulée s’allonge quand on accélère : mesurez donc chaque allure à laquelle vous marchez.`,
+    methods: {
+      track: {
+        name: "Tour de piste",
+        blurb: "Une piste d’athlétisme standard de 400 m.",
+        steps: [
+          "Marchez dans le couloir intérieur (couloir 1), qui mesure 400 m.",
+          "Partez quelques pas avant la ligne pour être déjà à votre allure en la franchissant.",
+          "Comptez chaque pas jusqu’à repasser la ligne. Deux tours divisent par deux l’erreur de comptage.",
+        ],
+      },
+      hallway: {
+        name: "Couloir",
+        blurb: "Toute ligne droite mesurable de 20 m ou plus.",
+        steps: [
+          "Mesurez une ligne droite au mètre ruban et marquez les deux extrémités.",
+          "Partez quelques pas avant la première marque et continuez après la seconde, pour ne pas accélérer ni ralentir entre les deux.",
+          "Comptez vos pas entre les marques. Parcourez-la plusieurs fois et additionnez les comptes.",
+        ],
+      },
+      route: {
+        name: "Parcours GPX",
+        blurb: "Une marche enregistrée par votre téléphone ou votre montre.",
+        steps: [
+          "Enregistrez une marche d’au moins 1 km à allure régulière, en terrain dégagé où le GPS est précis.",
+          "Notez le nombre de pas du podomètre ou du téléphone au départ et à l’arrivée.",
+          "Importez le fichier GPX (TCX et FIT fonctionnent aussi) et saisissez les pas.",
+        ],
+      },
+    },
+    pickDistance: "1. Choisissez une distance",
+    walkAndCount: "2. Marchez-la en comptant",
+    paceWalked: "Allure de votre marche",
+    laps: "Tours",
+    inTotal: (distance) => `${distance} au total.`,
+    hallLength: (unit) => `Longueur entre les marques (${unit})`,
+    timesWalked: "Nombre de passages",
+    routeFile: "Fichier du parcours",
+    chooseFile: "Choisir un fichier .gpx",
+    readError: "Impossible de lire ce fichier.",
+    stepsCounted: "Pas comptés",
+    calculate: "Calculer ma foulée",
+    errors: {
+      distance: "Saisissez la distance parcourue.",
+      steps: "Saisissez le nombre de pas comptés.",
+      range: (stride, min, max) =>
+        `Cela donne une foulée de ${stride} cm, hors de la plage ${min}–${max} cm. Vérifiez la distance et le nombre de pas.`,
+    },
+    saveIt: "3. Enregistrez-la",
+    result: (distance, steps, stride, pace) =>
+      `${distance} m ÷ ${steps} pas = **${stride}** à allure ${pace}.`,
+    longer: (diff) =>
+      `C’est ${diff} de plus que l’estimation pour votre taille.`,
+    shorter: (diff) =>
+      `C’est ${diff} de moins que l’estimation pour votre taille.`,
+    saved: (href) =>
+      `Enregistrée sur cet appareil. Le [calculateur](${href}) l’utilise désormais quand cette allure est choisie.`,
+    save: "Enregistrer pour cette allure",
+    yours: "Vos foulées calibrées",
+    pace: "Allure",
+    stride: "Foulée",
+    measured: "Mesure",
+    measuredWith: (method, steps, date) => `${method}, ${steps} pas, ${date}`,
+    delete: "Supprimer",
+    between:
+      "Pour une allure non mesurée, le calculateur prend une valeur entre les allures voisines, ou la plus proche dont vous disposez.",
+    none: "Aucune pour l’instant. Tant que vous n’en enregistrez pas, le calculateur estime votre foulée d’après votre taille et votre vitesse.",
+  },
+
+  /* ---------- Printable / PDF report ---------- */
+  report: {
+    title: "Bilan de marche",
+    documentTitle: (client) =>
+      client
+        ? `Bilan de marche pour ${client} | I Love Steps`
+        : "Bilan de marche | I Love Steps",
+    preparedFor: (client) => `Préparé pour ${client}`,
+    print: "Imprimer",
+    pdf: "Télécharger le PDF",
+    edit: "Modifier dans le calculateur",
+    profile: "Profil et allure",
+    weight: "Poids",
+    height: "Taille",
+    sex: "Sexe",
+    stride: "Foulée",
+    measured: "mesurée",
+    estimated: "estimée d’après la taille et la vitesse",
+    pace: "Allure",
+    customSpeed: "Vitesse personnalisée",
+    paceValue: (name, speed, pace) => `${name} : ${speed} (${pace})`,
+    cadence: "Cadence",
+    grade: "Pente",
+    load: "Charge portée",
+    walk: (steps, distance, minutes, calories) =>
+      `${steps} pas ≈ ${distance} en ${minutes} min brûlent environ ${calories} kcal`,
+    withHills: (calories) =>
+      ` sur terrain plat, ${calories} kcal avec la pente et la charge.`,
+    table: "Pas → calories",
+    tableUnits: "(kcal · minutes)",
+    steps: "Pas",
+    distance: "Distance",
+    cell: (calories, minutes) => `${calories} · ${minutes} min`,
+    ramp: (from, to) => `Progression : ${from} → ${to} pas/jour`,
+    week: "Semaine",
+    dailySteps: "Pas/jour",
+    increase: "Hausse",
+    weeklySteps: "Pas/semaine",
+    weeklyKcal: "kcal/semaine",
+    notReached: (weeks) =>
+      `L’objectif n’est pas atteint en ${weeks} semaines à ce rythme.`,
+    method:
+      "Les estimations utilisent les MET du Compendium of Physical Activities (kcal = MET × 3,5 × kg × min / 200), une foulée estimée d’après la taille et la vitesse (ou votre foulée mesurée) et l’équation de Pandolf pour la pente et la charge. Les hausses hebdomadaires sont plafonnées à 10 %. Pour planifier, pas un avis médical. ilovesteps.com",
+  },
+
+  /* ---------- Steps ⇄ distance converters ---------- */
+  converter: {
+    units: {
+      mi: {
+        singular: "mile",
+        plural: "miles",
+        Singular: "mile",
+        Plural: "miles",
+      },
+      km: {
+        singular: "kilomètre",
+        plural: "kilomètres",
+        Singular: "kilomètre",
+        Plural: "kilomètres",
+      },
+    } satisfies Record<"mi" | "km", UnitWords>,
+    inches: "pouces",
+    toolName: (w) => `Convertisseur de pas en ${w.Plural}`,
+    landingTitle: (w, steps) => `Combien de ${w.Plural} font ${steps} pas ?`,
+    indexTitle: (tool, w) => `${tool} : combien de pas dans un ${w.Singular} ?`,
+    landingDescription: (w, steps, distance) =>
+      `${steps} pas font environ ${distance} ${w.plural} pour un adulte moyen. Voyez la distance selon votre taille et un tableau de conversion pas-${w.plural}.`,
+    indexDescription: (w, perUnit) =>
+      `Convertissez des pas en ${w.plural} et des ${w.plural} en pas grâce à une foulée estimée d’après votre taille en marche rapide. Environ ${perUnit} pas font un ${w.singular} pour un adulte moyen. Tableau de conversion gratuit.`,
+    landingH1: (w, steps) => `Combien de ${w.plural} font ${steps} pas ?`,
+    stepsCrumb: (steps) => `${steps} pas`,
+    reference: (height, stride) =>
+      `un adulte de ${height} avec une foulée de ${stride}`,
+    faqDistanceAnswer: (w, steps, distance, reference) =>
+      `${steps} pas font environ ${distance} ${w.plural} pour ${reference}. Les personnes plus grandes couvrent plus de terrain à chaque pas.`,
+    faqPerUnitQuestion: (w) =>
+      `Combien de pas y a-t-il dans un ${w.singular} ?`,
+    faqPerUnitAnswer: (perUnit, reference, unitLength) =>
+      `Environ ${perUnit} pas pour ${reference}. Divisez ${unitLength} par la longueur de votre foulée pour obtenir votre propre chiffre.`,
+    landingLead: (w, steps, distance, height, sex, stride) =>
+      `**${steps} pas ≈ ${distance} ${w.plural}** pour ${person(sex)} de ${height} avec une foulée de ${stride}. Ajustez la taille ci-dessous pour obtenir votre chiffre.`,
+    indexLead: (w, perUnit) =>
+      `À votre taille, environ **${perUnit} pas font un ${w.singular}**. Saisissez des pas ou une distance ; l’autre champ se met à jour avec votre foulée en marche rapide.`,
+    convert: "Convertir",
+    steps: "Pas",
+    distance: (w) => `Distance (${w.plural})`,
+    height: (unit) => `Taille (${unit})`,
+    sex: "Sexe (pour la foulée)",
+    stride: "Foulée",
+    stepsPer: (w, perUnit, other, perOther) =>
+      `Pas par ${w.singular} : ${perUnit} · par ${other.singular} : ${perOther}`,
+    stepsEqual: (steps, distance, w) =>
+      `${steps} pas = ${distance} ${w.plural}`,
+    seeCalories: (steps) => `Voir les calories brûlées pour ${steps} pas →`,
+    howItWorks: "Comment ça marche",
+    howItWorksText:
+      "La foulée est estimée d’après votre taille en marche rapide (5,6 km/h / 3,5 mph), avec le même modèle que le calculateur : environ 45 à 48 % de la taille, un peu plus pour les hommes. La distance vaut pas × foulée. La foulée s’allonge quand vous accélérez ; pour une autre allure ou une foulée mesurée, utilisez le calculateur complet.",
+    prefer: (w) => `Vous préférez les ${w.plural} ?`,
+    stepsTo: (w) => `Pas en ${w.plural}`,
+    byHeight: (steps, w) => `${steps} pas en ${w.plural} selon la taille`,
+    heightColumn: "Taille",
+    women: "Femmes",
+    men: "Hommes",
+    tableHeading: (w) => `Tableau de conversion des pas en ${w.plural}`,
+    tableFor: (height, sex, stride) =>
+      `Pour ${person(sex)} de ${height} (foulée de ${stride}).`,
+    questions: "Questions",
+    popular: "Conversions populaires",
+    popularLink: (steps, w) => `${steps} pas en ${w.plural}`,
+  },
+
+  /* ---------- Guides ---------- */
+  guides: {
+    indexTitle: "Guides de marche",
+    indexDescription:
+      "Guides pratiques de marche : prendre l’habitude au quotidien, objectifs de pas, chaussures, météo, sécurité, entraînement en intérieur et marche ou jogging.",
+    updated: "Mis à jour le",
+    notFound: "Guide introuvable",
+    more: "Autres guides de marche",
+    all: "Tous les guides →",
+  },
+
+  /* ---------- App updates & offline ---------- */
+  app: {
+    updateReady: "Une nouvelle version d’I Love Steps est prête.",
+    reload: "Recharger",
+    later: "Plus tard",
+    offline:
+      "Vous êtes hors ligne. Le calculateur et votre journal de pas fonctionnent toujours ; les autres pages s’ouvriront dès le retour de la connexion.",
+  },
+};
@@ -0,0 +1,29 @@
+/* =========================================================
+   MESSAGES
+   UI strings per locale. Components read the current locale
+   from the URL prefix, so server and client always agree.
+========================================================= */
+import { useLocation } from "react-router";
+import { DEFAULT_LOCALE, splitLocale, type Locale } from "../i18n";
+import { de } from "./de";
+import { en, type Messages } from "./en";
+import { es } from "./es";
+import { fr } from "./fr";
+
+export type { Messages, UnitWords } from "./en";
+
+const MESSAGES: Record<Locale, Messages> = { en, es, de, fr };
+
+export function messagesFor(locale: Locale): Messages {
+  return MESSAGES[locale];
+}
+
+/** Locale of the current page: "/de/guides" → "de", unprefixed → "en". */
+export function useLocale(): Locale {
+  const { pathname } = useLocation();
+  return splitLocale(pathname).locale ?? DEFAULT_LOCALE;
+}
+
+export function useMessages(): Messages {
+  return messagesFor(useLocale());
+}
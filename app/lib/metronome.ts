@@ -0,0 +1,119 @@
+/* =========================================================
+   CADENCE METRONOME
+   Clicks are scheduled ahead on the AudioContext clock, so
+   they land on time even when the timer that queues them
+   runs late. Browsers slow timers to about once a second in
+   a background tab, so the queue reaches further ahead while
+   the page is hidden. Browser-only; call unlockAudio() from
+   the click that starts it.
+========================================================= */
+import { audioContext, beep } from "./cues";
+import { clamp } from "./utils";
+
+export const MIN_BPM = 40;
+export const MAX_BPM = 220;
+
+/** Steady when `startBpm` equals `endBpm` or `rampSeconds` is 0. */
+export type TempoPlan = {
+  startBpm: number;
+  endBpm: number;
+  rampSeconds: number;
+};
+
+/** Tempo `seconds` into the plan: a straight line, then holds the end. */
+export function bpmAt(plan: TempoPlan, seconds: number) {
+  const start = clamp(plan.startBpm, MIN_BPM, MAX_BPM);
+  const end = clamp(plan.endBpm, MIN_BPM, MAX_BPM);
+  if (!(plan.rampSeconds > 0) || seconds >= plan.rampSeconds) return end;
+  return start + (end - start) * (Math.max(0, seconds) / plan.rampSeconds);
+}
+
+const TICK_MS = 25;
+const AHEAD_VISIBLE = 0.15; // s
+const AHEAD_HIDDEN = 3; // s; outlasts a throttled one-second timer
+const CLICK_HZ = 1000;
+const CLICK_MS = 50;
+
+export type Metronome = {
+  /** Switches to a new plan, which starts from the next click. */
+  update(plan: TempoPlan): void;
+  stop(): void;
+};
+
+/**
+ * Starts clicking at once. `onBeat` runs as each click sounds (late while
+ * the page is hidden), with its number and tempo. Null without Web Audio.
+ */
+export function startMetronome(
+  plan: TempoPlan,
+  onBeat?: (beat: number, bpm: number) => void
+): Metronome | null {
+  const ctx = audioContext();
+  if (!ctx) return null;
+
+  let current = plan;
+  let planStart = ctx.currentTime + 0.05;
+  let next = planStart;
+  let beat = 0;
+  let queue: { at: number; beat: number; bpm: number; osc: OscillatorNode }[] =
+    [];
+
+  const ahead = () =>
+    document.visibilityState === "hidden" ? AHEAD_HIDDEN : AHEAD_VISIBLE;
+
+  const tick = () => {
+    const now = ctx.currentTime;
+    while (queue.length && queue[0].at <= now) {
+      const played = queue.shift()!;
+      onBeat?.(played.beat, played.bpm);
+    }
+    // after a stall longer than the queue, skip the missed clicks
+    if (next < now) next = now + 0.02;
+    while (next < now + ahead()) {
+      const bpm = bpmAt(current, next - planStart);
+      queue.push({
+        at: next,
+        beat,
+        bpm,
+        osc: beep(ctx, CLICK_HZ, next, CLICK_MS),
+      });
+      next += 60 / bpm;
+      beat++;
+    }
+  };
+
+  // drop clicks queued at the old tempo and carry on from the first of them
+  const cancelQueued = () => {
+    const now = ctx.currentTime;
+    const pending = queue.filter((q) => q.at > now + 0.01);
+    for (const q of pending) {
+      q.osc.stop(0);
+      q.osc.disconnect();
+    }
+    queue = queue.filter((q) => !pending.includes(q));
+    if (pending.length) {
+      next = pending[0].at;
+      beat = pending[0].beat;
+    }
+  };
+
+  const timer = window.setInterval(tick, TICK_MS);
+  // fill the longer queue before the timers slow down
+  document.addEventListener("visibilitychange", tick);
+  tick();
+
+  return {
+    update(plan) {
+      cancelQueued();
+      current = plan;
+      planStart = next;
+      tick();
+    },
+    stop() {
+      window.clearInterval(timer);
+      document.removeEventListener("visibilitychange", tick);
+      cancelQueued();
+      queue = [];
+    },
+  };
+}
@@ -0,0 +1,194 @@
+/* =========================================================
+   MINIMAL PDF WRITER
+   Just enough of PDF 1.4 for text reports: the built-in
+   Helvetica faces (no embedding), lines, filled boxes and
+   several pages. Coordinates are points from the top-left.
+   No dependencies, so it runs in any server runtime.
+========================================================= */
+export type PdfFont = "regular" | "bold";
+export type PdfColor = [r: number, g: number, b: number]; // 0–255
+
+export type PdfTextOptions = {
+  size?: number;
+  font?: PdfFont;
+  color?: PdfColor;
+  align?: "left" | "right" | "center";
+};
+
+export const LETTER = { width: 612, height: 792 };
+
+/** Helvetica advance widths (1/1000 em) for ASCII 32–126, from the AFM. */
+// prettier-ignore
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const BOLD_FACTOR = 1.06; // Helvetica-Bold is close to a uniform widening
+
+/** Unicode → WinAnsi for the characters the site's copy actually uses. */
+const WIN_ANSI: Record<string, string> = {
+  "€": "\x80",
+  "…": "\x85",
+  "‘": "\x91",
+  "’": "\x92",
+  "“": "\x93",
+  "”": "\x94",
+  "•": "\x95",
+  "–": "\x96",
+  "—": "\x97",
+  "≈": "~",
+  "→": "->",
+  "≥": ">=",
+  "≤": "<=",
+  "\u202f": "\xa0", // fr-FR digit grouping
+  "−": "-",
+};
+
+function toWinAnsi(text: string) {
+  let out = "";
+  for (const ch of text) {
+    const code = ch.charCodeAt(0);
+    if (WIN_ANSI[ch]) out += WIN_ANSI[ch];
+    else if (code >= 32 && code <= 126) out += ch;
+    else if (code >= 0xa0 && code <= 0xff)
+      out += ch; // Latin-1 matches
+    else out += "?";
+  }
+  return out;
+}
+
+export function textWidth(
+  text: string,
+  size: number,
+  font: PdfFont = "regular"
+) {
+  let units = 0;
+  for (const ch of toWinAnsi(text)) {
+    const code = ch.charCodeAt(0);
+    units += code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556;
+  }
+  return (units / 1000) * size * (font === "bold" ? BOLD_FACTOR : 1);
+}
+
+const num = (n: number) => String(Math.round(n * 100) / 100);
+const escape = (s: string) => s.replace(/([\\()])/g, "\\$1");
+const rgb = ([r, g, b]: PdfColor) =>
+  `${num(r / 255)} ${num(g / 255)} ${num(b / 255)}`;
+
+export class PdfDocument {
+  private pages: string[][] = [];
+  readonly width: number;
+  readonly height: number;
+
+  constructor(size = LETTER) {
+    this.width = size.width;
+    this.height = size.height;
+    this.addPage();
+  }
+
+  private get ops() {
+    return this.pages[this.pages.length - 1];
+  }
+
+  addPage() {
+    this.pages.push([]);
+  }
+
+  text(x: number, y: number, text: string, opts: PdfTextOptions = {}) {
+    const { size = 10, font = "regular", color = [0, 0, 0], align } = opts;
+    const w = textWidth(text, size, font);
+    const left = align === "right" ? x - w : align === "center" ? x - w / 2 : x;
+    this.ops.push(
+      `BT ${rgb(color)} rg /${font === "bold" ? "F2" : "F1"} ${num(size)} Tf ` +
+        `${num(left)} ${num(this.height - y - size)} Td (${escape(toWinAnsi(text))}) Tj ET`
+    );
+  }
+
+  line(
+    x1: number,
+    y1: number,
+    x2: number,
+    y2: number,
+    color: PdfColor = [0, 0, 0],
+    width = 0.5
+  ) {
+    this.ops.push(
+      `${rgb(color)} RG ${num(width)} w ${num(x1)} ${num(this.height - y1)} m ` +
+        `${num(x2)} ${num(this.height - y2)} l S`
+    );
+  }
+
+  /** Word-wrapped text; returns the y just below the last line. */
+  paragraph(
+    x: number,
+    y: number,
+    width: number,
+    text: string,
+    opts: PdfTextOptions & { lineHeight?: number } = {}
+  ) {
+    const size = opts.size ?? 10;
+    const lineHeight = opts.lineHeight ?? size * 1.35;
+    let line = "";
+    for (const word of text.split(/\s+/)) {
+      const next = line ? `${line} ${word}` : word;
+      if (line && textWidth(next, size, opts.font) > width) {
+        this.text(x, y, line, opts);
+        y += lineHeight;
+        line = word;
+      } else line = next;
+    }
+    if (line) this.text(x, y, line, opts);
+    return y + lineHeight;
+  }
+
+  rect(x: number, y: number, w: number, h: number, fill: PdfColor) {
+    this.ops.push(
+      `${rgb(fill)} rg ${num(x)} ${num(this.height - y - h)} ${num(w)} ${num(h)} re f`
+    );
+  }
+
+  /** Serializes the document; every byte is Latin-1 / WinAnsi. */
+  toBytes(): Uint8Array<ArrayBuffer> {
+    const objects: string[] = [];
+    const add = (body: string) => objects.push(body);
+    add("<< /Type /Catalog /Pages 2 0 R >>");
+    const pageIds = this.pages.map((_, i) => 5 + i * 2);
+    add(
+      `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${this.pages.length} >>`
+    );
+    add(
+      "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>"
+    );
+    add(
+      "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>"
+    );
+    for (const [i, ops] of this.pages.entries()) {
+      const content = ops.join("\n");
+      add(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${this.width} ${this.height}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`
+      );
+      add(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+    }
+
+    let out = "%PDF-1.4\n%\xe2\xe3\xcf\xd3\n";
+    const offsets = objects.map((body, i) => {
+      const offset = out.length;
+      out += `${i + 1} 0 obj\n${body}\nendobj\n`;
+      return offset;
+    });
+    const xref = out.length;
+    out +=
+      `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n` +
+      offsets.map((o) => `${String(o).padStart(10, "0")} 00000 n \n`).join("") +
+      `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+    const bytes = new Uint8Array(out.length);
+    for (let i = 0; i < out.length; i++) bytes[i] = out.charCodeAt(i) & 0xff;
+    return bytes;
+  }
+}
@@ -0,0 +1,54 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it } from "vitest";
+import { DEFAULT_CALCULATOR_STATE, parseCalculatorParams } from "./calculator";
+import {
+  applyProfile,
+  loadProfile,
+  profileFromState,
+  rememberProfile,
+  remembersOnLoad,
+  saveProfile,
+} from "./profile";
+
+const mine = profileFromState({
+  ...DEFAULT_CALCULATOR_STATE,
+  weight: 62,
+  height: 158,
+  sex: "female",
+});
+
+/** What the calculator does on mount, then on its first render's save. */
+function openPage(query: string) {
+  const params = new URLSearchParams(query);
+  const saved = loadProfile();
+  const remember = remembersOnLoad(saved, params);
+  let state = parseCalculatorParams(params);
+  if (remember && saved) state = applyProfile(state, saved);
+  rememberProfile(state, remember);
+  return state;
+}
+
+beforeEach(() => {
+  localStorage.clear();
+  saveProfile(mine);
+});
+
+describe("saved profile", () => {
+  it("fills a bare page and keeps saving it", () => {
+    const state = openPage("");
+    expect(profileFromState(state)).toEqual(mine);
+    expect(loadProfile()).toEqual(mine);
+  });
+
+  it("leaves the stored profile alone on a shared link", () => {
+    const state = openPage("steps=8000&weight=95&height=190&sex=male");
+    expect(state.weight).toBe(95);
+    expect(loadProfile()).toEqual(mine);
+  });
+
+  it("saves a shared link's values once remember is ticked again", () => {
+    const state = openPage("weight=95&height=190&sex=male");
+    rememberProfile(state, true);
+    expect(loadProfile()?.weight).toBe(95);
+  });
+});
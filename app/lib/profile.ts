@@ -0,0 +1,143 @@
+/* =========================================================
+   SAVED PROFILE
+   Body metrics remembered in localStorage ("remember me"),
+   and calibrated strides saved from /stride-calibration.
+   Browser-only: call from effects/handlers, never during render,
+   so the server HTML and first client render stay identical.
+========================================================= */
+import {
+  DEFAULT_CALCULATOR_STATE,
+  parseCalculatorParams,
+  toCalculatorParams,
+  type CalculatorState,
+} from "./calculator";
+import { STRIDE_LIMITS_CM, type StrideCalibrations } from "./strideCalibration";
+import { PACE, type PaceKey } from "./walking";
+
+export const PROFILE_STORAGE_KEY = "ilovesteps:profile:v1";
+export const STRIDES_STORAGE_KEY = "ilovesteps:strides:v1";
+
+export type Profile = Pick<
+  CalculatorState,
+  | "units"
+  | "weight"
+  | "height"
+  | "sex"
+  | "pace"
+  | "speed"
+  | "useCustomStride"
+  | "customStride"
+>;
+
+export function profileFromState(s: CalculatorState): Profile {
+  return {
+    units: s.units,
+    weight: s.weight,
+    height: s.height,
+    sex: s.sex,
+    pace: s.pace,
+    speed: s.speed,
+    useCustomStride: s.useCustomStride,
+    customStride: s.customStride,
+  };
+}
+
+export function applyProfile(s: CalculatorState, p: Profile): CalculatorState {
+  return { ...s, ...p };
+}
+
+/** Calculator state with the saved profile applied, or null if none. */
+export function loadProfileState(): CalculatorState | null {
+  const p = loadProfile();
+  return p ? applyProfile(DEFAULT_CALCULATOR_STATE, p) : null;
+}
+
+function storage() {
+  try {
+    return typeof window === "undefined" ? null : window.localStorage;
+  } catch {
+    return null; // disabled storage (privacy mode, sandboxed iframe)
+  }
+}
+
+export function loadProfile(): Profile | null {
+  const raw = storage()?.getItem(PROFILE_STORAGE_KEY);
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw) as Partial<CalculatorState>;
+    // run it through the URL codec so hand-edited or stale values are clamped
+    const state = parseCalculatorParams(
+      toCalculatorParams({ ...DEFAULT_CALCULATOR_STATE, ...parsed })
+    );
+    return profileFromState(state);
+  } catch {
+    return null;
+  }
+}
+
+export function saveProfile(p: Profile) {
+  try {
+    storage()?.setItem(PROFILE_STORAGE_KEY, JSON.stringify(p));
+  } catch {
+    // quota exceeded or storage disabled: remembering is best-effort
+  }
+}
+
+/**
+ * Whether "remember me" starts on: with a saved profile, except on a
+ * shared link. Its values are the sender's, so they mustn't overwrite
+ * the visitor's profile unless the visitor ticks the box again.
+ */
+export function remembersOnLoad(saved: Profile | null, query: URLSearchParams) {
+  return saved !== null && !query.toString();
+}
+
+/** Saves the calculator's profile while "remember me" is on. */
+export function rememberProfile(s: CalculatorState, remember: boolean) {
+  if (!remember) return false;
+  saveProfile(profileFromState(s));
+  return true;
+}
+
+export function clearProfile() {
+  storage()?.removeItem(PROFILE_STORAGE_KEY);
+}
+
+/* ---------- Calibrated strides ---------- */
+export type SavedStrides = {
+  /** Whether the calculator uses them; turned on by each calibration. */
+  use: boolean;
+  strides: StrideCalibrations;
+};
+
+export function loadStrides(): SavedStrides | null {
+  const raw = storage()?.getItem(STRIDES_STORAGE_KEY);
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw) as Partial<SavedStrides>;
+    const [min, max] = STRIDE_LIMITS_CM;
+    const strides: StrideCalibrations = {};
+    // keep only known paces with a plausible stride
+    for (const k of Object.keys(PACE) as PaceKey[]) {
+      const m = parsed.strides?.[k];
+      if (m && m.strideCm >= min && m.strideCm <= max) strides[k] = m;
+    }
+    return Object.keys(strides).length
+      ? { use: parsed.use !== false, strides }
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveStrides(s: SavedStrides) {
+  try {
+    if (Object.keys(s.strides).length) {
+      storage()?.setItem(STRIDES_STORAGE_KEY, JSON.stringify(s));
+    } else {
+      storage()?.removeItem(STRIDES_STORAGE_KEY);
+    }
+  } catch {
+    // best-effort, as for the profile
+  }
+}
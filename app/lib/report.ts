@@ -0,0 +1,238 @@
+/* =========================================================
+   WALKING REPORT
+   One-page client summary built from the shareable calculator
+   state plus a few report-only options. The HTML and PDF
+   renderers both read this, so they always agree.
+========================================================= */
+import {
+  calculateFromState,
+  parseCalculatorParams,
+  toCalculatorParams,
+  type CalculatorState,
+} from "./calculator";
+import {
+  DEFAULT_TABLE_STEPS,
+  buildCaloriesTable,
+  parseStepRows,
+  type CaloriesTableRow,
+} from "./caloriesTable";
+import { buildGoalPlan, type GoalPlan, type PlanWeek } from "./goalPlan";
+import {
+  DEFAULT_LOCALE,
+  formatInteger,
+  formatNumber,
+  isLocale,
+  type Locale,
+} from "./i18n";
+import { messagesFor } from "./messages";
+import {
+  UNIT_LABELS,
+  formatDistance,
+  formatLength,
+  formatMinutes,
+  formatWeight,
+  lengthToCm,
+  speedFromMph,
+  speedPaceSwap,
+  weightToKg,
+} from "./units";
+import { clamp } from "./utils";
+
+export type ReportOptions = {
+  client: string; // optional name printed in the header
+  currentSteps: number; // today's daily average, start of the ramp
+  goalSteps: number;
+  maxWeeklyIncrease: number;
+  stepRows: number[];
+  locale: Locale; // language of the report's copy and numbers
+};
+
+export const DEFAULT_REPORT_OPTIONS: ReportOptions = {
+  client: "",
+  currentSteps: 4000,
+  goalSteps: 10000,
+  maxWeeklyIncrease: 1000,
+  stepRows: DEFAULT_TABLE_STEPS,
+  locale: DEFAULT_LOCALE,
+};
+
+/** Query keys on top of the calculator's own; kept stable for shared links. */
+const REPORT_PARAM_KEYS = {
+  client: "client",
+  currentSteps: "current",
+  goalSteps: "goal",
+  maxWeeklyIncrease: "ramp",
+  stepRows: "rows",
+  locale: "lang",
+} as const;
+
+const MAX_CLIENT_LENGTH = 80;
+
+export type WalkingReport = {
+  generatedAt: string; // ISO
+  state: CalculatorState;
+  options: ReportOptions;
+  result: ReturnType<typeof calculateFromState>;
+  table: CaloriesTableRow[];
+  plan: GoalPlan;
+};
+
+export function parseReportParams(params: URLSearchParams): {
+  state: CalculatorState;
+  options: ReportOptions;
+} {
+  const d = DEFAULT_REPORT_OPTIONS;
+  const int = (key: string, fallback: number, max: number) => {
+    const n = Number(params.get(key) ?? "");
+    return params.get(key) && Number.isFinite(n)
+      ? clamp(Math.round(n), 0, max)
+      : fallback;
+  };
+  const rows = parseStepRows(params.get(REPORT_PARAM_KEYS.stepRows) ?? "");
+  const locale = params.get(REPORT_PARAM_KEYS.locale);
+  return {
+    state: parseCalculatorParams(params),
+    options: {
+      client: (params.get(REPORT_PARAM_KEYS.client) ?? "")
+        .trim()
+        .slice(0, MAX_CLIENT_LENGTH),
+      currentSteps: int(REPORT_PARAM_KEYS.currentSteps, d.currentSteps, 50000),
+      goalSteps: int(REPORT_PARAM_KEYS.goalSteps, d.goalSteps, 50000),
+      maxWeeklyIncrease: int(
+        REPORT_PARAM_KEYS.maxWeeklyIncrease,
+        d.maxWeeklyIncrease,
+        5000
+      ),
+      stepRows: rows.length ? rows : d.stepRows,
+      locale: isLocale(locale) ? locale : d.locale,
+    },
+  };
+}
+
+/** Calculator params plus any report options that differ from the defaults. */
+export function toReportParams(
+  state: CalculatorState,
+  options: Partial<ReportOptions> = {}
+) {
+  const params = toCalculatorParams(state);
+  const o = { ...DEFAULT_REPORT_OPTIONS, ...options };
+  const d = DEFAULT_REPORT_OPTIONS;
+  if (o.client) params.set(REPORT_PARAM_KEYS.client, o.client);
+  for (const key of [
+    "currentSteps",
+    "goalSteps",
+    "maxWeeklyIncrease",
+  ] as const) {
+    if (o[key] !== d[key]) params.set(REPORT_PARAM_KEYS[key], String(o[key]));
+  }
+  if (o.stepRows.join() !== d.stepRows.join())
+    params.set(REPORT_PARAM_KEYS.stepRows, o.stepRows.join(","));
+  if (o.locale !== d.locale) params.set(REPORT_PARAM_KEYS.locale, o.locale);
+  return params;
+}
+
+export function buildReport(
+  state: CalculatorState,
+  options: ReportOptions,
+  now = new Date()
+): WalkingReport {
+  return {
+    generatedAt: now.toISOString(),
+    state,
+    options,
+    result: calculateFromState(state),
+    table: buildCaloriesTable(state, options.stepRows),
+    plan: buildGoalPlan(
+      {
+        currentSteps: options.currentSteps,
+        targetSteps: options.goalSteps,
+        maxWeeklyIncrease: options.maxWeeklyIncrease,
+      },
+      state
+    ),
+  };
+}
+
+/* ---------- Shared text ---------- */
+export function paceDescription(
+  s: CalculatorState,
+  mph: number,
+  locale: Locale
+) {
+  const m = messagesFor(locale);
+  const u = UNIT_LABELS[s.units];
+  const speed = speedFromMph(mph, s.units);
+  const name = s.pace === "custom" ? m.report.customSpeed : m.paces[s.pace];
+  return m.report.paceValue(
+    name.replace(/ \(.*\)$/, ""),
+    `${formatNumber(speed, locale, 1)} ${u.speed}`,
+    `${formatMinutes(speedPaceSwap(speed))} ${u.pace}`
+  );
+}
+
+/** Label/value pairs for the profile block, in display units. */
+export function reportProfileRows(r: WalkingReport): [string, string][] {
+  const { state: s, result, options } = r;
+  const { locale } = options;
+  const m = messagesFor(locale);
+  const t = m.report;
+  const rows: [string, string][] = [
+    [t.weight, formatWeight(weightToKg(s.weight, s.units), s.units, locale)],
+    [t.height, formatLength(lengthToCm(s.height, s.units), s.units, locale)],
+    [t.sex, m.common.sexButton[s.sex]],
+    [
+      t.stride,
+      `${formatLength(result.strideCm, s.units, locale)} (${s.useCustomStride ? t.measured : t.estimated})`,
+    ],
+    [t.pace, paceDescription(s, result.mph, locale)],
+    [
+      t.cadence,
+      `${formatInteger(result.cadence, locale)} ${m.common.stepsPerMin}`,
+    ],
+  ];
+  if (s.grade !== 0)
+    rows.push([
+      t.grade,
+      `${formatNumber(s.grade, locale, Number.isInteger(s.grade) ? 0 : 1)}%`,
+    ]);
+  if (s.load > 0)
+    rows.push([
+      t.load,
+      formatWeight(weightToKg(s.load, s.units), s.units, locale),
+    ]);
+  return rows;
+}
+
+/** The walk the calculator is set to, as one sentence. */
+export function reportWalkSummary(r: WalkingReport) {
+  const { state: s, result, options } = r;
+  const { locale } = options;
+  const t = messagesFor(locale).report;
+  const fmt = (n: number) => formatInteger(n, locale);
+  const hills = s.grade !== 0 || s.load > 0;
+  return (
+    t.walk(
+      fmt(result.steps),
+      formatDistance(result.distanceKm, s.units, 2, locale),
+      fmt(result.minutes),
+      fmt(result.calories)
+    ) + (hills ? t.withHills(fmt(result.loadGradeCalories)) : ".")
+  );
+}
+
+/**
+ * The ramp, thinned to fit one page: long plans keep week 1, then
+ * every nth week, and always the final one. `increase` is then the
+ * step-up since the previous row shown.
+ */
+export function reportPlanWeeks(plan: GoalPlan, max = 14): PlanWeek[] {
+  const weeks = plan.weeks;
+  if (weeks.length <= max) return weeks;
+  const every = Math.ceil((weeks.length - 1) / (max - 1));
+  return weeks
+    .filter((_, i) => i % every === 0 || i === weeks.length - 1)
+    .map((w, i, shown) => ({
+      ...w,
+      increase: i ? w.dailySteps - shown[i - 1].dailySteps : 0,
+    }));
+}
@@ -0,0 +1,192 @@
+/* =========================================================
+   WALKING REPORT → PDF
+   Lays out the same blocks as the printable HTML report on one
+   US Letter page with the built-in PDF writer.
+========================================================= */
+import { TABLE_PACES } from "./caloriesTable";
+import { formatDate, formatInteger, formatNumber } from "./i18n";
+import { messagesFor } from "./messages";
+import { PdfDocument, textWidth, type PdfColor } from "./pdf";
+import {
+  reportPlanWeeks,
+  reportProfileRows,
+  reportWalkSummary,
+  type WalkingReport,
+} from "./report";
+import { UNIT_LABELS, formatDistance, speedFromMph } from "./units";
+import { PACE } from "./walking";
+
+const MARGIN = 48;
+const EMERALD: PdfColor = [4, 120, 87];
+const EMERALD_DARK: PdfColor = [6, 78, 59];
+const EMERALD_LIGHT: PdfColor = [209, 250, 229];
+const RULE: PdfColor = [167, 243, 208];
+const MUTED: PdfColor = [75, 85, 99];
+
+type Column = { label: string; width: number; align?: "left" | "right" };
+
+/** Header row plus body rows; returns the y below the table. */
+function table(
+  pdf: PdfDocument,
+  y: number,
+  columns: Column[],
+  rows: string[][],
+  rowHeight = 16
+) {
+  const width = columns.reduce((n, c) => n + c.width, 0);
+  pdf.rect(MARGIN, y, width, rowHeight, EMERALD_LIGHT);
+  const cellX = (i: number) => {
+    const left = MARGIN + columns.slice(0, i).reduce((n, c) => n + c.width, 0);
+    return columns[i].align === "right"
+      ? left + columns[i].width - 6
+      : left + 6;
+  };
+  columns.forEach((c, i) =>
+    pdf.text(cellX(i), y + 4, c.label, {
+      size: 8.5,
+      font: "bold",
+      color: EMERALD_DARK,
+      align: c.align,
+    })
+  );
+  y += rowHeight;
+  for (const row of rows) {
+    row.forEach((cell, i) =>
+      pdf.text(cellX(i), y + 4, cell, { size: 9, align: columns[i].align })
+    );
+    y += rowHeight;
+    pdf.line(MARGIN, y, MARGIN + width, y, RULE);
+  }
+  return y;
+}
+
+function heading(pdf: PdfDocument, y: number, text: string) {
+  pdf.text(MARGIN, y, text, { size: 12, font: "bold", color: EMERALD_DARK });
+  return y + 20;
+}
+
+export function renderReportPdf(
+  report: WalkingReport
+): Uint8Array<ArrayBuffer> {
+  const pdf = new PdfDocument();
+  const { state: s, options } = report;
+  const { locale } = options;
+  const m = messagesFor(locale);
+  const t = m.report;
+  const fmt = (n: number) => formatInteger(n, locale);
+  const u = UNIT_LABELS[s.units];
+  const contentWidth = pdf.width - MARGIN * 2;
+  const generated = formatDate(report.generatedAt, locale);
+
+  // ---------- Header ----------
+  let y = MARGIN;
+  pdf.text(MARGIN, y, t.title, {
+    size: 20,
+    font: "bold",
+    color: EMERALD,
+  });
+  pdf.text(pdf.width - MARGIN, y + 2, "I Love Steps", {
+    size: 11,
+    font: "bold",
+    color: EMERALD,
+    align: "right",
+  });
+  pdf.text(pdf.width - MARGIN, y + 16, generated, {
+    size: 9,
+    color: MUTED,
+    align: "right",
+  });
+  y += 26;
+  if (options.client) {
+    pdf.text(MARGIN, y, t.preparedFor(options.client), { size: 11 });
+    y += 16;
+  }
+  pdf.line(MARGIN, y, pdf.width - MARGIN, y, EMERALD, 1);
+  y += 14;
+
+  // ---------- Profile ----------
+  y = heading(pdf, y, t.profile);
+  const rows = reportProfileRows(report);
+  const half = Math.ceil(rows.length / 2);
+  // Labels run longer in some languages; the values start after the widest.
+  const labelWidth =
+    Math.max(...rows.map(([label]) => textWidth(label, 9))) + 10;
+  rows.forEach(([label, value], i) => {
+    const x = MARGIN + (i < half ? 0 : contentWidth / 2);
+    const rowY = y + (i % half) * 15;
+    pdf.text(x, rowY, label, { size: 9, color: MUTED });
+    pdf.text(x + labelWidth, rowY, value, { size: 9.5 });
+  });
+  y += half * 15 + 6;
+  y = pdf.paragraph(MARGIN, y, contentWidth, reportWalkSummary(report), {
+    size: 10,
+    font: "bold",
+  });
+  y += 10;
+
+  // ---------- Steps → calories ----------
+  y = heading(pdf, y, `${t.table} ${t.tableUnits}`);
+  const paceWidth = (contentWidth - 70 - 80) / TABLE_PACES.length;
+  y = table(
+    pdf,
+    y,
+    [
+      { label: t.steps, width: 70, align: "right" },
+      { label: t.distance, width: 80, align: "right" },
+      ...TABLE_PACES.map((p) => ({
+        label: `${m.paceShort[p][0].toUpperCase()}${m.paceShort[p].slice(1)} ${formatNumber(speedFromMph(PACE[p].mph, s.units), locale, 1)} ${u.speed}`,
+        width: paceWidth,
+        align: "right" as const,
+      })),
+    ],
+    report.table.map((r) => [
+      fmt(r.steps),
+      formatDistance(r.distanceKm, s.units, 2, locale),
+      ...TABLE_PACES.map((p) =>
+        t.cell(fmt(r.cells[p].calories), fmt(r.cells[p].minutes))
+      ),
+    ])
+  );
+  y += 18;
+
+  // ---------- Goal ramp ----------
+  y = heading(
+    pdf,
+    y,
+    t.ramp(fmt(options.currentSteps), fmt(options.goalSteps))
+  );
+  y = table(
+    pdf,
+    y,
+    [
+      { label: t.week, width: 60, align: "right" },
+      { label: t.dailySteps, width: 110, align: "right" },
+      { label: t.increase, width: 100, align: "right" },
+      { label: t.weeklySteps, width: 120, align: "right" },
+      { label: t.weeklyKcal, width: contentWidth - 390, align: "right" },
+    ],
+    reportPlanWeeks(report.plan).map((w) => [
+      String(w.week),
+      fmt(w.dailySteps),
+      w.increase ? `+${fmt(w.increase)}` : "–",
+      fmt(w.weeklySteps),
+      fmt(w.weeklyCalories),
+    ]),
+    15
+  );
+  if (!report.plan.reachedTarget) {
+    y += 6;
+    pdf.text(MARGIN, y, t.notReached(report.plan.weeks.length), {
+      size: 9,
+      color: MUTED,
+    });
+  }
+
+  // ---------- Footer ----------
+  pdf.paragraph(MARGIN, pdf.height - MARGIN - 24, contentWidth, t.method, {
+    size: 8,
+    color: MUTED,
+  });
+
+  return pdf.toBytes();
+}
@@ -0,0 +1,26 @@
+/* =========================================================
+   SEO HELPERS
+   Canonical origin and the structured data shared by the
+   content pages (converters, guides).
+========================================================= */
+export const SITE_URL = "https://ilovesteps.com";
+export const SITE_NAME = "I Love Steps";
+
+/** One level of a breadcrumb trail; `path` is site-relative. */
+export type Crumb = { name: string; path: string };
+
+export function absoluteUrl(path: string) {
+  return `${SITE_URL}${path}`;
+}
+
+export function breadcrumbJsonLd(crumbs: Crumb[]) {
+  return {
+    "@type": "BreadcrumbList",
+    itemListElement: crumbs.map((c, i) => ({
+      "@type": "ListItem",
+      position: i + 1,
+      name: c.name,
+      item: absoluteUrl(c.path),
+    })),
+  };
+}
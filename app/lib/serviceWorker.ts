@@ -0,0 +1,68 @@
+/* =========================================================
+   SERVICE WORKER REGISTRATION
+   Browser-only. The worker itself is scripts/service-worker.js,
+   built to /sw.js; dev builds don't register it, so HMR and
+   fresh code are never shadowed by a cache.
+========================================================= */
+export const SERVICE_WORKER_URL = "/sw.js";
+
+/**
+ * Registers the worker and calls `onUpdate` when a newer build has
+ * installed and is waiting; the callback gets a function that switches
+ * to it and reloads. Returns a cleanup for the listeners it adds.
+ */
+export function registerServiceWorker(
+  onUpdate: (apply: () => void) => void
+): () => void {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) {
+    return () => {};
+  }
+  const sw = navigator.serviceWorker;
+  let registration: ServiceWorkerRegistration | undefined;
+
+  const offer = (worker: ServiceWorker) =>
+    onUpdate(() => worker.postMessage({ type: "SKIP_WAITING" }));
+
+  // the first install has nothing to replace, so no prompt then
+  const watch = (reg: ServiceWorkerRegistration) => {
+    if (reg.waiting && sw.controller) offer(reg.waiting);
+    reg.addEventListener("updatefound", () => {
+      const worker = reg.installing;
+      worker?.addEventListener("statechange", () => {
+        if (worker.state === "installed" && sw.controller) offer(worker);
+      });
+    });
+  };
+
+  // first install claims the page too; only a replaced build reloads
+  const hadController = !!sw.controller;
+  let reloading = false;
+  const onControllerChange = () => {
+    if (!hadController || reloading) return;
+    reloading = true;
+    window.location.reload();
+  };
+  // phones keep the tab for days; look for a new build on return
+  const onVisible = () => {
+    if (document.visibilityState !== "visible") return;
+    registration?.update().catch(() => {
+      // offline, or the server is down: try again on the next return
+    });
+  };
+
+  sw.register(SERVICE_WORKER_URL)
+    .then((reg) => {
+      registration = reg;
+      watch(reg);
+    })
+    .catch(() => {
+      // unsupported context (private mode, file://): the site still works
+    });
+  sw.addEventListener("controllerchange", onControllerChange);
+  document.addEventListener("visibilitychange", onVisible);
+
+  return () => {
+    sw.removeEventListener("controllerchange", onControllerChange);
+    document.removeEventListener("visibilitychange", onVisible);
+  };
+}
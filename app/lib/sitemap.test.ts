@@ -0,0 +1,111 @@
+import type { RouteConfigEntry } from "@react-router/dev/routes";
+import type { ServerBuild } from "react-router";
+import dates from "virtual:ilovesteps/source-dates";
+import { beforeAll, describe, expect, it } from "vitest";
+import routeConfig from "../routes";
+import { LOCALES, localizePath } from "./i18n";
+import { sitemapPages, type SitemapHandle, type SitemapPage } from "./sitemap";
+
+type RouteManifest = ServerBuild["routes"];
+type ManifestRoute = NonNullable<RouteManifest[string]>;
+type RouteModule = { default?: unknown; handle?: SitemapHandle };
+
+const ROUTE_MODULES = import.meta.glob<RouteModule>("../routes/*.{ts,tsx}");
+
+/** Manifest entries for app/routes.ts, with each route's real module. */
+async function manifestFor(
+  entries: RouteConfigEntry[],
+  parentId?: string
+): Promise<RouteManifest> {
+  const routes: RouteManifest = {};
+  for (const entry of entries) {
+    const id = entry.id ?? entry.file.replace(/\.tsx?$/, "");
+    const module = await ROUTE_MODULES[`../${entry.file}`]();
+    routes[id] = {
+      id,
+      parentId,
+      path: entry.path,
+      index: entry.index,
+      caseSensitive: entry.caseSensitive,
+      module: module as ManifestRoute["module"],
+    } as ManifestRoute;
+    Object.assign(routes, await manifestFor(entry.children ?? [], id));
+  }
+  return routes;
+}
+
+let manifest: RouteManifest;
+let pages: SitemapPage[];
+const paths = () => pages.map((p) => p.path);
+
+beforeAll(async () => {
+  manifest = await manifestFor(await routeConfig);
+  pages = sitemapPages(manifest, {
+    "routes/home": "2026-01-10",
+    "routes/metronome": "2026-02-03",
+    "lib/messages/en": "2026-01-01",
+    "lib/messages/de": "2026-03-15",
+  });
+}, 30_000);
+
+describe("sitemap", () => {
+  it("lists every public page route in app/routes.ts", () => {
+    const parents = new Set(Object.values(manifest).map((r) => r?.parentId));
+    let checked = 0;
+    for (const route of Object.values(manifest)) {
+      if (!route?.module.default || parents.has(route.id)) continue;
+      const handle = route.module.handle as SitemapHandle | undefined;
+      if (handle?.sitemap === false) continue;
+
+      const pattern = [route.parentId && manifest[route.parentId]?.path]
+        .concat(route.path)
+        .filter(Boolean)
+        .join("/");
+      const translated = pattern.startsWith(":lang?");
+      const segments = pattern.split("/").filter((s) => s && s !== ":lang?");
+      const required = segments.findIndex((s) => /^:[^?]*$/.test(s));
+      const base = `/${segments
+        .slice(0, required < 0 ? undefined : required)
+        .filter((s) => !s.startsWith(":"))
+        .join("/")}`;
+
+      for (const locale of translated ? LOCALES : (["en"] as const)) {
+        const path = localizePath(base, locale);
+        if (required < 0) expect(paths()).toContain(path);
+        else {
+          // e.g. guides/:slug: at least one page under the prefix
+          const prefix = path.endsWith("/") ? path : `${path}/`;
+          expect(paths().some((p) => p.startsWith(prefix))).toBe(true);
+        }
+      }
+      checked++;
+    }
+    expect(checked).toBeGreaterThanOrEqual(9);
+  });
+
+  it("leaves out resource routes", () => {
+    for (const path of ["/api/calc", "/report.pdf", "/sitemap.xml"]) {
+      expect(paths()).not.toContain(path);
+    }
+  });
+
+  it("lists no URL twice", () => {
+    expect(new Set(paths()).size).toBe(paths().length);
+  });
+
+  it("dates a page from its route and its locale's catalog", () => {
+    const at = (path: string) => pages.find((p) => p.path === path)?.lastmod;
+    expect(at("/")).toBe("2026-01-10");
+    expect(at("/de")).toBe("2026-03-15");
+    expect(at("/es")).toBe("2026-01-10");
+    expect(at("/metronome")).toBe("2026-02-03");
+    expect(at("/step-log")).toBe("2026-01-01");
+  });
+
+  it("has a build-time date for every route module and catalog", () => {
+    const ids = Object.keys(manifest).concat(
+      LOCALES.map((l) => `lib/messages/${l}`)
+    );
+    for (const id of ids) expect(dates[id]).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+  });
+});
@@ -0,0 +1,147 @@
+/* =========================================================
+   SITEMAP
+   Built from the live route manifest (the entries of
+   app/routes.ts) so a new page is listed without editing
+   anything here. Resource routes (no default component) are
+   skipped; dynamic routes expand to their content pages, and
+   routes under the `:lang?` layout to one URL per locale.
+   Dates come from the sources themselves (see SourceDates).
+========================================================= */
+import type { ServerBuild } from "react-router";
+import { GUIDES_PATH, guidePath } from "./guides";
+import { latestGuideUpdate, listGuides } from "./guides.server";
+import { DEFAULT_LOCALE, LOCALES, localizePath, type Locale } from "./i18n";
+import { absoluteUrl } from "./seo";
+import { landingPaths } from "./stepConversion";
+
+/** Route `handle` read by the sitemap: `sitemap: false` leaves it out. */
+export type SitemapHandle = { sitemap?: false };
+
+/**
+ * When each source file last changed (YYYY-MM-DD), keyed like route ids
+ * ("routes/home", "lib/messages/es"). Built from git at build time by
+ * scripts/source-dates-plugin.ts.
+ */
+export type SourceDates = Record<string, string>;
+
+export type SitemapPage = { path: string; lastmod?: string };
+
+type RouteManifest = ServerBuild["routes"];
+
+/** Leading segment of the routes that exist in every locale. */
+const LOCALE_SEGMENT = ":lang?";
+
+/**
+ * Pages for routes whose URLs or dates come from content, keyed by the
+ * route's pattern (without the locale segment). They replace the route's
+ * own entry. A route with a required param must be listed here: the
+ * sitemap throws otherwise. Paths are unprefixed.
+ */
+const CONTENT_PAGES: Record<
+  string,
+  (lastmod: string | undefined, locale: Locale) => SitemapPage[]
+> = {
+  "steps-to-miles/:steps?": (lastmod) =>
+    ["/steps-to-miles", ...landingPaths("mi")].map((path) => ({
+      path,
+      lastmod,
+    })),
+  "steps-to-km/:steps?": (lastmod) =>
+    ["/steps-to-km", ...landingPaths("km")].map((path) => ({ path, lastmod })),
+  guides: (_, locale) => [
+    { path: GUIDES_PATH, lastmod: latestGuideUpdate(locale) },
+  ],
+  "guides/:slug": (_, locale) =>
+    listGuides(locale).map((g) => ({
+      path: guidePath(g.slug),
+      lastmod: g.updated,
+    })),
+};
+
+/** "guides/:slug" for a manifest entry, joining its parents' paths. */
+function routePattern(routes: RouteManifest, id: string): string {
+  const route = routes[id];
+  if (!route) return "";
+  const parent = route.parentId ? routePattern(routes, route.parentId) : "";
+  return [parent, route.path ?? ""].filter(Boolean).join("/");
+}
+
+/** The route's own URL: optional params and splats drop out. */
+function bare(segments: string[], lastmod?: string): SitemapPage {
+  if (segments.some((s) => s.startsWith(":") && !s.endsWith("?"))) {
+    throw new Error(`sitemap: no content pages for /${segments.join("/")}`);
+  }
+  const path = segments.filter((s) => !/^[:*]/.test(s)).join("/");
+  return { path: `/${path}`, lastmod };
+}
+
+/** The later of two YYYY-MM-DD dates; either may be missing. */
+function latest(a: string | undefined, b: string | undefined) {
+  return a && b ? (a > b ? a : b) : a || b;
+}
+
+export function sitemapPages(
+  routes: RouteManifest,
+  dates: SourceDates = {}
+): SitemapPage[] {
+  const pages: SitemapPage[] = [];
+  const parents = new Set(Object.values(routes).map((r) => r?.parentId));
+  for (const route of Object.values(routes)) {
+    if (!route || !route.module.default) continue;
+    // layout routes render children; their own path is listed by those
+    if (!route.index && (!route.path || parents.has(route.id))) continue;
+    const handle = route.module.handle as SitemapHandle | undefined;
+    if (handle?.sitemap === false) continue;
+
+    const segments = routePattern(routes, route.id).split("/").filter(Boolean);
+    const translated = segments[0] === LOCALE_SEGMENT;
+    if (translated) segments.shift();
+    const pattern = segments.join("/");
+
+    for (const locale of translated ? LOCALES : [DEFAULT_LOCALE]) {
+      // a translated page's copy lives in its locale's catalog
+      const lastmod = latest(
+        dates[route.id],
+        translated ? dates[`lib/messages/${locale}`] : undefined
+      );
+      const content = CONTENT_PAGES[pattern];
+      const own = content
+        ? content(lastmod, locale)
+        : [bare(segments, lastmod)];
+      pages.push(
+        ...own.map((p) => ({ ...p, path: localizePath(p.path, locale) }))
+      );
+    }
+  }
+  return pages.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+const escapeXml = (s: string) =>
+  s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+export function sitemapXml(pages: SitemapPage[]) {
+  const urls = pages.map(
+    (p) =>
+      `  <url>\n    <loc>${escapeXml(absoluteUrl(p.path))}</loc>\n` +
+      (p.lastmod ? `    <lastmod>${p.lastmod}</lastmod>\n` : "") +
+      "  </url>"
+  );
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...urls,
+    "</urlset>",
+    "",
+  ].join("\n");
+}
+
+export function robotsTxt() {
+  return [
+    "User-agent: *",
+    "Allow: /",
+    "Disallow: /api/",
+    "",
+    `Sitemap: ${absoluteUrl("/sitemap.xml")}`,
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,251 @@
+/* =========================================================
+   STEPS ⇄ DISTANCE CONVERTER
+   The /steps-to-miles and /steps-to-km pages: one config per
+   distance unit, the step counts that get their own landing
+   page, and the height-based stride conversions behind them.
+========================================================= */
+import { DEFAULT_CALCULATOR_STATE } from "./calculator";
+import { faqPageJsonLd, type FaqItem } from "./faq";
+import {
+  DEFAULT_LOCALE,
+  LOCALES,
+  alternateLinks,
+  formatInteger,
+  formatNumber,
+  localizePath,
+  type Locale,
+} from "./i18n";
+import { messagesFor } from "./messages";
+import { SITE_NAME, SITE_URL, breadcrumbJsonLd, type Crumb } from "./seo";
+import { formatLength, lengthToCm, type UnitSystem } from "./units";
+import {
+  KM_PER_MI,
+  PACE,
+  distanceKmFromSteps,
+  estimateStrideCm,
+  stepsFromDistanceKm,
+  type SexKey,
+} from "./walking";
+
+export type DistanceUnit = "mi" | "km";
+
+export type ConverterConfig = {
+  unit: DistanceUnit;
+  path: string; // no trailing slash, unprefixed
+  units: UnitSystem; // for height / stride inputs
+  other: DistanceUnit;
+};
+
+export const CONVERTERS: Record<DistanceUnit, ConverterConfig> = {
+  mi: {
+    unit: "mi",
+    path: "/steps-to-miles",
+    units: "imperial",
+    other: "km",
+  },
+  km: {
+    unit: "km",
+    path: "/steps-to-km",
+    units: "metric",
+    other: "mi",
+  },
+};
+
+/** Step counts with their own pre-rendered page, e.g. /steps-to-miles/10000. */
+export const LANDING_STEP_COUNTS = [
+  1000, 2000, 2500, 3000, 4000, 5000, 6000, 7000, 7500, 8000, 9000, 10000,
+  12000, 12500, 15000, 20000, 25000, 30000,
+];
+
+/** Rows of the on-page conversion table. */
+export const TABLE_STEP_COUNTS = [
+  1000, 2000, 3000, 4000, 5000, 6000, 7000, 8000, 9000, 10000, 12000, 15000,
+  20000,
+];
+
+export const MAX_LANDING_STEPS = 100000;
+
+/** Heights (cm) for the "by height" table on landing pages: 5'0"–6'4". */
+export const HEIGHT_ROWS_CM = [60, 62, 64, 66, 68, 70, 72, 74, 76].map(
+  (inches) => lengthToCm(inches, "imperial")
+);
+
+/** The converter's walking speed: the calculator's default brisk pace. */
+export const REFERENCE_MPH = PACE.brisk.mph;
+
+/** Stride for a height at REFERENCE_MPH, as the calculator would estimate it. */
+export function converterStrideCm(heightCm: number, sex: SexKey) {
+  return estimateStrideCm(heightCm, sex, REFERENCE_MPH);
+}
+
+/** Reference walker: the default calculator person (170 cm, sex not given). */
+export const REFERENCE_HEIGHT_CM = DEFAULT_CALCULATOR_STATE.height;
+export const REFERENCE_STRIDE_CM = converterStrideCm(
+  REFERENCE_HEIGHT_CM,
+  DEFAULT_CALCULATOR_STATE.sex
+);
+
+export function toUnitDistance(km: number, unit: DistanceUnit) {
+  return unit === "km" ? km : km / KM_PER_MI;
+}
+
+export function fromUnitDistance(d: number, unit: DistanceUnit) {
+  return unit === "km" ? d : d * KM_PER_MI;
+}
+
+export function stepsToDistance(
+  steps: number,
+  strideCm: number,
+  unit: DistanceUnit
+) {
+  return toUnitDistance(distanceKmFromSteps(steps, strideCm), unit);
+}
+
+export function distanceToSteps(
+  distance: number,
+  strideCm: number,
+  unit: DistanceUnit
+) {
+  return stepsFromDistanceKm(fromUnitDistance(distance, unit), strideCm);
+}
+
+/** Steps in one mile / kilometer for a stride. */
+export function stepsPerUnit(strideCm: number, unit: DistanceUnit) {
+  return distanceToSteps(1, strideCm, unit);
+}
+
+/**
+ * Route param → what to serve: a listed count gets its landing page; any
+ * other count up to MAX_LANDING_STEPS goes to the converter with the count
+ * filled in, so there is one URL per landing page; anything else is a 404.
+ */
+export function parseLandingSteps(
+  param: string
+): { steps: number } | { redirect: number } | null {
+  if (!/^[1-9]\d*$/.test(param)) return null;
+  const n = Number(param);
+  if (LANDING_STEP_COUNTS.includes(n)) return { steps: n };
+  return n <= MAX_LANDING_STEPS ? { redirect: n } : null;
+}
+
+/** Query key for a count that has no landing page (see parseLandingSteps). */
+export const STEPS_QUERY_KEY = "steps";
+
+/** Prerendered pages still get cached by the CDN when served by the server. */
+export const CONVERTER_CACHE_CONTROL =
+  "public, max-age=3600, s-maxage=604800, stale-while-revalidate=86400";
+
+/** The per-count pages of one converter, e.g. /steps-to-miles/10000. */
+export function landingPaths(unit: DistanceUnit) {
+  return LANDING_STEP_COUNTS.map((n) => `${CONVERTERS[unit].path}/${n}`);
+}
+
+/** Every converter page in every language, for the build-time prerender. */
+export function prerenderPaths() {
+  return LOCALES.flatMap((locale) =>
+    (["mi", "km"] as const).flatMap((unit) =>
+      [CONVERTERS[unit].path, ...landingPaths(unit)].map((path) =>
+        localizePath(path, locale)
+      )
+    )
+  );
+}
+
+/* ---------- SEO ---------- */
+/**
+ * Title, description, canonical URL and JSON-LD for a converter page;
+ * `steps` is set on the programmatic /steps-to-miles/10000 pages.
+ */
+export function converterSeo(
+  unit: DistanceUnit,
+  steps: number | null,
+  locale: Locale = DEFAULT_LOCALE
+) {
+  const c = CONVERTERS[unit];
+  const t = messagesFor(locale).converter;
+  const w = t.units[unit];
+  const int = (n: number) => formatInteger(n, locale);
+  const path = `${c.path}${steps ? `/${steps}` : ""}`;
+  const url = `${SITE_URL}${localizePath(path, locale)}`;
+  const toolName = t.toolName(w);
+  const refDistance = steps
+    ? formatNumber(stepsToDistance(steps, REFERENCE_STRIDE_CM, unit), locale, 2)
+    : "";
+  const perUnit = int(stepsPerUnit(REFERENCE_STRIDE_CM, unit));
+
+  const title = `${
+    steps ? t.landingTitle(w, int(steps)) : t.indexTitle(toolName, w)
+  } | ${SITE_NAME}`;
+  const description = steps
+    ? t.landingDescription(w, int(steps), refDistance)
+    : t.indexDescription(w, perUnit);
+  const h1 = steps ? t.landingH1(w, int(steps)) : toolName;
+
+  const breadcrumbs: Crumb[] = [
+    { name: SITE_NAME, path: localizePath("/", locale) },
+    { name: toolName, path: localizePath(c.path, locale) },
+    ...(steps
+      ? [{ name: t.stepsCrumb(int(steps)), path: localizePath(path, locale) }]
+      : []),
+  ];
+
+  // landing pages only; rendered on the page by <FaqList>
+  const reference = t.reference(
+    formatLength(REFERENCE_HEIGHT_CM, c.units, locale),
+    formatLength(REFERENCE_STRIDE_CM, c.units, locale)
+  );
+  const unitLength =
+    unit === "mi" ? `${int(63360)} ${t.inches}` : `${int(100000)} cm`;
+  const faq: FaqItem[] = steps
+    ? [
+        {
+          question: t.landingH1(w, int(steps)),
+          answer: t.faqDistanceAnswer(w, int(steps), refDistance, reference),
+        },
+        {
+          question: t.faqPerUnitQuestion(w),
+          answer: t.faqPerUnitAnswer(perUnit, reference, unitLength),
+        },
+      ]
+    : [];
+
+  const jsonLd = {
+    "@context": "https://schema.org",
+    "@graph": [
+      {
+        "@type": "WebApplication",
+        name: toolName,
+        url: `${SITE_URL}${localizePath(c.path, locale)}`,
+        inLanguage: locale,
+        applicationCategory: "HealthApplication",
+        operatingSystem: "Any",
+        offers: { "@type": "Offer", price: "0", priceCurrency: "USD" },
+      },
+      breadcrumbJsonLd(breadcrumbs),
+      ...(faq.length ? [faqPageJsonLd(faq)] : []),
+    ],
+  };
+
+  return { title, description, url, h1, toolName, breadcrumbs, faq, jsonLd };
+}
+
+/** meta() descriptors shared by both converter routes. */
+export function converterMeta(
+  unit: DistanceUnit,
+  steps: number | null,
+  locale: Locale = DEFAULT_LOCALE
+) {
+  const { title, description, url } = converterSeo(unit, steps, locale);
+  const path = `${CONVERTERS[unit].path}${steps ? `/${steps}` : ""}`;
+  return [
+    { title },
+    { name: "description", content: description },
+    { property: "og:title", content: title },
+    { property: "og:description", content: description },
+    { property: "og:type", content: "website" },
+    { property: "og:url", content: url },
+    { name: "twitter:card", content: "summary" },
+    { tagName: "link", rel: "canonical", href: url },
+    ...alternateLinks(path),
+  ];
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import {
+  addDays,
+  currentStreak,
+  isDateKey,
+  longestStreak,
+  monthlyTotals,
+  weekStart,
+  weeklyTotals,
+  type StepEntry,
+} from "./stepLog";
+
+const entry = (date: string, steps = 5000): StepEntry => ({
+  date,
+  steps,
+  updatedAt: `${date}T20:00:00.000Z`,
+});
+const log = (...dates: string[]) => dates.map((d) => entry(d));
+
+describe("dates", () => {
+  it("knows a real calendar day", () => {
+    expect(isDateKey("2026-02-28")).toBe(true);
+    expect(isDateKey("2026-2-28")).toBe(false);
+    expect(isDateKey(20260228)).toBe(false);
+  });
+
+  it("steps across months, years and DST changes", () => {
+    expect(addDays("2026-03-31", 1)).toBe("2026-04-01");
+    expect(addDays("2026-01-01", -1)).toBe("2025-12-31");
+    expect(addDays("2026-03-28", 2)).toBe("2026-03-30");
+  });
+
+  it("starts weeks on Monday", () => {
+    expect(weekStart("2026-06-07")).toBe("2026-06-01"); // Sunday
+    expect(weekStart("2026-06-01")).toBe("2026-06-01");
+  });
+});
+
+describe("currentStreak", () => {
+  const today = "2026-06-10";
+
+  it("counts back from today", () => {
+    expect(currentStreak(log("2026-06-08", "2026-06-09", today), today)).toBe(
+      3
+    );
+  });
+
+  it("keeps yesterday's streak until today is over", () => {
+    expect(currentStreak(log("2026-06-08", "2026-06-09"), today)).toBe(2);
+  });
+
+  it("stops at a gap", () => {
+    expect(currentStreak(log("2026-06-06", "2026-06-08", today), today)).toBe(
+      1
+    );
+    expect(currentStreak(log("2026-06-07", "2026-06-08"), today)).toBe(0);
+  });
+
+  it("ignores a day logged with no steps", () => {
+    const entries = [...log("2026-06-08"), entry("2026-06-09", 0)];
+    expect(currentStreak(entries, today)).toBe(0);
+  });
+});
+
+describe("longestStreak", () => {
+  it("finds the longest run on either side of a gap", () => {
+    const entries = log(
+      "2026-05-30",
+      "2026-05-31",
+      "2026-06-01",
+      "2026-06-03",
+      "2026-06-04"
+    );
+    expect(longestStreak(entries)).toBe(3);
+    expect(longestStreak([])).toBe(0);
+  });
+});
+
+describe("totals", () => {
+  const entries = [
+    entry("2026-05-31", 4000), // Sunday
+    entry("2026-06-01", 6000),
+    entry("2026-06-02", 7000),
+  ];
+
+  it("adds up each week, newest first", () => {
+    expect(weeklyTotals(entries)).toEqual([
+      { start: "2026-06-01", steps: 13000, days: 2 },
+      { start: "2026-05-25", steps: 4000, days: 1 },
+    ]);
+  });
+
+  it("adds up each month, newest first", () => {
+    expect(monthlyTotals(entries)).toEqual([
+      { start: "2026-06-01", steps: 13000, days: 2 },
+      { start: "2026-05-01", steps: 4000, days: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,113 @@
+/* =========================================================
+   STEP LOG
+   Pure helpers over a list of daily entries: dates, streaks,
+   weekly/monthly totals. Storage lives in stepLogDb.ts.
+   Dates are local calendar days as "YYYY-MM-DD".
+========================================================= */
+export type StepEntry = {
+  date: string; // YYYY-MM-DD, one entry per day
+  steps: number;
+  note?: string;
+  updatedAt: string; // ISO timestamp
+};
+
+export type PeriodTotal = { start: string; steps: number; days: number };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+/* ---------- Dates ---------- */
+export function isDateKey(v: unknown): v is string {
+  return typeof v === "string" && DATE_RE.test(v) && !isNaN(dayNumber(v));
+}
+
+export function toDateKey(d: Date) {
+  const y = d.getFullYear();
+  const m = String(d.getMonth() + 1).padStart(2, "0");
+  const day = String(d.getDate()).padStart(2, "0");
+  return `${y}-${m}-${day}`;
+}
+
+/** Days since the epoch; UTC-based so DST shifts never skip a day. */
+function dayNumber(key: string) {
+  const [y, m, d] = key.split("-").map(Number);
+  return Date.UTC(y, m - 1, d) / DAY_MS;
+}
+
+function fromDayNumber(n: number) {
+  return new Date(n * DAY_MS).toISOString().slice(0, 10);
+}
+
+export function addDays(key: string, days: number) {
+  return fromDayNumber(dayNumber(key) + days);
+}
+
+/** Monday of the ISO week containing `key`. */
+export function weekStart(key: string) {
+  const n = dayNumber(key);
+  const weekday = (new Date(n * DAY_MS).getUTCDay() + 6) % 7; // Mon = 0
+  return fromDayNumber(n - weekday);
+}
+
+export function monthStart(key: string) {
+  return `${key.slice(0, 7)}-01`;
+}
+
+/* ---------- Streaks ---------- */
+function activeDays(entries: StepEntry[]) {
+  return new Set(entries.filter((e) => e.steps > 0).map((e) => e.date));
+}
+
+/**
+ * Consecutive logged days ending today. A streak that ended yesterday
+ * still counts until today is over, so it isn't "lost" at breakfast.
+ */
+export function currentStreak(entries: StepEntry[], today: string) {
+  const days = activeDays(entries);
+  let cursor = days.has(today) ? today : addDays(today, -1);
+  let streak = 0;
+  while (days.has(cursor)) {
+    streak++;
+    cursor = addDays(cursor, -1);
+  }
+  return streak;
+}
+
+export function longestStreak(entries: StepEntry[]) {
+  const nums = [...activeDays(entries)].map(dayNumber).sort((a, b) => a - b);
+  let best = 0;
+  let run = 0;
+  nums.forEach((n, i) => {
+    run = i > 0 && n - nums[i - 1] === 1 ? run + 1 : 1;
+    best = Math.max(best, run);
+  });
+  return best;
+}
+
+/* ---------- Totals ---------- */
+function totalsBy(
+  entries: StepEntry[],
+  keyOf: (date: string) => string
+): PeriodTotal[] {
+  const map = new Map<string, PeriodTotal>();
+  for (const e of entries) {
+    const start = keyOf(e.date);
+    const t = map.get(start) ?? { start, steps: 0, days: 0 };
+    t.steps += e.steps;
+    t.days += 1;
+    map.set(start, t);
+  }
+  return [...map.values()].sort((a, b) => b.start.localeCompare(a.start));
+}
+
+export function weeklyTotals(entries: StepEntry[]) {
+  return totalsBy(entries, weekStart);
+}
+
+export function monthlyTotals(entries: StepEntry[]) {
+  return totalsBy(entries, monthStart);
+}
+
+export function sortEntries(entries: StepEntry[]) {
+  return [...entries].sort((a, b) => b.date.localeCompare(a.date));
+}
@@ -0,0 +1,154 @@
+/* =========================================================
+   STEP LOG STORAGE (IndexedDB)
+   Local-first: daily entries and timed walks never leave the
+   device. Browser-only, call from effects or event handlers.
+========================================================= */
+import type { StepEntry } from "./stepLog";
+import type { WalkRecord } from "./walkSession";
+
+const DB_NAME = "ilovesteps";
+const DB_VERSION = 2;
+const STEP_STORE = "stepLog";
+const WALK_STORE = "walks"; // added in version 2
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function isStepLogSupported() {
+  return typeof indexedDB !== "undefined";
+}
+
+function openDb() {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      let blocked = false;
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(STEP_STORE)) {
+          db.createObjectStore(STEP_STORE, { keyPath: "date" });
+        }
+        if (!db.objectStoreNames.contains(WALK_STORE)) {
+          db.createObjectStore(WALK_STORE, { keyPath: "id" });
+        }
+      };
+      req.onsuccess = () => {
+        const db = req.result;
+        if (blocked) {
+          db.close(); // already reported; reopen on next use
+          return;
+        }
+        // let a newer tab upgrade the schema; reopen on next use
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      req.onerror = () => {
+        dbPromise = null;
+        reject(req.error);
+      };
+      // an older tab keeps the previous version open and won't let go
+      req.onblocked = () => {
+        blocked = true;
+        dbPromise = null;
+        reject(
+          new DOMException(
+            "Close this site's other tabs to finish a storage upgrade.",
+            "BlockedError"
+          )
+        );
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function run<T>(
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T> | void,
+  storeName = STEP_STORE
+): Promise<T | undefined> {
+  return openDb().then(
+    (db) =>
+      new Promise((resolve, reject) => {
+        const tx = db.transaction(storeName, mode);
+        const req = fn(tx.objectStore(storeName));
+        tx.oncomplete = () => resolve(req ? req.result : undefined);
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+      })
+  );
+}
+
+export async function listEntries(): Promise<StepEntry[]> {
+  return (await run<StepEntry[]>("readonly", (s) => s.getAll())) ?? [];
+}
+
+export async function putEntry(entry: StepEntry) {
+  await run("readwrite", (s) => s.put(entry));
+}
+
+/** Writes many entries in one transaction (imports). */
+export async function putEntries(entries: StepEntry[]) {
+  await run("readwrite", (s) => {
+    for (const e of entries) s.put(e);
+  });
+}
+
+/**
+ * Swaps the whole log for `entries` (restoring a backup). One
+ * transaction, so a failed restore leaves the old log untouched.
+ */
+export async function replaceEntries(entries: StepEntry[]) {
+  await run("readwrite", (s) => {
+    s.clear();
+    for (const e of entries) s.put(e);
+  });
+}
+
+/**
+ * Saves an edited entry whose date changed, dropping the old day in the
+ * same transaction so the entry is never counted twice.
+ */
+export async function moveEntry(from: string, entry: StepEntry) {
+  await run("readwrite", (s) => {
+    s.delete(from);
+    s.put(entry);
+  });
+}
+
+export async function deleteEntry(date: string) {
+  await run("readwrite", (s) => s.delete(date));
+}
+
+/** Adds steps to a day's entry, creating it if needed; keeps its note. */
+export async function addSteps(date: string, steps: number) {
+  await run("readwrite", (s) => {
+    const req = s.get(date);
+    req.onsuccess = () => {
+      const prev = req.result as StepEntry | undefined;
+      s.put({
+        ...prev,
+        date,
+        steps: (prev?.steps ?? 0) + Math.round(steps),
+        updatedAt: new Date().toISOString(),
+      } satisfies StepEntry);
+    };
+  });
+}
+
+/* ---------- Timed walks ---------- */
+export async function listWalks(): Promise<WalkRecord[]> {
+  return (
+    (await run<WalkRecord[]>("readonly", (s) => s.getAll(), WALK_STORE)) ?? []
+  );
+}
+
+export async function putWalk(walk: WalkRecord) {
+  await run("readwrite", (s) => s.put(walk), WALK_STORE);
+}
+
+export async function deleteWalk(id: string) {
+  await run("readwrite", (s) => s.delete(id), WALK_STORE);
+}
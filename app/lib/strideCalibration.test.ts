@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import {
+  CalibrationError,
+  TRACK_LAP_M,
+  calibratedStrideCm,
+  measureStride,
+  type StrideCalibrations,
+} from "./strideCalibration";
+
+const at = new Date("2026-06-01T08:00:00Z");
+const stride = (strideCm: number) => measureStride(strideCm, 100, "track", at);
+
+describe("measureStride", () => {
+  it("divides the distance by the steps", () => {
+    expect(measureStride(TRACK_LAP_M, 560.4, "track", at)).toEqual({
+      strideCm: (TRACK_LAP_M * 100) / 560.4,
+      distanceM: TRACK_LAP_M,
+      steps: 560,
+      method: "track",
+      measuredAt: "2026-06-01T08:00:00.000Z",
+    });
+  });
+
+  it.each([
+    { distanceM: 0, steps: 30, reason: "distance" },
+    { distanceM: 20, steps: 0, reason: "steps" },
+    { distanceM: NaN, steps: 30, reason: "distance" },
+  ])("asks for a $reason that is missing", ({ distanceM, steps, reason }) => {
+    expect(() => measureStride(distanceM, steps, "hallway")).toThrow(
+      expect.objectContaining({ reason })
+    );
+  });
+
+  it.each([
+    { distanceM: 20, steps: 80, strideCm: 25 },
+    { distanceM: 400, steps: 200, strideCm: 200 },
+  ])(
+    "rejects a $strideCm cm stride as a miscount",
+    ({ distanceM, steps, strideCm }) => {
+      let error: unknown;
+      try {
+        measureStride(distanceM, steps, "route");
+      } catch (e) {
+        error = e;
+      }
+      expect(error).toBeInstanceOf(CalibrationError);
+      expect(error).toMatchObject({ reason: "range", strideCm });
+    }
+  );
+
+  it("keeps the limits themselves", () => {
+    expect(measureStride(30, 100, "route").strideCm).toBe(30);
+    expect(measureStride(160, 100, "route").strideCm).toBe(160);
+  });
+});
+
+describe("calibratedStrideCm", () => {
+  // easy is 2.5 mph, brisk 3.5, power 4.3
+  const calibrations: StrideCalibrations = {
+    easy: stride(60),
+    power: stride(84),
+  };
+
+  it("is null with nothing calibrated", () => {
+    expect(calibratedStrideCm({}, 3)).toBeNull();
+  });
+
+  it("uses a pace's own measurement", () => {
+    expect(calibratedStrideCm(calibrations, 2.5)).toBe(60);
+    expect(calibratedStrideCm(calibrations, 4.3)).toBe(84);
+  });
+
+  it("draws a straight line between the calibrated paces", () => {
+    expect(calibratedStrideCm(calibrations, 3.4)).toBeCloseTo(72, 5);
+  });
+
+  it("holds the nearest measurement beyond the ends", () => {
+    expect(calibratedStrideCm(calibrations, 2)).toBe(60);
+    expect(calibratedStrideCm(calibrations, 5)).toBe(84);
+    expect(calibratedStrideCm({ brisk: stride(70) }, 2)).toBe(70);
+  });
+});
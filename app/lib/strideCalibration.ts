@@ -0,0 +1,96 @@
+/* =========================================================
+   STRIDE CALIBRATION
+   A stride measured by walking a known distance and counting
+   the steps, kept per pace because stride lengthens with
+   speed. Pure; metres and centimetres.
+========================================================= */
+import { PACE, type PaceKey } from "./walking";
+
+export type CalibrationMethod = "track" | "hallway" | "route";
+
+export type StrideMeasurement = {
+  strideCm: number;
+  distanceM: number;
+  steps: number;
+  method: CalibrationMethod;
+  measuredAt: string; // ISO
+};
+
+export type StrideCalibrations = Partial<Record<PaceKey, StrideMeasurement>>;
+
+/** Standard outdoor track, measured along lane 1. */
+export const TRACK_LAP_M = 400;
+export const HALLWAY_DEFAULT_M = 20;
+
+/** Anything outside this is a miscount, not a stride. */
+export const STRIDE_LIMITS_CM = [30, 160] as const;
+
+/** `reason` lets the page word the problem in its own language. */
+export class CalibrationError extends Error {
+  constructor(
+    message: string,
+    readonly reason: "distance" | "steps" | "range",
+    readonly strideCm?: number
+  ) {
+    super(message);
+  }
+}
+
+export function measureStride(
+  distanceM: number,
+  steps: number,
+  method: CalibrationMethod,
+  measuredAt = new Date()
+): StrideMeasurement {
+  if (!(distanceM > 0)) {
+    throw new CalibrationError("Enter the distance you walked.", "distance");
+  }
+  if (!(steps > 0)) {
+    throw new CalibrationError(
+      "Enter the number of steps you counted.",
+      "steps"
+    );
+  }
+  const strideCm = (distanceM * 100) / steps;
+  const [min, max] = STRIDE_LIMITS_CM;
+  if (strideCm < min || strideCm > max) {
+    throw new CalibrationError(
+      `That works out to a ${Math.round(strideCm)} cm stride, which is outside ${min}–${max} cm. Check the distance and the step count.`,
+      "range",
+      strideCm
+    );
+  }
+  return {
+    strideCm,
+    distanceM,
+    steps: Math.round(steps),
+    method,
+    measuredAt: measuredAt.toISOString(),
+  };
+}
+
+/**
+ * Stride for a speed from the calibrated paces: the pace's own value,
+ * a straight line between the two calibrated paces around it, or the
+ * nearest one beyond the ends. Null when nothing is calibrated.
+ */
+export function calibratedStrideCm(
+  calibrations: StrideCalibrations,
+  mph: number
+): number | null {
+  const points = (Object.keys(PACE) as PaceKey[])
+    .flatMap((k) => {
+      const m = calibrations[k];
+      return m ? [[PACE[k].mph, m.strideCm] as const] : [];
+    })
+    .sort((a, b) => a[0] - b[0]);
+  if (!points.length) return null;
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (mph <= first[0]) return first[1];
+  if (mph >= last[0]) return last[1];
+  const i = points.findIndex(([s]) => s >= mph);
+  const [s0, c0] = points[i - 1];
+  const [s1, c1] = points[i];
+  return c0 + ((mph - s0) / (s1 - s0)) * (c1 - c0);
+}
@@ -0,0 +1,167 @@
+/* =========================================================
+   STRUCTURED DATA
+   The home page's JSON-LD, and checks that validate the JSON-LD
+   we emit against what schema.org and Google's rich-result docs
+   expect for the types this site uses. The checks run at build
+   time in scripts/check-structured-data.mjs.
+========================================================= */
+import { HOME_FAQ, faqPageJsonLd } from "./faq";
+import { localizePath, type Locale } from "./i18n";
+import { messagesFor } from "./messages";
+import { SITE_NAME, absoluteUrl } from "./seo";
+
+/** The home page's WebSite node and FAQ, in one @graph. */
+export function homeJsonLd(locale: Locale) {
+  return {
+    "@context": "https://schema.org",
+    "@graph": [
+      {
+        "@type": "WebSite",
+        name: SITE_NAME,
+        url: absoluteUrl(localizePath("/", locale)),
+        description: messagesFor(locale).home.siteDescription,
+        inLanguage: locale,
+      },
+      faqPageJsonLd(HOME_FAQ[locale]),
+    ],
+  };
+}
+
+type JsonLdNode = Record<string, unknown>;
+
+type TypeRule = {
+  required: string[];
+  check?: (node: JsonLdNode) => string[];
+};
+
+const isNode = (v: unknown): v is JsonLdNode =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(T[\d:.]+(Z|[+-]\d{2}:\d{2})?)?$/;
+const URL_FIELDS = ["url", "item", "mainEntityOfPage"];
+
+function typesIn(v: unknown) {
+  return (Array.isArray(v) ? v : [v]).map((n) =>
+    isNode(n) ? n["@type"] : undefined
+  );
+}
+
+const TYPES: Record<string, TypeRule> = {
+  WebSite: { required: ["name", "url"] },
+  WebApplication: { required: ["name", "url", "applicationCategory"] },
+  CollectionPage: { required: ["name", "url"] },
+  Organization: { required: ["name"] },
+  Offer: { required: ["price", "priceCurrency"] },
+  Article: {
+    required: ["headline", "author", "dateModified"],
+    check: (n) => {
+      const problems: string[] = [];
+      if (String(n.headline).length > 110) {
+        problems.push("headline is longer than 110 characters");
+      }
+      for (const key of ["datePublished", "dateModified"]) {
+        if (key in n && !ISO_DATE.test(String(n[key]))) {
+          problems.push(`${key} "${n[key]}" is not an ISO 8601 date`);
+        }
+      }
+      return problems;
+    },
+  },
+  BreadcrumbList: {
+    required: ["itemListElement"],
+    check: (n) => {
+      const items = n.itemListElement;
+      if (!Array.isArray(items) || items.length === 0) {
+        return ["itemListElement must be a non-empty list"];
+      }
+      return items.flatMap((item, i) =>
+        isNode(item) && item.position === i + 1
+          ? []
+          : [`itemListElement[${i}] should be a ListItem at position ${i + 1}`]
+      );
+    },
+  },
+  ListItem: { required: ["position", "name", "item"] },
+  FAQPage: {
+    required: ["mainEntity"],
+    check: (n) => {
+      const questions = n.mainEntity;
+      if (!Array.isArray(questions) || questions.length === 0) {
+        return ["mainEntity must be a non-empty list of Questions"];
+      }
+      const problems: string[] = [];
+      if (typesIn(questions).some((t) => t !== "Question")) {
+        problems.push("mainEntity may only hold Questions");
+      }
+      const names = questions.map((q) => (isNode(q) ? q.name : undefined));
+      if (new Set(names).size !== names.length) {
+        problems.push("questions must be unique");
+      }
+      return problems;
+    },
+  },
+  Question: {
+    required: ["name", "acceptedAnswer"],
+    check: (n) =>
+      typesIn(n.acceptedAnswer).every((t) => t === "Answer")
+        ? []
+        : ["acceptedAnswer must be an Answer"],
+  },
+  Answer: { required: ["text"] },
+};
+
+function validateNode(node: JsonLdNode, at: string): string[] {
+  const type = node["@type"];
+  const problems: string[] = [];
+
+  if (type !== undefined) {
+    const rule = typeof type === "string" ? TYPES[type] : undefined;
+    if (!rule) {
+      problems.push(`${at}: unexpected @type ${JSON.stringify(type)}`);
+    } else {
+      for (const key of rule.required) {
+        const v = node[key];
+        if (v === undefined || v === null) {
+          problems.push(`${at} (${type}): missing "${key}"`);
+        }
+      }
+      if (problems.length === 0 && rule.check) {
+        problems.push(...rule.check(node).map((p) => `${at} (${type}): ${p}`));
+      }
+    }
+  }
+
+  for (const [key, v] of Object.entries(node)) {
+    if (URL_FIELDS.includes(key) && typeof v === "string") {
+      if (!/^https:\/\/[^\s]+$/.test(v)) {
+        problems.push(`${at}.${key}: "${v}" is not an absolute https URL`);
+      }
+    }
+    if (typeof v === "string" && v.trim() === "") {
+      problems.push(`${at}.${key}: empty string`);
+    }
+    const children = Array.isArray(v) ? v : [v];
+    children.forEach((child, i) => {
+      if (!isNode(child)) return;
+      const path = Array.isArray(v) ? `${at}.${key}[${i}]` : `${at}.${key}`;
+      problems.push(...validateNode(child, path));
+    });
+  }
+  return problems;
+}
+
+/**
+ * Problems with one JSON-LD document (the object placed in a
+ * <script type="application/ld+json">); empty when it's valid.
+ */
+export function validateJsonLd(doc: unknown, label: string): string[] {
+  if (!isNode(doc)) return [`${label}: JSON-LD must be an object`];
+  const problems: string[] = [];
+  if (doc["@context"] !== "https://schema.org") {
+    problems.push(`${label}: @context must be "https://schema.org"`);
+  }
+  if (!("@type" in doc) && !Array.isArray(doc["@graph"])) {
+    problems.push(`${label}: needs an @type or an @graph`);
+  }
+  return [...problems, ...validateNode(doc, label)];
+}
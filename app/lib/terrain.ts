@@ -0,0 +1,55 @@
+/* =========================================================
+   GRADE + LOAD ENERGY MODEL
+   Pandolf et al. (1977) load-carriage equation, with the Santee
+   et al. (2003) correction for downhill grades, which Pandolf
+   alone underestimates. Used alongside the flat-ground MET
+   estimate so hills and backpacks show their real cost.
+========================================================= */
+import { KM_PER_MI } from "./walking";
+
+/** 1 W sustained for one minute ≈ 0.01433 kcal. */
+export const KCAL_PER_WATT_MINUTE = 60 / 4184;
+
+export type LoadGradeInput = {
+  bodyKg: number;
+  loadKg: number;
+  speedMs: number;
+  gradePct: number; // negative = downhill
+  terrain?: number; // Pandolf η: 1.0 paved/treadmill, 1.1 dirt road, 2.1 sand
+};
+
+export function mphToMs(mph: number) {
+  return (mph * KM_PER_MI * 1000) / 3600;
+}
+
+/** Metabolic rate in watts. Never below the standing cost (1.5 W/kg). */
+export function pandolfWatts({
+  bodyKg,
+  loadKg,
+  speedMs,
+  gradePct,
+  terrain = 1.0,
+}: LoadGradeInput) {
+  const W = Math.max(1, bodyKg);
+  const L = Math.max(0, loadKg);
+  const V = Math.max(0, speedMs);
+  const G = gradePct;
+  const standing = 1.5 * W;
+
+  let m =
+    standing +
+    2.0 * (W + L) * (L / W) ** 2 +
+    terrain * (W + L) * (1.5 * V ** 2 + 0.35 * V * G);
+
+  if (G < 0) {
+    const cf =
+      terrain *
+      ((G * (W + L) * V) / 3.5 - ((W + L) * (G + 6) ** 2) / W + (25 - V ** 2));
+    m -= cf;
+  }
+  return Math.max(standing, m);
+}
+
+export function loadGradeCalories(input: LoadGradeInput, minutes: number) {
+  return pandolfWatts(input) * KCAL_PER_WATT_MINUTE * Math.max(0, minutes);
+}
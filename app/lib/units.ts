@@ -0,0 +1,120 @@
+/* =========================================================
+   UNITS
+   The one place metric/imperial conversions and unit labels live.
+   The engine works in kg / cm / km; UI values are converted here.
+========================================================= */
+import { DEFAULT_LOCALE, formatNumber, type Locale } from "./i18n";
+import { CM_PER_IN, KG_PER_LB, KM_PER_MI } from "./walking";
+
+export type UnitSystem = "metric" | "imperial";
+
+export const UNIT_SYSTEMS: UnitSystem[] = ["metric", "imperial"];
+
+export const UNIT_LABELS: Record<
+  UnitSystem,
+  {
+    weight: string;
+    height: string;
+    distance: string;
+    stride: string;
+    speed: string;
+    pace: string;
+  }
+> = {
+  metric: {
+    weight: "kg",
+    height: "cm",
+    distance: "km",
+    stride: "cm",
+    speed: "km/h",
+    pace: "min/km",
+  },
+  imperial: {
+    weight: "lb",
+    height: "in",
+    distance: "mi",
+    stride: "in",
+    speed: "mph",
+    pace: "min/mi",
+  },
+};
+
+/* ---------- UI value → engine (SI) ---------- */
+export function weightToKg(weight: number, units: UnitSystem) {
+  return units === "metric" ? weight : weight * KG_PER_LB;
+}
+export function lengthToCm(length: number, units: UnitSystem) {
+  return units === "metric" ? length : length * CM_PER_IN;
+}
+export function distanceToKm(distance: number, units: UnitSystem) {
+  return units === "metric" ? distance : distance * KM_PER_MI;
+}
+export function speedToMph(speed: number, units: UnitSystem) {
+  return units === "metric" ? speed / KM_PER_MI : speed;
+}
+
+/* ---------- Engine (SI) → UI value ---------- */
+export function weightFromKg(kg: number, units: UnitSystem) {
+  return units === "metric" ? kg : kg / KG_PER_LB;
+}
+export function lengthFromCm(cm: number, units: UnitSystem) {
+  return units === "metric" ? cm : cm / CM_PER_IN;
+}
+export function distanceFromKm(km: number, units: UnitSystem) {
+  return units === "metric" ? km : km / KM_PER_MI;
+}
+export function speedFromMph(mph: number, units: UnitSystem) {
+  return units === "metric" ? mph * KM_PER_MI : mph;
+}
+
+/** Speed (km/h | mph) ⇄ pace (min/km | min/mi); the same maths both ways. */
+export function speedPaceSwap(v: number) {
+  return v > 0 ? 60 / v : 0;
+}
+
+/* ---------- Formatting ---------- */
+export function feetAndInches(cm: number) {
+  const totalIn = Math.round(cm / CM_PER_IN);
+  return { ft: Math.floor(totalIn / 12), in: totalIn % 12 };
+}
+
+/** Stride / height for display: "71 cm" or "2 ft 4 in". */
+export function formatLength(
+  cm: number,
+  units: UnitSystem,
+  locale: Locale = DEFAULT_LOCALE
+) {
+  if (units === "metric") return `${formatNumber(cm, locale)} cm`;
+  const { ft, in: inches } = feetAndInches(cm);
+  return ft > 0 ? `${ft} ft ${inches} in` : `${inches} in`;
+}
+
+export function formatDistance(
+  km: number,
+  units: UnitSystem,
+  digits = 2,
+  locale: Locale = DEFAULT_LOCALE
+) {
+  return `${formatNumber(distanceFromKm(km, units), locale, digits)} ${UNIT_LABELS[units].distance}`;
+}
+
+/** Pace in decimal minutes → "14:19". */
+export function formatMinutes(min: number) {
+  if (!(min > 0) || !Number.isFinite(min)) return "–";
+  const total = Math.round(min * 60);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, "0")}`;
+}
+
+export function formatWeight(
+  kg: number,
+  units: UnitSystem,
+  locale: Locale = DEFAULT_LOCALE
+) {
+  return `${formatNumber(weightFromKg(kg, units), locale)} ${UNIT_LABELS[units].weight}`;
+}
+
+/** Rounds a converted UI value so toggling units doesn't leave long decimals. */
+export function roundTo(n: number, digits = 1) {
+  const f = 10 ** digits;
+  return Math.round(n * f) / f;
+}
@@ -0,0 +1,13 @@
+export function clamp(n: number, min: number, max: number) {
+  return Math.min(Math.max(n, min), max);
+}
+
+export function toNumber(v: string) {
+  const n = parseFloat(v.replace(",", "."));
+  return Number.isFinite(n) ? n : 0;
+}
+
+/** The browser's own wording for a failure (e.g. a QuotaExceededError). */
+export function errorText(e: unknown) {
+  return e instanceof Error ? e.message : String(e);
+}
@@ -0,0 +1,72 @@
+/* =========================================================
+   WALK TIMER CUES
+   The beeps for each pace change and the finish, scheduled
+   ahead on the AudioContext clock like the metronome's
+   clicks, so they sound on time when the page is hidden and
+   its timers are throttled. Vibration can't be scheduled;
+   the page buzzes when it sees the change. Browser-only;
+   call unlockAudio() from the click that starts the walk.
+========================================================= */
+import { audioContext, scheduleCue } from "./cues";
+import { programCues, type SessionSegment } from "./walkSession";
+
+const TICK_MS = 250;
+const AHEAD_VISIBLE = 1; // s
+const AHEAD_HIDDEN = 90; // s; Chrome may run a hidden tab's timers once a minute
+
+export type WalkCues = { stop(): void };
+
+/**
+ * Queues the cues still ahead of `elapsedSeconds` into the program.
+ * Null without Web Audio.
+ */
+export function startWalkCues(
+  segments: SessionSegment[],
+  elapsedSeconds: number
+): WalkCues | null {
+  const ctx = audioContext();
+  if (!ctx) return null;
+
+  const programStart = ctx.currentTime - elapsedSeconds;
+  const pending = programCues(segments).filter(
+    (c) => c.seconds > elapsedSeconds
+  );
+  let queue: { at: number; oscs: OscillatorNode[] }[] = [];
+
+  const ahead = () =>
+    document.visibilityState === "hidden" ? AHEAD_HIDDEN : AHEAD_VISIBLE;
+
+  const tick = () => {
+    const now = ctx.currentTime;
+    queue = queue.filter((q) => q.at > now - 2); // forget cues long played
+    while (
+      pending.length &&
+      programStart + pending[0].seconds < now + ahead()
+    ) {
+      const cue = pending.shift()!;
+      const at = Math.max(programStart + cue.seconds, now + 0.02);
+      queue.push({ at, oscs: scheduleCue(ctx, cue.kind, at) });
+    }
+  };
+
+  const timer = window.setInterval(tick, TICK_MS);
+  // queue further ahead before the timers slow down
+  document.addEventListener("visibilitychange", tick);
+  tick();
+
+  return {
+    stop() {
+      window.clearInterval(timer);
+      document.removeEventListener("visibilitychange", tick);
+      // a cue already sounding plays out; later ones are dropped
+      const now = ctx.currentTime;
+      for (const q of queue.filter((q) => q.at > now + 0.01)) {
+        for (const osc of q.oscs) {
+          osc.stop(0);
+          osc.disconnect();
+        }
+      }
+      queue = [];
+    },
+  };
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_PROGRAM_OPTIONS,
+  buildProgram,
+  programCues,
+  programSeconds,
+} from "./walkSession";
+
+describe("programCues", () => {
+  it("cues each pace change in the right direction, then the finish", () => {
+    const cues = programCues([
+      { pace: "easy", seconds: 180 },
+      { pace: "brisk", seconds: 60 },
+      { pace: "easy", seconds: 60 },
+    ]);
+    expect(cues).toEqual([
+      { seconds: 180, kind: "faster" },
+      { seconds: 240, kind: "slower" },
+      { seconds: 300, kind: "done" },
+    ]);
+  });
+
+  it("ends on the program's last second", () => {
+    const segments = buildProgram(
+      "intervals",
+      DEFAULT_PROGRAM_OPTIONS.intervals
+    );
+    const cues = programCues(segments);
+    expect(cues).toHaveLength(segments.length);
+    expect(cues.at(-1)).toEqual({
+      seconds: programSeconds(segments),
+      kind: "done",
+    });
+  });
+
+  it("has nothing to cue for an empty program", () => {
+    expect(programCues([])).toEqual([]);
+  });
+});
@@ -0,0 +1,267 @@
+/* =========================================================
+   WALK SESSION
+   Timed programs (intervals, steady, ramp) as a list of
+   segments, and the live totals for a point in a session.
+   Each segment burns at its own preset's METs and covers
+   ground at that preset's speed, with the stride for that
+   speed. Pure; SI units throughout.
+========================================================= */
+import type { CueKind } from "./cues";
+import {
+  PACE,
+  caloriesBurned,
+  distanceKmFromMinutes,
+  resolveStrideCm,
+  type PaceKey,
+  type WalkingInput,
+} from "./walking";
+
+export type ProgramKind = "intervals" | "steady" | "ramp";
+
+export type SessionSegment = { pace: PaceKey; seconds: number };
+
+export type IntervalOptions = {
+  rounds: number;
+  fastPace: PaceKey;
+  fastSeconds: number;
+  easyPace: PaceKey;
+  easySeconds: number;
+  /** Easy walking before the first and after the last round. */
+  warmupMinutes: number;
+};
+
+export type SteadyOptions = { pace: PaceKey; minutes: number };
+
+export type RampOptions = { minutes: number; topPace: PaceKey };
+
+export type ProgramOptions = {
+  intervals: IntervalOptions;
+  steady: SteadyOptions;
+  ramp: RampOptions;
+};
+
+/** 1 minute brisk, 1 minute easy, as the indoor-workouts guide suggests. */
+export const DEFAULT_PROGRAM_OPTIONS: ProgramOptions = {
+  intervals: {
+    rounds: 10,
+    fastPace: "brisk",
+    fastSeconds: 60,
+    easyPace: "easy",
+    easySeconds: 60,
+    warmupMinutes: 3,
+  },
+  steady: { pace: "brisk", minutes: 30 },
+  ramp: { minutes: 30, topPace: "power" },
+};
+
+/** Paces slowest first; ramps climb through them in this order. */
+export const PACE_ORDER = (Object.keys(PACE) as PaceKey[]).sort(
+  (a, b) => PACE[a].mph - PACE[b].mph
+);
+
+const MAX_SESSION_SECONDS = 4 * 60 * 60;
+
+/* ---------- Programs ---------- */
+export function buildProgram<K extends ProgramKind>(
+  kind: K,
+  options: ProgramOptions[K]
+): SessionSegment[] {
+  const segments =
+    kind === "intervals"
+      ? intervalSegments(options as IntervalOptions)
+      : kind === "steady"
+        ? steadySegments(options as SteadyOptions)
+        : rampSegments(options as RampOptions);
+  return capSession(mergeRuns(segments.filter((s) => s.seconds > 0)));
+}
+
+function intervalSegments(o: IntervalOptions): SessionSegment[] {
+  const warmup = {
+    pace: o.easyPace,
+    seconds: Math.round(o.warmupMinutes * 60),
+  };
+  const rounds = Array.from(
+    { length: Math.max(0, Math.round(o.rounds)) },
+    () => [
+      { pace: o.fastPace, seconds: Math.round(o.fastSeconds) },
+      { pace: o.easyPace, seconds: Math.round(o.easySeconds) },
+    ]
+  ).flat();
+  return [warmup, ...rounds, warmup];
+}
+
+function steadySegments(o: SteadyOptions): SessionSegment[] {
+  return [{ pace: o.pace, seconds: Math.round(o.minutes * 60) }];
+}
+
+/** Equal blocks from the slowest preset up to `topPace`. */
+function rampSegments(o: RampOptions): SessionSegment[] {
+  const steps = PACE_ORDER.slice(0, PACE_ORDER.indexOf(o.topPace) + 1);
+  const total = Math.round(o.minutes * 60);
+  return steps.map((pace, i) => ({
+    pace,
+    // spread the rounding so the blocks add up to the exact total
+    seconds:
+      Math.round(((i + 1) * total) / steps.length) -
+      Math.round((i * total) / steps.length),
+  }));
+}
+
+/** Joins neighbours at the same pace (e.g. a warm-up and an easy interval). */
+function mergeRuns(segments: SessionSegment[]) {
+  const out: SessionSegment[] = [];
+  for (const s of segments) {
+    const last = out[out.length - 1];
+    if (last && last.pace === s.pace) last.seconds += s.seconds;
+    else out.push({ ...s });
+  }
+  return out;
+}
+
+function capSession(segments: SessionSegment[]) {
+  let left = MAX_SESSION_SECONDS;
+  return segments.flatMap((s) => {
+    const seconds = Math.min(s.seconds, left);
+    left -= seconds;
+    return seconds > 0 ? [{ ...s, seconds }] : [];
+  });
+}
+
+export function programSeconds(segments: SessionSegment[]) {
+  return segments.reduce((sum, s) => sum + s.seconds, 0);
+}
+
+/* ---------- Cues ---------- */
+export type SessionCue = { seconds: number; kind: CueKind };
+
+/** A cue at the end of each segment: the next pace's direction, or done. */
+export function programCues(segments: SessionSegment[]): SessionCue[] {
+  let seconds = 0;
+  return segments.map((s, i) => {
+    seconds += s.seconds;
+    const next = segments[i + 1];
+    const kind: CueKind = !next
+      ? "done"
+      : PACE[next.pace].mph > PACE[s.pace].mph
+        ? "faster"
+        : "slower";
+    return { seconds, kind };
+  });
+}
+
+/* ---------- Position ---------- */
+export type SessionPosition = {
+  /** -1 before the start; `segments.length` once finished. */
+  index: number;
+  segment: SessionSegment | undefined;
+  /** Seconds left in the current segment. */
+  remaining: number;
+  done: boolean;
+};
+
+export function positionAt(
+  segments: SessionSegment[],
+  elapsedSeconds: number
+): SessionPosition {
+  let start = 0;
+  for (let i = 0; i < segments.length; i++) {
+    const end = start + segments[i].seconds;
+    if (elapsedSeconds < end) {
+      return {
+        index: i,
+        segment: segments[i],
+        remaining: end - Math.max(0, elapsedSeconds),
+        done: false,
+      };
+    }
+    start = end;
+  }
+  return {
+    index: segments.length,
+    segment: undefined,
+    remaining: 0,
+    done: true,
+  };
+}
+
+/* ---------- Live totals ---------- */
+export type SessionTotals = {
+  seconds: number;
+  distanceKm: number;
+  steps: number;
+  calories: number;
+};
+
+/** Totals for the first `elapsedSeconds` of the program. */
+export function sessionTotals(
+  segments: SessionSegment[],
+  elapsedSeconds: number,
+  input: Pick<WalkingInput, "weightKg" | "heightCm" | "sex" | "customStrideCm">
+): SessionTotals {
+  let left = Math.max(0, elapsedSeconds);
+  const totals: SessionTotals = {
+    seconds: 0,
+    distanceKm: 0,
+    steps: 0,
+    calories: 0,
+  };
+  for (const s of segments) {
+    if (left <= 0) break;
+    const seconds = Math.min(s.seconds, left);
+    const minutes = seconds / 60;
+    const mph = PACE[s.pace].mph;
+    const km = distanceKmFromMinutes(minutes, mph);
+    const strideCm = resolveStrideCm({ ...input, speedMph: mph });
+    totals.seconds += seconds;
+    totals.distanceKm += km;
+    if (strideCm > 0) totals.steps += (km * 1000) / (strideCm / 100);
+    totals.calories += caloriesBurned(
+      PACE[s.pace].mets,
+      input.weightKg,
+      minutes
+    );
+    left -= seconds;
+  }
+  totals.steps = Math.round(totals.steps);
+  return totals;
+}
+
+/* ---------- Saved walks ---------- */
+export type WalkRecord = {
+  id: string; // ISO start time; one walk per start
+  startedAt: string;
+  endedAt: string;
+  program: ProgramKind;
+  /** Segments actually walked; the last one may be cut short. */
+  segments: SessionSegment[];
+  minutes: number;
+  distanceKm: number;
+  steps: number;
+  calories: number;
+};
+
+export function toWalkRecord(
+  program: ProgramKind,
+  segments: SessionSegment[],
+  totals: SessionTotals,
+  startedAt: Date,
+  endedAt: Date
+): WalkRecord {
+  let left = totals.seconds;
+  const walked = segments.flatMap((s) => {
+    const seconds = Math.min(s.seconds, left);
+    left -= seconds;
+    return seconds > 0 ? [{ ...s, seconds: Math.round(seconds) }] : [];
+  });
+  return {
+    id: startedAt.toISOString(),
+    startedAt: startedAt.toISOString(),
+    endedAt: endedAt.toISOString(),
+    program,
+    segments: walked,
+    minutes: totals.seconds / 60,
+    distanceKm: totals.distanceKm,
+    steps: totals.steps,
+    calories: totals.calories,
+  };
+}
@@ -0,0 +1,248 @@
+import { describe, expect, it } from "vitest";
+import {
+  KM_PER_MI,
+  PACE,
+  STRIDE_FACTORS,
+  cadenceForSpeed,
+  calculateWalk,
+  estimateStrideCm,
+  metsForSpeed,
+  type PaceKey,
+  type SexKey,
+  type WalkAmount,
+  type WalkingInput,
+} from "./walking";
+
+const PACES = Object.keys(PACE) as PaceKey[];
+const SEXES = Object.keys(STRIDE_FACTORS) as SexKey[];
+const COMBOS = PACES.flatMap((pace) => SEXES.map((sex) => ({ pace, sex })));
+
+const body = (over: Partial<WalkingInput> = {}): WalkingInput => ({
+  weightKg: 70,
+  heightCm: 170,
+  sex: "unspecified",
+  speedMph: PACE.brisk.mph,
+  ...over,
+});
+
+describe("PACE presets", () => {
+  it.each(PACES)("%s takes its METs from the speed table", (pace) => {
+    expect(PACE[pace].mets).toBe(metsForSpeed(PACE[pace].mph));
+  });
+
+  it("gets faster and harder from easy to jog", () => {
+    const mph = PACES.map((k) => PACE[k].mph);
+    const mets = PACES.map((k) => PACE[k].mets);
+    expect(mph).toEqual([...mph].sort((a, b) => a - b));
+    expect(mets).toEqual([...mets].sort((a, b) => a - b));
+  });
+});
+
+describe("calculateWalk for every pace and sex", () => {
+  describe.each(COMBOS)("$pace, $sex", ({ pace, sex }) => {
+    const mph = PACE[pace].mph;
+    const input = body({ sex, speedMph: mph });
+    const stride = estimateStrideCm(170, sex, mph);
+
+    it("counts steps", () => {
+      const r = calculateWalk(input, { mode: "steps", steps: 10000 });
+      const km = (10000 * stride) / 100000;
+      const minutes = (km / KM_PER_MI / mph) * 60;
+      expect(r.steps).toBe(10000);
+      expect(r.strideAuto).toBeCloseTo(stride, 9);
+      expect(r.strideCm).toBeCloseTo(stride, 9);
+      expect(r.distanceKm).toBeCloseTo(km, 9);
+      expect(r.distanceMi).toBeCloseTo(km / KM_PER_MI, 9);
+      expect(r.minutes).toBeCloseTo(minutes, 9);
+      expect(r.hours).toBeCloseTo(minutes / 60, 9);
+      expect(r.calories).toBeCloseTo(
+        (PACE[pace].mets * 3.5 * 70 * minutes) / 200,
+        9
+      );
+      expect(r.cadence).toBeCloseTo(10000 / minutes, 9);
+      expect(r.mph).toBe(mph);
+      expect(r.mets).toBe(PACE[pace].mets);
+    });
+
+    it("counts a distance", () => {
+      const r = calculateWalk(input, { mode: "distance", distanceKm: 5 });
+      expect(r.steps).toBe(Math.round(500000 / stride));
+      expect(r.distanceKm).toBeCloseTo(5, 2);
+    });
+
+    it("counts a time", () => {
+      const r = calculateWalk(input, { mode: "time", minutes: 30 });
+      const km = mph * KM_PER_MI * 0.5;
+      expect(r.steps).toBe(Math.round((km * 100000) / stride));
+      expect(r.minutes).toBeCloseTo(30, 1);
+    });
+  });
+});
+
+describe("stride", () => {
+  it.each(SEXES)("lengthens with speed (%s)", (sex) => {
+    const strides = PACES.map((k) => estimateStrideCm(170, sex, PACE[k].mph));
+    strides.slice(1).forEach((s, i) => expect(s).toBeGreaterThan(strides[i]));
+  });
+
+  it("orders female < unspecified < male by under 1%", () => {
+    const [f, u, m] = (["female", "unspecified", "male"] as const).map((sex) =>
+      estimateStrideCm(170, sex, PACE.brisk.mph)
+    );
+    expect(f).toBeLessThan(u);
+    expect(u).toBeLessThan(m);
+    expect((m - f) / f).toBeLessThan(0.01);
+  });
+
+  it("falls back to the height-only rule without a speed", () => {
+    expect(estimateStrideCm(170, "male", 0)).toBeCloseTo(170 * 0.415, 9);
+  });
+
+  it.each<WalkAmount>([
+    { mode: "steps", steps: 4000 },
+    { mode: "distance", distanceKm: 3 },
+    { mode: "time", minutes: 25 },
+  ])("uses a custom stride over the estimate ($mode)", (amount) => {
+    const r = calculateWalk(body({ customStrideCm: 90 }), amount);
+    expect(r.strideCm).toBe(90);
+    expect(r.strideAuto).not.toBe(90);
+    if (amount.mode === "steps") expect(r.distanceKm).toBeCloseTo(3.6, 9);
+  });
+
+  it.each([0, -5, undefined])("ignores a custom stride of %s", (custom) => {
+    const r = calculateWalk(body({ customStrideCm: custom }), {
+      mode: "steps",
+      steps: 1000,
+    });
+    expect(r.strideCm).toBe(r.strideAuto);
+  });
+});
+
+/* ---------- Stride model against published data ---------- */
+const MPH_PER_M_MIN = 60 / (KM_PER_MI * 1000);
+const within = (value: number, target: number, tolerance: number) =>
+  Math.abs(value - target) / target <= tolerance;
+
+describe("stride model", () => {
+  // Fit targets: CADENCE-Adults thresholds (Tudor-Locke et al., 2020).
+  // These only show the fit holds; the cases below are independent of it.
+  it.each([
+    { mph: 2.5, cadence: 100 },
+    { mph: 4.25, cadence: 130 },
+  ])("reproduces its fit: $cadence steps/min at $mph mph", (ref) => {
+    const stride = estimateStrideCm(170, "unspecified", ref.mph);
+    expect(within(cadenceForSpeed(ref.mph, stride), ref.cadence, 0.02)).toBe(
+      true
+    );
+  });
+
+  // Perry & Burnfield, Gait Analysis (2nd ed., 2010): free walking speed
+  // and cadence of adults. Heights aren't reported, so the pooled group is
+  // taken as 170 cm and each sex at the US adult mean (CDC NHANES
+  // 2015–2018: 175 cm men, 161 cm women).
+  it.each([
+    {
+      who: "adults",
+      sex: "unspecified",
+      heightCm: 170,
+      mMin: 82,
+      cadence: 113,
+    },
+    { who: "men", sex: "male", heightCm: 175, mMin: 86, cadence: 111 },
+    { who: "women", sex: "female", heightCm: 161, mMin: 77, cadence: 117 },
+  ] as const)(
+    "matches free-walking cadence for $who within 6%",
+    ({ sex, heightCm, mMin, cadence }) => {
+      const mph = mMin * MPH_PER_M_MIN;
+      const stride = estimateStrideCm(heightCm, sex, mph);
+      expect(within(cadenceForSpeed(mph, stride), cadence, 0.06)).toBe(true);
+    }
+  );
+
+  // Grieve (1968), as used by Kuo (2001, J. Biomech. Eng. 123:264–269):
+  // preferred step length grows as speed^0.42 across walking speeds.
+  it("lengthens with speed at close to the measured rate", () => {
+    const [slow, fast] = [2, 4].map((mph) =>
+      estimateStrideCm(170, "unspecified", mph)
+    );
+    const exponent = Math.log(fast / slow) / Math.log(4 / 2);
+    expect(Math.abs(exponent - 0.42)).toBeLessThanOrEqual(0.1);
+  });
+
+  // The quick-reference figures on the home page
+  it.each([
+    { unitKm: 1, steps: 1250 },
+    { unitKm: KM_PER_MI, steps: 2000 },
+  ])("puts about $steps steps in $unitKm km at a brisk walk", (ref) => {
+    const stride = estimateStrideCm(170, "unspecified", PACE.brisk.mph);
+    const steps = (ref.unitKm * 100000) / stride;
+    expect(within(steps, ref.steps, 0.05)).toBe(true);
+  });
+
+  it.each([150, 170, 190])("lengthens with height at %s cm", (heightCm) => {
+    expect(estimateStrideCm(heightCm + 10, "unspecified", 3)).toBeGreaterThan(
+      estimateStrideCm(heightCm, "unspecified", 3)
+    );
+  });
+});
+
+describe("zero and limit values", () => {
+  it.each<WalkAmount>([
+    { mode: "steps", steps: 0 },
+    { mode: "distance", distanceKm: 0 },
+    { mode: "time", minutes: 0 },
+    { mode: "steps", steps: -100 },
+    { mode: "distance", distanceKm: -2 },
+    { mode: "time", minutes: -10 },
+    { mode: "steps", steps: NaN },
+  ])("gives an empty walk for %o", (amount) => {
+    const r = calculateWalk(body(), amount);
+    expect(r.steps).toBe(0);
+    expect(r.distanceKm).toBe(0);
+    expect(r.minutes).toBe(0);
+    expect(r.calories).toBe(0);
+    expect(r.cadence).toBe(0);
+  });
+
+  it("gives no steps for a height of 0", () => {
+    const r = calculateWalk(body({ heightCm: 0 }), {
+      mode: "distance",
+      distanceKm: 1,
+    });
+    expect(r.strideCm).toBe(0);
+    expect(r.steps).toBe(0);
+  });
+
+  it("gives no time or calories at a speed of 0", () => {
+    const r = calculateWalk(body({ speedMph: 0 }), {
+      mode: "steps",
+      steps: 5000,
+    });
+    expect(r.distanceKm).toBeGreaterThan(0);
+    expect(r.minutes).toBe(0);
+    expect(r.calories).toBe(0);
+    expect(r.cadence).toBe(0);
+  });
+
+  it("gives no calories for a weight of 0", () => {
+    const r = calculateWalk(body({ weightKg: 0 }), {
+      mode: "steps",
+      steps: 5000,
+    });
+    expect(r.calories).toBe(0);
+  });
+
+  it("holds METs at the ends of the speed table", () => {
+    expect(metsForSpeed(0)).toBe(2.0);
+    expect(metsForSpeed(-3)).toBe(2.0);
+    expect(metsForSpeed(10)).toBe(14.5);
+    expect(metsForSpeed(25)).toBe(14.5);
+    expect(metsForSpeed(2.25)).toBeCloseTo(2.9, 9);
+  });
+
+  it("scales to very long walks", () => {
+    const r = calculateWalk(body(), { mode: "steps", steps: 1e6 });
+    expect(r.distanceKm).toBeCloseTo((1e6 * r.strideCm) / 100000, 6);
+    expect(Number.isFinite(r.calories)).toBe(true);
+  });
+});
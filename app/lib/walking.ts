@@ -0,0 +1,233 @@
+/* =========================================================
+   WALKING ENGINE
+   Pure stride / distance / duration / calorie math shared by
+   the calculator hook, route loaders and API routes.
+   All inputs are SI (kg, cm, km, minutes); convert before calling.
+========================================================= */
+export type SexKey = "female" | "male" | "unspecified";
+export type PaceKey = "easy" | "brisk" | "power" | "jog";
+export type InputMode = "steps" | "distance" | "time";
+
+/**
+ * Height-only rule (stride ≈ 41% of height), the fallback when no speed
+ * is known. "unspecified" is the mean.
+ */
+export const STRIDE_FACTORS: Record<SexKey, number> = {
+  female: 0.413,
+  male: 0.415,
+  unspecified: 0.414,
+};
+
+/**
+ * Stride from height and speed. Walkers of different heights move alike
+ * at the same Froude number Fr = v² / (g·h) (dynamic similarity; Alexander
+ * & Jayes, 1983, J. Zool. 201:135–152), so stride / height = a · Fr^b.
+ * a and b are fitted so a 170 cm adult steps at the CADENCE-Adults
+ * thresholds (Tudor-Locke et al., 2020, IJBNPA 17:137): 100 steps/min
+ * at 3 METs (2.5 mph in SPEED_METS) and 130 steps/min at 6 METs (≈4.25
+ * mph). Stride then grows with √speed; walking.test.ts checks it against
+ * independent gait data. Fitted on walking; jogging speeds are
+ * extrapolated. The sex factor only scales by the STRIDE_FACTORS ratio
+ * (±0.2%).
+ */
+export const STRIDE_MODEL = { a: 0.754, b: 0.25 } as const;
+
+const G = 9.80665; // m/s²
+
+/**
+ * Speed → METs from the Compendium of Physical Activities (Ainsworth et
+ * al., 2011): level walking codes 17151–17231 up to 4.5 mph, running
+ * codes 12030–12090 above. Interpolated linearly, clamped at the ends.
+ */
+export const SPEED_METS: readonly [mph: number, mets: number][] = [
+  [1.0, 2.0],
+  [2.0, 2.8],
+  [2.5, 3.0],
+  [3.0, 3.5],
+  [3.5, 4.3],
+  [4.0, 5.0],
+  [4.5, 7.0],
+  [5.0, 8.3],
+  [6.0, 9.8],
+  [7.0, 11.0],
+  [8.0, 11.8],
+  [10.0, 14.5],
+];
+
+export function metsForSpeed(mph: number) {
+  const first = SPEED_METS[0];
+  const last = SPEED_METS[SPEED_METS.length - 1];
+  if (!(mph > first[0])) return first[1];
+  if (mph >= last[0]) return last[1];
+  const i = SPEED_METS.findIndex(([s]) => s >= mph);
+  const [s0, m0] = SPEED_METS[i - 1];
+  const [s1, m1] = SPEED_METS[i];
+  return m0 + ((mph - s0) / (s1 - s0)) * (m1 - m0);
+}
+
+/**
+ * Quick-pick presets; their METs come from the same table as typed speeds.
+ * Power walk (6.2) and light jog (8.3) used to be fixed at 5.0 and 7.0.
+ */
+export const PACE: Record<
+  PaceKey,
+  { mph: number; mets: number; label: string }
+> = {
+  easy: preset(2.5, "Easy Walk (~2.5 mph / 4 kph)"),
+  brisk: preset(3.5, "Brisk Walk (~3.5 mph / 5.6 kph)"),
+  power: preset(4.3, "Power Walk (~4.3 mph / 6.9 kph)"),
+  jog: preset(5.0, "Light Jog (~5 mph / 8 kph)"),
+};
+
+function preset(mph: number, label: string) {
+  return { mph, mets: metsForSpeed(mph), label };
+}
+
+/** Preset whose speed is closest to `mph`. */
+export function nearestPace(mph: number): PaceKey {
+  return (Object.keys(PACE) as PaceKey[]).reduce((best, k) =>
+    Math.abs(PACE[k].mph - mph) < Math.abs(PACE[best].mph - mph) ? k : best
+  );
+}
+
+export const KG_PER_LB = 0.45359237;
+export const CM_PER_IN = 2.54;
+export const KM_PER_MI = 1.609344;
+export const MI_PER_KM = 1 / KM_PER_MI;
+
+export type WalkingInput = {
+  weightKg: number;
+  heightCm: number;
+  sex: SexKey;
+  speedMph: number;
+  /** Measured stride; 0 or undefined falls back to the height estimate. */
+  customStrideCm?: number;
+};
+
+export type WalkAmount =
+  | { mode: "steps"; steps: number }
+  | { mode: "distance"; distanceKm: number }
+  | { mode: "time"; minutes: number };
+
+export type WalkingResult = {
+  steps: number;
+  strideAuto: number;
+  strideCm: number;
+  distanceKm: number;
+  distanceMi: number;
+  minutes: number;
+  hours: number;
+  calories: number;
+  cadence: number;
+  mph: number;
+  mets: number;
+};
+
+/* ---------- Building blocks ---------- */
+/** Height-only estimate; see STRIDE_FACTORS. */
+export function autoStrideCm(heightCm: number, sex: SexKey) {
+  return Math.max(0, heightCm) * STRIDE_FACTORS[sex];
+}
+
+/** Height-and-speed estimate (STRIDE_MODEL); height-only without a speed. */
+export function estimateStrideCm(heightCm: number, sex: SexKey, mph: number) {
+  const h = Math.max(0, heightCm) / 100;
+  const v = (Math.max(0, mph) * KM_PER_MI) / 3.6; // m/s
+  if (!(h > 0) || !(v > 0)) return autoStrideCm(heightCm, sex);
+  const froude = v ** 2 / (G * h);
+  const sexRatio = STRIDE_FACTORS[sex] / STRIDE_FACTORS.unspecified;
+  return 100 * h * STRIDE_MODEL.a * froude ** STRIDE_MODEL.b * sexRatio;
+}
+
+export function resolveStrideCm({
+  heightCm,
+  sex,
+  speedMph,
+  customStrideCm,
+}: Pick<WalkingInput, "heightCm" | "sex" | "speedMph" | "customStrideCm">) {
+  return customStrideCm && customStrideCm > 0
+    ? customStrideCm
+    : estimateStrideCm(heightCm, sex, speedMph);
+}
+
+export function distanceKmFromSteps(steps: number, strideCm: number) {
+  return (Math.max(0, steps || 0) * (strideCm / 100)) / 1000;
+}
+
+export function stepsFromDistanceKm(distanceKm: number, strideCm: number) {
+  if (!(strideCm > 0)) return 0;
+  return Math.round((Math.max(0, distanceKm) * 1000) / (strideCm / 100));
+}
+
+export function minutesFromDistanceKm(distanceKm: number, mph: number) {
+  return mph > 0 ? ((distanceKm * MI_PER_KM) / mph) * 60 : 0;
+}
+
+export function distanceKmFromMinutes(minutes: number, mph: number) {
+  return mph * KM_PER_MI * (Math.max(0, minutes) / 60);
+}
+
+/** ACSM MET formula: kcal = METs × 3.5 × kg × min / 200. */
+export function caloriesBurned(
+  mets: number,
+  weightKg: number,
+  minutes: number
+) {
+  return Math.max(0, mets * 3.5 * weightKg * (minutes / 200));
+}
+
+export function cadenceFor(steps: number, minutes: number) {
+  return minutes > 0 ? steps / minutes : 0;
+}
+
+/** Steps per minute needed to hold `mph` with a given stride. */
+export function cadenceForSpeed(mph: number, strideCm: number) {
+  if (!(strideCm > 0)) return 0;
+  return (distanceKmFromMinutes(1, mph) * 1000) / (strideCm / 100);
+}
+
+/** Speed (mph) that `stepsPerMin` produces with a given stride. */
+export function speedForCadence(stepsPerMin: number, strideCm: number) {
+  const kmPerMin = distanceKmFromSteps(stepsPerMin, strideCm);
+  return kmPerMin * 60 * MI_PER_KM;
+}
+
+/* ---------- Whole walk ---------- */
+export function stepsForAmount(amount: WalkAmount, input: WalkingInput) {
+  if (amount.mode === "steps") return Math.max(0, amount.steps || 0);
+  const km =
+    amount.mode === "distance"
+      ? amount.distanceKm
+      : distanceKmFromMinutes(amount.minutes, input.speedMph);
+  return stepsFromDistanceKm(km, resolveStrideCm(input));
+}
+
+export function calculateWalk(
+  input: WalkingInput,
+  amount: WalkAmount
+): WalkingResult {
+  const steps = stepsForAmount(amount, input);
+  const strideAuto = estimateStrideCm(
+    input.heightCm,
+    input.sex,
+    input.speedMph
+  );
+  const strideCm = resolveStrideCm(input);
+  const distanceKm = distanceKmFromSteps(steps, strideCm);
+  const mph = Math.max(0, input.speedMph);
+  const mets = metsForSpeed(mph);
+  const minutes = minutesFromDistanceKm(distanceKm, mph);
+  return {
+    steps,
+    strideAuto,
+    strideCm,
+    distanceKm,
+    distanceMi: distanceKm * MI_PER_KM,
+    minutes,
+    hours: minutes / 60,
+    calories: caloriesBurned(mets, input.weightKg, minutes),
+    cadence: cadenceFor(steps, minutes),
+    mph,
+    mets,
+  };
+}
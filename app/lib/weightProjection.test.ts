@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_CALCULATOR_STATE } from "./calculator";
+import { KG_PER_LB } from "./walking";
+import {
+  KCAL_PER_KG,
+  MAX_PROJECTION_WEEKS,
+  MIN_PROJECTION_WEEKS,
+  projectWeightLoss,
+  type ProjectionInput,
+} from "./weightProjection";
+
+const body = { ...DEFAULT_CALCULATOR_STATE, weight: 80 };
+const project = (input: Partial<ProjectionInput>, state = body) =>
+  projectWeightLoss(
+    { dailySteps: 8000, daysPerWeek: 7, deficitKcal: 0, weeks: 12, ...input },
+    state
+  );
+
+describe("projectWeightLoss", () => {
+  it("starts from today's weight", () => {
+    expect(project({})[0]).toEqual({
+      week: 0,
+      weight: 80,
+      walkingKcal: 0,
+      totalLost: 0,
+    });
+  });
+
+  it("turns a diet-only deficit into a kilogram per 7700 kcal", () => {
+    const points = project({ daysPerWeek: 0, deficitKcal: 550, weeks: 4 });
+    const perWeek = (550 * 7) / KCAL_PER_KG;
+    expect(perWeek).toBeCloseTo(0.5, 10);
+    points.forEach((p) => {
+      expect(p.walkingKcal).toBe(0);
+      expect(p.totalLost).toBeCloseTo(p.week * perWeek, 10);
+      expect(p.weight).toBeCloseTo(80 - p.week * perWeek, 10);
+    });
+  });
+
+  it("adds the deficit to the walking burn, and ignores a surplus", () => {
+    const walking = project({})[4].totalLost;
+    expect(project({ deficitKcal: 300 })[4].totalLost).toBeGreaterThan(walking);
+    expect(project({ deficitKcal: -300 })[4].totalLost).toBe(walking);
+  });
+
+  it("burns less walking as the weight drops", () => {
+    const points = project({ deficitKcal: 1000 });
+    expect(points[1].walkingKcal).toBeGreaterThan(0);
+    expect(points[12].walkingKcal).toBeLessThan(points[1].walkingKcal);
+  });
+
+  it("reports pounds for imperial bodies", () => {
+    const lb = 80 / KG_PER_LB;
+    const imperial = { ...body, units: "imperial" as const, weight: lb };
+    const [start, week1] = project(
+      { daysPerWeek: 0, deficitKcal: 550 },
+      imperial
+    );
+    expect(start.weight).toBe(lb);
+    expect(week1.totalLost).toBeCloseTo(0.5 / KG_PER_LB, 10);
+  });
+
+  it("keeps the span within its limits", () => {
+    expect(project({ weeks: 1 })).toHaveLength(MIN_PROJECTION_WEEKS + 1);
+    expect(project({ weeks: 500 })).toHaveLength(MAX_PROJECTION_WEEKS + 1);
+  });
+});
@@ -0,0 +1,65 @@
+/* =========================================================
+   WEIGHT-LOSS PROJECTION
+   Week-by-week weight trajectory from walking plus an optional
+   dietary deficit. Walking calories are recomputed from speed METs
+   at each week's new weight, so the burn shrinks as weight drops.
+========================================================= */
+import { toWalkingInput, type CalculatorState } from "./calculator";
+import { weightFromKg, weightToKg } from "./units";
+import { clamp } from "./utils";
+import { calculateWalk } from "./walking";
+
+/** Energy in one kilogram of body-fat loss (≈3,500 kcal per lb). */
+export const KCAL_PER_KG = 7700;
+export const MIN_PROJECTION_WEEKS = 4;
+export const MAX_PROJECTION_WEEKS = 52;
+
+export type ProjectionInput = {
+  dailySteps: number;
+  daysPerWeek: number;
+  deficitKcal: number; // per day, from diet; 0 for walking only
+  weeks: number;
+};
+
+export type ProjectionPoint = {
+  week: number;
+  weight: number; // in body.units
+  walkingKcal: number; // burned by walking during the week ending here
+  totalLost: number; // in body.units, since week 0
+};
+
+export function projectWeightLoss(
+  { dailySteps, daysPerWeek, deficitKcal, weeks }: ProjectionInput,
+  body: CalculatorState
+): ProjectionPoint[] {
+  const startKg = weightToKg(body.weight, body.units);
+  const days = clamp(Math.round(daysPerWeek), 0, 7);
+  const span = clamp(
+    Math.round(weeks),
+    MIN_PROJECTION_WEEKS,
+    MAX_PROJECTION_WEEKS
+  );
+  const toUnits = (kg: number) => weightFromKg(kg, body.units);
+  const input = toWalkingInput(body);
+
+  const points: ProjectionPoint[] = [
+    { week: 0, weight: body.weight, walkingKcal: 0, totalLost: 0 },
+  ];
+  let kg = startKg;
+  for (let week = 1; week <= span; week++) {
+    const perWalk = calculateWalk(
+      { ...input, weightKg: kg },
+      { mode: "steps", steps: dailySteps }
+    ).calories;
+    const walkingKcal = perWalk * days;
+    const deficit = Math.max(0, deficitKcal) * 7;
+    kg = Math.max(0, kg - (walkingKcal + deficit) / KCAL_PER_KG);
+    points.push({
+      week,
+      weight: toUnits(kg),
+      walkingKcal,
+      totalLost: toUnits(startKg - kg),
+    });
+  }
+  return points;
+}
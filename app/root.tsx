@@ -5,11 +5,26 @@ import {
   Outlet,
   Scripts,
   ScrollRestoration,
-  redirect, // ⟵ add this
+  redirect,
+  useLocation,
+  useMatches,
 } from "react-router";
 
 import type { Route } from "./+types/root";
 import "./app.css";
+import { AppStatus } from "~/components/AppStatus";
+import { LanguageSwitcher } from "~/components/LanguageSwitcher";
+import {
+  DEFAULT_LOCALE,
+  LOCALE_COOKIE,
+  LOCALE_VARY,
+  isLocale,
+  isLocalizedPath,
+  localizePath,
+  negotiateLocale,
+  readCookie,
+  splitLocale,
+} from "~/lib/i18n";
 
 /* ---------- Trailing slash helpers (one place, app-level) ---------- */
 function needsStrip(pathname: string) {
@@ -23,6 +38,14 @@ function strip(pathname: string) {
   return pathname.replace(/\/+$/, "") || "/";
 }
 
+/* ---------- Language default for unprefixed pages ---------- */
+// An explicit choice (cookie) wins; otherwise Accept-Language decides.
+function preferredLocale(request: Request) {
+  const chosen = readCookie(request.headers.get("Cookie"), LOCALE_COOKIE);
+  if (isLocale(chosen)) return chosen;
+  return negotiateLocale(request.headers.get("Accept-Language"));
+}
+
 /* ---------- Loader does the canonical 301 ---------- */
 export async function loader({ request }: Route.LoaderArgs) {
   const url = new URL(request.url);
@@ -30,7 +53,17 @@ export async function loader({ request }: Route.LoaderArgs) {
     url.pathname = strip(url.pathname);
     return redirect(url.pathname + url.search, { status: 301 });
   }
-  return null;
+  const { locale, path } = splitLocale(url.pathname);
+  if (!locale && isLocalizedPath(path)) {
+    const preferred = preferredLocale(request);
+    if (preferred !== DEFAULT_LOCALE) {
+      return redirect(localizePath(path, preferred) + url.search, {
+        status: 302,
+        headers: { Vary: LOCALE_VARY, "Cache-Control": "private, no-cache" },
+      });
+    }
+  }
+  return { locale: locale ?? DEFAULT_LOCALE };
 }
 
 export const links: Route.LinksFunction = () => [
@@ -43,12 +76,17 @@ export const links: Route.LinksFunction = () => [
   {
     rel: "stylesheet",
     href: "https://fonts.googleapis.com/css2?family=Inter:ital,opsz,wght@0,14..32,100..900;1,14..32,100..900&display=swap",
-  }
+  },
+  { rel: "manifest", href: "/manifest.webmanifest" },
+  { rel: "apple-touch-icon", href: "/apple-touch-icon.png" },
 ];
 
 export function Layout({ children }: { children: React.ReactNode }) {
+  // from the URL, not loader data, so client navigations update it too
+  const { pathname } = useLocation();
+  const lang = splitLocale(pathname).locale ?? DEFAULT_LOCALE;
   return (
-    <html lang="en">
+    <html lang={lang}>
       <head>
         <meta charSet="utf-8" />
         <meta name="viewport" content="width=device-width, initial-scale=1" />
@@ -65,7 +103,14 @@ export function Layout({ children }: { children: React.ReactNode }) {
 }
 
 export default function App() {
-  return <Outlet />;
+  const translated = useMatches().some((m) => m.id === "routes/locale");
+  return (
+    <>
+      <Outlet />
+      {translated && <LanguageSwitcher />}
+      <AppStatus />
+    </>
+  );
 }
 
 export function ErrorBoundary({ error }: Route.ErrorBoundaryProps) {
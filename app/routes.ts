@@ -1,3 +1,21 @@
-import { type RouteConfig, index } from "@react-router/dev/routes";
+import { type RouteConfig, index, route } from "@react-router/dev/routes";
 
-export default [index("routes/home.tsx")] satisfies RouteConfig;
+export default [
+  // translated pages: English at /, other locales at /es, /de, /fr
+  route(":lang?", "routes/locale.tsx", [
+    index("routes/home.tsx"),
+    route("steps-to-miles/:steps?", "routes/steps-to-miles.tsx"),
+    route("steps-to-km/:steps?", "routes/steps-to-km.tsx"),
+    route("guides", "routes/guides.tsx"),
+    route("guides/:slug", "routes/guide.tsx"),
+    route("step-log", "routes/step-log.tsx"),
+    route("walk-timer", "routes/walk-timer.tsx"),
+    route("metronome", "routes/metronome.tsx"),
+    route("stride-calibration", "routes/stride-calibration.tsx"),
+  ]),
+  route("api/calc", "routes/api.calc.ts"),
+  route("report", "routes/report.tsx"),
+  route("report.pdf", "routes/report.pdf.ts"),
+  route("sitemap.xml", "routes/sitemap.xml.ts"),
+  route("robots.txt", "routes/robots.txt.ts"),
+] satisfies RouteConfig;
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { action, loader } from "./api.calc";
+
+type LoaderArgs = Parameters<typeof loader>[0];
+type ActionArgs = Parameters<typeof action>[0];
+
+const args = (request: Request) =>
+  ({ request, params: {}, context: {} }) as unknown as LoaderArgs & ActionArgs;
+const url = (query = "") => `http://localhost/api/calc${query}`;
+
+describe("/api/calc", () => {
+  it("answers a CORS preflight without calculating", async () => {
+    const res = await loader(
+      args(new Request(url("?weight=abc"), { method: "OPTIONS" }))
+    );
+    expect(res.status).toBe(204);
+    expect(res.headers.get("Access-Control-Allow-Origin")).toBe("*");
+    expect(res.headers.get("Access-Control-Allow-Methods")).toContain("POST");
+    expect(await res.text()).toBe("");
+  });
+
+  it("calculates a GET", async () => {
+    const res = await loader(
+      args(new Request(url("?weight=70&height=170&steps=5000")))
+    );
+    const body = await res.json();
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Content-Type")).toContain("application/json");
+    expect(body.version).toBe(1);
+    expect(body.result.steps).toBe(5000);
+  });
+
+  it("leaves a missing sex unspecified, with or without other fields", async () => {
+    for (const query of ["", "?steps=5000"]) {
+      const res = await loader(args(new Request(url(query))));
+      expect((await res.json()).input.sex).toBe("unspecified");
+    }
+  });
+
+  it("rejects a bad GET", async () => {
+    const res = await loader(args(new Request(url("?weight=abc"))));
+    expect(res.status).toBe(400);
+    expect((await res.json()).errors[0].field).toBe("weight");
+  });
+
+  it("calculates a POST", async () => {
+    const res = await action(
+      args(
+        new Request(url(), {
+          method: "POST",
+          body: JSON.stringify({ weight: 70, height: 170, steps: 5000 }),
+        })
+      )
+    );
+    expect(res.status).toBe(200);
+    expect((await res.json()).result.steps).toBe(5000);
+  });
+
+  it("refuses other methods", async () => {
+    const res = await action(args(new Request(url(), { method: "PUT" })));
+    expect(res.status).toBe(405);
+  });
+});
@@ -0,0 +1,87 @@
+import type { Route } from "./+types/api.calc";
+import {
+  calculateFromState,
+  validateCalculatorInput,
+  type CalculatorState,
+  type FieldError,
+} from "~/lib/calculator";
+
+/* =========================================================
+   JSON CALCULATION API
+   GET  /api/calc?weight=70&height=170&steps=5000&pace=brisk
+   POST /api/calc  { "weight": 70, "height": 170, "steps": 5000 }
+   Accepts the same fields as the shareable calculator URL.
+========================================================= */
+export const API_VERSION = 1;
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type",
+  "Access-Control-Max-Age": "86400",
+};
+
+function respond(body: object, status = 200) {
+  return Response.json(
+    { version: API_VERSION, ...body },
+    {
+      status,
+      headers: { ...CORS_HEADERS, "Cache-Control": "no-store" },
+    }
+  );
+}
+
+function invalid(errors: FieldError[]) {
+  return respond({ error: "validation_failed", errors }, 400);
+}
+
+function calculate(state: CalculatorState) {
+  const r = calculateFromState(state);
+  return respond({
+    input: state,
+    result: {
+      steps: r.steps,
+      strideCm: r.strideCm,
+      distanceKm: r.distanceKm,
+      distanceMi: r.distanceMi,
+      minutes: r.minutes,
+      calories: r.calories,
+      loadGradeCalories: r.loadGradeCalories,
+      cadence: r.cadence,
+      mph: r.mph,
+      mets: r.mets,
+    },
+  });
+}
+
+// React Router hands OPTIONS to the loader (only mutations reach the action)
+export function loader({ request }: Route.LoaderArgs) {
+  if (request.method === "OPTIONS") {
+    return new Response(null, { status: 204, headers: CORS_HEADERS });
+  }
+  const { state, errors } = validateCalculatorInput(
+    new URL(request.url).searchParams
+  );
+  return errors.length ? invalid(errors) : calculate(state);
+}
+
+export async function action({ request }: Route.ActionArgs) {
+  if (request.method !== "POST") {
+    return respond({ error: "method_not_allowed" }, 405);
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return invalid([{ field: "body", message: "Body must be valid JSON." }]);
+  }
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return invalid([{ field: "body", message: "Body must be a JSON object." }]);
+  }
+
+  const { state, errors } = validateCalculatorInput(
+    body as Record<string, unknown>
+  );
+  return errors.length ? invalid(errors) : calculate(state);
+}
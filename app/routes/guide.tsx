@@ -0,0 +1,99 @@
+import type { Route } from "./+types/guide";
+import { Link } from "react-router";
+import { Breadcrumbs } from "~/components/Breadcrumbs";
+import {
+  GUIDES_PATH,
+  formatUpdated,
+  guideCrumbs,
+  guideJsonLd,
+  guideMeta,
+  guidePath,
+} from "~/lib/guides";
+import { getGuide, listGuides } from "~/lib/guides.server";
+import { localeFromParam, localizePath } from "~/lib/i18n";
+import { messagesFor, useLocale, useMessages } from "~/lib/messages";
+import { SITE_NAME } from "~/lib/seo";
+
+/* =========================================================
+   META
+========================================================= */
+export function meta({ data, params }: Route.MetaArgs) {
+  const locale = localeFromParam(params.lang);
+  if (!data) {
+    return [{ title: `${messagesFor(locale).guides.notFound} | ${SITE_NAME}` }];
+  }
+  const { guide } = data;
+  return guideMeta(
+    guide.title,
+    guide.description,
+    guidePath(guide.slug),
+    "article",
+    locale
+  );
+}
+
+/* =========================================================
+   LOADER
+========================================================= */
+export function loader({ params }: Route.LoaderArgs) {
+  const locale = localeFromParam(params.lang);
+  const guide = getGuide(params.slug, locale);
+  if (!guide) throw new Response("Not Found", { status: 404 });
+  const related = listGuides(locale).filter((g) => g.slug !== guide.slug);
+  return { guide, related };
+}
+
+export default function GuidePage({
+  loaderData: { guide, related },
+}: Route.ComponentProps) {
+  const locale = useLocale();
+  const t = useMessages().guides;
+  const pagePath = (path: string) => localizePath(path, locale);
+  return (
+    <main className="bg-emerald-50/20 text-emerald-900">
+      <script
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{
+          __html: JSON.stringify(guideJsonLd(guide, locale)),
+        }}
+      />
+      <Breadcrumbs crumbs={guideCrumbs(guide, locale)} />
+      <article lang={guide.locale} className="mx-auto max-w-3xl px-4 py-8">
+        <h1 className="text-3xl font-extrabold tracking-tight">
+          {guide.title}
+        </h1>
+        <p lang={locale} className="mt-2 text-sm text-emerald-600">
+          {t.updated}{" "}
+          <time dateTime={guide.updated}>
+            {formatUpdated(guide.updated, locale)}
+          </time>
+        </p>
+        <div
+          className="guide-content mt-6"
+          dangerouslySetInnerHTML={{ __html: guide.html }}
+        />
+      </article>
+      <nav aria-label={t.more} className="mx-auto max-w-3xl px-4 pb-12">
+        <h2 className="text-lg font-semibold">{t.more}</h2>
+        <ul className="mt-2 space-y-1 text-sm">
+          {related.map((g) => (
+            <li key={g.slug} lang={g.locale}>
+              <Link
+                to={pagePath(guidePath(g.slug))}
+                className="text-emerald-700 underline"
+              >
+                {g.title}
+              </Link>
+            </li>
+          ))}
+        </ul>
+        <Link
+          to={pagePath(GUIDES_PATH)}
+          className="mt-4 inline-block text-sm font-medium text-emerald-700 underline"
+        >
+          {t.all}
+        </Link>
+      </nav>
+    </main>
+  );
+}
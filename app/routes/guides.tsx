@@ -0,0 +1,80 @@
+import type { Route } from "./+types/guides";
+import { Link } from "react-router";
+import { Breadcrumbs } from "~/components/Breadcrumbs";
+import {
+  GUIDES_PATH,
+  formatUpdated,
+  guideMeta,
+  guidePath,
+  guidesIndexCrumbs,
+  guidesIndexJsonLd,
+} from "~/lib/guides";
+import { listGuides } from "~/lib/guides.server";
+import { localeFromParam, localizePath } from "~/lib/i18n";
+import { messagesFor, useLocale, useMessages } from "~/lib/messages";
+
+/* =========================================================
+   META
+========================================================= */
+export function meta({ params }: Route.MetaArgs) {
+  const locale = localeFromParam(params.lang);
+  const { indexTitle, indexDescription } = messagesFor(locale).guides;
+  return guideMeta(
+    indexTitle,
+    indexDescription,
+    GUIDES_PATH,
+    "website",
+    locale
+  );
+}
+
+/* =========================================================
+   LOADER
+========================================================= */
+export function loader({ params }: Route.LoaderArgs) {
+  return { guides: listGuides(localeFromParam(params.lang)) };
+}
+
+export default function Guides({
+  loaderData: { guides },
+}: Route.ComponentProps) {
+  const locale = useLocale();
+  const t = useMessages().guides;
+  return (
+    <main className="bg-emerald-50/20 text-emerald-900">
+      <script
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{
+          __html: JSON.stringify(guidesIndexJsonLd(guides, locale)),
+        }}
+      />
+      <Breadcrumbs crumbs={guidesIndexCrumbs(locale)} />
+      <section className="mx-auto max-w-7xl px-4 py-6 space-y-6">
+        <div>
+          <h1 className="text-3xl font-extrabold tracking-tight">
+            {t.indexTitle}
+          </h1>
+          <p className="mt-2 text-emerald-800">{t.indexDescription}</p>
+        </div>
+        <ul className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
+          {guides.map((g) => (
+            <li key={g.slug} lang={g.locale}>
+              <Link
+                to={localizePath(guidePath(g.slug), locale)}
+                className="block h-full rounded-xl border border-emerald-200 bg-white/70 p-4 shadow-sm transition hover:shadow-md"
+              >
+                <h2 className="text-lg font-semibold text-emerald-900">
+                  {g.title}
+                </h2>
+                <p className="mt-1 text-sm text-emerald-800">{g.description}</p>
+                <p className="mt-2 text-xs text-emerald-600">
+                  {t.updated} {formatUpdated(g.updated, locale)}
+                </p>
+              </Link>
+            </li>
+          ))}
+        </ul>
+      </section>
+    </main>
+  );
+}
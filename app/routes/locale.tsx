@@ -0,0 +1,22 @@
+import type { Route } from "./+types/locale";
+import { Outlet } from "react-router";
+import { DEFAULT_LOCALE, isLocale } from "~/lib/i18n";
+
+/* =========================================================
+   LOCALE LAYOUT
+   Wraps the translated pages. /en is not a prefix (English
+   lives at /), and an unknown prefix is a 404.
+========================================================= */
+export function loader({ params }: Route.LoaderArgs) {
+  if (
+    params.lang &&
+    (!isLocale(params.lang) || params.lang === DEFAULT_LOCALE)
+  ) {
+    throw new Response("Not Found", { status: 404 });
+  }
+  return null;
+}
+
+export default function LocaleLayout() {
+  return <Outlet />;
+}
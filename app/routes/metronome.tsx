@@ -0,0 +1,411 @@
+import type { Route } from "./+types/metronome";
+import { useEffect, useRef, useState } from "react";
+import { Link } from "react-router";
+import { Rich } from "~/components/Rich";
+import { Card, Field, NumberInput } from "~/components/ui";
+import {
+  DEFAULT_CALCULATOR_STATE,
+  parseCalculatorParams,
+  toCalculatorParams,
+  toWalkingInput,
+  type CalculatorState,
+} from "~/lib/calculator";
+import { unlockAudio } from "~/lib/cues";
+import {
+  alternateLinks,
+  formatInteger,
+  formatNumber,
+  localeFromParam,
+  localizePath,
+} from "~/lib/i18n";
+import { messagesFor, useLocale, useMessages } from "~/lib/messages";
+import {
+  MAX_BPM,
+  MIN_BPM,
+  bpmAt,
+  startMetronome,
+  type Metronome,
+  type TempoPlan,
+} from "~/lib/metronome";
+import { loadProfileState, loadStrides } from "~/lib/profile";
+import { SITE_URL } from "~/lib/seo";
+import {
+  calibratedStrideCm,
+  type StrideCalibrations,
+} from "~/lib/strideCalibration";
+import {
+  UNIT_LABELS,
+  formatLength,
+  formatMinutes,
+  roundTo,
+  speedFromMph,
+  speedPaceSwap,
+  speedToMph,
+} from "~/lib/units";
+import { clamp } from "~/lib/utils";
+import { PACE_ORDER } from "~/lib/walkSession";
+import {
+  PACE,
+  cadenceForSpeed,
+  nearestPace,
+  resolveStrideCm,
+  speedForCadence,
+  type PaceKey,
+} from "~/lib/walking";
+
+/* =========================================================
+   META
+========================================================= */
+export function meta({ params }: Route.MetaArgs) {
+  const locale = localeFromParam(params.lang);
+  const { title, description } = messagesFor(locale).metronome;
+  const url = `${SITE_URL}${localizePath("/metronome", locale)}`;
+  return [
+    { title },
+    { name: "description", content: description },
+    { property: "og:title", content: title },
+    { property: "og:description", content: description },
+    { property: "og:url", content: url },
+    { tagName: "link", rel: "canonical", href: url },
+    ...alternateLinks("/metronome"),
+  ];
+}
+
+/* =========================================================
+   LOADER
+   Accepts the calculator's query string, so "practice this
+   cadence" opens with the same body, stride and pace.
+========================================================= */
+export function loader({ request }: Route.LoaderArgs) {
+  const params = new URL(request.url).searchParams;
+  return {
+    calculator: params.toString() ? parseCalculatorParams(params) : null,
+  };
+}
+
+/* =========================================================
+   HELPERS
+========================================================= */
+type Source = "pace" | "speed" | "cadence";
+
+const SOURCES: Source[] = ["pace", "speed", "cadence"];
+
+function BeatLight({ beat }: { beat: number }) {
+  const [on, setOn] = useState(false);
+  useEffect(() => {
+    if (beat < 0) return;
+    setOn(true);
+    const id = window.setTimeout(() => setOn(false), 120);
+    return () => window.clearTimeout(id);
+  }, [beat]);
+  return (
+    <span
+      aria-hidden
+      className={`inline-block h-6 w-6 rounded-full transition-colors duration-75 ${
+        on ? "bg-emerald-500" : "bg-emerald-100"
+      }`}
+    />
+  );
+}
+
+/* =========================================================
+   PAGE
+========================================================= */
+export default function MetronomePage({ loaderData }: Route.ComponentProps) {
+  const locale = useLocale();
+  const m = useMessages();
+  const t = m.metronome;
+  const fmt = (n: number) => formatInteger(n, locale);
+  const linked = loaderData.calculator;
+  const [body, setBody] = useState<CalculatorState>(
+    linked ?? DEFAULT_CALCULATOR_STATE
+  );
+  const [bodySource, setBodySource] = useState<
+    "link" | "profile" | "reference"
+  >(linked ? "link" : "reference");
+  const [strides, setStrides] = useState<StrideCalibrations | null>(null);
+
+  const initialPace: PaceKey =
+    linked && linked.pace !== "custom" ? linked.pace : "brisk";
+  const [source, setSource] = useState<Source>(
+    linked?.pace === "custom" ? "speed" : "pace"
+  );
+  const [pace, setPace] = useState<PaceKey>(initialPace);
+  const [speed, setSpeed] = useState(
+    linked?.pace === "custom"
+      ? linked.speed
+      : roundTo(speedFromMph(PACE[initialPace].mph, body.units), 1)
+  );
+  const [cadence, setCadence] = useState(110);
+
+  const [ramp, setRamp] = useState(false);
+  const [rampTo, setRampTo] = useState(120);
+  const [rampMinutes, setRampMinutes] = useState(5);
+
+  const [running, setRunning] = useState(false);
+  const [beat, setBeat] = useState(-1);
+  const [liveBpm, setLiveBpm] = useState<number | null>(null);
+  const [unsupported, setUnsupported] = useState(false);
+  const metronome = useRef<Metronome | null>(null);
+
+  useEffect(() => {
+    if (linked) return;
+    const profile = loadProfileState();
+    if (profile) {
+      setBody(profile);
+      setBodySource("profile");
+      if (profile.pace !== "custom") setPace(profile.pace);
+    }
+    const saved = loadStrides();
+    if (saved?.use) setStrides(saved.strides);
+  }, []);
+
+  const units = body.units;
+  const u = UNIT_LABELS[units];
+  const input = toWalkingInput(body);
+  // measured strides where saved, else the body's stride at that speed
+  const strideAt = (mph: number) =>
+    (strides && calibratedStrideCm(strides, mph)) ??
+    resolveStrideCm({ ...input, speedMph: mph });
+
+  const targetMph =
+    source === "pace" ? PACE[pace].mph : speedToMph(speed, units);
+  const targetStrideCm = strideAt(targetMph);
+  const targetBpm =
+    source === "cadence" ? cadence : cadenceForSpeed(targetMph, targetStrideCm);
+  const startBpm = clamp(Math.round(targetBpm) || MIN_BPM, MIN_BPM, MAX_BPM);
+  const plan: TempoPlan = ramp
+    ? { startBpm, endBpm: rampTo, rampSeconds: rampMinutes * 60 }
+    : { startBpm, endBpm: startBpm, rampSeconds: 0 };
+
+  // any edit while running restarts the plan from the next click
+  const planKey = JSON.stringify(plan);
+  useEffect(() => {
+    metronome.current?.update(plan);
+  }, [planKey]);
+
+  useEffect(() => () => metronome.current?.stop(), []);
+
+  const start = () => {
+    unlockAudio();
+    const m = startMetronome(plan, (n, bpm) => {
+      setBeat(n);
+      setLiveBpm(bpm);
+    });
+    if (!m) {
+      setUnsupported(true);
+      return;
+    }
+    metronome.current = m;
+    setRunning(true);
+  };
+
+  const stop = () => {
+    metronome.current?.stop();
+    metronome.current = null;
+    setRunning(false);
+    setLiveBpm(null);
+  };
+
+  const shownBpm = liveBpm ?? bpmAt(plan, 0);
+  // the stride depends on the speed it gives; a few passes settle it
+  let shownMph = speedForCadence(shownBpm, strideAt(PACE.brisk.mph));
+  for (let i = 0; i < 5; i++) {
+    shownMph = speedForCadence(shownBpm, strideAt(shownMph));
+  }
+  const strideCm = strideAt(shownMph);
+  const shownSpeed = speedFromMph(shownMph, units);
+  const calculatorHref = `${localizePath("/", locale)}?${toCalculatorParams(body)}#calculator`;
+  const len = (cm: number) => formatLength(cm, units, locale);
+
+  return (
+    <main className="bg-emerald-50/20 text-emerald-900">
+      <div className="w-full border-b border-emerald-100 bg-emerald-50/60">
+        <div className="mx-auto max-w-7xl px-4 py-2 text-sm text-emerald-700">
+          <Link to={localizePath("/", locale)} className="underline">
+            I Love Steps
+          </Link>{" "}
+          • {t.crumb}
+        </div>
+      </div>
+
+      <section className="mx-auto max-w-7xl px-4 py-6 space-y-6">
+        <div>
+          <h1 className="text-3xl font-extrabold tracking-tight">
+            {t.heading}
+          </h1>
+          <p className="mt-2 text-emerald-800">{t.intro}</p>
+        </div>
+
+        <div className="grid gap-6 md:grid-cols-3">
+          {/* ---------- Tempo ---------- */}
+          <Card>
+            <h2 className="text-lg font-semibold">{t.tempo}</h2>
+            <div className="mt-3 flex overflow-hidden rounded-lg border border-emerald-300">
+              {SOURCES.map((k) => (
+                <button
+                  key={k}
+                  onClick={() => setSource(k)}
+                  className={`flex-1 px-3 py-2 text-sm ${
+                    source === k
+                      ? "bg-emerald-600 text-white"
+                      : "bg-white text-emerald-700"
+                  }`}
+                >
+                  {t.sources[k]}
+                </button>
+              ))}
+            </div>
+
+            <div className="mt-4 space-y-4">
+              {source === "pace" && (
+                <Field label={t.pace}>
+                  <select
+                    value={pace}
+                    onChange={(e) => setPace(e.target.value as PaceKey)}
+                    className="w-full rounded-lg border border-emerald-300 px-3 py-2 text-emerald-900"
+                  >
+                    {PACE_ORDER.map((k) => (
+                      <option key={k} value={k}>
+                        {m.paces[k]}
+                      </option>
+                    ))}
+                  </select>
+                </Field>
+              )}
+              {source === "speed" && (
+                <Field label={t.speed(u.speed)}>
+                  <NumberInput
+                    value={speed}
+                    onChange={(v) => setSpeed(clamp(v, 0, 15))}
+                    min={0}
+                    step={0.1}
+                  />
+                </Field>
+              )}
+              {source === "cadence" && (
+                <Field label={t.cadence}>
+                  <NumberInput
+                    value={cadence}
+                    onChange={(v) => setCadence(clamp(v, MIN_BPM, MAX_BPM))}
+                    min={MIN_BPM}
+                  />
+                </Field>
+              )}
+
+              {source !== "cadence" && (
+                <p className="text-sm text-emerald-700">
+                  <Rich
+                    text={t.withStride(len(targetStrideCm), fmt(targetBpm))}
+                  />
+                </p>
+              )}
+
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={ramp}
+                  onChange={(e) => setRamp(e.target.checked)}
+                  className="accent-emerald-600"
+                />
+                {t.ramp}
+              </label>
+              {ramp && (
+                <div className="grid grid-cols-2 gap-3">
+                  <Field label={t.finishAt}>
+                    <NumberInput
+                      value={rampTo}
+                      onChange={(v) => setRampTo(clamp(v, MIN_BPM, MAX_BPM))}
+                      min={MIN_BPM}
+                    />
+                  </Field>
+                  <Field label={t.over}>
+                    <NumberInput
+                      value={rampMinutes}
+                      onChange={(v) => setRampMinutes(clamp(v, 0, 60))}
+                      min={0}
+                    />
+                  </Field>
+                </div>
+              )}
+            </div>
+
+            <p className="mt-4 text-xs text-emerald-600">
+              <Rich
+                text={t.changeStride(
+                  t.strideFrom[strides ? "strides" : bodySource],
+                  calculatorHref,
+                  localizePath("/stride-calibration", locale)
+                )}
+              />
+            </p>
+          </Card>
+
+          {/* ---------- Player ---------- */}
+          <Card className="md:col-span-2">
+            <div className="text-center">
+              <div className="flex items-center justify-center gap-4">
+                <BeatLight beat={beat} />
+                <div className="text-7xl font-bold tabular-nums">
+                  {fmt(shownBpm)}
+                </div>
+              </div>
+              <div className="mt-1 text-sm text-emerald-700">
+                {m.common.stepsPerMin}
+              </div>
+              {ramp && (
+                <div className="mt-1 text-xs text-emerald-600">
+                  {t.rampLine(
+                    fmt(plan.startBpm),
+                    fmt(plan.endBpm),
+                    fmt(rampMinutes)
+                  )}
+                </div>
+              )}
+            </div>
+
+            <div className="mt-6 flex justify-center">
+              {running ? (
+                <button
+                  onClick={stop}
+                  className="rounded-xl bg-emerald-600 px-8 py-3 text-lg font-semibold text-white"
+                >
+                  {t.stop}
+                </button>
+              ) : (
+                <button
+                  onClick={start}
+                  className="rounded-xl bg-emerald-600 px-8 py-3 text-lg font-semibold text-white"
+                >
+                  {t.start}
+                </button>
+              )}
+            </div>
+            {unsupported && (
+              <p className="mt-3 text-center text-sm text-red-700">
+                {t.unsupported}
+              </p>
+            )}
+
+            <div className="mt-6 rounded-lg bg-emerald-50 p-4">
+              <h2 className="text-sm font-semibold">{t.speedHeading}</h2>
+              <p className="mt-1 text-emerald-800">
+                <Rich
+                  text={t.speedLine(
+                    fmt(shownBpm),
+                    len(strideCm),
+                    `${formatNumber(shownSpeed, locale, 1)} ${u.speed}`,
+                    `${formatMinutes(speedPaceSwap(shownSpeed))} ${u.pace}`,
+                    m.paceShort[nearestPace(shownMph)]
+                  )}
+                />
+              </p>
+            </div>
+
+            <p className="mt-6 text-xs text-emerald-600">{t.background}</p>
+          </Card>
+        </div>
+      </section>
+    </main>
+  );
+}
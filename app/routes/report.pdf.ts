@@ -0,0 +1,28 @@
+import type { Route } from "./+types/report.pdf";
+import { buildReport, parseReportParams } from "~/lib/report";
+import { renderReportPdf } from "~/lib/reportPdf";
+
+/* =========================================================
+   PDF REPORT (resource route)
+   GET /report.pdf?<same params as /report>
+   Rendered in-process by the built-in PDF writer.
+========================================================= */
+export function loader({ request }: Route.LoaderArgs) {
+  const { state, options } = parseReportParams(
+    new URL(request.url).searchParams
+  );
+  const pdf = renderReportPdf(buildReport(state, options));
+  const slug = options.client
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  const name = slug ? `walking-report-${slug}.pdf` : "walking-report.pdf";
+  return new Response(pdf, {
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Disposition": `inline; filename="${name}"`,
+      "Cache-Control": "no-store",
+      "X-Robots-Tag": "noindex",
+    },
+  });
+}
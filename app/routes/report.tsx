@@ -0,0 +1,37 @@
+import type { Route } from "./+types/report";
+import { renderToStaticMarkup } from "react-dom/server";
+import { ReportDocument } from "~/components/ReportDocument";
+import { toCalculatorParams } from "~/lib/calculator";
+import { localizePath } from "~/lib/i18n";
+import { buildReport, parseReportParams, toReportParams } from "~/lib/report";
+
+/* =========================================================
+   PRINTABLE REPORT (resource route)
+   GET /report?<calculator params>&client=&current=&goal=&ramp=&rows=&lang=
+   Print-optimized HTML; /report.pdf serves the same report as a PDF.
+========================================================= */
+export function loader({ request }: Route.LoaderArgs) {
+  const { state, options } = parseReportParams(
+    new URL(request.url).searchParams
+  );
+  const report = buildReport(state, options);
+  const query = (params: URLSearchParams) => {
+    const q = params.toString();
+    return q ? `?${q}` : "";
+  };
+
+  const html = renderToStaticMarkup(
+    <ReportDocument
+      report={report}
+      pdfHref={`/report.pdf${query(toReportParams(state, options))}`}
+      calculatorHref={`${localizePath("/", options.locale)}${query(toCalculatorParams(state))}#calculator`}
+    />
+  );
+  return new Response(`<!DOCTYPE html>${html}`, {
+    headers: {
+      "Content-Type": "text/html; charset=utf-8",
+      "Cache-Control": "no-store",
+      "X-Robots-Tag": "noindex",
+    },
+  });
+}
@@ -0,0 +1,13 @@
+import { robotsTxt } from "~/lib/sitemap";
+
+/* =========================================================
+   GET /robots.txt
+========================================================= */
+export function loader() {
+  return new Response(robotsTxt(), {
+    headers: {
+      "Content-Type": "text/plain; charset=utf-8",
+      "Cache-Control": "public, max-age=86400",
+    },
+  });
+}
@@ -0,0 +1,17 @@
+import dates from "virtual:ilovesteps/source-dates";
+import { sitemapPages, sitemapXml } from "~/lib/sitemap";
+
+/* =========================================================
+   GET /sitemap.xml
+   The route manifest comes from the server build itself, so
+   this always matches app/routes.ts.
+========================================================= */
+export async function loader() {
+  const { routes } = await import("virtual:react-router/server-build");
+  return new Response(sitemapXml(sitemapPages(routes, dates)), {
+    headers: {
+      "Content-Type": "application/xml; charset=utf-8",
+      "Cache-Control": "public, max-age=3600",
+    },
+  });
+}
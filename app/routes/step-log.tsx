@@ -0,0 +1,419 @@
+import type { Route } from "./+types/step-log";
+import { useEffect, useMemo, useState } from "react";
+import { Link } from "react-router";
+import { DataExport } from "~/components/DataExport";
+import { HealthImport } from "~/components/HealthImport";
+import { Rich } from "~/components/Rich";
+import { Card, Field, NumberInput } from "~/components/ui";
+import {
+  DEFAULT_CALCULATOR_STATE,
+  calculateFromState,
+  type CalculatorState,
+} from "~/lib/calculator";
+import { stepLogToCsv, toExportJson } from "~/lib/dataExport";
+import {
+  alternateLinks,
+  formatDay,
+  formatInteger,
+  localeFromParam,
+  localizePath,
+} from "~/lib/i18n";
+import { messagesFor, useLocale, useMessages } from "~/lib/messages";
+import { loadProfileState } from "~/lib/profile";
+import { SITE_URL } from "~/lib/seo";
+import {
+  currentStreak,
+  longestStreak,
+  monthStart,
+  monthlyTotals,
+  sortEntries,
+  toDateKey,
+  weekStart,
+  weeklyTotals,
+  type StepEntry,
+} from "~/lib/stepLog";
+import {
+  deleteEntry,
+  isStepLogSupported,
+  listEntries,
+  moveEntry,
+  replaceEntries,
+  putEntry,
+} from "~/lib/stepLogDb";
+import { errorText } from "~/lib/utils";
+
+/* =========================================================
+   META
+========================================================= */
+export function meta({ params }: Route.MetaArgs) {
+  const locale = localeFromParam(params.lang);
+  const { title, description } = messagesFor(locale).stepLog;
+  const url = `${SITE_URL}${localizePath("/step-log", locale)}`;
+  return [
+    { title },
+    { name: "description", content: description },
+    { property: "og:title", content: title },
+    { property: "og:description", content: description },
+    { property: "og:url", content: url },
+    { tagName: "link", rel: "canonical", href: url },
+    ...alternateLinks("/step-log"),
+  ];
+}
+
+/* =========================================================
+   HELPERS
+========================================================= */
+function caloriesFor(steps: number, base: CalculatorState) {
+  return calculateFromState({ ...base, mode: "steps", steps }).calories;
+}
+
+/* =========================================================
+   PAGE
+========================================================= */
+export default function StepLog() {
+  const locale = useLocale();
+  const t = useMessages().stepLog;
+  const fmt = (n: number) => formatInteger(n, locale);
+  const day = (key: string) =>
+    formatDay(key, locale, {
+      weekday: "short",
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+    });
+
+  const [entries, setEntries] = useState<StepEntry[]>([]);
+  const [status, setStatus] = useState<
+    "loading" | "ready" | "unsupported" | "error"
+  >("loading");
+  const [today, setToday] = useState("");
+  const [base, setBase] = useState<CalculatorState>(DEFAULT_CALCULATOR_STATE);
+  const [hasProfile, setHasProfile] = useState(false);
+
+  const [date, setDate] = useState("");
+  const [steps, setSteps] = useState(0);
+  const [note, setNote] = useState("");
+  const [editing, setEditing] = useState<string | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+
+  // everything here is browser-only; load after mount
+  useEffect(() => {
+    const now = toDateKey(new Date());
+    setToday(now);
+    setDate(now);
+    const profile = loadProfileState();
+    if (profile) {
+      setBase(profile);
+      setHasProfile(true);
+    }
+    if (!isStepLogSupported()) {
+      setStatus("unsupported");
+      return;
+    }
+    listEntries()
+      .then((list) => {
+        setEntries(list);
+        setStatus("ready");
+      })
+      .catch(() => setStatus("error"));
+  }, []);
+
+  const sorted = useMemo(() => sortEntries(entries), [entries]);
+  const weeks = useMemo(() => weeklyTotals(entries).slice(0, 8), [entries]);
+  const months = useMemo(() => monthlyTotals(entries).slice(0, 6), [entries]);
+  const thisWeek = weeks.find((w) => today && w.start === weekStart(today));
+  const thisMonth = months.find((m) => today && m.start === monthStart(today));
+
+  const resetForm = () => {
+    setDate(today);
+    setSteps(0);
+    setNote("");
+    setEditing(null);
+  };
+
+  const save = async () => {
+    if (!date || steps < 0) return;
+    const entry: StepEntry = {
+      date,
+      steps: Math.round(steps),
+      note: note.trim() || undefined,
+      updatedAt: new Date().toISOString(),
+    };
+    const moved = editing && editing !== date ? editing : null;
+    setSaveError(null);
+    try {
+      await (moved ? moveEntry(moved, entry) : putEntry(entry));
+    } catch (e) {
+      setSaveError(t.saveError(errorText(e)));
+      return;
+    }
+    setEntries((list) => [
+      ...list.filter((e) => e.date !== date && e.date !== moved),
+      entry,
+    ]);
+    resetForm();
+  };
+
+  const edit = (e: StepEntry) => {
+    setDate(e.date);
+    setSteps(e.steps);
+    setNote(e.note ?? "");
+    setEditing(e.date);
+  };
+
+  const remove = async (key: string) => {
+    setDeleteError(null);
+    try {
+      await deleteEntry(key);
+    } catch (e) {
+      setDeleteError(t.deleteError(errorText(e)));
+      return;
+    }
+    setEntries((list) => list.filter((e) => e.date !== key));
+    if (editing === key) resetForm();
+  };
+
+  const merge = (saved: StepEntry[]) => {
+    const dates = new Set(saved.map((e) => e.date));
+    setEntries((list) => [...list.filter((e) => !dates.has(e.date)), ...saved]);
+  };
+
+  const existing = entries.find((e) => e.date === date);
+
+  return (
+    <main className="bg-emerald-50/20 text-emerald-900">
+      <div className="w-full border-b border-emerald-100 bg-emerald-50/60">
+        <div className="mx-auto max-w-7xl px-4 py-2 text-sm text-emerald-700">
+          <Link to={localizePath("/", locale)} className="underline">
+            I Love Steps
+          </Link>{" "}
+          • {t.crumb}
+        </div>
+      </div>
+
+      <section className="mx-auto max-w-7xl px-4 py-6 space-y-6">
+        <div>
+          <h1 className="text-3xl font-extrabold tracking-tight">
+            {t.heading}
+          </h1>
+          <p className="mt-2 text-emerald-800">{t.intro}</p>
+        </div>
+
+        {status === "unsupported" && <Card>{t.unsupported}</Card>}
+        {status === "error" && <Card>{t.storageError}</Card>}
+
+        {/* ---------- Stats ---------- */}
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+          <Card>
+            <div className="text-sm text-emerald-700">{t.currentStreak}</div>
+            <div className="text-3xl font-bold">
+              {t.days(today ? currentStreak(entries, today) : 0)}
+            </div>
+          </Card>
+          <Card>
+            <div className="text-sm text-emerald-700">{t.longestStreak}</div>
+            <div className="text-3xl font-bold">
+              {t.days(longestStreak(entries))}
+            </div>
+          </Card>
+          <Card>
+            <div className="text-sm text-emerald-700">{t.thisWeek}</div>
+            <div className="text-3xl font-bold">
+              {fmt(thisWeek?.steps ?? 0)}
+            </div>
+            <div className="text-xs text-emerald-600">
+              {t.aboutCalories(fmt(caloriesFor(thisWeek?.steps ?? 0, base)))}
+            </div>
+          </Card>
+          <Card>
+            <div className="text-sm text-emerald-700">{t.thisMonth}</div>
+            <div className="text-3xl font-bold">
+              {fmt(thisMonth?.steps ?? 0)}
+            </div>
+            <div className="text-xs text-emerald-600">
+              {t.aboutCalories(fmt(caloriesFor(thisMonth?.steps ?? 0, base)))}
+            </div>
+          </Card>
+        </div>
+
+        <div className="grid gap-6 md:grid-cols-3">
+          {/* ---------- Entry form ---------- */}
+          <Card>
+            <h2 className="text-lg font-semibold">
+              {editing ? t.editEntry : t.addSteps}
+            </h2>
+            <div className="mt-4 space-y-4">
+              <Field label={t.date}>
+                <input
+                  type="date"
+                  value={date}
+                  max={today || undefined}
+                  onChange={(e) => setDate(e.target.value)}
+                  className="w-full rounded-lg border border-emerald-300 px-3 py-2 text-emerald-900"
+                />
+              </Field>
+              <Field
+                label={t.steps}
+                hint={
+                  existing && existing.date !== editing
+                    ? t.replaces(fmt(existing.steps))
+                    : undefined
+                }
+              >
+                <NumberInput value={steps} onChange={setSteps} step={100} />
+              </Field>
+              <Field label={t.note}>
+                <input
+                  type="text"
+                  value={note}
+                  maxLength={140}
+                  onChange={(e) => setNote(e.target.value)}
+                  className="w-full rounded-lg border border-emerald-300 px-3 py-2 text-emerald-900"
+                />
+              </Field>
+              <div className="flex gap-3">
+                <button
+                  onClick={save}
+                  disabled={status !== "ready" || !date}
+                  className="rounded-lg bg-emerald-600 px-4 py-2 text-sm text-white disabled:opacity-50"
+                >
+                  {editing ? t.saveChanges : t.logSteps}
+                </button>
+                {editing && (
+                  <button
+                    onClick={resetForm}
+                    className="rounded-lg border border-emerald-300 px-4 py-2 text-sm text-emerald-700"
+                  >
+                    {t.cancel}
+                  </button>
+                )}
+              </div>
+              {saveError && <p className="text-sm text-red-700">{saveError}</p>}
+              <p className="text-xs text-emerald-600">
+                {hasProfile ? (
+                  t.profileCalories
+                ) : (
+                  <Rich
+                    text={t.referenceCalories(
+                      `${localizePath("/", locale)}#calculator`
+                    )}
+                  />
+                )}
+              </p>
+            </div>
+          </Card>
+
+          {/* ---------- History ---------- */}
+          <Card className="md:col-span-2">
+            <div className="flex flex-wrap items-start justify-between gap-3">
+              <h2 className="text-lg font-semibold">{t.history}</h2>
+              <DataExport
+                kind="step-log"
+                disabled={status !== "ready"}
+                csv={() => stepLogToCsv(entries, base)}
+                json={() => toExportJson({ stepLog: sortEntries(entries) })}
+                onRestore={async ({ stepLog }) => {
+                  if (!stepLog) return t.noStepLog;
+                  await replaceEntries(stepLog);
+                  setEntries(stepLog);
+                  if (editing) resetForm();
+                  return t.restored(fmt(stepLog.length));
+                }}
+              />
+            </div>
+            {deleteError && (
+              <p className="mt-2 text-sm text-red-700">{deleteError}</p>
+            )}
+            {sorted.length === 0 ? (
+              <p className="mt-3 text-sm text-emerald-700">{t.empty}</p>
+            ) : (
+              <div className="mt-3 overflow-x-auto">
+                <table className="w-full text-sm text-emerald-800">
+                  <thead className="bg-emerald-100 text-emerald-900">
+                    <tr>
+                      <th className="p-2 text-left">{t.date}</th>
+                      <th className="p-2 text-right">{t.steps}</th>
+                      <th className="p-2 text-right">{t.calories}</th>
+                      <th className="p-2 text-left">{t.noteColumn}</th>
+                      <th className="p-2" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {sorted.map((e) => (
+                      <tr key={e.date} className="border-t border-emerald-100">
+                        <td className="p-2">{day(e.date)}</td>
+                        <td className="p-2 text-right">{fmt(e.steps)}</td>
+                        <td className="p-2 text-right">
+                          {fmt(caloriesFor(e.steps, base))}
+                        </td>
+                        <td className="p-2">{e.note}</td>
+                        <td className="p-2 text-right whitespace-nowrap">
+                          <button
+                            onClick={() => edit(e)}
+                            className="text-emerald-700 underline"
+                          >
+                            {t.edit}
+                          </button>{" "}
+                          <button
+                            onClick={() => remove(e.date)}
+                            className="ml-2 text-red-700 underline"
+                          >
+                            {t.delete}
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </Card>
+        </div>
+
+        {/* ---------- Import ---------- */}
+        <HealthImport
+          base={base}
+          entries={entries}
+          disabled={status !== "ready"}
+          onSaved={merge}
+        />
+
+        {/* ---------- Totals ---------- */}
+        <div className="grid gap-6 md:grid-cols-2">
+          <Card>
+            <h2 className="text-lg font-semibold">{t.weeklyTotals}</h2>
+            <ul className="mt-3 space-y-1 text-sm text-emerald-800">
+              {weeks.map((w) => (
+                <li key={w.start} className="flex justify-between">
+                  <span>{t.weekOf(day(w.start))}</span>
+                  <span>
+                    {t.total(fmt(w.steps), fmt(caloriesFor(w.steps, base)))}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </Card>
+          <Card>
+            <h2 className="text-lg font-semibold">{t.monthlyTotals}</h2>
+            <ul className="mt-3 space-y-1 text-sm text-emerald-800">
+              {months.map((m) => (
+                <li key={m.start} className="flex justify-between">
+                  <span>
+                    {formatDay(m.start, locale, {
+                      month: "long",
+                      year: "numeric",
+                    })}
+                  </span>
+                  <span>
+                    {t.total(fmt(m.steps), fmt(caloriesFor(m.steps, base)))}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </Card>
+        </div>
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,42 @@
+import type { Route } from "./+types/steps-to-km";
+import { redirect } from "react-router";
+import { StepsConverterPage } from "~/components/StepsConverterPage";
+import { LOCALE_VARY, localeFromParam, localizePath } from "~/lib/i18n";
+import {
+  CONVERTERS,
+  CONVERTER_CACHE_CONTROL,
+  STEPS_QUERY_KEY,
+  converterMeta,
+  parseLandingSteps,
+} from "~/lib/stepConversion";
+
+/* =========================================================
+   META
+========================================================= */
+export function meta({ data, params }: Route.MetaArgs) {
+  return converterMeta("km", data?.steps ?? null, localeFromParam(params.lang));
+}
+
+export function headers() {
+  return { "Cache-Control": CONVERTER_CACHE_CONTROL, Vary: LOCALE_VARY };
+}
+
+/* =========================================================
+   LOADER
+   /steps-to-km, or a landing page like /steps-to-km/10000; other
+   counts redirect to /steps-to-km?steps=N
+========================================================= */
+export function loader({ params }: Route.LoaderArgs) {
+  if (!params.steps) return { steps: null };
+  const landing = parseLandingSteps(params.steps);
+  if (!landing) throw new Response("Not Found", { status: 404 });
+  if ("redirect" in landing) {
+    const path = localizePath(CONVERTERS.km.path, localeFromParam(params.lang));
+    throw redirect(`${path}?${STEPS_QUERY_KEY}=${landing.redirect}`, 301);
+  }
+  return { steps: landing.steps };
+}
+
+export default function StepsToKm({ loaderData }: Route.ComponentProps) {
+  return <StepsConverterPage unit="km" steps={loaderData.steps} />;
+}
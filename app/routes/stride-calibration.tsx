@@ -0,0 +1,420 @@
+import type { Route } from "./+types/stride-calibration";
+import { useEffect, useRef, useState } from "react";
+import { Link } from "react-router";
+import { Rich } from "~/components/Rich";
+import { Card, Field, NumberInput } from "~/components/ui";
+import {
+  ACTIVITY_FILE_ACCEPT,
+  ActivityImportError,
+  readActivityFile,
+  type ActivitySummary,
+} from "~/lib/activityFile";
+import {
+  DEFAULT_CALCULATOR_STATE,
+  toWalkingInput,
+  type CalculatorState,
+} from "~/lib/calculator";
+import {
+  alternateLinks,
+  formatInteger,
+  formatLocalDate,
+  localeFromParam,
+  localizePath,
+} from "~/lib/i18n";
+import { messagesFor, useLocale, useMessages } from "~/lib/messages";
+import { loadProfileState, loadStrides, saveStrides } from "~/lib/profile";
+import { SITE_URL } from "~/lib/seo";
+import {
+  CalibrationError,
+  HALLWAY_DEFAULT_M,
+  STRIDE_LIMITS_CM,
+  TRACK_LAP_M,
+  measureStride,
+  type CalibrationMethod,
+  type StrideCalibrations,
+  type StrideMeasurement,
+} from "~/lib/strideCalibration";
+import { formatDistance, formatLength } from "~/lib/units";
+import { clamp } from "~/lib/utils";
+import { PACE_ORDER } from "~/lib/walkSession";
+import {
+  MI_PER_KM,
+  PACE,
+  estimateStrideCm,
+  nearestPace,
+  type PaceKey,
+} from "~/lib/walking";
+
+/* =========================================================
+   META
+========================================================= */
+export function meta({ params }: Route.MetaArgs) {
+  const locale = localeFromParam(params.lang);
+  const { title, description } = messagesFor(locale).strideCalibration;
+  const url = `${SITE_URL}${localizePath("/stride-calibration", locale)}`;
+  return [
+    { title },
+    { name: "description", content: description },
+    { property: "og:title", content: title },
+    { property: "og:description", content: description },
+    { property: "og:url", content: url },
+    { tagName: "link", rel: "canonical", href: url },
+    ...alternateLinks("/stride-calibration"),
+  ];
+}
+
+/* =========================================================
+   HELPERS
+========================================================= */
+const METHODS: CalibrationMethod[] = ["track", "hallway", "route"];
+
+const M_PER_FT = 0.3048;
+
+/* =========================================================
+   PAGE
+========================================================= */
+export default function StrideCalibration() {
+  const locale = useLocale();
+  const m = useMessages();
+  const t = m.strideCalibration;
+  const fmt = (n: number) => formatInteger(n, locale);
+  const [body, setBody] = useState<CalculatorState>(DEFAULT_CALCULATOR_STATE);
+  const [strides, setStrides] = useState<StrideCalibrations>({});
+
+  const [method, setMethod] = useState<CalibrationMethod>("track");
+  const [pace, setPace] = useState<PaceKey>("brisk");
+  const [laps, setLaps] = useState(1);
+  const [hallLength, setHallLength] = useState(HALLWAY_DEFAULT_M); // m | ft
+  const [lengths, setLengths] = useState(4);
+  const [route, setRoute] = useState<ActivitySummary | null>(null);
+  const [routeError, setRouteError] = useState<string | null>(null);
+  const [steps, setSteps] = useState(0);
+
+  const [result, setResult] = useState<{
+    pace: PaceKey;
+    measurement: StrideMeasurement;
+  } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const profile = loadProfileState();
+    if (profile) {
+      setBody(profile);
+      if (profile.pace !== "custom") setPace(profile.pace);
+      if (profile.units === "imperial") setHallLength(66);
+    }
+    setStrides(loadStrides()?.strides ?? {});
+  }, []);
+
+  const units = body.units;
+  const input = toWalkingInput(body);
+  const estimate = estimateStrideCm(input.heightCm, input.sex, PACE[pace].mph);
+
+  const distanceM =
+    method === "track"
+      ? laps * TRACK_LAP_M
+      : method === "hallway"
+        ? lengths * hallLength * (units === "imperial" ? M_PER_FT : 1)
+        : (route?.distanceKm ?? 0) * 1000;
+
+  // clear the result whenever an input changes
+  useEffect(() => {
+    setResult(null);
+    setError(null);
+    setSaved(false);
+  }, [method, pace, laps, hallLength, lengths, route, steps]);
+
+  const loadRoute = async (file: File | undefined) => {
+    if (!file) return;
+    setRouteError(null);
+    try {
+      const summary = await readActivityFile(file);
+      setRoute(summary);
+      // guess the pace from the recorded speed
+      if (summary.movingMinutes > 0) {
+        const mph =
+          (summary.distanceKm * MI_PER_KM) / (summary.movingMinutes / 60);
+        setPace(nearestPace(mph));
+      }
+    } catch (e) {
+      setRoute(null);
+      setRouteError(
+        e instanceof ActivityImportError
+          ? m.activityImport.errors[e.reason]
+          : t.readError
+      );
+    }
+  };
+
+  const calculate = () => {
+    try {
+      setResult({ pace, measurement: measureStride(distanceM, steps, method) });
+      setError(null);
+    } catch (e) {
+      setResult(null);
+      setError(
+        e instanceof CalibrationError ? calibrationMessage(e) : String(e)
+      );
+    }
+  };
+
+  const save = () => {
+    if (!result) return;
+    const next = { ...strides, [result.pace]: result.measurement };
+    saveStrides({ use: true, strides: next });
+    setStrides(next);
+    setSaved(true);
+  };
+
+  const remove = (k: PaceKey) => {
+    const rest = { ...strides };
+    delete rest[k];
+    saveStrides({ use: loadStrides()?.use ?? true, strides: rest });
+    setStrides(rest);
+  };
+
+  const calibrationMessage = (e: CalibrationError) =>
+    e.reason === "range"
+      ? t.errors.range(
+          fmt(e.strideCm ?? 0),
+          fmt(STRIDE_LIMITS_CM[0]),
+          fmt(STRIDE_LIMITS_CM[1])
+        )
+      : t.errors[e.reason];
+
+  const calibrated = PACE_ORDER.filter((k) => strides[k]);
+  const len = (cm: number) => formatLength(cm, units, locale);
+  const calculatorHref = `${localizePath("/", locale)}#calculator`;
+
+  return (
+    <main className="bg-emerald-50/20 text-emerald-900">
+      <div className="w-full border-b border-emerald-100 bg-emerald-50/60">
+        <div className="mx-auto max-w-7xl px-4 py-2 text-sm text-emerald-700">
+          <Link to={localizePath("/", locale)} className="underline">
+            I Love Steps
+          </Link>{" "}
+          • {t.crumb}
+        </div>
+      </div>
+
+      <section className="mx-auto max-w-4xl px-4 py-6 space-y-6">
+        <div>
+          <h1 className="text-3xl font-extrabold tracking-tight">
+            {t.heading}
+          </h1>
+          <p className="mt-2 text-emerald-800">
+            {t.intro(len(estimate), m.paceShort[pace])}
+          </p>
+        </div>
+
+        {/* ---------- 1. Where ---------- */}
+        <Card>
+          <h2 className="text-lg font-semibold">{t.pickDistance}</h2>
+          <div className="mt-3 grid gap-3 sm:grid-cols-3">
+            {METHODS.map((k) => (
+              <button
+                key={k}
+                onClick={() => setMethod(k)}
+                className={`rounded-xl border p-3 text-left ${
+                  method === k
+                    ? "border-emerald-600 bg-emerald-50 ring-2 ring-emerald-300"
+                    : "border-emerald-200 bg-white"
+                }`}
+              >
+                <div className="font-semibold">{t.methods[k].name}</div>
+                <div className="text-sm text-emerald-700">
+                  {t.methods[k].blurb}
+                </div>
+              </button>
+            ))}
+          </div>
+        </Card>
+
+        {/* ---------- 2. Walk ---------- */}
+        <Card>
+          <h2 className="text-lg font-semibold">{t.walkAndCount}</h2>
+          <ol className="mt-3 list-decimal space-y-1 pl-5 text-sm text-emerald-800">
+            {t.methods[method].steps.map((s) => (
+              <li key={s}>{s}</li>
+            ))}
+          </ol>
+
+          <div className="mt-4 grid gap-4 sm:grid-cols-2">
+            <Field label={t.paceWalked}>
+              <select
+                value={pace}
+                onChange={(e) => setPace(e.target.value as PaceKey)}
+                className="w-full rounded-lg border border-emerald-300 px-3 py-2 text-emerald-900"
+              >
+                {PACE_ORDER.map((k) => (
+                  <option key={k} value={k}>
+                    {m.paces[k]}
+                  </option>
+                ))}
+              </select>
+            </Field>
+
+            {method === "track" && (
+              <Field label={t.laps} hint={t.inTotal(`${fmt(distanceM)} m`)}>
+                <NumberInput
+                  value={laps}
+                  onChange={(v) => setLaps(clamp(Math.round(v), 1, 25))}
+                  min={1}
+                />
+              </Field>
+            )}
+            {method === "hallway" && (
+              <>
+                <Field label={t.hallLength(units === "metric" ? "m" : "ft")}>
+                  <NumberInput
+                    value={hallLength}
+                    onChange={(v) => setHallLength(clamp(v, 0, 1000))}
+                    min={0}
+                  />
+                </Field>
+                <Field
+                  label={t.timesWalked}
+                  hint={t.inTotal(
+                    formatDistance(distanceM / 1000, units, 3, locale)
+                  )}
+                >
+                  <NumberInput
+                    value={lengths}
+                    onChange={(v) => setLengths(clamp(Math.round(v), 1, 50))}
+                    min={1}
+                  />
+                </Field>
+              </>
+            )}
+            {method === "route" && (
+              <Field label={t.routeFile}>
+                <button
+                  onClick={() => fileRef.current?.click()}
+                  className="w-full rounded-lg border-2 border-dashed border-emerald-300 px-3 py-2 text-sm text-emerald-700"
+                >
+                  {route
+                    ? `${route.name}: ${formatDistance(route.distanceKm, units, 2, locale)}`
+                    : t.chooseFile}
+                </button>
+                <input
+                  ref={fileRef}
+                  type="file"
+                  accept={ACTIVITY_FILE_ACCEPT}
+                  className="hidden"
+                  onChange={(e) => {
+                    loadRoute(e.target.files?.[0]);
+                    e.target.value = "";
+                  }}
+                />
+                {routeError && (
+                  <p className="mt-1 text-xs text-red-700">{routeError}</p>
+                )}
+              </Field>
+            )}
+
+            <Field label={t.stepsCounted}>
+              <NumberInput
+                value={steps}
+                onChange={(v) => setSteps(Math.max(0, Math.round(v)))}
+                min={0}
+              />
+            </Field>
+          </div>
+
+          <button
+            onClick={calculate}
+            className="mt-4 rounded-lg bg-emerald-600 px-4 py-2 text-white"
+          >
+            {t.calculate}
+          </button>
+          {error && <p className="mt-3 text-sm text-red-700">{error}</p>}
+        </Card>
+
+        {/* ---------- 3. Save ---------- */}
+        {result && (
+          <Card>
+            <h2 className="text-lg font-semibold">{t.saveIt}</h2>
+            <p className="mt-2 text-emerald-800">
+              <Rich
+                text={t.result(
+                  fmt(result.measurement.distanceM),
+                  fmt(result.measurement.steps),
+                  len(result.measurement.strideCm),
+                  m.paceShort[result.pace]
+                )}
+              />{" "}
+              {Math.abs(result.measurement.strideCm - estimate) >= 1 &&
+                (result.measurement.strideCm > estimate ? t.longer : t.shorter)(
+                  len(Math.abs(result.measurement.strideCm - estimate))
+                )}
+            </p>
+            {saved ? (
+              <p className="mt-3 text-sm text-emerald-800">
+                <Rich text={t.saved(calculatorHref)} />
+              </p>
+            ) : (
+              <button
+                onClick={save}
+                className="mt-3 rounded-lg bg-emerald-600 px-4 py-2 text-white"
+              >
+                {t.save}
+              </button>
+            )}
+          </Card>
+        )}
+
+        {/* ---------- Saved ---------- */}
+        <Card>
+          <h2 className="text-lg font-semibold">{t.yours}</h2>
+          {calibrated.length ? (
+            <>
+              <div className="mt-3 overflow-x-auto">
+                <table className="w-full text-sm text-emerald-800">
+                  <thead className="bg-emerald-100 text-emerald-900">
+                    <tr>
+                      <th className="p-2 text-left">{t.pace}</th>
+                      <th className="p-2 text-right">{t.stride}</th>
+                      <th className="p-2 text-left">{t.measured}</th>
+                      <th className="p-2" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {calibrated.map((k) => {
+                      const s = strides[k]!;
+                      return (
+                        <tr key={k} className="border-t border-emerald-100">
+                          <td className="p-2">{m.paces[k]}</td>
+                          <td className="p-2 text-right">{len(s.strideCm)}</td>
+                          <td className="p-2">
+                            {t.measuredWith(
+                              t.methods[s.method].name,
+                              fmt(s.steps),
+                              formatLocalDate(s.measuredAt, locale)
+                            )}
+                          </td>
+                          <td className="p-2 text-right">
+                            <button
+                              onClick={() => remove(k)}
+                              className="text-red-700 underline"
+                            >
+                              {t.delete}
+                            </button>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+              <p className="mt-3 text-xs text-emerald-600">{t.between}</p>
+            </>
+          ) : (
+            <p className="mt-2 text-sm text-emerald-700">{t.none}</p>
+          )}
+        </Card>
+      </section>
+    </main>
+  );
+}
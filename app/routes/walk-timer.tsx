@@ -0,0 +1,710 @@
+import type { Route } from "./+types/walk-timer";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Link } from "react-router";
+import { Rich } from "~/components/Rich";
+import { Card, Field, NumberInput } from "~/components/ui";
+import {
+  DEFAULT_CALCULATOR_STATE,
+  describeBody,
+  toWalkingInput,
+  type CalculatorState,
+} from "~/lib/calculator";
+import { playCue, unlockAudio } from "~/lib/cues";
+import {
+  alternateLinks,
+  formatInteger,
+  formatLocalDate,
+  localeFromParam,
+  localizePath,
+} from "~/lib/i18n";
+import { messagesFor, useLocale, useMessages } from "~/lib/messages";
+import { loadProfileState } from "~/lib/profile";
+import { SITE_URL } from "~/lib/seo";
+import { toDateKey } from "~/lib/stepLog";
+import {
+  addSteps,
+  deleteWalk,
+  isStepLogSupported,
+  listWalks,
+  putWalk,
+} from "~/lib/stepLogDb";
+import { formatDistance } from "~/lib/units";
+import { clamp, errorText } from "~/lib/utils";
+import { startWalkCues } from "~/lib/walkCues";
+import {
+  DEFAULT_PROGRAM_OPTIONS,
+  PACE_ORDER,
+  buildProgram,
+  positionAt,
+  programSeconds,
+  sessionTotals,
+  toWalkRecord,
+  type ProgramKind,
+  type ProgramOptions,
+  type SessionSegment,
+  type WalkRecord,
+} from "~/lib/walkSession";
+import { PACE, type PaceKey } from "~/lib/walking";
+
+/* =========================================================
+   META
+========================================================= */
+export function meta({ params }: Route.MetaArgs) {
+  const locale = localeFromParam(params.lang);
+  const { title, description } = messagesFor(locale).walkTimer;
+  const url = `${SITE_URL}${localizePath("/walk-timer", locale)}`;
+  return [
+    { title },
+    { name: "description", content: description },
+    { property: "og:title", content: title },
+    { property: "og:description", content: description },
+    { property: "og:url", content: url },
+    { tagName: "link", rel: "canonical", href: url },
+    ...alternateLinks("/walk-timer"),
+  ];
+}
+
+/* =========================================================
+   HELPERS
+========================================================= */
+const PROGRAMS: ProgramKind[] = ["intervals", "steady", "ramp"];
+
+/** 75 → "1:15", 3725 → "1:02:05". */
+function clock(seconds: number) {
+  const s = Math.max(0, Math.ceil(seconds));
+  const h = Math.floor(s / 3600);
+  const m = Math.floor((s % 3600) / 60);
+  const ss = String(s % 60).padStart(2, "0");
+  return h ? `${h}:${String(m).padStart(2, "0")}:${ss}` : `${m}:${ss}`;
+}
+
+function PaceSelect({
+  value,
+  onChange,
+  disabled,
+}: {
+  value: PaceKey;
+  onChange: (pace: PaceKey) => void;
+  disabled?: boolean;
+}) {
+  const paces = useMessages().paces;
+  return (
+    <select
+      value={value}
+      disabled={disabled}
+      onChange={(e) => onChange(e.target.value as PaceKey)}
+      className="w-full rounded-lg border border-emerald-300 px-3 py-2 text-emerald-900"
+    >
+      {PACE_ORDER.map((k) => (
+        <option key={k} value={k}>
+          {paces[k]}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+/** Keeps the screen on while a walk runs, where the browser allows it. */
+function useWakeLock(active: boolean) {
+  useEffect(() => {
+    if (!active || !("wakeLock" in navigator)) return;
+    let lock: WakeLockSentinel | null = null;
+    let released = false;
+    const acquire = () => {
+      if (document.visibilityState !== "visible") return;
+      navigator.wakeLock
+        .request("screen")
+        .then((l) => {
+          if (released) l.release();
+          else lock = l;
+        })
+        .catch(() => {});
+    };
+    acquire();
+    // the lock drops whenever the page is hidden; take it back on return
+    document.addEventListener("visibilitychange", acquire);
+    return () => {
+      released = true;
+      document.removeEventListener("visibilitychange", acquire);
+      lock?.release();
+    };
+  }, [active]);
+}
+
+type Status = "idle" | "running" | "paused" | "finished";
+
+/* =========================================================
+   PAGE
+========================================================= */
+export default function WalkTimer() {
+  const locale = useLocale();
+  const m = useMessages();
+  const t = m.walkTimer;
+  const fmt = (n: number) => formatInteger(n, locale);
+
+  const [kind, setKind] = useState<ProgramKind>("intervals");
+  const [options, setOptions] = useState<ProgramOptions>(
+    DEFAULT_PROGRAM_OPTIONS
+  );
+  const [body, setBody] = useState<CalculatorState>(DEFAULT_CALCULATOR_STATE);
+  const [hasProfile, setHasProfile] = useState(false);
+  const [sound, setSound] = useState(true);
+  const [vibrate, setVibrate] = useState(true);
+
+  // the clock: time banked before the last pause, plus the running stretch
+  const [status, setStatus] = useState<Status>("idle");
+  const [bankedMs, setBankedMs] = useState(0);
+  const [runningSince, setRunningSince] = useState<number | null>(null);
+  const [startedAt, setStartedAt] = useState<Date | null>(null);
+  const [endedAt, setEndedAt] = useState<Date | null>(null);
+  const [now, setNow] = useState(0);
+  const lastIndex = useRef(-1);
+
+  const [walks, setWalks] = useState<WalkRecord[]>([]);
+  const [storage, setStorage] = useState<"loading" | "ready" | "unavailable">(
+    "loading"
+  );
+  const [addToLog, setAddToLog] = useState(true);
+  const [saved, setSaved] = useState(false);
+  const [storeError, setStoreError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const profile = loadProfileState();
+    if (profile) {
+      setBody(profile);
+      setHasProfile(true);
+    }
+    if (!isStepLogSupported()) {
+      setStorage("unavailable");
+      return;
+    }
+    listWalks()
+      .then((list) => {
+        setWalks(list);
+        setStorage("ready");
+      })
+      .catch(() => setStorage("unavailable"));
+  }, []);
+
+  const segments = useMemo(
+    () => buildProgram(kind, options[kind]),
+    [kind, options]
+  );
+  const total = programSeconds(segments);
+  const input = toWalkingInput(body);
+  const distance = (km: number) => formatDistance(km, body.units, 2, locale);
+
+  const elapsed =
+    (bankedMs + (runningSince !== null ? now - runningSince : 0)) / 1000;
+  const position = positionAt(segments, elapsed);
+  const totals = sessionTotals(segments, Math.min(elapsed, total), input);
+  const planned = sessionTotals(segments, total, input);
+  const next: SessionSegment | undefined = segments[position.index + 1];
+
+  useWakeLock(status === "running");
+
+  // tick while running; timestamps keep it right even if ticks are late
+  useEffect(() => {
+    if (status !== "running") return;
+    const tick = () => setNow(Date.now());
+    tick();
+    const id = window.setInterval(tick, 250);
+    document.addEventListener("visibilitychange", tick);
+    return () => {
+      window.clearInterval(id);
+      document.removeEventListener("visibilitychange", tick);
+    };
+  }, [status]);
+
+  // beeps are queued ahead on the audio clock; only vibration waits for a tick
+  useEffect(() => {
+    if (status !== "running" || !sound || runningSince === null) return;
+    const cues = startWalkCues(
+      segments,
+      (bankedMs + Date.now() - runningSince) / 1000
+    );
+    return () => cues?.stop();
+  }, [status, sound]);
+
+  // buzz at each pace change, and finish at the end of the program
+  useEffect(() => {
+    if (status !== "running") return;
+    const { index, done } = position;
+    if (index === lastIndex.current) return;
+    const prev = segments[lastIndex.current];
+    lastIndex.current = index;
+    if (done) {
+      setBankedMs(total * 1000);
+      setRunningSince(null);
+      setEndedAt(new Date());
+      setStatus("finished");
+      playCue("done", { sound: false, vibrate });
+    } else if (prev && position.segment) {
+      const faster = PACE[position.segment.pace].mph > PACE[prev.pace].mph;
+      playCue(faster ? "faster" : "slower", { sound: false, vibrate });
+    }
+  }, [status, position.index]);
+
+  const start = () => {
+    unlockAudio();
+    const t = Date.now();
+    if (status === "idle") {
+      lastIndex.current = 0;
+      setStartedAt(new Date(t));
+      setSaved(false);
+      setStoreError(null);
+    }
+    setNow(t);
+    setRunningSince(t);
+    setStatus("running");
+  };
+
+  const pause = () => {
+    const t = Date.now();
+    setBankedMs((ms) => ms + (runningSince !== null ? t - runningSince : 0));
+    setRunningSince(null);
+    setStatus("paused");
+  };
+
+  const finish = () => {
+    const t = Date.now();
+    setBankedMs((ms) => ms + (runningSince !== null ? t - runningSince : 0));
+    setRunningSince(null);
+    setEndedAt(new Date(t));
+    setStatus("finished");
+  };
+
+  const reset = () => {
+    setStatus("idle");
+    setBankedMs(0);
+    setRunningSince(null);
+    setStartedAt(null);
+    setEndedAt(null);
+    setSaved(false);
+    setStoreError(null);
+    lastIndex.current = -1;
+  };
+
+  const save = async () => {
+    if (!startedAt || !endedAt || totals.seconds < 1) return;
+    const walk = toWalkRecord(kind, segments, totals, startedAt, endedAt);
+    setStoreError(null);
+    try {
+      await putWalk(walk);
+      setWalks((list) => [...list.filter((w) => w.id !== walk.id), walk]);
+      if (addToLog && walk.steps > 0) {
+        await addSteps(toDateKey(startedAt), walk.steps);
+      }
+      setSaved(true);
+    } catch (e) {
+      setStoreError(t.saveError(errorText(e)));
+    }
+  };
+
+  const remove = async (id: string) => {
+    setStoreError(null);
+    try {
+      await deleteWalk(id);
+      setWalks((list) => list.filter((w) => w.id !== id));
+    } catch (e) {
+      setStoreError(t.deleteError(errorText(e)));
+    }
+  };
+
+  const setOption = <K extends ProgramKind>(
+    k: K,
+    patch: Partial<ProgramOptions[K]>
+  ) => setOptions((o) => ({ ...o, [k]: { ...o[k], ...patch } }));
+
+  const locked = status !== "idle";
+  const recent = [...walks]
+    .sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+    .slice(0, 10);
+
+  return (
+    <main className="bg-emerald-50/20 text-emerald-900">
+      <div className="w-full border-b border-emerald-100 bg-emerald-50/60">
+        <div className="mx-auto max-w-7xl px-4 py-2 text-sm text-emerald-700">
+          <Link to={localizePath("/", locale)} className="underline">
+            I Love Steps
+          </Link>{" "}
+          • {t.crumb}
+        </div>
+      </div>
+
+      <section className="mx-auto max-w-7xl px-4 py-6 space-y-6">
+        <div>
+          <h1 className="text-3xl font-extrabold tracking-tight">
+            {t.heading}
+          </h1>
+          <p className="mt-2 text-emerald-800">{t.intro}</p>
+        </div>
+
+        <div className="grid gap-6 md:grid-cols-3">
+          {/* ---------- Program ---------- */}
+          <Card>
+            <h2 className="text-lg font-semibold">{t.program}</h2>
+            <div className="mt-3 flex overflow-hidden rounded-lg border border-emerald-300">
+              {PROGRAMS.map((k) => (
+                <button
+                  key={k}
+                  onClick={() => setKind(k)}
+                  disabled={locked}
+                  className={`flex-1 px-3 py-2 text-sm disabled:opacity-60 ${
+                    kind === k
+                      ? "bg-emerald-600 text-white"
+                      : "bg-white text-emerald-700"
+                  }`}
+                >
+                  {t.programs[k].name}
+                </button>
+              ))}
+            </div>
+            <p className="mt-2 text-xs text-emerald-600">
+              {t.programs[kind].blurb}
+            </p>
+
+            <fieldset disabled={locked} className="mt-4 space-y-4">
+              {kind === "intervals" && (
+                <>
+                  <Field label={t.rounds}>
+                    <NumberInput
+                      value={options.intervals.rounds}
+                      onChange={(v) =>
+                        setOption("intervals", { rounds: clamp(v, 1, 60) })
+                      }
+                      min={1}
+                    />
+                  </Field>
+                  <div className="grid grid-cols-2 gap-3">
+                    <Field label={t.fastPace}>
+                      <PaceSelect
+                        value={options.intervals.fastPace}
+                        onChange={(fastPace) =>
+                          setOption("intervals", { fastPace })
+                        }
+                      />
+                    </Field>
+                    <Field label={t.fastSeconds}>
+                      <NumberInput
+                        value={options.intervals.fastSeconds}
+                        onChange={(v) =>
+                          setOption("intervals", {
+                            fastSeconds: clamp(v, 5, 1800),
+                          })
+                        }
+                        min={5}
+                        step={15}
+                      />
+                    </Field>
+                    <Field label={t.easyPace}>
+                      <PaceSelect
+                        value={options.intervals.easyPace}
+                        onChange={(easyPace) =>
+                          setOption("intervals", { easyPace })
+                        }
+                      />
+                    </Field>
+                    <Field label={t.easySeconds}>
+                      <NumberInput
+                        value={options.intervals.easySeconds}
+                        onChange={(v) =>
+                          setOption("intervals", {
+                            easySeconds: clamp(v, 5, 1800),
+                          })
+                        }
+                        min={5}
+                        step={15}
+                      />
+                    </Field>
+                  </div>
+                  <Field label={t.warmup} hint={t.warmupHint}>
+                    <NumberInput
+                      value={options.intervals.warmupMinutes}
+                      onChange={(v) =>
+                        setOption("intervals", {
+                          warmupMinutes: clamp(v, 0, 30),
+                        })
+                      }
+                      min={0}
+                    />
+                  </Field>
+                </>
+              )}
+              {kind === "steady" && (
+                <>
+                  <Field label={t.pace}>
+                    <PaceSelect
+                      value={options.steady.pace}
+                      onChange={(pace) => setOption("steady", { pace })}
+                    />
+                  </Field>
+                  <Field label={t.minutes}>
+                    <NumberInput
+                      value={options.steady.minutes}
+                      onChange={(v) =>
+                        setOption("steady", { minutes: clamp(v, 1, 240) })
+                      }
+                      min={1}
+                      step={5}
+                    />
+                  </Field>
+                </>
+              )}
+              {kind === "ramp" && (
+                <>
+                  <Field label={t.topPace}>
+                    <PaceSelect
+                      value={options.ramp.topPace}
+                      onChange={(topPace) => setOption("ramp", { topPace })}
+                    />
+                  </Field>
+                  <Field label={t.minutes}>
+                    <NumberInput
+                      value={options.ramp.minutes}
+                      onChange={(v) =>
+                        setOption("ramp", { minutes: clamp(v, 1, 240) })
+                      }
+                      min={1}
+                      step={5}
+                    />
+                  </Field>
+                </>
+              )}
+            </fieldset>
+
+            <div className="mt-4 space-y-2 text-sm">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={sound}
+                  onChange={(e) => setSound(e.target.checked)}
+                  className="accent-emerald-600"
+                />
+                {t.sound}
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={vibrate}
+                  onChange={(e) => setVibrate(e.target.checked)}
+                  className="accent-emerald-600"
+                />
+                {t.vibrate}
+              </label>
+            </div>
+
+            <p className="mt-4 rounded-lg bg-emerald-50 p-3 text-sm text-emerald-800">
+              {t.planned(
+                clock(total),
+                distance(planned.distanceKm),
+                fmt(planned.steps),
+                fmt(planned.calories)
+              )}
+            </p>
+          </Card>
+
+          {/* ---------- Session ---------- */}
+          <Card className="md:col-span-2">
+            <div className="text-center">
+              <div className="text-sm uppercase tracking-wide text-emerald-600">
+                {status === "finished"
+                  ? t.finished
+                  : position.segment
+                    ? m.paces[position.segment.pace]
+                    : t.ready}
+              </div>
+              <div
+                className="mt-1 text-7xl font-bold tabular-nums"
+                aria-live="off"
+              >
+                {status === "idle"
+                  ? clock(segments[0]?.seconds ?? 0)
+                  : clock(position.remaining)}
+              </div>
+              <div className="mt-1 text-sm text-emerald-700">
+                {next && status !== "finished"
+                  ? t.next(m.paces[next.pace], clock(next.seconds))
+                  : status === "finished"
+                    ? ""
+                    : t.lastStretch}
+              </div>
+            </div>
+
+            <div
+              className="mt-4 h-3 overflow-hidden rounded-full bg-emerald-100"
+              role="progressbar"
+              aria-valuemin={0}
+              aria-valuemax={total}
+              aria-valuenow={Math.round(Math.min(elapsed, total))}
+            >
+              <div
+                className="h-full bg-emerald-600"
+                style={{
+                  width: `${total ? (Math.min(elapsed, total) / total) * 100 : 0}%`,
+                }}
+              />
+            </div>
+            <div className="mt-1 flex justify-between text-xs text-emerald-600">
+              <span>{t.elapsed(clock(Math.min(elapsed, total)))}</span>
+              <span>{t.left(clock(total - Math.min(elapsed, total)))}</span>
+            </div>
+
+            <dl className="mt-6 grid grid-cols-3 gap-4 text-center">
+              <div>
+                <dt className="text-sm text-emerald-700">{t.distance}</dt>
+                <dd className="text-2xl font-bold">
+                  {distance(totals.distanceKm)}
+                </dd>
+              </div>
+              <div>
+                <dt className="text-sm text-emerald-700">{t.steps}</dt>
+                <dd className="text-2xl font-bold">{fmt(totals.steps)}</dd>
+              </div>
+              <div>
+                <dt className="text-sm text-emerald-700">{t.calories}</dt>
+                <dd className="text-2xl font-bold">{fmt(totals.calories)}</dd>
+              </div>
+            </dl>
+
+            <div className="mt-6 flex flex-wrap justify-center gap-3">
+              {(status === "idle" || status === "paused") && (
+                <button
+                  onClick={start}
+                  disabled={total === 0}
+                  className="rounded-xl bg-emerald-600 px-6 py-3 text-lg font-semibold text-white disabled:opacity-50"
+                >
+                  {status === "idle" ? t.start : t.resume}
+                </button>
+              )}
+              {status === "running" && (
+                <button
+                  onClick={pause}
+                  className="rounded-xl bg-emerald-600 px-6 py-3 text-lg font-semibold text-white"
+                >
+                  {t.pause}
+                </button>
+              )}
+              {(status === "running" || status === "paused") && (
+                <button
+                  onClick={finish}
+                  className="rounded-xl border border-emerald-300 px-6 py-3 text-lg text-emerald-800"
+                >
+                  {t.finishNow}
+                </button>
+              )}
+              {status !== "idle" && (
+                <button
+                  onClick={reset}
+                  className="rounded-xl border border-emerald-300 px-6 py-3 text-lg text-emerald-800"
+                >
+                  {status === "finished" ? t.newWalk : t.discard}
+                </button>
+              )}
+            </div>
+
+            {status === "finished" && (
+              <div className="mt-6 rounded-lg bg-emerald-50 p-4 text-sm text-emerald-800">
+                {saved ? (
+                  <p>
+                    {t.saved}{" "}
+                    {addToLog && (
+                      <Rich
+                        text={t.addedToLog(
+                          fmt(totals.steps),
+                          localizePath("/step-log", locale)
+                        )}
+                      />
+                    )}
+                  </p>
+                ) : storage === "ready" ? (
+                  <div className="flex flex-wrap items-center gap-4">
+                    <button
+                      onClick={save}
+                      disabled={totals.seconds < 1}
+                      className="rounded-lg bg-emerald-600 px-4 py-2 text-white disabled:opacity-50"
+                    >
+                      {t.saveWalk}
+                    </button>
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={addToLog}
+                        onChange={(e) => setAddToLog(e.target.checked)}
+                        className="accent-emerald-600"
+                      />
+                      {t.addToLog(fmt(totals.steps))}
+                    </label>
+                  </div>
+                ) : (
+                  <p>{t.noStorage}</p>
+                )}
+                {storeError && (
+                  <p className="mt-2 text-red-700">{storeError}</p>
+                )}
+              </div>
+            )}
+
+            <p className="mt-6 text-xs text-emerald-600">
+              {t.estimates(describeBody(body, locale), hasProfile)}
+            </p>
+          </Card>
+        </div>
+
+        {/* ---------- History ---------- */}
+        {recent.length > 0 && (
+          <Card>
+            <h2 className="text-lg font-semibold">{t.recent}</h2>
+            {storeError && status !== "finished" && (
+              <p className="mt-2 text-sm text-red-700">{storeError}</p>
+            )}
+            <div className="mt-3 overflow-x-auto">
+              <table className="w-full text-sm text-emerald-800">
+                <thead className="bg-emerald-100 text-emerald-900">
+                  <tr>
+                    <th className="p-2 text-left">{t.started}</th>
+                    <th className="p-2 text-left">{t.program}</th>
+                    <th className="p-2 text-right">{t.time}</th>
+                    <th className="p-2 text-right">{t.distance}</th>
+                    <th className="p-2 text-right">{t.steps}</th>
+                    <th className="p-2 text-right">{t.calories}</th>
+                    <th className="p-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {recent.map((w) => (
+                    <tr key={w.id} className="border-t border-emerald-100">
+                      <td className="p-2">
+                        {formatLocalDate(w.startedAt, locale, {
+                          dateStyle: "medium",
+                          timeStyle: "short",
+                        })}
+                      </td>
+                      <td className="p-2">{t.programs[w.program].name}</td>
+                      <td className="p-2 text-right">
+                        {clock(w.minutes * 60)}
+                      </td>
+                      <td className="p-2 text-right">
+                        {distance(w.distanceKm)}
+                      </td>
+                      <td className="p-2 text-right">{fmt(w.steps)}</td>
+                      <td className="p-2 text-right">{fmt(w.calories)}</td>
+                      <td className="p-2 text-right">
+                        <button
+                          onClick={() => remove(w.id)}
+                          className="text-red-700 underline"
+                        >
+                          {t.delete}
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </Card>
+        )}
+      </section>
+    </main>
+  );
+}
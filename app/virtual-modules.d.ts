@@ -0,0 +1,5 @@
+declare module "virtual:ilovesteps/source-dates" {
+  import type { SourceDates } from "~/lib/sitemap";
+  const dates: SourceDates;
+  export default dates;
+}
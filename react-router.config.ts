@@ -1,7 +1,12 @@
 import type { Config } from "@react-router/dev/config";
+import { prerenderPaths } from "./app/lib/stepConversion";
 
 export default {
   // Config options...
   // Server-side render by default, to enable SPA mode set this to `false`
   ssr: true,
+  // the steps converters and their landing pages in every language are
+  // static HTML (so an unprefixed one skips the language redirect);
+  // everything else stays server-rendered
+  prerender: prerenderPaths,
 } satisfies Config;
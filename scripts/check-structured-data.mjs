@@ -0,0 +1,56 @@
+// Build-time check: every JSON-LD document the site emits must pass
+// app/lib/structuredData.ts. Loads the app's TypeScript through Vite,
+// the same way server.js does in development.
+import { createServer } from "vite";
+
+const vite = await createServer({
+  server: { middlewareMode: true },
+  appType: "custom",
+  logLevel: "error",
+});
+
+let problems = [];
+let checked = 0;
+try {
+  const load = (path) => vite.ssrLoadModule(path);
+  const { homeJsonLd, validateJsonLd } = await load(
+    "/app/lib/structuredData.ts"
+  );
+  const { LOCALES, localizePath } = await load("/app/lib/i18n.ts");
+  const { CONVERTERS, LANDING_STEP_COUNTS, converterSeo } = await load(
+    "/app/lib/stepConversion.ts"
+  );
+  const { GUIDES_PATH, guideJsonLd, guidePath, guidesIndexJsonLd } =
+    await load("/app/lib/guides.ts");
+  const { listGuides } = await load("/app/lib/guides.server.ts");
+
+  const check = (doc, label) => {
+    checked++;
+    problems.push(...validateJsonLd(doc, label));
+  };
+
+  for (const locale of LOCALES) {
+    check(homeJsonLd(locale), localizePath("/", locale));
+    for (const unit of Object.keys(CONVERTERS)) {
+      for (const steps of [null, ...LANDING_STEP_COUNTS]) {
+        const seo = converterSeo(unit, steps, locale);
+        check(seo.jsonLd, seo.url);
+      }
+    }
+    const guides = listGuides(locale);
+    check(guidesIndexJsonLd(guides, locale), localizePath(GUIDES_PATH, locale));
+    for (const guide of guides)
+      check(
+        guideJsonLd(guide, locale),
+        localizePath(guidePath(guide.slug), locale)
+      );
+  }
+} finally {
+  await vite.close();
+}
+
+if (problems.length) {
+  console.error(`Structured data check failed:\n  ${problems.join("\n  ")}`);
+  process.exit(1);
+}
+console.log(`Structured data OK (${checked} documents)`);
@@ -0,0 +1,24 @@
+/* =========================================================
+   SERVER BUILD ENTRY
+   Vite plugin, listed after the Netlify one: that plugin makes
+   its function handler the only input of the server build, so
+   React Router can't find its own server build in the manifest
+   and the build-time prerender fails. This adds it back as a
+   second entry (build/server/index.js) next to the handler.
+========================================================= */
+import type { Plugin } from "vite";
+
+const SERVER_BUILD_ID = "virtual:react-router/server-build";
+
+export function serverBuildEntry(): Plugin {
+  return {
+    name: "ilovesteps:server-build-entry",
+    apply: "build",
+    config(config, { isSsrBuild }) {
+      const input = config.build?.rollupOptions?.input;
+      if (!isSsrBuild || !input || typeof input !== "object") return;
+      if (Array.isArray(input)) input.push(SERVER_BUILD_ID);
+      else input.index = SERVER_BUILD_ID;
+    },
+  };
+}
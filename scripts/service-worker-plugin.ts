@@ -0,0 +1,86 @@
+/* =========================================================
+   SERVICE WORKER BUILD
+   Vite plugin: once the server build has finished (React
+   Router writes its browser manifest and moves server-only
+   assets into the client folder then), fills in
+   scripts/service-worker.js with every asset and public file
+   in build/client and the page shells, and writes it as /sw.js. The version
+   is a hash of the worker and that list, so a build with the
+   same output keeps the installed worker.
+========================================================= */
+import { createHash } from "node:crypto";
+import { readFileSync, readdirSync, writeFileSync } from "node:fs";
+import { join, relative, resolve, sep } from "node:path";
+import type { Plugin, ResolvedConfig } from "vite";
+
+const TEMPLATE = new URL("./service-worker.js", import.meta.url);
+const MESSAGES_DIR = new URL("../app/lib/messages/", import.meta.url);
+const OUTPUT = "sw.js";
+
+const TOOL_PATHS = [
+  "/step-log",
+  "/walk-timer",
+  "/metronome",
+  "/stride-calibration",
+];
+
+/**
+ * Pages precached for offline use: the calculator, step log, walk
+ * timer, metronome and stride calibration in every language (one per
+ * catalog in app/lib/messages, English unprefixed).
+ */
+function shellPaths() {
+  const locales = readdirSync(MESSAGES_DIR)
+    .map((f) => /^([a-z]{2})\.ts$/.exec(f)?.[1])
+    .filter((l): l is string => !!l)
+    .sort();
+  return locales.flatMap((l) => {
+    const prefix = l === "en" ? "" : `/${l}`;
+    return [prefix || "/", ...TOOL_PATHS.map((p) => `${prefix}${p}`)];
+  });
+}
+
+/**
+ * Site files under `dir`, skipping host config (`_redirects`), dot folders
+ * and prerendered pages (HTML and route data), which are cached like any
+ * other page.
+ */
+function siteFiles(dir: string): string[] {
+  return readdirSync(dir, { recursive: true, withFileTypes: true })
+    .filter((d) => d.isFile())
+    .map((d) => relative(dir, join(d.parentPath, d.name)).split(sep).join("/"))
+    .filter(
+      (f) => f !== OUTPUT && !/(^|\/)[._]/.test(f) && !/\.(html|data)$/.test(f)
+    )
+    .sort();
+}
+
+export function serviceWorker(): Plugin {
+  let config: ResolvedConfig;
+  return {
+    name: "ilovesteps:service-worker",
+    apply: "build",
+    configResolved(resolved) {
+      config = resolved;
+    },
+    closeBundle() {
+      if (!config.build.ssr) return;
+      // build/server → build/client
+      const clientDir = resolve(config.build.outDir, "..", "client");
+      const precache = siteFiles(clientDir).map((f) => `${config.base}${f}`);
+      const shells = shellPaths();
+      const template = readFileSync(TEMPLATE, "utf8");
+      const version = createHash("sha256")
+        .update(template)
+        .update(JSON.stringify([precache, shells]))
+        .digest("hex")
+        .slice(0, 12);
+
+      const source = template
+        .replace("__SW_VERSION__", JSON.stringify(version))
+        .replace("__SW_PRECACHE__", JSON.stringify(precache))
+        .replace("__SW_SHELLS__", JSON.stringify(shells));
+      writeFileSync(join(clientDir, OUTPUT), source);
+    },
+  };
+}
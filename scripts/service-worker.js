@@ -0,0 +1,128 @@
+/* =========================================================
+   SERVICE WORKER (template)
+   Built into build/client/sw.js by scripts/service-worker-plugin.ts,
+   which fills in the __SW_…__ placeholders below.
+   - Hashed assets and public files: cache-first, precached.
+   - Page shells (home and the on-device tools, in each locale):
+     precached, so the calculator and the step log open offline.
+   - Other pages and route data: network-first, last copy kept,
+     up to MAX_PAGES of them (each calculator link is its own URL).
+   A new build waits until the page says SKIP_WAITING (the
+   "new version" prompt), so one tab never mixes two builds.
+========================================================= */
+const VERSION = __SW_VERSION__;
+const PRECACHE_URLS = __SW_PRECACHE__;
+const SHELL_URLS = __SW_SHELLS__;
+
+const PREFIX = "ilovesteps-";
+const ASSETS = `${PREFIX}assets-${VERSION}`;
+const PAGES = `${PREFIX}pages-${VERSION}`;
+const MAX_PAGES = 60; // not counting the shells
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    (async () => {
+      const assets = await caches.open(ASSETS);
+      await assets.addAll(PRECACHE_URLS);
+      const pages = await caches.open(PAGES);
+      await Promise.all(
+        SHELL_URLS.map(async (url) => {
+          try {
+            const res = await fetch(url, { cache: "no-cache" });
+            // unprefixed pages redirect to the visitor's language; that
+            // one is cached under its own URL, and a redirected response
+            // can't serve a navigation
+            if (res.ok && !res.redirected) await pages.put(url, res);
+          } catch {
+            // a shell that fails now is cached on its next visit
+          }
+        })
+      );
+    })()
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    (async () => {
+      // pages from an older build point at assets that are gone
+      for (const key of await caches.keys()) {
+        if (key.startsWith(PREFIX) && key !== ASSETS && key !== PAGES) {
+          await caches.delete(key);
+        }
+      }
+      await self.clients.claim();
+    })()
+  );
+});
+
+self.addEventListener("message", (event) => {
+  if (event.data?.type === "SKIP_WAITING") self.skipWaiting();
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== "GET" || url.origin !== self.location.origin) return;
+  if (url.pathname.startsWith("/api/")) return;
+
+  if (PRECACHE_URLS.includes(url.pathname)) {
+    event.respondWith(cacheFirst(request));
+  } else if (request.mode === "navigate") {
+    event.respondWith(networkFirst(request, () => shellFor(url.pathname)));
+  } else if (url.pathname.endsWith(".data") || url.pathname === "/__manifest") {
+    event.respondWith(networkFirst(request, () => undefined));
+  }
+});
+
+async function cacheFirst(request) {
+  return (await caches.match(request)) ?? fetch(request);
+}
+
+async function networkFirst(request, fallback) {
+  try {
+    const res = await fetch(request);
+    if (res.ok && !res.redirected) {
+      const copy = res.clone();
+      caches.open(PAGES).then(async (cache) => {
+        await cache.put(request, copy);
+        await trimPages(cache);
+      });
+    }
+    return res;
+  } catch (error) {
+    const cached =
+      (await caches.match(request)) ??
+      (await caches.match(request, { ignoreSearch: true })) ??
+      (await fallback());
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+/** Drops the oldest copies past MAX_PAGES; keys come back oldest first. */
+async function trimPages(cache) {
+  const shells = SHELL_URLS.map(
+    (url) => new URL(url, self.location.origin).href
+  );
+  const extra = (await cache.keys()).filter((req) => !shells.includes(req.url));
+  await Promise.all(extra.slice(0, -MAX_PAGES).map((req) => cache.delete(req)));
+}
+
+/**
+ * Offline stand-in for an uncached page: a redirect to the closest
+ * precached shell (the home page in the same language), so the app
+ * hydrates at the URL its HTML was rendered for.
+ */
+async function shellFor(path) {
+  const locale = SHELL_URLS.find(
+    (s) => s !== "/" && (path === s || path.startsWith(`${s}/`))
+  );
+  for (const url of [locale ?? "/", ...SHELL_URLS]) {
+    if (url === path) continue;
+    if (await caches.match(url)) {
+      return Response.redirect(new URL(url, self.location.origin).href, 302);
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,66 @@
+/* =========================================================
+   SOURCE DATES
+   Vite plugin: serves `virtual:ilovesteps/source-dates`, the
+   date (YYYY-MM-DD) each route module and message catalog
+   last changed, for the sitemap's <lastmod>. A committed file
+   uses its last commit; a file with uncommitted edits, or a
+   checkout without git, uses its modification time.
+========================================================= */
+import { execFileSync } from "node:child_process";
+import { readdirSync, statSync } from "node:fs";
+import { fileURLToPath } from "node:url";
+import type { Plugin } from "vite";
+
+const ID = "virtual:ilovesteps/source-dates";
+const RESOLVED_ID = `\0${ID}`;
+const APP_DIR = fileURLToPath(new URL("../app/", import.meta.url));
+
+/** Folders under app/ whose files feed page content. */
+const SOURCE_DIRS = ["routes", "lib/messages"];
+
+function git(args: string[]) {
+  try {
+    return execFileSync("git", args, {
+      cwd: APP_DIR,
+      encoding: "utf8",
+      stdio: ["ignore", "pipe", "ignore"],
+    }).trim();
+  } catch {
+    return null; // no git, or not a repository
+  }
+}
+
+function lastChanged(file: string) {
+  const path = `${APP_DIR}${file}`;
+  const committed =
+    git(["status", "--porcelain", "--", path]) === ""
+      ? git(["log", "-1", "--format=%cs", "--", path])
+      : null;
+  return committed || statSync(path).mtime.toISOString().slice(0, 10);
+}
+
+/** Keyed like route ids: the path under app/ without its extension. */
+export function sourceDates() {
+  const dates: Record<string, string> = {};
+  for (const dir of SOURCE_DIRS) {
+    for (const name of readdirSync(`${APP_DIR}${dir}`)) {
+      if (!/\.tsx?$/.test(name) || name.includes(".test.")) continue;
+      const file = `${dir}/${name}`;
+      dates[file.replace(/\.tsx?$/, "")] = lastChanged(file);
+    }
+  }
+  return dates;
+}
+
+export function sourceDatesModule(): Plugin {
+  return {
+    name: "ilovesteps:source-dates",
+    resolveId(id) {
+      return id === ID ? RESOLVED_ID : null;
+    },
+    load(id) {
+      if (id !== RESOLVED_ID) return null;
+      return `export default ${JSON.stringify(sourceDates())};`;
+    },
+  };
+}
@@ -38,7 +38,15 @@ if (DEVELOPMENT) {
     express.static("build/client/assets", { immutable: true, maxAge: "1y" }),
   );
   app.use(morgan("tiny"));
-  app.use(express.static("build/client", { maxAge: "1h" }));
+  app.use(
+    express.static("build/client", {
+      maxAge: "1h",
+      // browsers must see a new service worker as soon as it ships
+      setHeaders(res, path) {
+        if (path.endsWith("sw.js")) res.setHeader("Cache-Control", "no-cache");
+      },
+    }),
+  );
   app.use(await import(BUILD_PATH).then((mod) => mod.app));
 }
 
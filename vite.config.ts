@@ -4,6 +4,9 @@ import { reactRouter } from "@react-router/dev/vite";
 import tailwindcss from "@tailwindcss/vite";
 import tsconfigPaths from "vite-tsconfig-paths";
 import netlifyPlugin from "@netlify/vite-plugin-react-router";
+import { serverBuildEntry } from "./scripts/server-build-entry-plugin";
+import { serviceWorker } from "./scripts/service-worker-plugin";
+import { sourceDatesModule } from "./scripts/source-dates-plugin";
 
 export default defineConfig({
   plugins: [
@@ -11,5 +14,8 @@ export default defineConfig({
     tsconfigPaths(),
     tailwindcss(),
     netlifyPlugin(), // generates the Netlify serverless function for SSR
+    serverBuildEntry(), // keeps React Router's server build for the prerender
+    serviceWorker(), // emits /sw.js with this build's precache list
+    sourceDatesModule(), // last-change dates for the sitemap
   ],
 });
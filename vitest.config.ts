@@ -0,0 +1,13 @@
+// vitest.config.ts
+// Kept apart from vite.config.ts: the React Router plugin only runs
+// under the React Router CLI.
+import { defineConfig } from "vitest/config";
+import tsconfigPaths from "vite-tsconfig-paths";
+import { sourceDatesModule } from "./scripts/source-dates-plugin";
+
+export default defineConfig({
+  plugins: [tsconfigPaths(), sourceDatesModule()],
+  test: {
+    include: ["app/**/*.test.ts", "scripts/**/*.test.ts"],
+  },
+});